@@ -1,528 +1,1459 @@
-/**
- * mcpSdkAdapter.ts - A TypeScript adapter for the MCP SDK
- * 
- * This adapter provides a strongly-typed implementation for the MCP server
- * with proper handling of both MCP protocol and JSON-RPC protocol.
- */
-
-import { EventEmitter } from 'events';
-import { 
-  MCPRequest, MCPResponse, MCPInitializeResponse, MCPCapabilitiesResponse, 
-  MCPErrorResponse, MCPCapabilities, JSONRPCResponse,
-  ToolHandler, ResourceHandler, MCPToolDefinition
-} from '../types/mcp';
-
-// Check if we're in a test environment
-const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID !== undefined;
-
-interface McpServerOptions {
-  name: string;
-  version: string;
-  capabilities?: MCPCapabilities;
-}
-
-interface Tool {
-  name: string;
-  description: string;
-  params: Record<string, unknown>;
-  handler: ToolHandler;
-}
-
-interface Resource {
-  name: string;
-  description: string;
-  handler: ResourceHandler;
-}
-
-// Simple implementation of an MCP Server
-class McpServer {
-  private options: McpServerOptions;
-  private transport: StdioServerTransport | null = null;
-  public name: string;
-  public version: string;
-  public tools: Record<string, Tool> = {};
-  public resources: Record<string, Resource> = {};
-  public capabilities: MCPCapabilities;
-
-  constructor(options: McpServerOptions) {
-    this.options = options;
-    this.name = options.name;
-    this.version = options.version;
-    this.capabilities = options.capabilities || { resources: {}, tools: {} };
-
-    // Only log if not in test environment
-    if (!isTestEnvironment) {
-      console.error(`MCP Server "${this.name}" v${this.version} initialized`);
-    }
-  }
-
-  tool(name: string, description: string, params: Record<string, unknown>, handler: ToolHandler): McpServer {
-    if (!isTestEnvironment) {
-      console.error(`Registering tool: ${name}`);
-    }
-    this.tools[name] = {
-      name,
-      description,
-      params,
-      handler
-    };
-
-    // Update capabilities
-    this.capabilities.tools[name] = {
-      description,
-      params
-    };
-
-    return this;
-  }
-
-  resource(name: string, description: string, handler: ResourceHandler): McpServer {
-    if (!isTestEnvironment) {
-      console.error(`Registering resource: ${name}`);
-    }
-    this.resources[name] = {
-      name,
-      description,
-      handler
-    };
-
-    // Update capabilities
-    this.capabilities.resources[name] = {
-      description
-    };
-
-    return this;
-  }
-
-  async connect(transport: StdioServerTransport): Promise<void> {
-    if (!isTestEnvironment) {
-      console.error('Connecting MCP server to transport');
-    }
-    this.transport = transport;
-    
-    // Set the server reference in transport to access capabilities
-    transport.server = this;
-
-    // Set up message handling
-    transport.on('request', async (request: MCPRequest) => {
-      if (!request) {
-        if (!isTestEnvironment) {
-          console.error('Received empty request');
-        }
-        return;
-      }
-      
-      if (!isTestEnvironment) {
-        console.error(`Received request: ${request.type || 'undefined'}`);
-      }
-
-      try {
-        // Check if request is valid
-        if (typeof request !== 'object') {
-          throw new Error('Invalid request: Request must be a valid JSON object');
-        }
-
-        let response: MCPResponse;
-
-        // Handle initialize request from MCP client - this is the first message sent when connecting
-        if (request.type === 'initialize' || !request.type) {
-          // Per MCP spec, if we receive a message with no type, treat it as an initialize request
-          if (!isTestEnvironment) {
-            console.error('Handling initialize request');
-          }
-          
-          // Check if this is a JSON-RPC request
-          if (request.jsonrpc === '2.0') {
-            response = {
-              type: 'initialize_result',
-              jsonrpc: request.jsonrpc,
-              id: request.id,
-              server: {
-                name: this.name,
-                version: this.version
-              }
-            } as MCPInitializeResponse;
-          } else {
-            response = {
-              type: 'initialize_result',
-              server: {
-                name: this.name,
-                version: this.version
-              }
-            } as MCPInitializeResponse;
-          }
-        } else if (request.type === 'capabilities') {
-          // Add JSON-RPC properties if needed
-          if (request.jsonrpc === '2.0') {
-            response = {
-              type: 'capabilities_result',
-              jsonrpc: request.jsonrpc,
-              id: request.id,
-              capabilities: this.capabilities
-            } as MCPCapabilitiesResponse;
-          } else {
-            response = {
-              type: 'capabilities_result',
-              capabilities: this.capabilities
-            } as MCPCapabilitiesResponse;
-          }
-        } else if (request.type === 'tools/list') {
-          // Handle tools/list request (returns a list of all available tools)
-          if (!isTestEnvironment) {
-            console.error('Handling tools/list request');
-          }
-          
-          const toolsList = Object.entries(this.tools).map(([name, tool]) => {
-            return {
-              name,
-              description: tool.description,
-              parameters: tool.params
-            };
-          });
-          
-          // Add JSON-RPC properties if needed
-          if (request.jsonrpc === '2.0') {
-            response = {
-              type: 'tools/list_result',
-              jsonrpc: request.jsonrpc,
-              id: request.id,
-              result: toolsList
-            };
-          } else {
-            response = {
-              type: 'tools/list_result',
-              result: toolsList
-            };
-          }
-        } else if (request.type === 'tool') {
-          if (typeof request.name !== 'string') {
-            throw new Error('Tool name must be a string');
-          }
-          
-          const tool = this.tools[request.name];
-          if (!tool) {
-            throw new Error(`Tool not found: ${request.name}`);
-          }
-
-          // Create a properly typed empty params object if none provided
-          const params: Record<string, unknown> = request.params ? { ...request.params } : {};
-          const result = await tool.handler(params);
-          
-          // Add JSON-RPC properties if needed
-          if (request.jsonrpc === '2.0') {
-            response = {
-              type: 'tool_result',
-              jsonrpc: request.jsonrpc,
-              id: request.id,
-              result
-            };
-          } else {
-            response = {
-              type: 'tool_result',
-              result
-            };
-          }
-        } else if (request.type === 'resource') {
-          if (typeof request.name !== 'string') {
-            throw new Error('Resource name must be a string');
-          }
-          
-          const resource = this.resources[request.name];
-          if (!resource) {
-            throw new Error(`Resource not found: ${request.name}`);
-          }
-
-          // Create a properly typed empty params object if none provided
-          const params: Record<string, unknown> = request.params ? { ...request.params } : {};
-          const result = await resource.handler(params);
-          
-          // Add JSON-RPC properties if needed
-          if (request.jsonrpc === '2.0') {
-            response = {
-              type: 'resource_result',
-              jsonrpc: request.jsonrpc,
-              id: request.id,
-              result
-            };
-          } else {
-            response = {
-              type: 'resource_result',
-              result
-            };
-          }
-        } else {
-          throw new Error(`Unknown request type: ${request.type}`);
-        }
-
-        // Send response back to client
-        if (!isTestEnvironment) {
-          console.error(`Sending response: ${response.type}`);
-          // Debug the response content
-          console.error(`Response content: ${JSON.stringify(response)}`);
-        }
-        transport.send(response);
-      } catch (error) {
-        if (!isTestEnvironment) {
-          console.error('Error handling request:', error);
-        }
-        
-        const errorResponse: MCPErrorResponse = {
-          type: 'error',
-          error: {
-            message: (error as Error).message
-          }
-        };
-        
-        if (request.jsonrpc === '2.0') {
-          errorResponse.jsonrpc = request.jsonrpc;
-          errorResponse.id = request.id;
-        }
-        
-        transport.send(errorResponse);
-      }
-    });
-
-    // Send server info
-    await transport.ready();
-    if (!isTestEnvironment) {
-      console.error('Transport ready, server connected');
-    }
-  }
-}
-
-// Simple implementation of a stdio transport
-class StdioServerTransport extends EventEmitter {
-  private stdin: NodeJS.ReadStream;
-  private stdout: NodeJS.WriteStream;
-  private buffer: string;
-  private initializedEmitted: boolean;
-  private isJsonRpc: boolean;
-  public server: McpServer | null;
-
-  constructor() {
-    super();
-    this.stdin = process.stdin;
-    this.stdout = process.stdout;
-    this.buffer = '';
-    this.initializedEmitted = false;
-    this.isJsonRpc = false; // Flag to track if we're communicating via JSON-RPC
-    this.server = null; // Reference to the server instance
-
-    // Set up initial encoding for proper data handling
-    this.stdin.setEncoding('utf8');
-
-    // Handle incoming data chunks
-    this.stdin.on('data', (data: Buffer) => {
-      try {
-        const chunk = data.toString();
-        this.buffer += chunk;
-        
-        // Try to extract complete JSON messages
-        let messageEndIndex: number;
-        while ((messageEndIndex = this.buffer.indexOf('\n')) !== -1) {
-          const messageLine = this.buffer.substring(0, messageEndIndex).trim();
-          this.buffer = this.buffer.substring(messageEndIndex + 1);
-          
-          if (messageLine) {
-            // Debug incoming message
-            if (!isTestEnvironment) {
-              console.error(`Received message: ${messageLine.substring(0, 100)}${messageLine.length > 100 ? '...' : ''}`);
-            }
-            
-            try {
-              const message = JSON.parse(messageLine);
-              
-              // Check if this is a JSON-RPC message
-              if (message.jsonrpc === '2.0') {
-                this.isJsonRpc = true;
-                if (!isTestEnvironment) {
-                  console.error('Detected JSON-RPC protocol');
-                }
-                
-                // Check if this is a notification (no response needed)
-                if (message.method && message.method.startsWith('notifications/')) {
-                  if (!isTestEnvironment) {
-                    console.error(`Received notification: ${message.method}, no response needed`);
-                  }
-                  // For notifications, we don't emit a request since no response is needed
-                  return;
-                }
-                
-                // Convert JSON-RPC to MCP format for internal processing
-                let mcpMessage: MCPRequest;
-                
-                if (message.method === 'initialize') {
-                  mcpMessage = { 
-                    type: 'initialize',
-                    jsonrpc: message.jsonrpc,
-                    id: message.id,
-                    params: message.params 
-                  };
-                  this.initializedEmitted = true;
-                } else if (message.method === 'capabilities') {
-                  mcpMessage = { 
-                    type: 'capabilities',
-                    jsonrpc: message.jsonrpc,
-                    id: message.id,
-                    params: message.params
-                  };
-                } else if (message.method === 'tools/list') {
-                  mcpMessage = { 
-                    type: 'tools/list',
-                    jsonrpc: message.jsonrpc,
-                    id: message.id,
-                    params: message.params 
-                  };
-                } else if (message.method === 'tool') {
-                  mcpMessage = { 
-                    type: 'tool',
-                    jsonrpc: message.jsonrpc,
-                    id: message.id,
-                    name: message.params ? message.params.name : undefined,
-                    params: message.params ? message.params.params : {}
-                  };
-                } else if (message.method === 'resource') {
-                  mcpMessage = { 
-                    type: 'resource',
-                    jsonrpc: message.jsonrpc,
-                    id: message.id,
-                    name: message.params ? message.params.name : undefined,
-                    params: message.params ? message.params.params : {} 
-                  };
-                } else {
-                  mcpMessage = { 
-                    type: message.method,
-                    jsonrpc: message.jsonrpc,
-                    id: message.id,
-                    params: message.params 
-                  };
-                }
-                
-                this.emit('request', mcpMessage);
-              } else {
-                // Handle as native MCP message
-                if (message.type === 'initialize' && !this.initializedEmitted) {
-                  if (!isTestEnvironment) {
-                    console.error('Received explicit initialize request');
-                  }
-                  this.initializedEmitted = true;
-                }
-                
-                this.emit('request', message);
-              }
-            } catch (parseError) {
-              if (!isTestEnvironment) {
-                console.error('Error parsing message:', parseError);
-              }
-              
-              // If this is potentially an initialize request (first message), emit a default initialize
-              if (!this.initializedEmitted) {
-                if (!isTestEnvironment) {
-                  console.error('Emitting default initialize request due to parse error');
-                }
-                this.emit('request', { type: 'initialize' });
-                this.initializedEmitted = true;
-              } else {
-                // Only log the first 100 chars to avoid flooding the console
-                if (!isTestEnvironment) {
-                  console.error('Problematic message:', messageLine.substring(0, 100) + (messageLine.length > 100 ? '...' : ''));
-                }
-              }
-            }
-          }
-        }
-      } catch (error) {
-        if (!isTestEnvironment) {
-          console.error('Error handling input:', error);
-        }
-      }
-    });
-    
-    // Ensure stdin is in flowing mode
-    this.stdin.resume();
-  }
-
-  send(message: MCPResponse): void {
-    try {
-      // Check if we need to convert from MCP format to JSON-RPC
-      if (this.isJsonRpc && message.type) {
-        const jsonrpcMessage: JSONRPCResponse = { jsonrpc: '2.0' };
-        
-        // Extract the request ID if it was passed in the original message
-        if ('jsonrpc' in message && 'id' in message) {
-          // Use string assertion to handle ID which could be string, number, or undefined
-          jsonrpcMessage.id = message.id as string | number | undefined;
-        }
-        
-        // Convert different MCP message types to JSON-RPC
-        if (message.type === 'initialize_result') {
-          jsonrpcMessage.result = {
-            serverInfo: (message as MCPInitializeResponse).server,
-            capabilities: {
-              tools: Object.entries(this.server?.capabilities?.tools || {}).map(([name, tool]) => ({
-                name,
-                description: (tool as MCPToolDefinition).description,
-                parameters: (tool as MCPToolDefinition).params
-              })),
-              resources: {}
-            }
-          };
-        } else if (message.type === 'capabilities_result') {
-          jsonrpcMessage.result = (message as MCPCapabilitiesResponse).capabilities;
-        } else if (message.type === 'tools/list_result') {
-          jsonrpcMessage.result = message.result;
-        } else if (message.type === 'tool_result') {
-          jsonrpcMessage.result = message.result;
-        } else if (message.type === 'resource_result') {
-          jsonrpcMessage.result = message.result;
-        } else if (message.type === 'error') {
-          jsonrpcMessage.error = {
-            code: -32603, // Internal error
-            message: (message as MCPErrorResponse).error?.message || 'Unknown error'
-          };
-        }
-        
-        if (!isTestEnvironment) {
-          console.error(`Converting MCP message to JSON-RPC: ${JSON.stringify(jsonrpcMessage).substring(0, 100)}...`);
-        }
-        
-        const messageString = JSON.stringify(jsonrpcMessage) + '\n';
-        this.stdout.write(messageString);
-      } else {
-        // Send in native MCP format
-        if (!isTestEnvironment) {
-          console.error(`Sending outgoing MCP message: ${JSON.stringify(message).substring(0, 100)}...`);
-        }
-        const messageString = JSON.stringify(message) + '\n';
-        this.stdout.write(messageString);
-      }
-    } catch (error) {
-      if (!isTestEnvironment) {
-        console.error('Error sending message:', error);
-      }
-    }
-  }
-
-  async ready(): Promise<boolean> {
-    // When the transport is ready, emit an initialize request if none was received
-    if (!this.initializedEmitted) {
-      if (!isTestEnvironment) {
-        console.error('No initialize request received yet, emitting default one');
-      }
-      setTimeout(() => {
-        this.emit('request', { type: 'initialize' });
-        this.initializedEmitted = true;
-      }, 100);
-    }
-    
-    // Signal that the transport is ready
-    this.emit('ready');
-    return true;
-  }
-}
-
-export const server = {
-  McpServer,
-  StdioServerTransport,
-  _isTestEnvironment: isTestEnvironment // Expose for testing
+/**
+ * mcpSdkAdapter.ts - A TypeScript adapter for the MCP SDK
+ * 
+ * This adapter provides a strongly-typed implementation for the MCP server
+ * with proper handling of both MCP protocol and JSON-RPC protocol.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import http from 'http';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { 
+  MCPRequest, MCPResponse, MCPInitializeResponse, MCPCapabilitiesResponse, 
+  MCPErrorResponse, MCPCapabilities, JSONRPCRequest, JSONRPCResponse,
+  ToolHandler, ResourceHandler, MCPCallToolResult, MCPToolListEntry, JSONSchema,
+  ResourceListHandler, ResourceReadHandler, MCPResourceEntry, MCPResourceTemplateEntry,
+  MCPReadResourceResult, MCPNotification, JSONRPCNotification,
+  PromptHandler, MCPPromptArgument, MCPPromptListEntry, MCPGetPromptResult,
+  MCPImplementationInfo, MCPServerCapabilities
+} from '../types/mcp';
+
+// Check if we're in a test environment
+const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.JEST_WORKER_ID !== undefined;
+
+interface McpServerOptions {
+  name: string;
+  version: string;
+  capabilities?: MCPCapabilities;
+}
+
+// Surface McpServer relies on; implemented by the stdio and HTTP transports
+export interface ServerTransport {
+  server: McpServer | null;
+  on(event: 'request' | 'notification', listener: (message: MCPRequest) => void): this;
+  on(event: 'sessionClosed', listener: (sessionId: string) => void): this;
+  send(message: MCPResponse): void;
+  ready(): Promise<boolean>;
+}
+
+export interface HttpServerTransportOptions {
+  port: number;
+  host?: string;
+  path?: string;
+  allowedOrigins?: string[];
+  // Most sessions open at once; initialize is refused with 503 while that many are active
+  maxSessions?: number;
+  // Milliseconds after which a session with no requests and no open event stream is closed
+  sessionIdleTimeout?: number;
+}
+
+interface Tool {
+  name: string;
+  description: string;
+  params: Record<string, unknown>;
+  schema: z.AnyZodObject | null;
+  outputSchema: z.AnyZodObject | null;
+  handler: ToolHandler;
+}
+
+interface Prompt {
+  name: string;
+  description: string;
+  args: z.ZodRawShape;
+  schema: z.AnyZodObject;
+  handler: PromptHandler;
+}
+
+interface ResourceTemplate {
+  name: string;
+  uriTemplate: string;
+  description: string;
+  pattern: RegExp;
+  variables: string[];
+  list?: ResourceListHandler;
+  read: ResourceReadHandler;
+}
+
+// Lifecycle state negotiated with a client during initialize
+interface ClientSession {
+  protocolVersion: string;
+  clientInfo?: MCPImplementationInfo;
+  clientCapabilities: Record<string, unknown>;
+  initialized: boolean;
+}
+
+// Protocol revisions this server can speak, newest first
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Session key for transports with a single client, such as stdio
+const DEFAULT_SESSION_ID = 'default';
+
+// JSON-RPC error codes used by the adapter
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+// Error carrying a JSON-RPC error code and optional structured data
+class McpError extends Error {
+  public code: number;
+  public data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Error thrown by tool handlers for failures the caller can act on, such as an unknown feed name;
+// reported as an isError tool result carrying the code and data rather than as a protocol error
+class ToolError extends Error {
+  public code: string;
+  public data?: unknown;
+
+  constructor(code: string, message: string, data?: unknown) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+// Describe a failed tool call as a CallToolResult with isError set
+function toToolErrorResult(toolName: string, error: unknown): MCPCallToolResult {
+  if (error instanceof ToolError) {
+    return {
+      content: [{ type: 'text', text: error.message }],
+      isError: true,
+      structuredContent: {
+        error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) }
+      }
+    };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: 'text', text: `Error executing tool ${toolName}: ${message}` }],
+    isError: true,
+    structuredContent: {
+      error: { code: 'internal_error', message }
+    }
+  };
+}
+
+// Build a zod object schema from a tool's params when every entry is a zod type
+function toZodObject(params: Record<string, unknown>): z.AnyZodObject | null {
+  const entries = Object.values(params);
+  if (entries.length > 0 && !entries.every(value => value instanceof z.ZodType)) {
+    return null;
+  }
+  return z.object(params as z.ZodRawShape);
+}
+
+// Convert a zod object schema into a plain JSON Schema object
+function toJsonSchema(schema: z.AnyZodObject): JSONSchema {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as JSONSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+// Convert a tool's params into the JSON Schema advertised to clients as its inputSchema
+function toInputSchema(tool: Tool): JSONSchema {
+  if (!tool.schema) {
+    // Params that aren't zod types are assumed to already be JSON Schema property definitions
+    return { type: 'object', properties: tool.params };
+  }
+
+  return toJsonSchema(tool.schema);
+}
+
+// Check a successful result's structuredContent against the tool's declared outputSchema
+function validateStructuredContent(tool: Tool, result: MCPCallToolResult): void {
+  if (!tool.outputSchema || result.isError) {
+    return;
+  }
+
+  if (result.structuredContent === undefined) {
+    throw new McpError(INTERNAL_ERROR, `Tool ${tool.name} declares an outputSchema but returned no structuredContent`);
+  }
+
+  const parsed = tool.outputSchema.safeParse(result.structuredContent);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message
+    }));
+    throw new McpError(INTERNAL_ERROR, `Invalid structuredContent from tool ${tool.name}`, { issues });
+  }
+}
+
+// Compile a URI template such as feed://{name}/items/{guid} into a matcher;
+// each variable matches a single URI-encoded path segment
+function compileUriTemplate(uriTemplate: string): { pattern: RegExp; variables: string[] } {
+  const variables: string[] = [];
+  const source = uriTemplate
+    .split(/(\{[^}]+\})/)
+    .map(part => {
+      const variable = part.match(/^\{([^}]+)\}$/);
+      if (variable) {
+        variables.push(variable[1]);
+        return '([^/]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return { pattern: new RegExp(`^${source}$`), variables };
+}
+
+// JSON-RPC id fields to echo back on a response, when the request carried them
+function jsonRpcFields(request: MCPRequest): Record<string, unknown> {
+  return request.jsonrpc === '2.0' ? { jsonrpc: request.jsonrpc, id: request.id } : {};
+}
+
+// Parse incoming arguments through a tool's or prompt's schema, if it has one
+function parseArguments(
+  schema: z.AnyZodObject | null,
+  args: Record<string, unknown>,
+  target: string
+): Record<string, unknown> {
+  if (!schema) {
+    return args;
+  }
+
+  const parsed = schema.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message
+    }));
+    const summary = issues.map(issue => `${issue.field}: ${issue.message}`).join('; ');
+    throw new McpError(INVALID_PARAMS, `Invalid params for ${target}: ${summary}`, { issues });
+  }
+
+  return parsed.data;
+}
+
+// Describe a prompt's arguments for prompts/list from its zod shape
+function toPromptArguments(args: z.ZodRawShape): MCPPromptArgument[] {
+  return Object.entries(args).map(([name, schema]) => ({
+    name,
+    description: schema.description,
+    required: !schema.isOptional()
+  }));
+}
+
+interface Resource {
+  name: string;
+  description: string;
+  handler: ResourceHandler;
+}
+
+// Normalize a tool handler's return value into the spec CallToolResult shape
+function toCallToolResult(result: unknown): MCPCallToolResult {
+  if (result && typeof result === 'object' && Array.isArray((result as MCPCallToolResult).content)) {
+    return result as MCPCallToolResult;
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: typeof result === 'string' ? result : JSON.stringify(result ?? null)
+      }
+    ]
+  };
+}
+
+// Convert an incoming JSON-RPC request into the internal MCP request format
+function fromJsonRpc(message: JSONRPCRequest): MCPRequest {
+  const { jsonrpc, id, method, params } = message;
+
+  if (method === 'tool' || method === 'resource') {
+    // Legacy methods nest their arguments under params.params
+    return {
+      type: method,
+      jsonrpc,
+      id,
+      name: params ? params.name : undefined,
+      params: params ? params.params : {}
+    };
+  }
+
+  if (method === 'tools/call') {
+    return {
+      type: method,
+      jsonrpc,
+      id,
+      name: params ? params.name : undefined,
+      params: params ? params.arguments : {}
+    };
+  }
+
+  return {
+    type: method,
+    jsonrpc,
+    id,
+    params
+  };
+}
+
+// Convert an outgoing MCP response or notification into its JSON-RPC form
+function toJsonRpc(message: MCPResponse): JSONRPCResponse | JSONRPCNotification {
+  // Notifications carry a method instead of a request id
+  if (message.type === 'notification') {
+    const { method, params } = message as MCPNotification;
+    return { jsonrpc: '2.0', method, params };
+  }
+
+  const jsonrpcMessage: JSONRPCResponse = { jsonrpc: '2.0' };
+  
+  // Extract the request ID if it was passed in the original message
+  if ('jsonrpc' in message && 'id' in message) {
+    // Use string assertion to handle ID which could be string, number, or undefined
+    jsonrpcMessage.id = message.id as string | number | undefined;
+  }
+  
+  // Convert different MCP message types to JSON-RPC
+  if (message.type === 'initialize_result') {
+    const { protocolVersion, capabilities, server } = message as MCPInitializeResponse;
+    jsonrpcMessage.result = {
+      protocolVersion,
+      capabilities,
+      serverInfo: server
+    };
+  } else if (message.type === 'capabilities_result') {
+    jsonrpcMessage.result = (message as MCPCapabilitiesResponse).capabilities;
+  } else if (message.type === 'tools/list_result') {
+    jsonrpcMessage.result = message.result;
+  } else if (message.type === 'tool_result') {
+    jsonrpcMessage.result = message.result;
+  } else if (message.type === 'tools/call_result') {
+    jsonrpcMessage.result = message.result;
+  } else if (message.type === 'resource_result') {
+    jsonrpcMessage.result = message.result;
+  } else if (message.type === 'ping_result') {
+    jsonrpcMessage.result = message.result;
+  } else if (/^(resources|prompts)\//.test(message.type) && message.type.endsWith('_result')) {
+    jsonrpcMessage.result = message.result;
+  } else if (message.type === 'error') {
+    const { error } = message as MCPErrorResponse;
+    jsonrpcMessage.error = {
+      code: error?.code ?? INTERNAL_ERROR,
+      message: error?.message || 'Unknown error'
+    };
+    if (error?.data !== undefined) {
+      jsonrpcMessage.error.data = error.data;
+    }
+  }
+
+  return jsonrpcMessage;
+}
+
+// Simple implementation of an MCP Server
+class McpServer {
+  private options: McpServerOptions;
+  private transport: ServerTransport | null = null;
+  public name: string;
+  public version: string;
+  public tools: Record<string, Tool> = {};
+  public resources: Record<string, Resource> = {};
+  public resourceTemplates: Record<string, ResourceTemplate> = {};
+  public prompts: Record<string, Prompt> = {};
+  private sessions = new Map<string, ClientSession>();
+  // Resource URIs each transport session subscribed to
+  private subscriptions = new Map<string, Set<string>>();
+  public capabilities: MCPCapabilities;
+
+  constructor(options: McpServerOptions) {
+    this.options = options;
+    this.name = options.name;
+    this.version = options.version;
+    this.capabilities = options.capabilities || { resources: {}, tools: {} };
+
+    // Only log if not in test environment
+    if (!isTestEnvironment) {
+      console.error(`MCP Server "${this.name}" v${this.version} initialized`);
+    }
+  }
+
+  tool<Shape extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    params: Shape,
+    handler: (params: z.output<z.ZodObject<Shape>>) => Promise<unknown>
+  ): McpServer;
+  tool<Shape extends z.ZodRawShape, OutputShape extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    params: Shape,
+    outputSchema: OutputShape,
+    handler: (params: z.output<z.ZodObject<Shape>>) => Promise<MCPCallToolResult & {
+      structuredContent: z.input<z.ZodObject<OutputShape>>;
+    }>
+  ): McpServer;
+  tool(name: string, description: string, params: Record<string, unknown>, handler: ToolHandler): McpServer;
+  tool(
+    name: string,
+    description: string,
+    params: Record<string, unknown>,
+    outputSchemaOrHandler: z.ZodRawShape | ToolHandler,
+    maybeHandler?: ToolHandler
+  ): McpServer {
+    if (!isTestEnvironment) {
+      console.error(`Registering tool: ${name}`);
+    }
+    // Tools with structured output pass a zod shape for it before the handler
+    const handler = typeof outputSchemaOrHandler === 'function' ? outputSchemaOrHandler : maybeHandler!;
+    const outputSchema = typeof outputSchemaOrHandler === 'function' ? null : z.object(outputSchemaOrHandler);
+    this.tools[name] = {
+      name,
+      description,
+      params,
+      schema: toZodObject(params),
+      outputSchema,
+      handler
+    };
+
+    // Update capabilities
+    this.capabilities.tools[name] = {
+      description,
+      params
+    };
+
+    return this;
+  }
+
+  listTools(): MCPToolListEntry[] {
+    return Object.values(this.tools).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toInputSchema(tool),
+      ...(tool.outputSchema ? { outputSchema: toJsonSchema(tool.outputSchema) } : {})
+    }));
+  }
+
+  resource(name: string, description: string, handler: ResourceHandler): McpServer {
+    if (!isTestEnvironment) {
+      console.error(`Registering resource: ${name}`);
+    }
+    this.resources[name] = {
+      name,
+      description,
+      handler
+    };
+
+    // Update capabilities
+    this.capabilities.resources[name] = {
+      description
+    };
+
+    return this;
+  }
+
+  resourceTemplate(
+    name: string,
+    uriTemplate: string,
+    description: string,
+    handlers: { list?: ResourceListHandler; read: ResourceReadHandler }
+  ): McpServer {
+    if (!isTestEnvironment) {
+      console.error(`Registering resource template: ${name} (${uriTemplate})`);
+    }
+    this.resourceTemplates[name] = {
+      name,
+      uriTemplate,
+      description,
+      ...compileUriTemplate(uriTemplate),
+      list: handlers.list,
+      read: handlers.read
+    };
+
+    // Update capabilities
+    this.capabilities.resources[name] = {
+      description
+    };
+
+    return this;
+  }
+
+  async listResources(): Promise<MCPResourceEntry[]> {
+    const lists = await Promise.all(
+      Object.values(this.resourceTemplates).map(template => template.list ? template.list() : [])
+    );
+    return lists.flat();
+  }
+
+  listResourceTemplates(): MCPResourceTemplateEntry[] {
+    return Object.values(this.resourceTemplates).map(template => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name,
+      description: template.description
+    }));
+  }
+
+  async readResource(uri: string): Promise<MCPReadResourceResult> {
+    for (const template of Object.values(this.resourceTemplates)) {
+      const match = uri.match(template.pattern);
+      if (!match) {
+        continue;
+      }
+
+      const variables: Record<string, string> = {};
+      try {
+        template.variables.forEach((variable, index) => {
+          variables[variable] = decodeURIComponent(match[index + 1]);
+        });
+      } catch (error) {
+        if (error instanceof URIError) {
+          throw new McpError(INVALID_PARAMS, `Malformed percent-encoding in resource URI: ${uri}`, { uri });
+        }
+        throw error;
+      }
+
+      const contents = await template.read(uri, variables);
+      if (contents) {
+        return { contents };
+      }
+    }
+
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
+
+  prompt<Shape extends z.ZodRawShape>(
+    name: string,
+    description: string,
+    args: Shape,
+    handler: (args: z.output<z.ZodObject<Shape>>) => Promise<MCPGetPromptResult>
+  ): McpServer {
+    if (!isTestEnvironment) {
+      console.error(`Registering prompt: ${name}`);
+    }
+    this.prompts[name] = {
+      name,
+      description,
+      args,
+      schema: z.object(args),
+      handler: handler as PromptHandler
+    };
+
+    // Update capabilities
+    this.capabilities.prompts = {
+      ...this.capabilities.prompts,
+      [name]: { description }
+    };
+
+    return this;
+  }
+
+  listPrompts(): MCPPromptListEntry[] {
+    return Object.values(this.prompts).map(prompt => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: toPromptArguments(prompt.args)
+    }));
+  }
+
+  async getPrompt(name: string, args: Record<string, unknown>): Promise<MCPGetPromptResult> {
+    const prompt = this.prompts[name];
+    if (!prompt) {
+      throw new McpError(INVALID_PARAMS, `Prompt not found: ${name}`);
+    }
+
+    const result = await prompt.handler(parseArguments(prompt.schema, args, `prompt ${name}`));
+    return { description: prompt.description, ...result };
+  }
+
+  // Capabilities advertised during initialize, based on what has been registered
+  getServerCapabilities(): MCPServerCapabilities {
+    const capabilities: MCPServerCapabilities = {};
+
+    if (Object.keys(this.tools).length > 0) {
+      capabilities.tools = { listChanged: false };
+    }
+    if (Object.keys(this.resources).length > 0 || Object.keys(this.resourceTemplates).length > 0) {
+      capabilities.resources = { subscribe: true, listChanged: false };
+    }
+    if (Object.keys(this.prompts).length > 0) {
+      capabilities.prompts = { listChanged: false };
+    }
+
+    return capabilities;
+  }
+
+  // Client details recorded during initialize, for the given transport session
+  getClientSession(sessionId: string = DEFAULT_SESSION_ID): Readonly<ClientSession> | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  // Notify each session that subscribed to a resource's URI that the resource changed
+  notifyResourceUpdated(uri: string): void {
+    if (!this.transport) {
+      return;
+    }
+
+    this.subscriptions.forEach((uris, sessionId) => {
+      if (uris.has(uri)) {
+        const notification: MCPNotification = {
+          type: 'notification',
+          method: 'notifications/resources/updated',
+          params: { uri },
+          sessionId
+        };
+        this.transport!.send(notification);
+      }
+    });
+  }
+
+  async connect(transport: ServerTransport): Promise<void> {
+    if (!isTestEnvironment) {
+      console.error('Connecting MCP server to transport');
+    }
+    this.transport = transport;
+    
+    // Set the server reference in transport to access capabilities
+    transport.server = this;
+
+    // Track the lifecycle: the client confirms initialization with notifications/initialized
+    transport.on('notification', (notification: MCPRequest) => {
+      if (notification.type === 'notifications/initialized') {
+        const session = this.sessions.get((notification.sessionId as string) || DEFAULT_SESSION_ID);
+        if (session) {
+          session.initialized = true;
+        } else if (!isTestEnvironment) {
+          console.error('Received notifications/initialized before initialize');
+        }
+      }
+    });
+
+    transport.on('sessionClosed', (sessionId: string) => {
+      this.sessions.delete(sessionId);
+      this.subscriptions.delete(sessionId);
+    });
+
+    // Set up message handling
+    transport.on('request', async (request: MCPRequest) => {
+      if (!request) {
+        if (!isTestEnvironment) {
+          console.error('Received empty request');
+        }
+        return;
+      }
+      
+      if (!isTestEnvironment) {
+        console.error(`Received request: ${request.type || 'undefined'}`);
+      }
+
+      try {
+        // Check if request is valid
+        if (typeof request !== 'object') {
+          throw new McpError(INVALID_REQUEST, 'Invalid request: Request must be a valid JSON object');
+        }
+
+        let response: MCPResponse;
+        const sessionId = (request.sessionId as string) || DEFAULT_SESSION_ID;
+
+        // JSON-RPC clients must complete the initialize handshake before anything but ping;
+        // native MCP messages predate the handshake and are not gated
+        const isLifecycleRequest = request.type === 'initialize' || request.type === 'ping' || !request.type;
+        if (request.jsonrpc === '2.0' && !isLifecycleRequest && !this.sessions.get(sessionId)?.initialized) {
+          throw new McpError(
+            INVALID_REQUEST,
+            `Server not initialized: send initialize and notifications/initialized before ${request.type}`
+          );
+        }
+
+        // Handle initialize request from MCP client - this is the first message sent when connecting
+        if (request.type === 'initialize' || !request.type) {
+          // Per MCP spec, if we receive a message with no type, treat it as an initialize request
+          if (!isTestEnvironment) {
+            console.error('Handling initialize request');
+          }
+
+          const params = (request.params as Record<string, unknown> | undefined) || {};
+          const requestedVersion = params.protocolVersion;
+          const protocolVersion = typeof requestedVersion === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requestedVersion)
+            ? requestedVersion
+            : LATEST_PROTOCOL_VERSION;
+
+          this.sessions.set(sessionId, {
+            protocolVersion,
+            clientInfo: params.clientInfo as MCPImplementationInfo | undefined,
+            clientCapabilities: (params.capabilities as Record<string, unknown> | undefined) || {},
+            initialized: false
+          });
+
+          if (!isTestEnvironment && params.clientInfo) {
+            console.error(`Client connected: ${JSON.stringify(params.clientInfo)} (protocol ${protocolVersion})`);
+          }
+
+          response = {
+            type: 'initialize_result',
+            ...jsonRpcFields(request),
+            protocolVersion,
+            capabilities: this.getServerCapabilities(),
+            server: {
+              name: this.name,
+              version: this.version
+            }
+          } as MCPInitializeResponse;
+        } else if (request.type === 'ping') {
+          response = {
+            type: 'ping_result',
+            ...jsonRpcFields(request),
+            result: {}
+          };
+        } else if (request.type === 'capabilities') {
+          // Add JSON-RPC properties if needed
+          if (request.jsonrpc === '2.0') {
+            response = {
+              type: 'capabilities_result',
+              jsonrpc: request.jsonrpc,
+              id: request.id,
+              capabilities: this.capabilities
+            } as MCPCapabilitiesResponse;
+          } else {
+            response = {
+              type: 'capabilities_result',
+              capabilities: this.capabilities
+            } as MCPCapabilitiesResponse;
+          }
+        } else if (request.type === 'tools/list') {
+          // Handle tools/list request (returns a list of all available tools)
+          if (!isTestEnvironment) {
+            console.error('Handling tools/list request');
+          }
+          
+          const toolsList = { tools: this.listTools() };
+          
+          // Add JSON-RPC properties if needed
+          if (request.jsonrpc === '2.0') {
+            response = {
+              type: 'tools/list_result',
+              jsonrpc: request.jsonrpc,
+              id: request.id,
+              result: toolsList
+            };
+          } else {
+            response = {
+              type: 'tools/list_result',
+              result: toolsList
+            };
+          }
+        } else if (request.type === 'tool') {
+          if (typeof request.name !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'Tool name must be a string');
+          }
+          
+          const tool = this.tools[request.name];
+          if (!tool) {
+            throw new McpError(INVALID_PARAMS, `Tool not found: ${request.name}`, { availableTools: Object.keys(this.tools) });
+          }
+
+          // Create a properly typed empty params object if none provided
+          const params = parseArguments(tool.schema, request.params ? { ...request.params } : {}, `tool ${tool.name}`);
+          let result: unknown;
+          try {
+            result = await tool.handler(params);
+          } catch (handlerError) {
+            // Expected tool failures become error results; anything else is an internal error
+            if (!(handlerError instanceof ToolError)) {
+              throw handlerError;
+            }
+            result = toToolErrorResult(request.name, handlerError);
+          }
+          
+          // Add JSON-RPC properties if needed
+          if (request.jsonrpc === '2.0') {
+            response = {
+              type: 'tool_result',
+              jsonrpc: request.jsonrpc,
+              id: request.id,
+              result
+            };
+          } else {
+            response = {
+              type: 'tool_result',
+              result
+            };
+          }
+        } else if (request.type === 'tools/call') {
+          // Spec-standard tool invocation; results are wrapped as a CallToolResult
+          if (typeof request.name !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'Tool name must be a string');
+          }
+
+          const tool = this.tools[request.name];
+          if (!tool) {
+            throw new McpError(INVALID_PARAMS, `Tool not found: ${request.name}`, { availableTools: Object.keys(this.tools) });
+          }
+
+          const params = parseArguments(tool.schema, request.params ? { ...request.params } : {}, `tool ${tool.name}`);
+          let result: MCPCallToolResult;
+          try {
+            result = toCallToolResult(await tool.handler(params));
+          } catch (handlerError) {
+            // Handler failures are reported to the client as tool errors, not protocol errors
+            if (!isTestEnvironment) {
+              console.error(`Tool ${request.name} failed:`, handlerError);
+            }
+            result = toToolErrorResult(request.name, handlerError);
+          }
+          validateStructuredContent(tool, result);
+
+          // Add JSON-RPC properties if needed
+          if (request.jsonrpc === '2.0') {
+            response = {
+              type: 'tools/call_result',
+              jsonrpc: request.jsonrpc,
+              id: request.id,
+              result
+            };
+          } else {
+            response = {
+              type: 'tools/call_result',
+              result
+            };
+          }
+        } else if (request.type === 'resources/list') {
+          response = {
+            type: 'resources/list_result',
+            ...jsonRpcFields(request),
+            result: { resources: await this.listResources() }
+          };
+        } else if (request.type === 'resources/templates/list') {
+          response = {
+            type: 'resources/templates/list_result',
+            ...jsonRpcFields(request),
+            result: { resourceTemplates: this.listResourceTemplates() }
+          };
+        } else if (request.type === 'resources/read') {
+          const uri = (request.params as Record<string, unknown> | undefined)?.uri;
+          if (typeof uri !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'Resource uri must be a string');
+          }
+
+          response = {
+            type: 'resources/read_result',
+            ...jsonRpcFields(request),
+            result: await this.readResource(uri)
+          };
+        } else if (request.type === 'resources/subscribe' || request.type === 'resources/unsubscribe') {
+          const uri = (request.params as Record<string, unknown> | undefined)?.uri;
+          if (typeof uri !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'Resource uri must be a string');
+          }
+
+          const uris = this.subscriptions.get(sessionId) || new Set<string>();
+          if (request.type === 'resources/subscribe') {
+            this.subscriptions.set(sessionId, uris.add(uri));
+          } else if (uris.delete(uri) && uris.size === 0) {
+            this.subscriptions.delete(sessionId);
+          }
+
+          response = {
+            type: `${request.type}_result`,
+            ...jsonRpcFields(request),
+            result: {}
+          };
+        } else if (request.type === 'prompts/list') {
+          response = {
+            type: 'prompts/list_result',
+            ...jsonRpcFields(request),
+            result: { prompts: this.listPrompts() }
+          };
+        } else if (request.type === 'prompts/get') {
+          const params = (request.params as Record<string, unknown> | undefined) || {};
+          if (typeof params.name !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'Prompt name must be a string');
+          }
+
+          response = {
+            type: 'prompts/get_result',
+            ...jsonRpcFields(request),
+            result: await this.getPrompt(params.name, (params.arguments as Record<string, unknown>) || {})
+          };
+        } else if (request.type === 'resource') {
+          if (typeof request.name !== 'string') {
+            throw new McpError(INVALID_PARAMS, 'Resource name must be a string');
+          }
+          
+          const resource = this.resources[request.name];
+          if (!resource) {
+            throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${request.name}`);
+          }
+
+          // Create a properly typed empty params object if none provided
+          const params: Record<string, unknown> = request.params ? { ...request.params } : {};
+          const result = await resource.handler(params);
+          
+          // Add JSON-RPC properties if needed
+          if (request.jsonrpc === '2.0') {
+            response = {
+              type: 'resource_result',
+              jsonrpc: request.jsonrpc,
+              id: request.id,
+              result
+            };
+          } else {
+            response = {
+              type: 'resource_result',
+              result
+            };
+          }
+        } else {
+          throw new McpError(METHOD_NOT_FOUND, `Unknown request type: ${request.type}`, { method: request.type });
+        }
+
+        // Send response back to client
+        if (!isTestEnvironment) {
+          console.error(`Sending response: ${response.type}`);
+          // Debug the response content
+          console.error(`Response content: ${JSON.stringify(response)}`);
+        }
+        transport.send(response);
+      } catch (error) {
+        if (!isTestEnvironment) {
+          console.error('Error handling request:', error);
+        }
+        
+        const errorResponse: MCPErrorResponse = {
+          type: 'error',
+          error: {
+            message: (error as Error).message
+          }
+        };
+
+        if (error instanceof McpError) {
+          errorResponse.error.code = error.code;
+          if (error.data !== undefined) {
+            errorResponse.error.data = error.data;
+          }
+        }
+        
+        if (request.jsonrpc === '2.0') {
+          errorResponse.jsonrpc = request.jsonrpc;
+          errorResponse.id = request.id;
+        }
+        
+        transport.send(errorResponse);
+      }
+    });
+
+    // Send server info
+    await transport.ready();
+    if (!isTestEnvironment) {
+      console.error('Transport ready, server connected');
+    }
+  }
+}
+
+// Simple implementation of a stdio transport
+class StdioServerTransport extends EventEmitter implements ServerTransport {
+  private stdin: NodeJS.ReadableStream;
+  private stdout: NodeJS.WritableStream;
+  private buffer: string;
+  private isJsonRpc: boolean;
+  public server: McpServer | null;
+
+  constructor(stdin: NodeJS.ReadableStream = process.stdin, stdout: NodeJS.WritableStream = process.stdout) {
+    super();
+    this.stdin = stdin;
+    this.stdout = stdout;
+    this.buffer = '';
+    this.isJsonRpc = false; // Flag to track if we're communicating via JSON-RPC
+    this.server = null; // Reference to the server instance
+
+    // Set up initial encoding for proper data handling
+    this.stdin.setEncoding('utf8');
+  }
+
+  // Start reading stdin; called once the server is connected, so input sent earlier
+  // (e.g. while stored feeds are restored) waits in the stream instead of being dropped
+  private listen(): void {
+    // Handle incoming data chunks
+    this.stdin.on('data', (data: Buffer) => {
+      try {
+        const chunk = data.toString();
+        this.buffer += chunk;
+        
+        // Try to extract complete JSON messages
+        let messageEndIndex: number;
+        while ((messageEndIndex = this.buffer.indexOf('\n')) !== -1) {
+          const messageLine = this.buffer.substring(0, messageEndIndex).trim();
+          this.buffer = this.buffer.substring(messageEndIndex + 1);
+          
+          if (messageLine) {
+            // Debug incoming message
+            if (!isTestEnvironment) {
+              console.error(`Received message: ${messageLine.substring(0, 100)}${messageLine.length > 100 ? '...' : ''}`);
+            }
+            
+            let message;
+            try {
+              message = JSON.parse(messageLine);
+            } catch (parseError) {
+              if (!isTestEnvironment) {
+                console.error('Error parsing message:', parseError);
+                // Only log the first 100 chars to avoid flooding the console
+                console.error('Problematic message:', messageLine.substring(0, 100) + (messageLine.length > 100 ? '...' : ''));
+              }
+              this.sendError(null, PARSE_ERROR, `Parse error: ${(parseError as Error).message}`);
+              continue;
+            }
+            
+            try {
+              if (!message || typeof message !== 'object' || Array.isArray(message)) {
+                this.sendError(null, INVALID_REQUEST, 'Invalid Request: expected a JSON object');
+                continue;
+              }
+              
+              // Check if this is a JSON-RPC message
+              if (message.jsonrpc === '2.0') {
+                this.isJsonRpc = true;
+                if (!isTestEnvironment) {
+                  console.error('Detected JSON-RPC protocol');
+                }
+                
+                // Responses from the client to server-initiated requests need no handling
+                if (message.method === undefined && ('result' in message || 'error' in message)) {
+                  continue;
+                }
+                
+                if (typeof message.method !== 'string') {
+                  this.sendError(message.id ?? null, INVALID_REQUEST, 'Invalid Request: method must be a string');
+                  continue;
+                }
+                
+                // Check if this is a notification (no response needed)
+                if (message.method && message.method.startsWith('notifications/')) {
+                  if (!isTestEnvironment) {
+                    console.error(`Received notification: ${message.method}, no response needed`);
+                  }
+                  this.emit('notification', fromJsonRpc(message));
+                  continue;
+                }
+                
+                // Convert JSON-RPC to MCP format for internal processing
+                this.emit('request', fromJsonRpc(message));
+              } else {
+                // Handle as native MCP message
+                this.emit('request', message);
+              }
+            } catch (error) {
+              if (!isTestEnvironment) {
+                console.error('Error dispatching message:', error);
+              }
+            }
+          }
+        }
+      } catch (error) {
+        if (!isTestEnvironment) {
+          console.error('Error handling input:', error);
+        }
+      }
+    });
+    
+    // Ensure stdin is in flowing mode
+    this.stdin.resume();
+  }
+
+  send(message: MCPResponse): void {
+    try {
+      // Check if we need to convert from MCP format to JSON-RPC
+      if (this.isJsonRpc && message.type) {
+        const jsonrpcMessage = toJsonRpc(message);
+        
+        if (!isTestEnvironment) {
+          console.error(`Converting MCP message to JSON-RPC: ${JSON.stringify(jsonrpcMessage).substring(0, 100)}...`);
+        }
+        
+        const messageString = JSON.stringify(jsonrpcMessage) + '\n';
+        this.stdout.write(messageString);
+      } else {
+        // Send in native MCP format
+        if (!isTestEnvironment) {
+          console.error(`Sending outgoing MCP message: ${JSON.stringify(message).substring(0, 100)}...`);
+        }
+        const messageString = JSON.stringify(message) + '\n';
+        this.stdout.write(messageString);
+      }
+    } catch (error) {
+      if (!isTestEnvironment) {
+        console.error('Error sending message:', error);
+      }
+    }
+  }
+
+  // Write a JSON-RPC error for a message that never reached the server, e.g. one that failed to parse
+  private sendError(id: string | number | null, code: number, message: string): void {
+    const response: JSONRPCResponse = { jsonrpc: '2.0', id, error: { code, message } };
+    this.stdout.write(JSON.stringify(response) + '\n');
+  }
+
+  async ready(): Promise<boolean> {
+    this.listen();
+
+    // Signal that the transport is ready; the client drives the initialize handshake
+    this.emit('ready');
+    return true;
+  }
+}
+
+// Maximum accepted size of a POSTed JSON-RPC body
+const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_MAX_HTTP_SESSIONS = 100;
+const DEFAULT_HTTP_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+class HttpBodyTooLargeError extends Error {
+  constructor() {
+    super(`Request body exceeds ${MAX_HTTP_BODY_BYTES} bytes`);
+    this.name = 'HttpBodyTooLargeError';
+  }
+}
+
+// Hosts of browser origins always allowed to reach the HTTP transport
+const LOCAL_ORIGIN_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+function isLocalOrigin(origin: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(origin);
+    return (protocol === 'http:' || protocol === 'https:') && LOCAL_ORIGIN_HOSTS.includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+interface HttpSession {
+  id: string;
+  streams: Set<http.ServerResponse>;
+  lastActiveAt: number;
+}
+
+interface PendingHttpRequest {
+  originalId: string | number;
+  resolve: (message: JSONRPCResponse) => void;
+}
+
+// Implementation of the MCP Streamable HTTP transport: clients POST JSON-RPC messages to a
+// single endpoint and may open a GET server-sent events stream to receive notifications
+class HttpServerTransport extends EventEmitter implements ServerTransport {
+  private options: Required<Omit<HttpServerTransportOptions, 'allowedOrigins'>> & { allowedOrigins?: string[] };
+  private httpServer: http.Server | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private pending = new Map<number, PendingHttpRequest>();
+  private nextRequestId = 0;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  public server: McpServer | null = null;
+
+  constructor(options: HttpServerTransportOptions) {
+    super();
+    this.options = {
+      host: '127.0.0.1',
+      path: '/mcp',
+      maxSessions: DEFAULT_MAX_HTTP_SESSIONS,
+      sessionIdleTimeout: DEFAULT_HTTP_SESSION_IDLE_TIMEOUT,
+      ...options
+    };
+  }
+
+  // Port the transport is listening on; useful when started with port 0
+  get port(): number {
+    const address = this.httpServer?.address();
+    return address && typeof address === 'object' ? address.port : this.options.port;
+  }
+
+  send(message: MCPResponse): void {
+    try {
+      const jsonrpcMessage = toJsonRpc(message);
+
+      // Notifications go to the event streams of the session they are addressed to,
+      // or of every session when they carry no session id
+      if (!('id' in jsonrpcMessage)) {
+        const event = `event: message\ndata: ${JSON.stringify(jsonrpcMessage)}\n\n`;
+        const sessionId = message.sessionId as string | undefined;
+        const sessions = sessionId ? [this.sessions.get(sessionId)] : Array.from(this.sessions.values());
+        sessions.forEach(session => session?.streams.forEach(stream => stream.write(event)));
+        return;
+      }
+
+      // Responses are matched to the waiting POST by the transport-assigned id
+      const pending = this.pending.get(jsonrpcMessage.id as number);
+      if (!pending) {
+        if (!isTestEnvironment) {
+          console.error(`No pending HTTP request for response id ${jsonrpcMessage.id}`);
+        }
+        return;
+      }
+
+      this.pending.delete(jsonrpcMessage.id as number);
+      pending.resolve({ ...jsonrpcMessage, id: pending.originalId });
+    } catch (error) {
+      if (!isTestEnvironment) {
+        console.error('Error sending message:', error);
+      }
+    }
+  }
+
+  async ready(): Promise<boolean> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch(error => {
+        if (!isTestEnvironment) {
+          console.error('Error handling HTTP request:', error);
+        }
+        if (!res.headersSent) {
+          this.writeJson(res, 500, { jsonrpc: '2.0', error: { code: INTERNAL_ERROR, message: 'Internal error' } });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    if (!isTestEnvironment) {
+      console.error(`HTTP transport listening on http://${this.options.host}:${this.port}${this.options.path}`);
+    }
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), Math.min(this.options.sessionIdleTimeout, 60000));
+    this.sweepTimer.unref();
+
+    this.emit('ready');
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.sessions.forEach(session => session.streams.forEach(stream => stream.end()));
+    this.sessions.clear();
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  }
+
+  private async handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== this.options.path) {
+      this.writeJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    // Reject browser requests from origins other than localhost unless explicitly allowed
+    // (DNS rebinding protection); requests without an Origin header don't come from a web page
+    const origin = req.headers.origin;
+    if (origin !== undefined && !isLocalOrigin(origin) && !this.options.allowedOrigins?.includes(origin)) {
+      this.writeJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      await this.handlePost(req, res);
+    } else if (req.method === 'GET') {
+      this.handleEventStream(req, res);
+    } else if (req.method === 'DELETE') {
+      const session = this.getSession(req, res);
+      if (session) {
+        this.closeSession(session);
+        res.writeHead(200).end();
+      }
+    } else {
+      res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+    }
+  }
+
+  private async handlePost(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      if (error instanceof HttpBodyTooLargeError) {
+        // The rest of the body is discarded; close the connection rather than read it all
+        res.setHeader('Connection', 'close');
+        this.writeJson(res, 413, { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: error.message } });
+        return;
+      }
+      this.writeJson(res, 400, {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: PARSE_ERROR, message: `Parse error: ${(error as Error).message}` }
+      });
+      return;
+    }
+
+    const isBatch = Array.isArray(body);
+    const messages = (isBatch ? body : [body]) as JSONRPCRequest[];
+    if (messages.length === 0 || messages.some(message => !message || message.jsonrpc !== '2.0')) {
+      this.writeJson(res, 400, {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: INVALID_REQUEST, message: 'Invalid Request: expected JSON-RPC 2.0 messages' }
+      });
+      return;
+    }
+
+    // An initialize request starts a new session; everything else must carry a known session id
+    let session: HttpSession | null;
+    if (messages.some(message => message.method === 'initialize')) {
+      this.closeIdleSessions();
+      if (this.sessions.size >= this.options.maxSessions) {
+        this.writeJson(res, 503, { jsonrpc: '2.0', id: null, error: { code: INTERNAL_ERROR, message: 'Too many open sessions' } });
+        return;
+      }
+      session = { id: randomUUID(), streams: new Set(), lastActiveAt: Date.now() };
+      this.sessions.set(session.id, session);
+      res.setHeader('Mcp-Session-Id', session.id);
+    } else {
+      session = this.getSession(req, res);
+      if (!session) {
+        return;
+      }
+    }
+
+    // Only requests (method and id) get responses; notifications and client responses are acknowledged
+    const isRequest = (message: JSONRPCRequest): boolean =>
+      Boolean(message.method) && message.id !== undefined && message.id !== null;
+    messages
+      .filter(message => message.method && !isRequest(message))
+      .forEach(message => this.emit('notification', { ...fromJsonRpc(message), sessionId: session!.id }));
+
+    const requests = messages.filter(isRequest);
+    if (requests.length === 0) {
+      res.writeHead(202).end();
+      return;
+    }
+
+    // Drop the pending entries of a client that disconnects before its responses are ready
+    const requestIds: number[] = [];
+    res.on('close', () => requestIds.forEach(requestId => this.abandon(requestId)));
+
+    const responses = await Promise.all(requests.map(message => this.dispatch(message, session!.id, requestIds)));
+    if (!res.destroyed) {
+      this.writeJson(res, 200, isBatch ? responses : responses[0]);
+    }
+  }
+
+  // Open a server-sent events stream for server-initiated notifications
+  private handleEventStream(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!(req.headers.accept || '').includes('text/event-stream')) {
+      res.writeHead(406).end();
+      return;
+    }
+
+    const session = this.getSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': session.id
+    });
+    res.flushHeaders();
+
+    session.streams.add(res);
+    req.on('close', () => session.streams.delete(res));
+  }
+
+  // Hand a request to the server under a transport-unique id, recorded in requestIds, and wait
+  // for its response
+  private dispatch(message: JSONRPCRequest, sessionId: string, requestIds: number[]): Promise<JSONRPCResponse> {
+    const requestId = ++this.nextRequestId;
+    requestIds.push(requestId);
+
+    return new Promise(resolve => {
+      this.pending.set(requestId, { originalId: message.id!, resolve });
+      this.emit('request', { ...fromJsonRpc({ ...message, id: requestId }), sessionId });
+    });
+  }
+
+  // Settle a request whose client went away; the server's response, if it comes, is dropped
+  private abandon(requestId: number): void {
+    const pending = this.pending.get(requestId);
+    if (pending) {
+      this.pending.delete(requestId);
+      pending.resolve({ jsonrpc: '2.0', id: pending.originalId, error: { code: INTERNAL_ERROR, message: 'Client disconnected' } });
+    }
+  }
+
+  private closeSession(session: HttpSession): void {
+    session.streams.forEach(stream => stream.end());
+    this.sessions.delete(session.id);
+    this.emit('sessionClosed', session.id);
+  }
+
+  // Close sessions without an open event stream that have been idle past the timeout
+  private closeIdleSessions(): void {
+    const idleSince = Date.now() - this.options.sessionIdleTimeout;
+    Array.from(this.sessions.values())
+      .filter(session => session.streams.size === 0 && session.lastActiveAt < idleSince)
+      .forEach(session => this.closeSession(session));
+  }
+
+  private getSession(req: http.IncomingMessage, res: http.ServerResponse): HttpSession | null {
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId !== 'string') {
+      this.writeJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Missing Mcp-Session-Id header' } });
+      return null;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.writeJson(res, 404, { jsonrpc: '2.0', id: null, error: { code: INVALID_REQUEST, message: 'Unknown session' } });
+      return null;
+    }
+
+    session.lastActiveAt = Date.now();
+    return session;
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let size = 0;
+      const chunks: Buffer[] = [];
+
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_HTTP_BODY_BYTES) {
+          // Stop buffering, but let the request drain so the 413 response can still be sent
+          req.removeAllListeners('data');
+          req.resume();
+          reject(new HttpBodyTooLargeError());
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+
+  private writeJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
+
+export const server = {
+  McpServer,
+  StdioServerTransport,
+  HttpServerTransport,
+  McpError,
+  ToolError,
+  _isTestEnvironment: isTestEnvironment // Expose for testing
 };
\ No newline at end of file
@@ -1,63 +1,213 @@
-/**
- * config.ts - Configuration management for OpenGathyr
- */
-import dotenv from 'dotenv';
-import { FeedConfig } from '../types/rss';
-import { MCPServerConfig } from '../types/mcp';
-
-// Re-export FeedConfig type for use in other modules
-export type { FeedConfig };
-
-// Load environment variables
-dotenv.config();
-
-// Default configuration for the RSS feeds
-export const DEFAULT_REFRESH_INTERVAL = 300000; // 5 minutes in milliseconds
-export const DEFAULT_MAX_ITEMS = 20;
-
-// Function to load RSS feed URLs from environment variables
-export function loadRSSFeedsFromEnv(): FeedConfig[] {
-  const feeds: FeedConfig[] = [];
-  const refreshInterval = process.env.RSS_REFRESH_INTERVAL 
-    ? parseInt(process.env.RSS_REFRESH_INTERVAL, 10) 
-    : DEFAULT_REFRESH_INTERVAL;
-    
-  const maxItems = process.env.RSS_MAX_ITEMS 
-    ? parseInt(process.env.RSS_MAX_ITEMS, 10) 
-    : DEFAULT_MAX_ITEMS;
-    
-  // Find all environment variables matching the pattern RSS_FEED_URL_*
-  Object.keys(process.env).forEach(key => {
-    if (key.match(/^RSS_FEED_URL_\d+$/)) {
-      const url = process.env[key];
-      if (url) {
-        const feedNumber = key.split('_').pop();
-        feeds.push({
-          name: `feed-${feedNumber}`,
-          url,
-          refreshInterval,
-          maxItems
-        });
-      }
-    }
-  });
-  
-  return feeds.length > 0 ? feeds : DEFAULT_FEEDS;
-}
-
-// Sample RSS feeds configuration
-// This can be overridden by environment variables or a config file
-export const DEFAULT_FEEDS: FeedConfig[] = [
-  {
-    name: 'news',
-    url: 'https://news.google.com/rss',
-    refreshInterval: DEFAULT_REFRESH_INTERVAL,
-    maxItems: DEFAULT_MAX_ITEMS
-  }
-];
-
-// MCP Server configuration
-export const MCP_SERVER_CONFIG: MCPServerConfig = {
-  name: process.env.MCP_SERVER_NAME || 'opengathyr',
-  version: process.env.MCP_SERVER_VERSION || '1.0.0'
-};
\ No newline at end of file
+/**
+ * config.ts - Configuration management for OpenGathyr
+ */
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { resolve } from 'path';
+import { ArticleOptions, BackoffPolicy, FeedConfig, FetchSchedulerOptions, RefreshPolicy } from '../types/rss';
+import { MCPServerConfig, MCPTransportConfig } from '../types/mcp';
+import { SourceAdapter } from '../types/source';
+import { StorageConfig } from '../types/storage';
+import { parseOpml } from '../utils/opml';
+
+// Re-export FeedConfig type for use in other modules
+export type { FeedConfig };
+
+// Load environment variables
+dotenv.config();
+
+// Default configuration for the RSS feeds
+export const DEFAULT_REFRESH_INTERVAL = 300000; // 5 minutes in milliseconds
+export const DEFAULT_MAX_ITEMS = 20;
+
+// Function to load RSS feed URLs from environment variables
+export function loadRSSFeedsFromEnv(): FeedConfig[] {
+  const feeds: FeedConfig[] = [];
+  const refreshInterval = process.env.RSS_REFRESH_INTERVAL 
+    ? parseInt(process.env.RSS_REFRESH_INTERVAL, 10) 
+    : DEFAULT_REFRESH_INTERVAL;
+    
+  const maxItems = process.env.RSS_MAX_ITEMS 
+    ? parseInt(process.env.RSS_MAX_ITEMS, 10) 
+    : DEFAULT_MAX_ITEMS;
+    
+  // RSS_REFRESH_MODE=fixed refreshes every RSS_REFRESH_INTERVAL regardless of what feeds declare
+  const refreshMode = process.env.RSS_REFRESH_MODE?.toLowerCase() === 'fixed' ? 'fixed' : undefined;
+    
+  // Find all environment variables matching the pattern RSS_FEED_URL_*
+  Object.keys(process.env).forEach(key => {
+    if (key.match(/^RSS_FEED_URL_\d+$/)) {
+      const url = process.env[key];
+      if (url) {
+        const feedNumber = key.split('_').pop();
+        feeds.push({
+          name: `feed-${feedNumber}`,
+          url,
+          refreshInterval,
+          refreshMode,
+          maxItems
+        });
+      }
+    }
+  });
+  
+  return feeds;
+}
+
+// Function to load the feeds of the OPML file named by RSS_OPML_FILE, e.g. a subscription
+// list exported from another reader; throws if the file can't be read or isn't OPML
+export function loadOpmlFeedsFromEnv(): FeedConfig[] {
+  const path = process.env.RSS_OPML_FILE;
+  return path ? parseOpml(readFileSync(path, 'utf8')) : [];
+}
+
+// Loads plugin modules by absolute path, the same way require() would
+const loadPlugin = createRequire(__filename);
+
+// Function to load the source adapters of the plugin modules listed in RSS_SOURCE_PLUGINS,
+// comma-separated paths resolved against the working directory. A plugin exports an adapter or
+// an array of them as `sources`, its default export or the module itself; throws if one can't
+// be loaded or exports something else.
+export function loadSourcePluginsFromEnv(): SourceAdapter[] {
+  const paths = (process.env.RSS_SOURCE_PLUGINS || '').split(',').map(path => path.trim()).filter(Boolean);
+  return paths.flatMap(path => {
+    const plugin = loadPlugin(resolve(path));
+    const exported = plugin.sources ?? plugin.default ?? plugin;
+    const adapters: unknown[] = Array.isArray(exported) ? exported : [exported];
+    if (!adapters.every(isSourceAdapter)) {
+      throw new Error(`Source plugin ${path} must export a source adapter, with a type and a parse function, or an array of them`);
+    }
+    return adapters;
+  });
+}
+
+function isSourceAdapter(value: unknown): value is SourceAdapter {
+  const adapter = value as SourceAdapter | undefined;
+  return typeof adapter?.type === 'string' && adapter.type !== '' && typeof adapter.parse === 'function';
+}
+
+// Sample RSS feeds configuration, a stand-in for a server with no feeds at all: only added
+// when neither environment variables nor the store provide any
+export const DEFAULT_FEEDS: FeedConfig[] = [
+  {
+    name: 'news',
+    url: 'https://news.google.com/rss',
+    refreshInterval: DEFAULT_REFRESH_INTERVAL,
+    maxItems: DEFAULT_MAX_ITEMS
+  }
+];
+
+// MCP Server configuration
+export const MCP_SERVER_CONFIG: MCPServerConfig = {
+  name: process.env.MCP_SERVER_NAME || 'opengathyr',
+  version: process.env.MCP_SERVER_VERSION || '1.0.0'
+};
+
+// Default settings for the Streamable HTTP transport
+export const DEFAULT_HTTP_PORT = 3000;
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PATH = '/mcp';
+
+// Function to load the transport selection from environment variables
+export function loadTransportConfigFromEnv(): MCPTransportConfig {
+  const port = parseInt(process.env.MCP_HTTP_PORT || process.env.PORT || '', 10);
+  const allowedOrigins = process.env.MCP_HTTP_ALLOWED_ORIGINS
+    ?.split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+  return {
+    type: process.env.MCP_TRANSPORT?.toLowerCase() === 'http' ? 'http' : 'stdio',
+    port: isNaN(port) ? DEFAULT_HTTP_PORT : port,
+    host: process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST,
+    path: process.env.MCP_HTTP_PATH || DEFAULT_HTTP_PATH,
+    allowedOrigins: allowedOrigins && allowedOrigins.length > 0 ? allowedOrigins : undefined
+  };
+}
+
+// Default settings for feed persistence
+export const DEFAULT_DATA_DIR = './data';
+export const DEFAULT_RETENTION_DAYS = 30;
+export const DEFAULT_RETENTION_MAX_ITEMS = 1000;
+
+// Function to load the storage backend and retention policy from environment variables
+export function loadStorageConfigFromEnv(): StorageConfig {
+  const maxAgeDays = parseInt(process.env.RSS_RETENTION_DAYS || '', 10);
+  const maxItemsPerFeed = parseInt(process.env.RSS_RETENTION_MAX_ITEMS || '', 10);
+
+  return {
+    type: process.env.RSS_STORAGE?.toLowerCase() === 'memory' ? 'memory' : 'file',
+    dataDir: process.env.RSS_DATA_DIR || DEFAULT_DATA_DIR,
+    retention: {
+      maxAgeDays: isNaN(maxAgeDays) ? DEFAULT_RETENTION_DAYS : maxAgeDays,
+      maxItemsPerFeed: isNaN(maxItemsPerFeed) ? DEFAULT_RETENTION_MAX_ITEMS : maxItemsPerFeed
+    }
+  };
+}
+
+// Default backoff for failing feeds
+export const DEFAULT_BACKOFF_MAX_INTERVAL = 21600000; // 6 hours in milliseconds
+export const DEFAULT_PAUSE_AFTER_FAILURES = 10;
+
+// Function to load the failure backoff policy from environment variables
+export function loadBackoffConfigFromEnv(): BackoffPolicy {
+  const maxInterval = parseInt(process.env.RSS_BACKOFF_MAX_INTERVAL || '', 10);
+  const pauseAfterFailures = parseInt(process.env.RSS_PAUSE_AFTER_FAILURES || '', 10);
+
+  return {
+    maxInterval: isNaN(maxInterval) ? DEFAULT_BACKOFF_MAX_INTERVAL : maxInterval,
+    pauseAfterFailures: isNaN(pauseAfterFailures) ? DEFAULT_PAUSE_AFTER_FAILURES : pauseAfterFailures
+  };
+}
+
+// Default limits for the shared fetch queue
+export const DEFAULT_MAX_CONCURRENT_FETCHES = 6;
+export const DEFAULT_MAX_FETCHES_PER_HOST = 2;
+export const DEFAULT_FETCH_JITTER = 0.1;
+
+// Function to load the fetch concurrency limits and jitter from environment variables
+export function loadSchedulerConfigFromEnv(): FetchSchedulerOptions {
+  const maxConcurrent = parseInt(process.env.RSS_MAX_CONCURRENT_FETCHES || '', 10);
+  const maxPerHost = parseInt(process.env.RSS_MAX_FETCHES_PER_HOST || '', 10);
+  const jitter = parseFloat(process.env.RSS_FETCH_JITTER || '');
+
+  return {
+    maxConcurrent: maxConcurrent > 0 ? maxConcurrent : DEFAULT_MAX_CONCURRENT_FETCHES,
+    maxPerHost: maxPerHost > 0 ? maxPerHost : DEFAULT_MAX_FETCHES_PER_HOST,
+    jitter: jitter >= 0 && jitter <= 1 ? jitter : DEFAULT_FETCH_JITTER
+  };
+}
+
+// Default bounds for refresh intervals adapted to how often feeds publish
+export const DEFAULT_MIN_REFRESH_INTERVAL = 60000; // 1 minute in milliseconds
+export const DEFAULT_MAX_REFRESH_INTERVAL = 86400000; // 1 day in milliseconds
+
+// Function to load the adaptive refresh bounds from environment variables
+export function loadRefreshPolicyFromEnv(): RefreshPolicy {
+  const minInterval = parseInt(process.env.RSS_MIN_REFRESH_INTERVAL || '', 10);
+  const maxInterval = parseInt(process.env.RSS_MAX_REFRESH_INTERVAL || '', 10);
+
+  return {
+    minInterval: minInterval > 0 ? minInterval : DEFAULT_MIN_REFRESH_INTERVAL,
+    maxInterval: maxInterval > 0 ? maxInterval : DEFAULT_MAX_REFRESH_INTERVAL
+  };
+}
+
+// Default limits for fetching the articles items link to
+export const DEFAULT_ARTICLE_TIMEOUT = 15000; // 15 seconds in milliseconds
+export const DEFAULT_ARTICLE_MAX_BYTES = 2097152; // 2 MB
+export const DEFAULT_ARTICLES_PER_REFRESH = 10;
+
+// Function to load the article fetch timeout, size limit and per-refresh cap from environment variables
+export function loadArticleConfigFromEnv(): ArticleOptions {
+  const timeout = parseInt(process.env.RSS_ARTICLE_TIMEOUT || '', 10);
+  const maxBytes = parseInt(process.env.RSS_ARTICLE_MAX_BYTES || '', 10);
+  const maxPerRefresh = parseInt(process.env.RSS_ARTICLES_PER_REFRESH || '', 10);
+
+  return {
+    timeout: timeout > 0 ? timeout : DEFAULT_ARTICLE_TIMEOUT,
+    maxBytes: maxBytes > 0 ? maxBytes : DEFAULT_ARTICLE_MAX_BYTES,
+    maxPerRefresh: maxPerRefresh > 0 ? maxPerRefresh : DEFAULT_ARTICLES_PER_REFRESH
+  };
+}
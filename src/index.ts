@@ -1,250 +1,981 @@
-/**
- * index.ts - Main entry point for OpenGathyr MCP RSS Feed Server
- * 
- * This server uses the Model Context Protocol to provide RSS feed content
- * to MCP clients like ChatGPT, Claude, and others.
- */
-
-// Import dependencies
-import { z } from 'zod';
-import { RSSService } from './services/rss-service';
-import { 
-  MCP_SERVER_CONFIG, 
-  loadRSSFeedsFromEnv,
-  FeedConfig
-} from './config/config';
-
-// Use our custom MCP SDK adapter
-import { server as mcpSdk } from './adapters/mcpSdkAdapter';
-
-// Initialize the RSS service with feeds from environment variables
-const rssService = new RSSService(loadRSSFeedsFromEnv());
-
-// Create MCP Server instance
-const server = new mcpSdk.McpServer({
-  name: MCP_SERVER_CONFIG.name,
-  version: MCP_SERVER_CONFIG.version,
-  capabilities: {
-    resources: {},
-    tools: {},
-  },
-});
-
-// Register tool to get feed content
-server.tool(
-  "get-feed",
-  "Get content from a specific RSS feed",
-  {
-    feedName: z.string().describe("Name of the feed to retrieve"),
-  },
-  async (params) => {
-    // Type assertion for the feedName parameter
-    const feedName = params.feedName as string;
-    const feed = rssService.getFeed(feedName);
-    
-    if (!feed) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Feed '${feedName}' not found. Available feeds: ${Object.keys(rssService.getAllFeeds()).join(", ")}`,
-          },
-        ],
-      };
-    }
-    
-    const items = feed.items.map(item => {
-      return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
-    });
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: `# ${feed.title}\n\n${feed.description || ''}\n\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n\n${items.join('')}`,
-        },
-      ],
-    };
-  }
-);
-
-// Register tool to search across all feeds
-server.tool(
-  "search-feeds",
-  "Search for content across all RSS feeds",
-  {
-    query: z.string().describe("Search term to look for in feed titles and content"),
-  },
-  async (params) => {
-    // Type assertion for the query parameter
-    const query = params.query as string;
-    const results = rssService.searchFeeds(query);
-    
-    if (results.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No results found for search term: "${query}"`,
-          },
-        ],
-      };
-    }
-    
-    const formattedResults = results.map(item => {
-      return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
-    });
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: `# Search Results for: "${query}"\n\nFound ${results.length} matching items\n\n${formattedResults.join('')}`,
-        },
-      ],
-    };
-  }
-);
-
-// Register tool to list all available feeds
-server.tool(
-  "list-feeds",
-  "List all available RSS feeds",
-  {},
-  async () => {
-    const feeds = rssService.getAllFeeds();
-    const feedEntries = Object.entries(feeds);
-    
-    if (feedEntries.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "No RSS feeds are currently configured.",
-          },
-        ],
-      };
-    }
-    
-    const feedList = feedEntries.map(([name, feed]) => {
-      return `## ${feed.title}\nName: ${name}\nItems: ${feed.items.length}\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n${feed.description ? `Description: ${feed.description}\n` : ''}URL: ${feed.feedUrl}\n\n`;
-    });
-    
-    return {
-      content: [
-        {
-          type: "text",
-          text: `# Available RSS Feeds\n\n${feedList.join('')}`,
-        },
-      ],
-    };
-  }
-);
-
-// Register tool to add a new feed
-server.tool(
-  "add-feed",
-  "Add a new RSS feed to monitor",
-  {
-    name: z.string().describe("Name to identify this feed"),
-    url: z.string().url().describe("URL of the RSS feed"),
-    refreshInterval: z.number().optional().describe("Refresh interval in milliseconds (default: 300000)"),
-    maxItems: z.number().optional().describe("Maximum number of items to keep (default: 20)"),
-  },
-  async (params) => {
-    try {
-      // Create properly typed feedConfig
-      const feedConfig: FeedConfig = {
-        name: params.name as string,
-        url: params.url as string,
-        refreshInterval: params.refreshInterval as number | undefined,
-        maxItems: params.maxItems as number | undefined,
-      };
-      
-      rssService.addFeed(feedConfig);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Successfully added feed: ${feedConfig.name}\nURL: ${feedConfig.url}`,
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error adding feed: ${(error as Error).message}`,
-          },
-        ],
-      };
-    }
-  }
-);
-
-// Register tool to remove a feed
-server.tool(
-  "remove-feed",
-  "Remove an RSS feed from monitoring",
-  {
-    feedName: z.string().describe("Name of the feed to remove"),
-  },
-  async (params) => {
-    try {
-      // Type assertion for the feedName parameter
-      const feedName = params.feedName as string;
-      rssService.removeFeed(feedName);
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Successfully removed feed: ${feedName}`,
-          },
-        ],
-      };
-    } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error removing feed: ${(error as Error).message}`,
-          },
-        ],
-      };
-    }
-  }
-);
-
-// Set up the server transport
-const transport = new mcpSdk.StdioServerTransport();
-
-// Connect and run the server
-export async function main(): Promise<void> {
-  try {
-    // Set up error handlers for the process
-    process.on('uncaughtException', (error) => {
-      console.error('Uncaught exception:', error);
-    });
-    
-    process.on('unhandledRejection', (reason, promise) => {
-      console.error('Unhandled rejection at:', promise, 'reason:', reason);
-    });
-    
-    // Connect the server to the transport
-    console.error('Starting OpenGathyr MCP RSS Feed Server...');
-    await server.connect(transport);
-    console.error('RSS Feed MCP Server running on stdio');
-    
-    // Keep the process alive until explicitly terminated
-    process.stdin.resume();
-  } catch (error) {
-    console.error("Error starting RSS Feed MCP Server:", error);
-    process.exit(1);
-  }
-}
-
-// Call main() when this module is executed directly
+/**
+ * index.ts - Main entry point for OpenGathyr MCP RSS Feed Server
+ * 
+ * This server uses the Model Context Protocol to provide RSS feed content
+ * to MCP clients like ChatGPT, Claude, and others.
+ */
+
+// Import dependencies
+import { z } from 'zod';
+import { ArticleError } from './services/article-extractor';
+import { DEFAULT_NEW_ITEMS_LIMIT, MAX_NEW_ITEMS_LIMIT, RSSService } from './services/rss-service';
+import { DEFAULT_SEARCH_LIMIT } from './services/search-index';
+import { DiscoveredFeed, FeedArticle, FeedFetchResult, FeedItemRef, FeedUpdate, FetchQueueEntry, SearchResults } from './types/rss';
+import { MCPPromptMessage } from './types/mcp';
+import { 
+  MCP_SERVER_CONFIG, 
+  loadRSSFeedsFromEnv,
+  loadTransportConfigFromEnv,
+  loadStorageConfigFromEnv,
+  loadBackoffConfigFromEnv,
+  loadSchedulerConfigFromEnv,
+  loadRefreshPolicyFromEnv,
+  loadArticleConfigFromEnv,
+  loadOpmlFeedsFromEnv,
+  loadSourcePluginsFromEnv,
+  FeedConfig,
+  DEFAULT_FEEDS,
+  DEFAULT_REFRESH_INTERVAL,
+  DEFAULT_MAX_ITEMS
+} from './config/config';
+
+import {
+  FEED_URI_TEMPLATE,
+  FEED_ITEM_URI_TEMPLATE,
+  feedUri,
+  feedItemUri,
+  formatArticleMarkdown,
+  formatDiscoveredFeedMarkdown,
+  formatFeedMarkdown,
+  formatHealthMarkdown,
+  formatItemMarkdown,
+  formatValidationMarkdown
+} from './utils/feed-format';
+import {
+  articleSchema,
+  discoveredFeedSchema,
+  feedSchema,
+  feedSummarySchema,
+  feedStatusSchema,
+  feedValidationSchema,
+  fetchQueueSchema,
+  newItemSchema,
+  searchResultSchema,
+  toStructuredFeed,
+  toStructuredFeedStatus,
+  toStructuredFeedSummary,
+  toStructuredItem,
+  toStructuredNewItem,
+  toStructuredSearchResult,
+  StructuredFeedStatus
+} from './utils/feed-schemas';
+import { decodeItemCursor, encodeItemCursor } from './utils/item-cursor';
+import { SearchQueryError } from './utils/search-query';
+import { buildOpml, GROUP_SEPARATOR, OpmlError, parseOpml } from './utils/opml';
+import { DEFAULT_SOURCE_TYPE, UnknownSourceTypeError } from './sources/registry';
+
+import { FileFeedStore } from './storage/file-store';
+import { MemoryFeedStore } from './storage/memory-store';
+
+// Use our custom MCP SDK adapter
+import { server as mcpSdk } from './adapters/mcpSdkAdapter';
+
+// Set up the feed store selected by RSS_STORAGE (files under RSS_DATA_DIR by default);
+// feeds are restored from it and merged with those from environment variables in main(),
+// after the source plugins they may use have been loaded
+const storageConfig = loadStorageConfigFromEnv();
+const rssService = new RSSService([], {
+  store: storageConfig.type === 'file' ? new FileFeedStore(storageConfig.dataDir) : new MemoryFeedStore(),
+  retention: storageConfig.retention,
+  backoff: loadBackoffConfigFromEnv(),
+  scheduler: loadSchedulerConfigFromEnv(),
+  refresh: loadRefreshPolicyFromEnv(),
+  article: loadArticleConfigFromEnv(),
+});
+
+// Create MCP Server instance
+const server = new mcpSdk.McpServer({
+  name: MCP_SERVER_CONFIG.name,
+  version: MCP_SERVER_CONFIG.version,
+  capabilities: {
+    resources: {},
+    tools: {},
+    prompts: {},
+  },
+});
+
+// Tool error for a feed name that isn't configured, listing the names that are
+function feedNotFound(feedName: string): Error {
+  const availableFeeds = rssService.getFeedNames();
+  return new mcpSdk.ToolError(
+    "feed_not_found",
+    `Feed '${feedName}' not found. Available feeds: ${availableFeeds.join(", ")}`,
+    { feedName, availableFeeds }
+  );
+}
+
+// Health and fetch stats of a configured feed in structured form
+function feedStatus(feedName: string): StructuredFeedStatus {
+  return toStructuredFeedStatus(
+    feedName,
+    rssService.getFeedConfig(feedName)!.url,
+    rssService.getFeedHealth(feedName),
+    rssService.getFetchStats(feedName)
+  );
+}
+
+// Register tool to get feed content
+server.tool(
+  "get-feed",
+  "Get content from a specific RSS feed",
+  {
+    feedName: z.string().describe("Name of the feed to retrieve"),
+    detail: z.enum(['summary', 'full']).optional().default('summary').describe("summary shows each item's plain-text snippet; full shows its full article when one was fetched, otherwise its sanitized content, as markdown keeping links, lists and code"),
+  },
+  {
+    feed: feedSchema,
+  },
+  async ({ feedName, detail }) => {
+    const feed = rssService.getFeed(feedName);
+    
+    if (!feed) {
+      if (rssService.hasFeed(feedName)) {
+        throw new mcpSdk.ToolError(
+          "feed_not_loaded",
+          `Feed '${feedName}' has not been fetched successfully yet. Try again shortly.`,
+          { feedName }
+        );
+      }
+      throw feedNotFound(feedName);
+    }
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatFeedMarkdown(feed, detail),
+        },
+      ],
+      structuredContent: { feed: toStructuredFeed(feedName, feed, detail) },
+    };
+  }
+);
+
+// Register tool to read the full article an item links to
+server.tool(
+  "get-article",
+  "Get the full article behind a feed item: its link is fetched once, its main content extracted as markdown and kept with the item",
+  {
+    feedName: z.string().describe("Name of the feed the item is in"),
+    itemId: z.string().describe("The item's guid, or its link when it has no guid"),
+    refresh: z.boolean().default(false).describe("Fetch the article again even if it was fetched before"),
+  },
+  {
+    feedName: z.string(),
+    itemId: z.string(),
+    cached: z.boolean().describe("True when the article was fetched earlier and not fetched again"),
+    article: articleSchema,
+  },
+  async ({ feedName, itemId, refresh }) => {
+    if (!rssService.hasFeed(feedName)) {
+      throw feedNotFound(feedName);
+    }
+    const item = rssService.getFeedItem(feedName, itemId);
+    if (!item) {
+      throw new mcpSdk.ToolError("item_not_found", `No item '${itemId}' found in feed '${feedName}'.`, { feedName, itemId });
+    }
+    
+    const cached = !!item.article && !refresh;
+    let article: FeedArticle;
+    try {
+      article = await rssService.getArticle(feedName, itemId, refresh);
+    } catch (error) {
+      if (error instanceof ArticleError) {
+        throw new mcpSdk.ToolError(error.code, error.message, { feedName, itemId, url: item.link });
+      }
+      throw error;
+    }
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatArticleMarkdown(article),
+        },
+      ],
+      structuredContent: { feedName, itemId, cached, article },
+    };
+  }
+);
+
+// Register tool to search across all feeds
+server.tool(
+  "search-feeds",
+  "Search the retained items of all feeds, best matches first",
+  {
+    query: z.string().describe('Words to look for in item titles and content. Supports "exact phrases", prefix*, AND, OR, NOT or -word, parentheses, and feed:, author:, category:, after:, before: and has: filters'),
+    feedNames: z.array(z.string()).optional().describe("Names of the feeds to search (default: all feeds)"),
+    author: z.string().optional().describe("Only items whose author contains this text"),
+    category: z.string().optional().describe("Only items in this category"),
+    after: z.string().optional().describe("Only items published at or after this ISO 8601 date"),
+    before: z.string().optional().describe("Only items published before this ISO 8601 date"),
+    has: z.enum(['audio', 'video', 'image', 'media']).optional().describe("Only items with an attached file of this kind; media means audio or video"),
+    limit: z.number().int().positive().optional().default(DEFAULT_SEARCH_LIMIT).describe(`Maximum number of results (default: ${DEFAULT_SEARCH_LIMIT})`),
+  },
+  {
+    query: z.string(),
+    totalResults: z.number().int().describe("Number of matching items, including those past the limit"),
+    items: z.array(searchResultSchema),
+  },
+  async ({ query, feedNames, author, category, after, before, has, limit }) => {
+    const unknownFeed = feedNames?.find(name => !rssService.hasFeed(name));
+    if (unknownFeed) {
+      throw feedNotFound(unknownFeed);
+    }
+    
+    let search: SearchResults;
+    try {
+      search = rssService.search(query, { feedNames, author, category, after, before, has, limit });
+    } catch (error) {
+      if (error instanceof SearchQueryError) {
+        throw new mcpSdk.ToolError("invalid_query", error.message, { query });
+      }
+      throw error;
+    }
+    
+    const { total, results } = search;
+    const structuredContent = { query, totalResults: total, items: results.map(toStructuredSearchResult) };
+    
+    if (results.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No results found for search term: "${query}"`,
+          },
+        ],
+        structuredContent,
+      };
+    }
+    
+    const formattedResults = results.map(({ feedName, item, snippet }) =>
+      formatItemMarkdown({ ...item, title: `${item.title} (${feedName})`, contentSnippet: snippet })
+    );
+    const shown = results.length < total ? `, showing the best ${results.length}` : '';
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# Search Results for: "${query}"\n\nFound ${total} matching items${shown}\n\n${formattedResults.join('')}`,
+        },
+      ],
+      structuredContent,
+    };
+  }
+);
+
+// Register tool to read only the items that appeared since a previous call
+server.tool(
+  "get-new-items",
+  "Get feed items first seen after a timestamp or cursor, plus a cursor for the next call",
+  {
+    feedNames: z.array(z.string()).optional().describe("Names of the feeds to include (default: all feeds)"),
+    since: z.string().datetime({ offset: true }).optional().describe("Only return items first seen at or after this ISO 8601 time"),
+    cursor: z.string().optional().describe("Cursor from a previous call; only return items after the last one that call returned"),
+    limit: z.number().int().positive().max(MAX_NEW_ITEMS_LIMIT).optional().default(DEFAULT_NEW_ITEMS_LIMIT).describe(`Maximum number of items (default: ${DEFAULT_NEW_ITEMS_LIMIT}, at most ${MAX_NEW_ITEMS_LIMIT})`),
+  },
+  {
+    items: z.array(newItemSchema),
+    cursor: z.string().describe("Pass as cursor next time to get the items after the ones returned by this call"),
+    hasMore: z.boolean().describe("Whether the limit left new items for the next call"),
+  },
+  async ({ feedNames, since, cursor, limit }) => {
+    if (since && cursor) {
+      throw new mcpSdk.ToolError("invalid_arguments", "Pass either since or cursor, not both.", { since, cursor });
+    }
+    
+    const unknownFeed = feedNames?.find(name => !rssService.hasFeed(name));
+    if (unknownFeed) {
+      throw feedNotFound(unknownFeed);
+    }
+    
+    let seenAfter: Date | undefined;
+    let afterItem: FeedItemRef | undefined;
+    if (cursor) {
+      const decoded = decodeItemCursor(cursor);
+      if (!decoded) {
+        throw new mcpSdk.ToolError("invalid_cursor", "The cursor is not valid. Omit it to start over.", { cursor });
+      }
+      seenAfter = decoded.seenThrough;
+      afterItem = decoded.lastItem;
+    } else if (since) {
+      // The watermark is exclusive; a millisecond earlier includes items seen exactly at `since`
+      seenAfter = new Date(Date.parse(since) - 1);
+    }
+    
+    const { items, hasMore, ...position } = rssService.getNewItems(seenAfter, feedNames, { limit, afterItem });
+    const nextCursor = encodeItemCursor(position);
+    const formattedItems = items.map(({ feedName, item }) => formatItemMarkdown({ ...item, title: `${item.title} (${feedName})` }));
+    const found = hasMore
+      ? `Showing the first ${items.length} new items; pass the cursor to get more.`
+      : `Found ${items.length} new items.`;
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: items.length > 0
+            ? `# New Items\n\n${found} Cursor for the next call: ${nextCursor}\n\n${formattedItems.join('')}`
+            : `No new items. Cursor for the next call: ${nextCursor}`,
+        },
+      ],
+      structuredContent: { items: items.map(toStructuredNewItem), cursor: nextCursor, hasMore },
+    };
+  }
+);
+
+// Register tool to list all available feeds
+server.tool(
+  "list-feeds",
+  "List all available RSS feeds",
+  {},
+  {
+    feeds: z.array(feedSummarySchema),
+  },
+  async () => {
+    const feedNames = rssService.getFeedNames();
+    const structuredContent = {
+      feeds: feedNames.map(name => toStructuredFeedSummary(rssService.getFeed(name), feedStatus(name), rssService.getFeedConfig(name)!.group)),
+    };
+    
+    if (feedNames.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "No RSS feeds are currently configured.",
+          },
+        ],
+        structuredContent,
+      };
+    }
+    
+    const feedList = feedNames.map(name => {
+      const feed = rssService.getFeed(name);
+      const stats = rssService.getFetchStats(name);
+      const health = formatHealthMarkdown(rssService.getFeedHealth(name));
+      const fetches = `Fetches: ${stats.fetchCount} (${stats.notModifiedCount} unchanged, ${stats.errorCount} failed)\n`;
+      const { url, group } = rssService.getFeedConfig(name)!;
+      const folder = group ? `Group: ${group}\n` : '';
+      if (!feed) {
+        return `## ${name}\nName: ${name}\n${folder}Items: 0 (not fetched yet)\n${health}${fetches}URL: ${url}\n\n`;
+      }
+      return `## ${feed.title}\nName: ${name}\n${folder}Items: ${feed.items.length}\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n${health}${fetches}${feed.description ? `Description: ${feed.description}\n` : ''}URL: ${feed.feedUrl}\n\n`;
+    });
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# Available RSS Feeds\n\n${feedList.join('')}`,
+        },
+      ],
+      structuredContent,
+    };
+  }
+);
+
+// Register tool to report feed health
+server.tool(
+  "feed-status",
+  "Show the health of RSS feeds: recent successes and errors, failure streaks, backoff and paused feeds",
+  {
+    feedName: z.string().optional().describe("Name of the feed to check (default: all feeds)"),
+  },
+  {
+    feeds: z.array(feedStatusSchema),
+  },
+  async ({ feedName }) => {
+    if (feedName && !rssService.hasFeed(feedName)) {
+      throw feedNotFound(feedName);
+    }
+    
+    const feedNames = feedName ? [feedName] : rssService.getFeedNames();
+    const statuses = feedNames.map(feedStatus);
+    const statusList = statuses.map(status => `## ${status.name}\n${formatHealthMarkdown(status.health)}URL: ${status.feedUrl}\n\n`);
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: statuses.length > 0
+            ? `# Feed Status\n\n${statusList.join('')}`
+            : "No RSS feeds are currently configured.",
+        },
+      ],
+      structuredContent: { feeds: statuses },
+    };
+  }
+);
+
+// Register tool to fetch feeds right away instead of waiting for their next refresh
+server.tool(
+  "refresh-feed",
+  "Fetch RSS feeds now, ahead of scheduled refreshes, and report their health afterwards",
+  {
+    feedName: z.string().optional().describe("Name of the feed to refresh (default: all feeds)"),
+  },
+  {
+    feeds: z.array(feedStatusSchema),
+  },
+  async ({ feedName }) => {
+    if (feedName && !rssService.hasFeed(feedName)) {
+      throw feedNotFound(feedName);
+    }
+    
+    // Failures are reported through each feed's health rather than failing the call
+    const feedNames = feedName ? [feedName] : rssService.getFeedNames();
+    await Promise.allSettled(feedNames.map(name => rssService.refreshFeed(name)));
+    
+    const statuses = feedNames.filter(name => rssService.hasFeed(name)).map(feedStatus);
+    const failed = statuses.filter(status => status.health.status !== 'healthy');
+    const statusList = statuses.map(status => `## ${status.name}\n${formatHealthMarkdown(status.health)}\n`);
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: statuses.length > 0
+            ? `Refreshed ${statuses.length} feeds, ${failed.length} failed.\n\n${statusList.join('')}`
+            : "No RSS feeds are currently configured.",
+        },
+      ],
+      structuredContent: { feeds: statuses },
+    };
+  }
+);
+
+// Register tool to inspect the shared fetch queue
+server.tool(
+  "fetch-queue",
+  "Show the feed fetch queue: running fetches, fetches waiting for a free slot, and upcoming refreshes",
+  {},
+  {
+    queue: fetchQueueSchema,
+  },
+  async () => {
+    const queue = rssService.getFetchQueue();
+    const describeEntry = (entry: FetchQueueEntry): string =>
+      `- ${entry.feedName}${entry.url ? ` article ${entry.url}` : ''} (${entry.host}, ${entry.priority} priority) ${entry.startedAt ? `started ${entry.startedAt}` : `due ${entry.dueAt}`}\n`;
+    const section = (title: string, entries: FetchQueueEntry[]): string =>
+      `## ${title} (${entries.length})\n${entries.map(describeEntry).join('')}\n`;
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# Fetch Queue\n\nLimits: ${queue.maxConcurrent} concurrent fetches, ${queue.maxPerHost} per host, ${Math.round(queue.jitter * 100)}% jitter\n\n`
+            + section('Running', queue.running)
+            + section('Waiting for a slot', queue.queued)
+            + section('Scheduled', queue.scheduled),
+        },
+      ],
+      structuredContent: { queue },
+    };
+  }
+);
+
+// Find the feeds at or linked from a URL, as a tool error when the URL can't be fetched
+async function discoverFeeds(url: string, fetched?: Map<string, FeedFetchResult>): Promise<DiscoveredFeed[]> {
+  try {
+    return await rssService.discoverFeeds(url, fetched);
+  } catch (error) {
+    throw new mcpSdk.ToolError("fetch_failed", `Could not fetch ${url}: ${(error as Error).message}`, { url });
+  }
+}
+
+// Items read from a source of a type other than 'feed' on a trial fetch, or undefined when it
+// can't be read and force is set; discovery and feed validation only apply to syndication feeds
+async function checkSource(feedConfig: FeedConfig, force: boolean): Promise<number | undefined> {
+  const { name, url, type } = feedConfig;
+  try {
+    return (await rssService.previewSource(feedConfig)).items.length;
+  } catch (error) {
+    if (error instanceof UnknownSourceTypeError) {
+      throw new mcpSdk.ToolError("unknown_source_type", error.message, { type, availableTypes: rssService.getSourceAdapters().map(adapter => adapter.type) });
+    }
+    if (!force) {
+      throw new mcpSdk.ToolError("source_check_failed", `The ${type} source at ${url} could not be read: ${(error as Error).message}`, { name, url, type });
+    }
+    return undefined;
+  }
+}
+
+// Register tool to add a new feed
+server.tool(
+  "add-feed",
+  "Add a new RSS feed to monitor, given the feed URL or the URL of a website that links to its feed",
+  {
+    name: z.string().describe("Name to identify this feed"),
+    url: z.string().url().describe("URL of the feed, or of a web page that links to it"),
+    refreshInterval: z.number().int().positive().default(DEFAULT_REFRESH_INTERVAL).describe("Refresh interval in milliseconds"),
+    refreshMode: z.enum(['adaptive', 'fixed']).optional().describe("'fixed' always refreshes every refreshInterval; 'adaptive' (default) follows the feed's ttl, skipHours/skipDays and update frequency"),
+    maxItems: z.number().int().positive().default(DEFAULT_MAX_ITEMS).describe("Maximum number of items to keep"),
+    group: z.string().optional().describe(`Folder to file the feed under, with nested folders separated by '${GROUP_SEPARATOR}' (e.g. "News/Tech")`),
+    type: z.string().default(DEFAULT_SOURCE_TYPE).describe("Source type: 'feed' for RSS, Atom and JSON Feed, 'sitemap', 'html' or a plugin type (see list-source-types)"),
+    options: z.record(z.string()).optional().describe("Source type settings, e.g. { item: 'article', title: 'h2' } for an 'html' source"),
+    fetchFullText: z.boolean().optional().describe("Fetch the page each new item links to and keep its full article, for feeds that only carry summaries"),
+    autoSelect: z.boolean().default(true).describe("When a web page offers several feeds, add the first one instead of listing them"),
+    force: z.boolean().default(false).describe("Add the feed even if it can't be fetched or parsed right now"),
+  },
+  {
+    added: z.boolean().describe("False when several feeds were found and autoSelect is off"),
+    feed: z.object({ name: z.string(), url: z.string() }).optional().describe("The feed that was added"),
+    validation: feedValidationSchema.optional().describe("Checks of the added feed's first fetch"),
+    itemCount: z.number().optional().describe("Items read from a source that isn't a feed on a trial fetch"),
+    candidates: z.array(discoveredFeedSchema).describe("Feeds found at the URL, valid ones first"),
+  },
+  async ({ name, url, refreshInterval, refreshMode, maxItems, group, type, options, fetchFullText, autoSelect, force }) => {
+    if (type !== DEFAULT_SOURCE_TYPE) {
+      const sourceConfig: FeedConfig = { name, url, refreshInterval, refreshMode, maxItems, group, type, options, fetchFullText };
+      const itemCount = await checkSource(sourceConfig, force);
+      try {
+        rssService.addFeed(sourceConfig);
+      } catch (error) {
+        throw new mcpSdk.ToolError("add_feed_failed", `Error adding feed: ${(error as Error).message}`, { name, url });
+      }
+      
+      const found = itemCount === undefined
+        ? 'Warning: the source could not be read and was added anyway because force is set.'
+        : `Found ${itemCount} item${itemCount === 1 ? '' : 's'}.`;
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully added feed: ${name}\nURL: ${url}\nType: ${type}\n${found}`,
+          },
+        ],
+        structuredContent: { added: true, feed: { name, url }, itemCount, candidates: [] },
+      };
+    }
+    
+    // Feeds fetched while discovering them are checked and added from that response
+    const fetched = new Map<string, FeedFetchResult>();
+    let candidates: DiscoveredFeed[] = [];
+    try {
+      candidates = await discoverFeeds(url, fetched);
+    } catch (error) {
+      if (!force) {
+        throw error;
+      }
+    }
+    const valid = candidates.filter(candidate => candidate.valid);
+    
+    if (valid.length === 0 && !force) {
+      const reason = candidates.length === 1 && candidates[0].error ? `: ${candidates[0].error}` : '';
+      throw new mcpSdk.ToolError("no_feed_found", `No valid feed found at ${url}${reason}`, { url, candidates });
+    }
+    
+    if (valid.length > 1 && !autoSelect) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Found ${valid.length} feeds at ${url}. Call add-feed again with one of these URLs:\n\n${valid.map(formatDiscoveredFeedMarkdown).join('\n')}`,
+          },
+        ],
+        structuredContent: { added: false, candidates },
+      };
+    }
+    
+    // Check the chosen feed the way it will be fetched, with the report for the caller
+    const feedUrl = valid[0]?.url ?? url;
+    const validation = await rssService.validateFeed(feedUrl, fetched.get(feedUrl));
+    if (!validation.valid && !force) {
+      const errors = validation.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; ');
+      throw new mcpSdk.ToolError("feed_validation_failed", `The feed at ${feedUrl} failed validation: ${errors}`, { url: feedUrl, validation });
+    }
+    
+    const feedConfig: FeedConfig = { name, url: feedUrl, refreshInterval, refreshMode, maxItems, group, fetchFullText };
+    try {
+      rssService.addFeed(feedConfig, validation.valid ? fetched.get(feedUrl) : undefined);
+    } catch (error) {
+      throw new mcpSdk.ToolError("add_feed_failed", `Error adding feed: ${(error as Error).message}`, { name, url: feedConfig.url });
+    }
+    
+    const discovered = feedConfig.url !== url ? ` (found at ${url})` : '';
+    const warning = validation.valid ? '' : 'Warning: the feed failed validation and was added anyway because force is set.\n';
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Successfully added feed: ${feedConfig.name}\nURL: ${feedConfig.url}${discovered}\n${warning}${formatValidationMarkdown(validation)}`,
+        },
+      ],
+      structuredContent: { added: true, feed: { name, url: feedConfig.url }, validation, candidates },
+    };
+  }
+);
+
+// Register tool to list the source types feeds can use
+server.tool(
+  "list-source-types",
+  "List the source types add-feed accepts: syndication feeds, sitemaps, HTML pages scraped with CSS selectors and any installed plugins",
+  {},
+  {
+    sources: z.array(z.object({ type: z.string(), description: z.string() })),
+  },
+  async () => {
+    const sources = rssService.getSourceAdapters().map(({ type, description }) => ({ type, description }));
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# Source types\n\n${sources.map(source => `- **${source.type}**: ${source.description}`).join('\n')}`,
+        },
+      ],
+      structuredContent: { sources },
+    };
+  }
+);
+
+// Register tool to check a feed without adding it
+server.tool(
+  "validate-feed",
+  "Fetch and check a feed without adding it, reporting its format, title and item count plus problems such as missing guids, bad dates and encoding issues",
+  {
+    url: z.string().url().describe("URL of the feed to check"),
+  },
+  {
+    validation: feedValidationSchema,
+  },
+  async ({ url }) => {
+    const validation = await rssService.validateFeed(url);
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# Validation of ${url}\n\n${formatValidationMarkdown(validation)}`,
+        },
+      ],
+      structuredContent: { validation },
+    };
+  }
+);
+
+// Register tool to list the feeds a website offers without adding any
+server.tool(
+  "discover-feeds",
+  "Find the RSS, Atom and JSON feeds at or linked from a URL, such as a website's home page",
+  {
+    url: z.string().url().describe("URL of a web page or feed"),
+  },
+  {
+    url: z.string(),
+    candidates: z.array(discoveredFeedSchema).describe("Feeds found at the URL, valid ones first"),
+  },
+  async ({ url }) => {
+    const candidates = await discoverFeeds(url);
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: candidates.length > 0
+            ? `# Feeds at ${url}\n\n${candidates.map(formatDiscoveredFeedMarkdown).join('\n')}`
+            : `No feeds found at ${url}`,
+        },
+      ],
+      structuredContent: { url, candidates },
+    };
+  }
+);
+
+// Register tool to remove a feed
+server.tool(
+  "remove-feed",
+  "Remove an RSS feed from monitoring",
+  {
+    feedName: z.string().describe("Name of the feed to remove"),
+  },
+  async ({ feedName }) => {
+    if (!rssService.hasFeed(feedName)) {
+      throw feedNotFound(feedName);
+    }
+    
+    try {
+      rssService.removeFeed(feedName);
+      
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Successfully removed feed: ${feedName}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error removing feed: ${(error as Error).message}`,
+          },
+        ],
+      };
+    }
+  }
+);
+
+// Register tool to subscribe to the feeds of an OPML file from another reader
+server.tool(
+  "import-opml",
+  "Add the feeds of an OPML subscription list, filing them in groups named after its folders",
+  {
+    opml: z.string().describe("Contents of the OPML file"),
+    group: z.string().optional().describe("Folder to file the imported feeds under; the file's own folders nest inside it"),
+  },
+  {
+    added: z.array(z.string()).describe("Names of the feeds added"),
+    updated: z.array(z.string()).describe("Names of existing feeds whose settings were updated"),
+    skipped: z.array(z.object({ name: z.string(), url: z.string(), reason: z.string() })),
+  },
+  async ({ opml, group }) => {
+    let feeds: FeedConfig[];
+    try {
+      feeds = parseOpml(opml);
+    } catch (error) {
+      if (error instanceof OpmlError) {
+        throw new mcpSdk.ToolError("invalid_opml", error.message);
+      }
+      throw error;
+    }
+    
+    if (group) {
+      feeds = feeds.map(feed => ({ ...feed, group: feed.group ? `${group}${GROUP_SEPARATOR}${feed.group}` : group }));
+    }
+    
+    const result = rssService.importFeeds(feeds);
+    const lines = [
+      `Added ${result.added.length}, updated ${result.updated.length}, skipped ${result.skipped.length} of ${feeds.length} feeds.`,
+      ...result.added.map(name => `- Added: ${name}`),
+      ...result.updated.map(name => `- Updated: ${name}`),
+      ...result.skipped.map(({ name, url, reason }) => `- Skipped: ${name} (${url}): ${reason}`),
+    ];
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: `# OPML Import\n\n${lines.join('\n')}`,
+        },
+      ],
+      structuredContent: { ...result },
+    };
+  }
+);
+
+// Register tool to export the feed subscriptions as OPML
+server.tool(
+  "export-opml",
+  "Export the configured feeds and their settings as an OPML subscription list",
+  {
+    group: z.string().optional().describe("Only export feeds in this folder or its subfolders"),
+  },
+  {
+    opml: z.string(),
+    feedCount: z.number().int(),
+  },
+  async ({ group }) => {
+    const feeds = rssService.getFeedNames()
+      .map(name => rssService.getFeedConfig(name)!)
+      .filter(feed => !group || feed.group === group || feed.group?.startsWith(`${group}${GROUP_SEPARATOR}`));
+    const feedDetails = Object.fromEntries(feeds.map(({ name }) => {
+      const feed = rssService.getFeed(name);
+      return [name, { title: feed?.title, link: feed?.link }];
+    }));
+    const opml = buildOpml(feeds, { title: `${MCP_SERVER_CONFIG.name} feeds`, feedDetails });
+    
+    return {
+      content: [
+        {
+          type: "text",
+          text: opml,
+        },
+      ],
+      structuredContent: { opml, feedCount: feeds.length },
+    };
+  }
+);
+
+// Expose each feed as a resource at feed://{name}
+server.resourceTemplate(
+  "feed",
+  FEED_URI_TEMPLATE,
+  "Latest items from a monitored RSS feed",
+  {
+    list: async () => Object.entries(rssService.getAllFeeds()).map(([name, feed]) => ({
+      uri: feedUri(name),
+      name: feed.title,
+      description: feed.description,
+      mimeType: "text/markdown",
+    })),
+    read: async (uri, { name }) => {
+      const feed = rssService.getFeed(name);
+      if (!feed) {
+        return null;
+      }
+
+      const items = feed.items.map(item => ({ ...toStructuredItem(item), uri: feedItemUri(name, item) }));
+      return [
+        { uri, mimeType: "text/markdown", text: formatFeedMarkdown(feed) },
+        { uri, mimeType: "application/json", text: JSON.stringify({ ...feed, name, items }) },
+      ];
+    },
+  }
+);
+
+// Expose each feed item as a resource at feed://{name}/items/{guid}
+server.resourceTemplate(
+  "feed-item",
+  FEED_ITEM_URI_TEMPLATE,
+  "A single item from a monitored RSS feed, addressed by its guid or link",
+  {
+    read: async (uri, { name, guid }) => {
+      const item = rssService.getFeedItem(name, guid);
+      if (!item) {
+        return null;
+      }
+
+      return [
+        { uri, mimeType: "text/markdown", text: formatItemMarkdown(item) },
+        { uri, mimeType: "application/json", text: JSON.stringify(toStructuredItem(item, 'full')) },
+      ];
+    },
+  }
+);
+
+// Register prompt for a digest of recent items
+server.prompt(
+  "daily-briefing",
+  "Summarize recent items from your feeds into a daily news briefing",
+  {
+    feeds: z.string().optional().describe("Comma-separated feed names to include (default: all feeds)"),
+    hours: z.coerce.number().int().positive().default(24).describe("How many hours back to include (default: 24)"),
+  },
+  async ({ feeds, hours }) => {
+    const feedNames = feeds ? feeds.split(',').map(name => name.trim()).filter(Boolean) : undefined;
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+    const recentItems = Object.entries(rssService.getRecentItems(since, feedNames));
+    
+    const messages: MCPPromptMessage[] = [
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: `Write a concise daily briefing of the news items below, published in the last ${hours} hours. Group related stories, lead with the most significant developments, and link to the original sources.`,
+        },
+      },
+    ];
+    
+    if (recentItems.length === 0) {
+      messages.push({
+        role: "user",
+        content: { type: "text", text: "No items were published in this period." },
+      });
+    }
+    
+    recentItems.forEach(([name, items]) => {
+      const feed = rssService.getFeed(name);
+      messages.push({
+        role: "user",
+        content: {
+          type: "text",
+          text: `# ${feed?.title || name}\n\n${items.map(item => formatItemMarkdown(item)).join('')}`,
+        },
+      });
+    });
+    
+    return { messages };
+  }
+);
+
+// Register prompt for tracking a topic across feeds
+server.prompt(
+  "topic-watch",
+  "Report what your feeds currently say about a topic",
+  {
+    query: z.string().describe("Topic or search term to watch"),
+  },
+  async ({ query }) => {
+    const results = rssService.searchFeeds(query);
+    
+    return {
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `Summarize what the feed items below say about "${query}". Highlight new developments, note where sources disagree, and link to the original articles.`,
+          },
+        },
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: results.length > 0
+              ? `# Items matching "${query}"\n\n${results.map(item => formatItemMarkdown(item)).join('')}`
+              : `No feed items currently match "${query}".`,
+          },
+        },
+      ],
+    };
+  }
+);
+
+// Let subscribed clients know when a refresh adds or changes items
+rssService.on('feedUpdated', ({ feedName, added, changed }: FeedUpdate) => {
+  server.notifyResourceUpdated(feedUri(feedName));
+  [...added, ...changed].forEach(item => {
+    const uri = feedItemUri(feedName, item);
+    if (uri) {
+      server.notifyResourceUpdated(uri);
+    }
+  });
+});
+
+// Set up the server transport selected by MCP_TRANSPORT (stdio by default)
+const transportConfig = loadTransportConfigFromEnv();
+const transport = transportConfig.type === 'http'
+  ? new mcpSdk.HttpServerTransport(transportConfig)
+  : new mcpSdk.StdioServerTransport();
+
+// Connect and run the server
+export async function main(): Promise<void> {
+  try {
+    // Set up error handlers for the process
+    process.on('uncaughtException', (error) => {
+      console.error('Uncaught exception:', error);
+    });
+    
+    process.on('unhandledRejection', (reason, promise) => {
+      console.error('Unhandled rejection at:', promise, 'reason:', reason);
+    });
+    
+    // Reload stored feeds and history before serving requests; the transport only starts
+    // reading once connected, so requests sent meanwhile wait instead of being dropped
+    console.error('Starting OpenGathyr MCP RSS Feed Server...');
+    loadSourcePluginsFromEnv().forEach(adapter => rssService.registerSource(adapter));
+    // An OPML file replaces the default feeds even when it lists none
+    const defaultFeeds = process.env.RSS_OPML_FILE ? [] : DEFAULT_FEEDS;
+    await rssService.restore([...loadOpmlFeedsFromEnv(), ...loadRSSFeedsFromEnv()], defaultFeeds);
+    
+    // Connect the server to the transport
+    await server.connect(transport);
+    console.error(`RSS Feed MCP Server running on ${transportConfig.type}`);
+    
+    // Keep the process alive until explicitly terminated
+    if (transportConfig.type === 'stdio') {
+      process.stdin.resume();
+    }
+  } catch (error) {
+    console.error("Error starting RSS Feed MCP Server:", error);
+    process.exit(1);
+  }
+}
+
+// Call main() when this module is executed directly
 main();
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * article-extractor.ts - Fetching the pages items link to and extracting their main content
+ */
+import { ArticleOptions, FeedArticle, FeedFetchResult } from '../types/rss';
+import { extractArticle } from '../utils/readability';
+import { FeedFetcher, FeedHttpError, ResponseTooLargeError } from './feed-fetcher';
+
+export const DEFAULT_ARTICLE_OPTIONS: ArticleOptions = {
+  timeout: 15000, // 15 seconds in milliseconds
+  maxBytes: 2097152, // 2 MB
+  maxPerRefresh: 10
+};
+
+export type ArticleErrorCode = 'no_link' | 'timeout' | 'too_large' | 'http_error' | 'fetch_failed' | 'not_html' | 'no_content';
+
+// Thrown when an article can't be fetched or has no content to extract; code says why
+export class ArticleError extends Error {
+  public code: ArticleErrorCode;
+
+  constructor(code: ArticleErrorCode, message: string) {
+    super(message);
+    this.name = 'ArticleError';
+    this.code = code;
+  }
+}
+
+/**
+ * Fetches an article page within a timeout and size limit and extracts its main content as
+ * markdown. Pages served as something other than HTML are refused.
+ */
+export class ArticleExtractor {
+  private fetcher: FeedFetcher;
+  private options: ArticleOptions;
+
+  constructor(fetcher: FeedFetcher, options: Partial<ArticleOptions> = {}) {
+    this.fetcher = fetcher;
+    this.options = { ...DEFAULT_ARTICLE_OPTIONS, ...options };
+  }
+
+  public async extract(url: string): Promise<FeedArticle> {
+    let result: FeedFetchResult;
+    try {
+      result = await this.fetcher.fetch(url, {}, this.options.timeout, this.options.maxBytes);
+    } catch (error) {
+      throw this.fetchError(error as Error, url);
+    }
+
+    const contentType = result.contentType?.split(';')[0].trim().toLowerCase();
+    if (contentType && !contentType.includes('html')) {
+      throw new ArticleError('not_html', `${url} serves ${contentType}, not a web page`);
+    }
+
+    const pageUrl = result.url || url;
+    const article = extractArticle(result.body || '', pageUrl);
+    if (!article.markdown) {
+      throw new ArticleError('no_content', `No article content found at ${pageUrl}`);
+    }
+    return { url: pageUrl, ...article, extractedAt: new Date().toISOString() };
+  }
+
+  private fetchError(error: Error, url: string): ArticleError {
+    if (error.name === 'TimeoutError') {
+      return new ArticleError('timeout', `No response from ${url} within ${this.options.timeout / 1000} seconds`);
+    }
+    if (error instanceof ResponseTooLargeError) {
+      return new ArticleError('too_large', `The page at ${url} is larger than ${error.maxBytes} bytes`);
+    }
+    if (error instanceof FeedHttpError) {
+      return new ArticleError('http_error', `${url} answered with HTTP ${error.status}`);
+    }
+    return new ArticleError('fetch_failed', `${url} could not be fetched: ${error.message}`);
+  }
+}
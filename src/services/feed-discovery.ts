@@ -0,0 +1,157 @@
+/**
+ * feed-discovery.ts - Finding the feeds behind a website URL
+ */
+import { DiscoveredFeed, FeedFetchResult, FeedFormat } from '../types/rss';
+import { decodeEntities } from '../utils/html';
+import { FeedFetcher } from './feed-fetcher';
+
+// Parses a feed document, throwing if it isn't one
+export type FeedDocumentParser = (body: string) => Promise<{ title?: string; items: unknown[] }>;
+
+// Paths tried, relative to the site root, when a page doesn't link to its feeds
+export const COMMON_FEED_PATHS = ['/feed', '/rss', '/feed.xml', '/rss.xml', '/atom.xml', '/index.xml', '/feed.json'];
+
+// At most this many linked feeds are fetched to validate them
+const MAX_LINKED_FEEDS = 8;
+
+const LINK_TYPES: Record<string, FeedFormat> = {
+  'application/rss+xml': 'rss',
+  'application/atom+xml': 'atom',
+  'application/rdf+xml': 'rdf',
+  'application/feed+json': 'json',
+  'application/json': 'json'
+};
+
+function tagAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4]).trim();
+  }
+  return attributes;
+}
+
+// The format of a feed document from its root element, or its JSON Feed version; the XML
+// declaration, comments and a DOCTYPE (as RSS 0.91 feeds have) before the root are skipped
+export function detectFeedFormat(body: string): FeedFormat | undefined {
+  const start = body
+    .replace(/^\uFEFF/, '')
+    .replace(/^\s*(<\?[\s\S]*?\?>\s*|<!--[\s\S]*?-->\s*|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>\s*)*/i, '');
+  if (start.startsWith('{')) {
+    return /"version"\s*:\s*"https?:\/\/jsonfeed\.org\/version\//.test(start) ? 'json' : undefined;
+  }
+  const root = /^<([\w:-]+)/.exec(start)?.[1].toLowerCase();
+  if (root === 'rss') {
+    return 'rss';
+  }
+  if (root === 'feed') {
+    return 'atom';
+  }
+  return root === 'rdf:rdf' ? 'rdf' : undefined;
+}
+
+// Whether a response is a web page rather than a feed
+export function isHtmlDocument(result: FeedFetchResult): boolean {
+  if (result.contentType?.toLowerCase().includes('html')) {
+    return true;
+  }
+  return /^\s*(<!doctype html|<html[\s>])/i.test((result.body || '').replace(/^\uFEFF/, ''));
+}
+
+// Feeds a page advertises with <link rel="alternate" type="application/rss+xml" href="...">,
+// resolved against the page's <base href> or its own URL
+export function extractFeedLinks(html: string, pageUrl: string): DiscoveredFeed[] {
+  const baseHref = /<base\b[^>]*>/i.exec(html);
+  let base = pageUrl;
+  try {
+    base = baseHref && tagAttributes(baseHref[0]).href ? new URL(tagAttributes(baseHref[0]).href, pageUrl).href : pageUrl;
+  } catch {
+    // An unusable <base> leaves links relative to the page
+  }
+
+  const feeds: DiscoveredFeed[] = [];
+  const tags = html.replace(/<!--[\s\S]*?-->/g, '').match(/<link\b[^>]*>/gi) || [];
+  tags.forEach(tag => {
+    const { rel = '', type = '', href, title } = tagAttributes(tag);
+    const format = LINK_TYPES[type.toLowerCase().split(';')[0].trim()];
+    if (!href || !format || !rel.toLowerCase().split(/\s+/).includes('alternate')) {
+      return;
+    }
+    try {
+      const url = new URL(href, base).href;
+      if (!feeds.some(feed => feed.url === url)) {
+        feeds.push({ url, source: 'link', format, title: title || undefined, valid: false });
+      }
+    } catch {
+      // Skip links that aren't URLs
+    }
+  });
+  return feeds;
+}
+
+/**
+ * Finds feeds for a URL. A URL that serves a feed is returned as is; for a web page, the feeds
+ * it links to are fetched and validated, and when it links to none, common feed paths on the
+ * same site are tried and only the ones that turn out to be feeds are kept. Candidates are
+ * fetched at the same time, so a page takes at most two timeouts to search.
+ */
+export class FeedDiscoverer {
+  private fetcher: FeedFetcher;
+  private parse: FeedDocumentParser;
+  private timeout?: number;
+
+  // Each request gives up after timeout milliseconds, or the fetcher's own timeout by default
+  constructor(fetcher: FeedFetcher, parse: FeedDocumentParser, timeout?: number) {
+    this.fetcher = fetcher;
+    this.parse = parse;
+    this.timeout = timeout;
+  }
+
+  // Candidates with valid ones first, in the order the page lists them; throws when the URL
+  // itself can't be fetched. The responses of valid candidates are recorded in fetched by URL,
+  // so a feed that is picked can be added without fetching it again.
+  public async discover(url: string, fetched = new Map<string, FeedFetchResult>()): Promise<DiscoveredFeed[]> {
+    const page = await this.fetcher.fetch(url, {}, this.timeout);
+    const pageUrl = page.url || url;
+
+    if (!isHtmlDocument(page)) {
+      return [await this.validate({ url: pageUrl, source: 'direct', valid: false }, page, fetched)];
+    }
+
+    const linked = extractFeedLinks(page.body || '', pageUrl).slice(0, MAX_LINKED_FEEDS);
+    if (linked.length > 0) {
+      const feeds = await Promise.all(linked.map(feed => this.check(feed, fetched)));
+      return [...feeds.filter(feed => feed.valid), ...feeds.filter(feed => !feed.valid)];
+    }
+
+    const probed = await Promise.all(COMMON_FEED_PATHS.map(path => this.check({ url: new URL(path, pageUrl).href, source: 'path', valid: false }, fetched)));
+    return probed.filter((feed, index) => feed.valid && probed.findIndex(found => found.url === feed.url) === index);
+  }
+
+  // Fetch a candidate and validate it
+  private async check(feed: DiscoveredFeed, fetched: Map<string, FeedFetchResult>): Promise<DiscoveredFeed> {
+    try {
+      const result = await this.fetcher.fetch(feed.url, {}, this.timeout);
+      return await this.validate({ ...feed, url: result.url || feed.url }, result, fetched);
+    } catch (error) {
+      return { ...feed, valid: false, error: (error as Error).message };
+    }
+  }
+
+  private async validate(feed: DiscoveredFeed, result: FeedFetchResult, fetched: Map<string, FeedFetchResult>): Promise<DiscoveredFeed> {
+    const body = result.body || '';
+    const format = detectFeedFormat(body);
+    if (!format) {
+      return { ...feed, valid: false, error: isHtmlDocument(result) ? 'Not a feed: the URL serves a web page' : 'Not a feed document' };
+    }
+
+    try {
+      const parsed = await this.parse(body);
+      fetched.set(feed.url, result);
+      return { ...feed, format, title: parsed.title || feed.title, valid: true, itemCount: parsed.items.length };
+    } catch (error) {
+      return { ...feed, format, valid: false, error: (error as Error).message };
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * feed-fetcher.ts - HTTP layer for feed downloads with conditional GET support
+ */
+import { FeedFetchResult, FeedValidators } from '../types/rss';
+
+export const DEFAULT_FETCH_TIMEOUT = 60000; // 1 minute in milliseconds
+const USER_AGENT = 'OpenGathyr (+https://github.com/risadams/OpenGathyr)';
+const ACCEPT = 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, application/json;q=0.9, text/xml;q=0.9, */*;q=0.8';
+
+// Thrown for responses other than 2xx and 304, keeping the status for fetch stats
+export class FeedHttpError extends Error {
+  public status: number;
+
+  constructor(status: number) {
+    super(`Status code ${status}`);
+    this.name = 'FeedHttpError';
+    this.status = status;
+  }
+}
+
+// Thrown when a response body is larger than the caller allows
+export class ResponseTooLargeError extends Error {
+  public maxBytes: number;
+
+  constructor(maxBytes: number) {
+    super(`Response larger than ${maxBytes} bytes`);
+    this.name = 'ResponseTooLargeError';
+    this.maxBytes = maxBytes;
+  }
+}
+
+// Read a response body as text, giving up as soon as it passes maxBytes
+async function readBody(response: Response, maxBytes?: number): Promise<string> {
+  if (maxBytes === undefined || !response.body) {
+    return response.text();
+  }
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body.cancel();
+    throw new ResponseTooLargeError(maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new ResponseTooLargeError(maxBytes);
+    }
+    chunks.push(value);
+  }
+  return new TextDecoder().decode(Buffer.concat(chunks));
+}
+
+export interface FeedFetcherOptions {
+  timeout?: number;
+}
+
+export class FeedFetcher {
+  private timeout: number;
+
+  constructor(options: FeedFetcherOptions = {}) {
+    this.timeout = options.timeout ?? DEFAULT_FETCH_TIMEOUT;
+  }
+
+  // Download a feed document, sending the validators from the previous response so an
+  // unchanged feed comes back as a bodiless 304; the timeout defaults to the fetcher's own.
+  // Bodies over maxBytes, when given, throw a ResponseTooLargeError.
+  public async fetch(url: string, validators: FeedValidators = {}, timeout = this.timeout, maxBytes?: number): Promise<FeedFetchResult> {
+    const headers: Record<string, string> = {
+      'User-Agent': USER_AGENT,
+      Accept: ACCEPT
+    };
+    if (validators.etag) {
+      headers['If-None-Match'] = validators.etag;
+    }
+    if (validators.lastModified) {
+      headers['If-Modified-Since'] = validators.lastModified;
+    }
+
+    const startedAt = Date.now();
+    const response = await fetch(url, {
+      headers,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(timeout)
+    });
+
+    if (response.status === 304) {
+      // A 304 may carry refreshed validators; keep the old ones for anything it omits
+      await response.body?.cancel();
+      return {
+        status: 304,
+        notModified: true,
+        validators: {
+          etag: response.headers.get('etag') || validators.etag,
+          lastModified: response.headers.get('last-modified') || validators.lastModified
+        },
+        bytes: 0,
+        durationMs: Date.now() - startedAt
+      };
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new FeedHttpError(response.status);
+    }
+
+    const body = await readBody(response, maxBytes);
+    return {
+      status: response.status,
+      notModified: false,
+      body,
+      contentType: response.headers.get('content-type') || undefined,
+      url: response.url || url,
+      validators: {
+        etag: response.headers.get('etag') || undefined,
+        lastModified: response.headers.get('last-modified') || undefined
+      },
+      bytes: Buffer.byteLength(body),
+      durationMs: Date.now() - startedAt
+    };
+  }
+}
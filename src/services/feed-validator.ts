@@ -0,0 +1,196 @@
+/**
+ * feed-validator.ts - Dry-run checks of a feed before it is added
+ */
+import { FeedFetchResult, FeedValidationIssue, FeedValidationReport } from '../types/rss';
+import { detectFeedFormat, isHtmlDocument } from './feed-discovery';
+import { FeedFetcher, FeedHttpError } from './feed-fetcher';
+
+export const DEFAULT_VALIDATION_TIMEOUT = 15000; // 15 seconds in milliseconds
+
+// The parts of a parsed item that are checked; rss-parser keeps the <id> of an Atom entry as id
+export interface ParsedFeedItem {
+  title?: string;
+  link?: string;
+  guid?: string;
+  id?: string;
+  pubDate?: string;
+  isoDate?: string;
+}
+
+export type ParsedFeedParser = (body: string) => Promise<{ title?: string; items: ParsedFeedItem[] }>;
+
+const MAX_EXAMPLES = 3;
+// Dates more than a day ahead are reported as being in the future
+const FUTURE_TOLERANCE = 24 * 60 * 60 * 1000;
+const UTF8_ENCODINGS = ['utf-8', 'utf8', 'us-ascii', 'ascii'];
+
+// A warning about some of a feed's items, or null when none are affected
+function itemWarning(
+  code: string,
+  message: string,
+  items: ParsedFeedItem[],
+  describe = (item: ParsedFeedItem): string => item.title || 'Untitled'
+): FeedValidationIssue | null {
+  if (items.length === 0) {
+    return null;
+  }
+  return { severity: 'warning', code, message, count: items.length, examples: items.slice(0, MAX_EXAMPLES).map(describe) };
+}
+
+// Problems with how the document is encoded. Feeds are always read as UTF-8, so documents
+// declared in another encoding may come out garbled.
+export function checkEncoding(result: FeedFetchResult): FeedValidationIssue[] {
+  const issues: FeedValidationIssue[] = [];
+  const body = result.body || '';
+  const header = /charset\s*=\s*"?([\w.:-]+)/i.exec(result.contentType || '')?.[1].toLowerCase();
+  const declared = /^\uFEFF?\s*<\?xml[^>]*\bencoding\s*=\s*["']([\w.:-]+)["']/i.exec(body)?.[1].toLowerCase();
+
+  if (header && declared && header !== declared && !(UTF8_ENCODINGS.includes(header) && UTF8_ENCODINGS.includes(declared))) {
+    issues.push({
+      severity: 'warning',
+      code: 'encoding_mismatch',
+      message: `The Content-Type header says ${header} but the document declares ${declared}`
+    });
+  }
+
+  const other = [header, declared].find(encoding => encoding && !UTF8_ENCODINGS.includes(encoding));
+  if (other) {
+    issues.push({
+      severity: 'warning',
+      code: 'unsupported_encoding',
+      message: `The feed is encoded as ${other} but is read as UTF-8, so non-ASCII characters may be garbled`
+    });
+  }
+
+  const replaced = (body.match(/\uFFFD/g) || []).length;
+  if (replaced > 0) {
+    issues.push({
+      severity: 'warning',
+      code: 'invalid_characters',
+      message: `${replaced} byte sequence${replaced === 1 ? ' is' : 's are'} not valid UTF-8 and ${replaced === 1 ? 'was' : 'were'} replaced with U+FFFD`,
+      count: replaced
+    });
+  }
+
+  return issues;
+}
+
+// Problems with individual items: missing titles, identifiers and dates, and dates that
+// don't parse or lie in the future
+export function checkItems(items: ParsedFeedItem[], now = Date.now()): FeedValidationIssue[] {
+  if (items.length === 0) {
+    return [{ severity: 'warning', code: 'no_items', message: 'The feed has no items' }];
+  }
+
+  const ids = new Map<string, number>();
+  items.forEach(item => {
+    const id = item.guid || item.id || item.link;
+    if (id) {
+      ids.set(id, (ids.get(id) || 0) + 1);
+    }
+  });
+  const dateOf = (item: ParsedFeedItem): number => Date.parse(item.isoDate || item.pubDate || '');
+  const withDate = (item: ParsedFeedItem): string => `${item.title || 'Untitled'}: ${item.pubDate || item.isoDate}`;
+
+  return [
+    itemWarning('untitled_items', 'Items have no title', items.filter(item => !item.title?.trim())),
+    itemWarning(
+      'missing_guid',
+      'Items have no guid or id and are told apart by their link instead',
+      items.filter(item => !item.guid && !item.id && item.link)
+    ),
+    itemWarning(
+      'untrackable_items',
+      'Items have no guid, id or link, so they count as new in every fetch',
+      items.filter(item => !item.guid && !item.id && !item.link)
+    ),
+    itemWarning(
+      'duplicate_guid',
+      'Items share an identifier with another item, so only one of them is kept',
+      items.filter(item => (ids.get(item.guid || item.id || item.link || '') || 0) > 1)
+    ),
+    itemWarning(
+      'missing_date',
+      'Items have no publication date, so date filters and adaptive refresh ignore them',
+      items.filter(item => !item.pubDate && !item.isoDate)
+    ),
+    itemWarning('bad_date', 'Items have a publication date that cannot be parsed', items.filter(item => (item.pubDate || item.isoDate) && isNaN(dateOf(item))), withDate),
+    itemWarning('future_date', 'Items are dated in the future', items.filter(item => dateOf(item) > now + FUTURE_TOLERANCE), withDate)
+  ].filter((issue): issue is FeedValidationIssue => issue !== null);
+}
+
+/**
+ * Fetches a feed with a short timeout and reports whether it can be used, with its title,
+ * format and item count, plus warnings about problems that make it work less well.
+ */
+export class FeedValidator {
+  private fetcher: FeedFetcher;
+  private parse: ParsedFeedParser;
+  private timeout: number;
+
+  constructor(fetcher: FeedFetcher, parse: ParsedFeedParser, timeout = DEFAULT_VALIDATION_TIMEOUT) {
+    this.fetcher = fetcher;
+    this.parse = parse;
+    this.timeout = timeout;
+  }
+
+  public async validate(url: string, now = Date.now()): Promise<FeedValidationReport> {
+    let result: FeedFetchResult;
+    try {
+      result = await this.fetcher.fetch(url, {}, this.timeout);
+    } catch (error) {
+      return { url, valid: false, itemCount: 0, issues: [this.fetchError(error as Error)] };
+    }
+    return this.check(url, result, now);
+  }
+
+  // Check a response already fetched from url, e.g. while discovering the feed
+  public async check(url: string, result: FeedFetchResult, now = Date.now()): Promise<FeedValidationReport> {
+    const report: FeedValidationReport = {
+      url: result.url || url,
+      valid: false,
+      status: result.status,
+      contentType: result.contentType,
+      itemCount: 0,
+      bytes: result.bytes,
+      durationMs: result.durationMs,
+      issues: checkEncoding(result)
+    };
+
+    const body = result.body || '';
+    const format = detectFeedFormat(body);
+    if (!format) {
+      report.issues.unshift(isHtmlDocument(result)
+        ? { severity: 'error', code: 'not_a_feed', message: 'The URL serves a web page, not a feed. Use discover-feeds to find its feeds.' }
+        : { severity: 'error', code: 'unknown_format', message: 'The document is not an RSS, Atom or JSON feed' });
+      return report;
+    }
+    report.format = format;
+
+    try {
+      const parsed = await this.parse(body);
+      report.title = parsed.title;
+      report.itemCount = parsed.items.length;
+      if (!parsed.title?.trim()) {
+        report.issues.push({ severity: 'warning', code: 'missing_title', message: 'The feed has no title' });
+      }
+      report.issues.push(...checkItems(parsed.items, now));
+    } catch (error) {
+      report.issues.unshift({ severity: 'error', code: 'parse_error', message: `The ${format} document could not be parsed: ${(error as Error).message}` });
+      return report;
+    }
+
+    report.valid = true;
+    return report;
+  }
+
+  private fetchError(error: Error): FeedValidationIssue {
+    if (error.name === 'TimeoutError') {
+      return { severity: 'error', code: 'timeout', message: `No response within ${this.timeout / 1000} seconds` };
+    }
+    if (error instanceof FeedHttpError) {
+      return { severity: 'error', code: 'http_error', message: `The server answered with HTTP ${error.status}` };
+    }
+    return { severity: 'error', code: 'fetch_failed', message: `The feed could not be fetched: ${error.message}` };
+  }
+}
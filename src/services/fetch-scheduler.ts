@@ -0,0 +1,252 @@
+/**
+ * fetch-scheduler.ts - Shared queue that spreads feed fetches over time and across hosts
+ */
+import { FetchPriority, FetchQueueEntry, FetchQueueState, FetchSchedulerOptions } from '../types/rss';
+
+export const DEFAULT_SCHEDULER: FetchSchedulerOptions = {
+  maxConcurrent: 6,
+  maxPerHost: 2,
+  jitter: 0.1
+};
+
+// setTimeout fires immediately for delays that don't fit in a signed 32-bit int
+const MAX_TIMER_DELAY = 2147483647;
+
+const PRIORITY_ORDER: Record<FetchPriority, number> = { high: 0, normal: 1 };
+
+interface QueuedFetch {
+  feedName: string;
+  host: string;
+  priority: FetchPriority;
+  dueAt: number;
+  // Callers of refresh() waiting for this fetch to finish
+  waiters: { resolve: () => void; reject: (error: Error) => void }[];
+}
+
+interface RunningFetch extends QueuedFetch {
+  startedAt: number;
+}
+
+// A one-off page fetch on behalf of a feed, such as an item's article; run never rejects
+interface QueuedTask {
+  feedName: string;
+  host: string;
+  url: string;
+  queuedAt: number;
+  run: () => Promise<void>;
+}
+
+interface RunningTask extends QueuedTask {
+  startedAt: number;
+}
+
+// Group fetches by host so one slow server can't take every slot
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function toQueueEntry({ feedName, host, priority, dueAt }: QueuedFetch, startedAt?: number): FetchQueueEntry {
+  return {
+    feedName,
+    host,
+    priority,
+    dueAt: new Date(dueAt).toISOString(),
+    startedAt: startedAt === undefined ? undefined : new Date(startedAt).toISOString()
+  };
+}
+
+function toTaskEntry({ feedName, host, url, queuedAt }: QueuedTask, startedAt?: number): FetchQueueEntry {
+  return { ...toQueueEntry({ feedName, host, priority: 'normal', dueAt: queuedAt, waiters: [] }, startedAt), url };
+}
+
+/**
+ * Runs each feed's fetch when it falls due, at most maxConcurrent at a time and maxPerHost
+ * per host. Due fetches wait for a free slot, high priority first, then oldest due first.
+ * A feed has at most one pending fetch and never runs twice at once. One-off page fetches
+ * such as articles share the same limits and start once no due feed fetch can.
+ */
+export class FetchScheduler {
+  private run: (feedName: string) => Promise<void>;
+  private options: FetchSchedulerOptions;
+  private queue = new Map<string, QueuedFetch>();
+  private running = new Map<string, RunningFetch>();
+  private tasks: QueuedTask[] = [];
+  private runningTasks = new Set<RunningTask>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(run: (feedName: string) => Promise<void>, options: Partial<FetchSchedulerOptions> = {}) {
+    this.run = run;
+    this.options = { ...DEFAULT_SCHEDULER, ...options };
+  }
+
+  // Queue a background fetch after a delay, randomly stretched by up to the jitter fraction
+  // so feeds with the same interval drift apart; delays are never shortened, so a fetch
+  // deferred past a feed's skipHours stays deferred. This replaces the feed's
+  // pending fetch unless it is a manual refresh, or was queued while the feed was being
+  // fetched and is due sooner.
+  public schedule(feedName: string, host: string, delay: number): void {
+    const spread = delay * this.options.jitter * Math.random();
+    const dueAt = Date.now() + Math.max(0, Math.round(delay + spread));
+    const pending = this.queue.get(feedName);
+    if (pending && (pending.waiters.length > 0 || (this.running.has(feedName) && pending.dueAt <= dueAt))) {
+      return;
+    }
+
+    this.queue.set(feedName, { feedName, host, priority: 'normal', dueAt, waiters: [] });
+    this.wake();
+  }
+
+  // Queue a fetch due now ahead of background fetches, resolving once it has run;
+  // a fetch already running is followed by a new one so the result is fresh
+  public refresh(feedName: string, host: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const pending = this.queue.get(feedName);
+      this.queue.set(feedName, {
+        feedName,
+        host,
+        priority: 'high',
+        dueAt: Date.now(),
+        waiters: [...(pending?.waiters || []), { resolve, reject }]
+      });
+      this.wake();
+    });
+  }
+
+  // Fetch a page on behalf of a feed within the same limits as feed fetches, in the order
+  // asked for; resolves or rejects with the outcome of the fetch
+  public runTask<T>(feedName: string, url: string, fetch: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.tasks.push({ feedName, host: hostOf(url), url, queuedAt: Date.now(), run: () => fetch().then(resolve, reject) });
+      this.wake();
+    });
+  }
+
+  // Drop the pending fetch of a feed; a fetch that is already running finishes on its own
+  public cancel(feedName: string): void {
+    const pending = this.queue.get(feedName);
+    if (!pending) {
+      return;
+    }
+
+    this.queue.delete(feedName);
+    pending.waiters.forEach(({ reject }) => reject(new Error(`Fetch of feed '${feedName}' was cancelled`)));
+  }
+
+  // When the pending fetch of a feed is due, if it has one
+  public getDueAt(feedName: string): Date | undefined {
+    const pending = this.queue.get(feedName);
+    return pending && new Date(pending.dueAt);
+  }
+
+  // Snapshot of running, due and future fetches for diagnostics
+  public getState(): FetchQueueState {
+    const now = Date.now();
+    const pending = Array.from(this.queue.values());
+
+    return {
+      maxConcurrent: this.options.maxConcurrent,
+      maxPerHost: this.options.maxPerHost,
+      jitter: this.options.jitter,
+      running: [
+        ...Array.from(this.running.values()).map(fetch => toQueueEntry(fetch, fetch.startedAt)),
+        ...Array.from(this.runningTasks).map(task => toTaskEntry(task, task.startedAt))
+      ],
+      queued: [
+        ...pending
+          .filter(fetch => fetch.dueAt <= now)
+          .sort(compareQueued)
+          .map(fetch => toQueueEntry(fetch)),
+        ...this.tasks.map(task => toTaskEntry(task))
+      ],
+      scheduled: pending
+        .filter(fetch => fetch.dueAt > now)
+        .sort((a, b) => a.dueAt - b.dueAt)
+        .map(fetch => toQueueEntry(fetch))
+    };
+  }
+
+  // Run the queue on the next tick, coalescing changes made in the same tick
+  private wake(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.pump(), 0);
+    this.timer.unref();
+  }
+
+  // Start due fetches while slots are free, then sleep until the next one falls due
+  private pump(): void {
+    this.timer = null;
+    const now = Date.now();
+    const due = Array.from(this.queue.values())
+      .filter(fetch => fetch.dueAt <= now)
+      .sort(compareQueued);
+
+    for (const fetch of due) {
+      if (this.runningCount() >= this.options.maxConcurrent) {
+        break;
+      }
+      if (!this.running.has(fetch.feedName) && this.runningOnHost(fetch.host) < this.options.maxPerHost) {
+        this.start(fetch);
+      }
+    }
+    for (const task of [...this.tasks]) {
+      if (this.runningCount() >= this.options.maxConcurrent) {
+        break;
+      }
+      if (this.runningOnHost(task.host) < this.options.maxPerHost) {
+        this.startTask(task);
+      }
+    }
+
+    // Fetches that are due but blocked wait for a running fetch to finish instead
+    const nextDueAt = Math.min(...Array.from(this.queue.values()).map(fetch => fetch.dueAt).filter(dueAt => dueAt > now));
+    if (isFinite(nextDueAt)) {
+      this.timer = setTimeout(() => this.pump(), Math.min(nextDueAt - now, MAX_TIMER_DELAY));
+      this.timer.unref();
+    }
+  }
+
+  private start(fetch: QueuedFetch): void {
+    this.queue.delete(fetch.feedName);
+    this.running.set(fetch.feedName, { ...fetch, startedAt: Date.now() });
+
+    // Failures of background fetches are logged by the run callback
+    this.run(fetch.feedName)
+      .then(
+        () => fetch.waiters.forEach(({ resolve }) => resolve()),
+        error => fetch.waiters.forEach(({ reject }) => reject(error))
+      )
+      .finally(() => {
+        this.running.delete(fetch.feedName);
+        this.wake();
+      });
+  }
+
+  private startTask(task: QueuedTask): void {
+    this.tasks.splice(this.tasks.indexOf(task), 1);
+    const running: RunningTask = { ...task, startedAt: Date.now() };
+    this.runningTasks.add(running);
+
+    task.run().finally(() => {
+      this.runningTasks.delete(running);
+      this.wake();
+    });
+  }
+
+  private runningCount(): number {
+    return this.running.size + this.runningTasks.size;
+  }
+
+  private runningOnHost(host: string): number {
+    return [...Array.from(this.running.values()), ...Array.from(this.runningTasks)].filter(fetch => fetch.host === host).length;
+  }
+}
+
+function compareQueued(a: QueuedFetch, b: QueuedFetch): number {
+  return PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.dueAt - b.dueAt;
+}
@@ -1,178 +1,923 @@
-/**
- * RSSService.ts - Core service for RSS feed fetching and management
- */
-import Parser from 'rss-parser';
-import { Feed, FeedConfig, FeedItem, Feeds } from '../types/rss';
-
-// Default configuration
-export const DEFAULT_REFRESH_INTERVAL = 300000; // 5 minutes in milliseconds
-export const DEFAULT_MAX_ITEMS = 20;
-
-export class RSSService {
-  private parser: Parser;
-  private feeds: Feeds;
-  private feedConfigs: Map<string, FeedConfig>;
-  private refreshIntervals: Map<string, NodeJS.Timeout>;
-  
-  constructor(feeds: FeedConfig[] = []) {
-    this.parser = new Parser();
-    this.feeds = {};
-    this.feedConfigs = new Map();
-    this.refreshIntervals = new Map();
-    
-    // Initialize with the provided feeds
-    feeds.forEach(feed => {
-      this.addFeed(feed);
-    });
-  }
-
-  // Add a new feed to monitor
-  public addFeed(feedConfig: FeedConfig): void {
-    const { name, url, refreshInterval = DEFAULT_REFRESH_INTERVAL, maxItems = DEFAULT_MAX_ITEMS } = feedConfig;
-    
-    if (this.feedConfigs.has(name)) {
-      console.error(`Feed with name '${name}' already exists. Updating configuration.`);
-      this.stopFeedRefresh(name);
-    }
-    
-    this.feedConfigs.set(name, {
-      name,
-      url,
-      refreshInterval,
-      maxItems
-    });
-    
-    // Initial fetch
-    this.fetchFeed(name)
-      .then(() => {
-        console.error(`[RSSService] Successfully fetched feed: ${name}`);
-      })
-      .catch(error => {
-        console.error(`[RSSService] Error fetching feed ${name}:`, error);
-      });
-    
-    // Set up periodic refresh
-    this.startFeedRefresh(name);
-  }
-
-  // Remove a feed from monitoring
-  public removeFeed(feedName: string): void {
-    if (!this.feedConfigs.has(feedName)) {
-      console.error(`No feed with name '${feedName}' found.`);
-      return;
-    }
-    
-    this.stopFeedRefresh(feedName);
-    this.feedConfigs.delete(feedName);
-    delete this.feeds[feedName];
-    console.error(`[RSSService] Feed '${feedName}' removed.`);
-  }
-
-  // Get all feeds
-  public getAllFeeds(): Feeds {
-    return { ...this.feeds };
-  }
-
-  // Get a specific feed by name
-  public getFeed(feedName: string): Feed | null {
-    return this.feeds[feedName] || null;
-  }
-
-  // Get items from a specific feed
-  public getFeedItems(feedName: string): FeedItem[] {
-    return this.feeds[feedName]?.items || [];
-  }
-
-  // Search across all feeds
-  public searchFeeds(query: string): FeedItem[] {
-    const lowercaseQuery = query.toLowerCase();
-    const results: FeedItem[] = [];
-    
-    Object.values(this.feeds).forEach(feed => {
-      feed.items.forEach(item => {
-        const titleMatch = item.title?.toLowerCase().includes(lowercaseQuery);
-        const contentMatch = item.content?.toLowerCase().includes(lowercaseQuery) 
-                          || item.contentSnippet?.toLowerCase().includes(lowercaseQuery);
-        
-        if (titleMatch || contentMatch) {
-          results.push(item);
-        }
-      });
-    });
-    
-    return results;
-  }
-
-  // Start the refresh interval for a feed
-  private startFeedRefresh(feedName: string): void {
-    if (!this.feedConfigs.has(feedName)) {
-      return;
-    }
-    
-    const { refreshInterval = DEFAULT_REFRESH_INTERVAL } = this.feedConfigs.get(feedName)!;
-    
-    // Clear any existing interval
-    this.stopFeedRefresh(feedName);
-    
-    // Set new interval
-    const intervalId = setInterval(() => {
-      this.fetchFeed(feedName)
-        .catch(error => {
-          console.error(`[RSSService] Error refreshing feed ${feedName}:`, error);
-        });
-    }, refreshInterval);
-    
-    // Prevent the timer from keeping the process alive
-    intervalId.unref();
-    
-    this.refreshIntervals.set(feedName, intervalId);
-  }
-
-  // Stop the refresh interval for a feed
-  private stopFeedRefresh(feedName: string): void {
-    if (this.refreshIntervals.has(feedName)) {
-      clearInterval(this.refreshIntervals.get(feedName)!);
-      this.refreshIntervals.delete(feedName);
-    }
-  }
-
-  // Fetch and parse a feed
-  public async fetchFeed(feedName: string): Promise<void> {
-    if (!this.feedConfigs.has(feedName)) {
-      throw new Error(`No feed with name '${feedName}' found.`);
-    }
-    
-    const { url, maxItems = DEFAULT_MAX_ITEMS } = this.feedConfigs.get(feedName)!;
-    
-    try {
-      const parsedFeed = await this.parser.parseURL(url);
-      
-      // Convert parser items to our custom format
-      const items: FeedItem[] = parsedFeed.items.map(item => ({
-        title: item.title || 'Untitled',
-        link: item.link,
-        content: item.content,
-        contentSnippet: item.contentSnippet,
-        author: item.creator || item.author,
-        categories: item.categories,
-        pubDate: item.pubDate,
-        isoDate: item.isoDate,
-        guid: item.guid,
-      }));
-      
-      this.feeds[feedName] = {
-        title: parsedFeed.title || feedName,
-        description: parsedFeed.description,
-        link: parsedFeed.link,
-        items: items.slice(0, maxItems),
-        lastUpdated: new Date(),
-        feedUrl: url
-      };
-      
-      return;
-    } catch (error) {
-      console.error(`[RSSService] Error fetching feed ${feedName}:`, error);
-      throw error;
-    }
-  }
+/**
+ * RSSService.ts - Core service for RSS feed fetching and management
+ */
+import { EventEmitter } from 'events';
+import Parser from 'rss-parser';
+import {
+  ArticleOptions,
+  BackoffPolicy,
+  DiscoveredFeed,
+  Feed,
+  FeedArticle,
+  FeedConfig,
+  FeedFetchResult,
+  FeedHealth,
+  FeedImportResult,
+  FeedItem,
+  FeedRefreshHints,
+  FeedUpdate,
+  FeedValidationReport,
+  Feeds,
+  FetchQueueState,
+  FeedItemRef,
+  FetchSchedulerOptions,
+  NewFeedItem,
+  NewItemsPage,
+  RefreshPolicy,
+  SearchOptions,
+  SearchResults
+} from '../types/rss';
+import { SourceAdapter, SourceDocument } from '../types/source';
+import { FeedFetchMetadata, FeedStore, RetentionPolicy, StoredFeed } from '../types/storage';
+import { MemoryFeedStore } from '../storage/memory-store';
+import { getItemId } from '../utils/feed-format';
+import { isJsonDocument, parseJsonFeed, ParsedFeed } from '../utils/json-feed';
+import { htmlToMarkdown } from '../utils/markdown';
+import { computeRefreshInterval, deferToAllowedTime } from '../utils/refresh-policy';
+import { FeedSource } from '../sources/feed-source';
+import { HtmlSelectorSource } from '../sources/html-source';
+import { DEFAULT_SOURCE_TYPE, SourceRegistry, UnknownSourceTypeError } from '../sources/registry';
+import { SitemapSource } from '../sources/sitemap-source';
+import { ArticleError, ArticleExtractor, DEFAULT_ARTICLE_OPTIONS } from './article-extractor';
+import { FeedDiscoverer } from './feed-discovery';
+import { FeedFetcher, FeedHttpError } from './feed-fetcher';
+import { DEFAULT_VALIDATION_TIMEOUT, FeedValidator } from './feed-validator';
+import { FetchScheduler, hostOf } from './fetch-scheduler';
+import { DEFAULT_SEARCH_LIMIT, SearchIndex } from './search-index';
+
+// Default configuration
+export const DEFAULT_REFRESH_INTERVAL = 300000; // 5 minutes in milliseconds
+export const DEFAULT_MAX_ITEMS = 20;
+export const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeDays: 30,
+  maxItemsPerFeed: 1000
+};
+
+export const DEFAULT_BACKOFF: BackoffPolicy = {
+  maxInterval: 21600000, // 6 hours in milliseconds
+  pauseAfterFailures: 10
+};
+
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  minInterval: 60000, // 1 minute in milliseconds
+  maxInterval: 86400000 // 1 day in milliseconds
+};
+
+// Most new items returned by one read, by default and at most
+export const DEFAULT_NEW_ITEMS_LIMIT = 50;
+export const MAX_NEW_ITEMS_LIMIT = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RSSServiceOptions {
+  store?: FeedStore;
+  fetcher?: FeedFetcher;
+  retention?: Partial<RetentionPolicy>;
+  backoff?: Partial<BackoffPolicy>;
+  scheduler?: Partial<FetchSchedulerOptions>;
+  refresh?: Partial<RefreshPolicy>;
+  // Timeout in milliseconds for fetches that check a feed before it is added
+  validationTimeout?: number;
+  // Source adapters for feed types beyond the built-in 'feed', 'sitemap' and 'html'
+  sources?: SourceAdapter[];
+  // Timeout, size limit and per-refresh cap for fetching the pages items link to
+  article?: Partial<ArticleOptions>;
+}
+
+// Fetch stats for a feed that hasn't been fetched yet
+function emptyFetchMetadata(): FeedFetchMetadata {
+  return { consecutiveFailures: 0, fetchCount: 0, notModifiedCount: 0, errorCount: 0, bytesReceived: 0 };
+}
+
+// Whether a feed's new settings change what a fetch of it yields: its URL, how the document is
+// read, how many items are kept or whether their articles are fetched
+function changesFetchResult(previous: FeedConfig, next: FeedConfig): boolean {
+  return previous.url !== next.url
+    || (previous.type || DEFAULT_SOURCE_TYPE) !== (next.type || DEFAULT_SOURCE_TYPE)
+    || JSON.stringify(previous.options || {}) !== JSON.stringify(next.options || {})
+    || (previous.maxItems ?? DEFAULT_MAX_ITEMS) !== (next.maxItems ?? DEFAULT_MAX_ITEMS)
+    || !!previous.fetchFullText !== !!next.fetchFullText;
+}
+
+// Split freshly fetched items into those not seen before and those whose content changed
+function diffItems(previous: FeedItem[], next: FeedItem[]): Pick<FeedUpdate, 'added' | 'changed'> {
+  const previousById = new Map(previous.map(item => [getItemId(item), item]));
+  const added: FeedItem[] = [];
+  const changed: FeedItem[] = [];
+
+  next.forEach(item => {
+    const existing = previousById.get(getItemId(item));
+    if (!existing) {
+      added.push(item);
+    } else if (
+      existing.title !== item.title ||
+      existing.content !== item.content ||
+      existing.isoDate !== item.isoDate
+    ) {
+      changed.push(item);
+    }
+  });
+
+  return { added, changed };
+}
+
+// Put the latest fetch ahead of older history; items without a guid or link can't be
+// matched across fetches, so they only survive while they are in the latest fetch
+function mergeHistory(history: FeedItem[], latest: FeedItem[]): FeedItem[] {
+  const latestIds = new Set(latest.map(getItemId));
+  const older = history.filter(item => {
+    const itemId = getItemId(item);
+    return itemId !== undefined && !latestIds.has(itemId);
+  });
+  return [...latest, ...older];
+}
+
+// Drop items older than the retention window and cap the history length;
+// the first `keep` items are always retained. Undated items only count toward the cap.
+function applyRetention(items: FeedItem[], keep: number, retention: RetentionPolicy, now: number): FeedItem[] {
+  const cutoff = now - retention.maxAgeDays * DAY_MS;
+  const retained = items.filter((item, index) => {
+    if (index < keep) {
+      return true;
+    }
+    const published = Date.parse(item.isoDate || item.pubDate || '');
+    return isNaN(published) || published >= cutoff;
+  });
+  return retained.slice(0, Math.max(retention.maxItemsPerFeed, keep));
+}
+
+/**
+ * Emits 'feedUpdated' with a FeedUpdate whenever a fetch adds or changes items.
+ * Background fetches and manual refreshes all go through one FetchScheduler.
+ *
+ * `feeds` holds the latest maxItems of each feed; `history` also keeps older items
+ * under the retention policy. Both are written through to the FeedStore.
+ */
+export class RSSService extends EventEmitter {
+  private parser: Parser;
+  private fetcher: FeedFetcher;
+  private feeds: Feeds;
+  private feedConfigs: Map<string, FeedConfig>;
+  private scheduler: FetchScheduler;
+  private history: Map<string, FeedItem[]>;
+  private searchIndex = new SearchIndex();
+  private fetchMetadata: Map<string, FeedFetchMetadata>;
+  private refreshHints: Map<string, FeedRefreshHints>;
+  private store: FeedStore;
+  private retention: RetentionPolicy;
+  private backoff: BackoffPolicy;
+  private refreshPolicy: RefreshPolicy;
+  private validationTimeout: number;
+  private sources: SourceRegistry;
+  private articles: ArticleExtractor;
+  private articlesPerRefresh: number;
+  // Feed name and link of articles queued or being fetched for feeds with fetchFullText
+  private pendingArticles = new Set<string>();
+  private pendingWrites = new Set<Promise<void>>();
+  // Latest firstSeenAt handed out, in milliseconds; every fetch that finds new items stamps
+  // them with a later time than the one before, so reads past a watermark never miss an item
+  private lastSeenAt = 0;
+  
+  constructor(feeds: FeedConfig[] = [], options: RSSServiceOptions = {}) {
+    super();
+    this.parser = new Parser({
+      customFields: {
+        feed: ['sy:updatePeriod', 'sy:updateFrequency'],
+        // Media RSS elements and Atom <link> elements, read by FeedSource for enclosures and thumbnails
+        item: [
+          ['media:content', 'mediaContent', { keepArray: true }],
+          ['media:thumbnail', 'mediaThumbnail', { keepArray: true }],
+          ['media:group', 'mediaGroup', { keepArray: true }],
+          ['link', 'links', { keepArray: true }]
+        ]
+      }
+    });
+    this.fetcher = options.fetcher || new FeedFetcher();
+    this.feeds = {};
+    this.feedConfigs = new Map();
+    this.scheduler = new FetchScheduler(feedName => this.fetchFeed(feedName), options.scheduler);
+    this.history = new Map();
+    this.fetchMetadata = new Map();
+    this.refreshHints = new Map();
+    this.store = options.store || new MemoryFeedStore();
+    this.retention = { ...DEFAULT_RETENTION, ...options.retention };
+    this.backoff = { ...DEFAULT_BACKOFF, ...options.backoff };
+    this.refreshPolicy = { ...DEFAULT_REFRESH_POLICY, ...options.refresh };
+    this.validationTimeout = options.validationTimeout ?? DEFAULT_VALIDATION_TIMEOUT;
+    this.sources = new SourceRegistry([
+      new FeedSource((body, contentType) => this.parseFeedDocument(body, contentType)),
+      new SitemapSource(),
+      new HtmlSelectorSource(),
+      ...(options.sources || [])
+    ]);
+    this.articles = new ArticleExtractor(this.fetcher, options.article);
+    this.articlesPerRefresh = options.article?.maxPerRefresh ?? DEFAULT_ARTICLE_OPTIONS.maxPerRefresh;
+    
+    // Initialize with the provided feeds
+    feeds.forEach(feed => {
+      this.addFeed(feed);
+    });
+  }
+
+  // Add a new feed to monitor; adding a paused feed again resumes it. Throws when its type
+  // has no source adapter or the adapter rejects its options.
+  public addFeed(feedConfig: FeedConfig, prefetched?: FeedFetchResult): void {
+    const { name, url, refreshInterval = DEFAULT_REFRESH_INTERVAL, refreshMode, maxItems = DEFAULT_MAX_ITEMS, group, type, options, fetchFullText } = feedConfig;
+    this.sources.get(type).validateOptions?.(options || {});
+    
+    if (this.feedConfigs.has(name)) {
+      console.error(`Feed with name '${name}' already exists. Updating configuration.`);
+      this.stopFeedRefresh(name);
+      
+      // A 304 would keep the items read with the old settings, so drop the validators when the
+      // new ones read the feed differently; update hints from the old URL mean nothing to the new one
+      const previous = this.feedConfigs.get(name)!;
+      if (changesFetchResult(previous, feedConfig)) {
+        this.fetchMetadata.set(name, { ...this.getFetchStats(name), etag: undefined, lastModified: undefined });
+      }
+      if (previous.url !== url) {
+        this.refreshHints.delete(name);
+      }
+    }
+    
+    if (this.fetchMetadata.has(name)) {
+      this.fetchMetadata.set(name, { ...this.getFetchStats(name), consecutiveFailures: 0, pausedAt: undefined });
+    }
+    
+    this.feedConfigs.set(name, {
+      name,
+      url,
+      refreshInterval,
+      refreshMode,
+      maxItems,
+      group,
+      type,
+      options,
+      fetchFullText
+    });
+    this.persistFeed(name);
+    
+    // Initial fetch, as soon as the scheduler has a free slot, unless the feed's document was
+    // just fetched to check it; either way the next refresh is scheduled from there
+    if (prefetched) {
+      // A failure is logged and recorded against the feed by readFeed
+      this.readFeed(name, prefetched).catch(() => undefined);
+    } else {
+      this.scheduler.schedule(name, hostOf(url), 0);
+    }
+  }
+
+  // Find the feeds at or linked from a URL, such as a website's home page, valid ones first;
+  // throws if the URL itself can't be fetched. The responses of valid feeds are recorded in
+  // fetched, to pass on to validateFeed and addFeed.
+  public async discoverFeeds(url: string, fetched?: Map<string, FeedFetchResult>): Promise<DiscoveredFeed[]> {
+    return new FeedDiscoverer(this.fetcher, body => this.parseFeedDocument(body), this.validationTimeout).discover(url, fetched);
+  }
+
+  // Fetch and check a feed without adding it, or check the response given as prefetched
+  public async validateFeed(url: string, prefetched?: FeedFetchResult): Promise<FeedValidationReport> {
+    const validator = new FeedValidator(this.fetcher, body => this.parseFeedDocument(body), this.validationTimeout);
+    return prefetched ? validator.check(url, prefetched) : validator.validate(url);
+  }
+
+  // Fetch a source of any type and read its items without adding it, e.g. to try out the
+  // selectors of an 'html' source; throws when it can't be fetched or read
+  public async previewSource(feedConfig: FeedConfig): Promise<SourceDocument> {
+    const adapter = this.sources.get(feedConfig.type);
+    adapter.validateOptions?.(feedConfig.options || {});
+    const result = await this.fetcher.fetch(feedConfig.url, {}, this.validationTimeout);
+    return adapter.parse({ body: result.body || '', contentType: result.contentType, url: result.url || feedConfig.url }, feedConfig);
+  }
+
+  // Make a source type available to feeds; registering a type again replaces its adapter
+  public registerSource(adapter: SourceAdapter): void {
+    this.sources.register(adapter);
+  }
+
+  // The source adapters feeds can select by type
+  public getSourceAdapters(): SourceAdapter[] {
+    return this.sources.list();
+  }
+
+  // Add several feeds, e.g. from an OPML file. A feed whose name is configured with the same URL
+  // has its settings updated; one whose URL is configured under another name is skipped, and
+  // one whose name is taken by another URL is added under the name with a numeric suffix.
+  public importFeeds(feedConfigs: FeedConfig[]): FeedImportResult {
+    const result: FeedImportResult = { added: [], updated: [], skipped: [] };
+    
+    feedConfigs.forEach(feedConfig => {
+      // A feed whose source type has no adapter is skipped without stopping the rest of the import
+      const tryAddFeed = (config: FeedConfig): boolean => {
+        try {
+          this.addFeed(config);
+          return true;
+        } catch (error) {
+          if (!(error instanceof UnknownSourceTypeError)) {
+            throw error;
+          }
+          result.skipped.push({ name: feedConfig.name, url: feedConfig.url, reason: error.message });
+          return false;
+        }
+      };
+      
+      const existing = this.feedConfigs.get(feedConfig.name);
+      if (existing?.url === feedConfig.url) {
+        if (tryAddFeed({ ...existing, ...feedConfig })) {
+          result.updated.push(feedConfig.name);
+        }
+        return;
+      }
+      
+      const duplicate = Array.from(this.feedConfigs.values()).find(config => config.url === feedConfig.url);
+      if (duplicate) {
+        result.skipped.push({ name: feedConfig.name, url: feedConfig.url, reason: `Already subscribed as '${duplicate.name}'` });
+        return;
+      }
+      
+      let name = feedConfig.name;
+      for (let suffix = 2; this.feedConfigs.has(name); suffix++) {
+        name = `${feedConfig.name}-${suffix}`;
+      }
+      if (tryAddFeed({ ...feedConfig, name })) {
+        result.added.push(name);
+      }
+    });
+    
+    return result;
+  }
+
+  // Fetch a feed ahead of scheduled background fetches, resolving once it has been fetched
+  public async refreshFeed(feedName: string): Promise<void> {
+    const config = this.feedConfigs.get(feedName);
+    if (!config) {
+      throw new Error(`No feed with name '${feedName}' found.`);
+    }
+    
+    await this.scheduler.refresh(feedName, hostOf(config.url));
+  }
+
+  // Get the state of the fetch queue for diagnostics
+  public getFetchQueue(): FetchQueueState {
+    return this.scheduler.getState();
+  }
+
+  // Remove a feed from monitoring
+  public removeFeed(feedName: string): void {
+    if (!this.feedConfigs.has(feedName)) {
+      console.error(`No feed with name '${feedName}' found.`);
+      return;
+    }
+    
+    this.stopFeedRefresh(feedName);
+    this.feedConfigs.delete(feedName);
+    delete this.feeds[feedName];
+    this.history.delete(feedName);
+    this.searchIndex.removeFeed(feedName);
+    this.fetchMetadata.delete(feedName);
+    this.refreshHints.delete(feedName);
+    this.trackWrite(this.store.removeFeed(feedName), feedName);
+    console.error(`[RSSService] Feed '${feedName}' removed.`);
+  }
+
+  // Reload feeds saved in the store and start monitoring them along with the given feeds;
+  // a given feed replaces the stored config of the same name but keeps its history. The
+  // default feeds are only added when there are neither stored nor given feeds, so a default
+  // feed the user removed stays removed.
+  public async restore(feeds: FeedConfig[] = [], defaultFeeds: FeedConfig[] = []): Promise<void> {
+    const stored = await this.store.load();
+    const now = Date.now();
+    const configs = new Map<string, FeedConfig>();
+    
+    stored.forEach(({ config, channel, items, fetch }) => {
+      const { name, maxItems = DEFAULT_MAX_ITEMS } = config;
+      // Items saved before first-seen tracking count as seen at the feed's last successful fetch
+      const seenAt = fetch.lastSuccessAt || new Date(now).toISOString();
+      const retained = applyRetention(items, maxItems, this.retention, now)
+        .map(item => item.firstSeenAt ? item : { ...item, firstSeenAt: seenAt });
+      retained.forEach(item => {
+        this.lastSeenAt = Math.max(this.lastSeenAt, Date.parse(item.firstSeenAt!));
+      });
+      
+      this.history.set(name, retained);
+      this.searchIndex.indexFeed(name, retained);
+      this.fetchMetadata.set(name, { ...emptyFetchMetadata(), ...fetch });
+      if (channel) {
+        const { refreshHints, ...details } = channel;
+        this.feeds[name] = {
+          ...details,
+          lastUpdated: new Date(channel.lastUpdated),
+          items: retained.slice(0, maxItems)
+        };
+        if (refreshHints) {
+          this.refreshHints.set(name, refreshHints);
+        }
+      }
+      configs.set(name, config);
+    });
+    
+    (stored.length > 0 || feeds.length > 0 ? feeds : defaultFeeds).forEach(feed => configs.set(feed.name, feed));
+    configs.forEach(config => {
+      // Paused feeds stay paused across restarts until they are added again
+      if (this.getFetchStats(config.name).pausedAt) {
+        this.feedConfigs.set(config.name, { refreshInterval: DEFAULT_REFRESH_INTERVAL, maxItems: DEFAULT_MAX_ITEMS, ...config });
+        this.persistFeed(config.name);
+      } else {
+        try {
+          this.addFeed(config);
+        } catch (error) {
+          // Kept in the store, so the feed comes back once e.g. its plugin is installed again
+          console.error(`[RSSService] Skipping feed '${config.name}': ${(error as Error).message}`);
+        }
+      }
+    });
+    console.error(`[RSSService] Restored ${stored.length} feeds from storage`);
+  }
+
+  // Wait for pending storage writes to finish
+  public async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
+
+  // Check whether a feed is configured, whether or not it has been fetched yet
+  public hasFeed(feedName: string): boolean {
+    return this.feedConfigs.has(feedName);
+  }
+
+  // Get the names of all configured feeds
+  public getFeedNames(): string[] {
+    return Array.from(this.feedConfigs.keys());
+  }
+
+  // Get all feeds
+  public getAllFeeds(): Feeds {
+    return { ...this.feeds };
+  }
+
+  // Get a specific feed by name
+  public getFeed(feedName: string): Feed | null {
+    return this.feeds[feedName] || null;
+  }
+
+  // Get items from a specific feed
+  public getFeedItems(feedName: string): FeedItem[] {
+    return this.feeds[feedName]?.items || [];
+  }
+
+  // Get every retained item of a feed, newest fetch first, including items that
+  // have dropped out of the latest maxItems
+  public getItemHistory(feedName: string): FeedItem[] {
+    return this.history.get(feedName) || [];
+  }
+
+  // Get fetch statistics and cache validators for a feed
+  public getFetchStats(feedName: string): FeedFetchMetadata {
+    return this.fetchMetadata.get(feedName) || emptyFetchMetadata();
+  }
+
+  // Get the health of a feed from its recent fetches
+  public getFeedHealth(feedName: string): FeedHealth {
+    const stats = this.getFetchStats(feedName);
+    const nextFetchAt = this.scheduler.getDueAt(feedName);
+    
+    let status: FeedHealth['status'] = 'pending';
+    if (stats.pausedAt) {
+      status = 'paused';
+    } else if (stats.consecutiveFailures > 0) {
+      status = 'failing';
+    } else if (stats.lastSuccessAt) {
+      status = 'healthy';
+    }
+    
+    return {
+      status,
+      consecutiveFailures: stats.consecutiveFailures,
+      lastSuccessAt: stats.lastSuccessAt,
+      lastErrorAt: stats.lastErrorAt,
+      lastError: stats.lastError,
+      lastStatus: stats.lastStatus,
+      pausedAt: stats.pausedAt,
+      nextFetchAt: nextFetchAt?.toISOString(),
+      refreshInterval: stats.pausedAt ? undefined : this.getRefreshInterval(feedName)
+    };
+  }
+
+  // Get the update hints a feed declared in its last parsed document
+  public getRefreshHints(feedName: string): FeedRefreshHints {
+    return this.refreshHints.get(feedName) || {};
+  }
+
+  // Get the interval between successful refreshes of a feed: refreshInterval for fixed feeds,
+  // otherwise adapted to its update hints and how often it publishes
+  public getRefreshInterval(feedName: string): number {
+    const { refreshInterval = DEFAULT_REFRESH_INTERVAL, refreshMode = 'adaptive' } = this.feedConfigs.get(feedName) || {};
+    if (refreshMode === 'fixed') {
+      return refreshInterval;
+    }
+    
+    // A feed given its own refreshInterval is never polled more often than that; the default
+    // interval only stands in until the feed's pace is known
+    return computeRefreshInterval(
+      refreshInterval,
+      this.getRefreshHints(feedName),
+      this.getItemHistory(feedName),
+      this.refreshPolicy,
+      Date.now(),
+      refreshInterval !== DEFAULT_REFRESH_INTERVAL ? refreshInterval : 0
+    );
+  }
+
+  // Get the config a feed was added with
+  public getFeedConfig(feedName: string): FeedConfig | null {
+    return this.feedConfigs.get(feedName) || null;
+  }
+
+  // Get a single retained item from a feed by its guid, falling back to its link
+  public getFeedItem(feedName: string, itemId: string): FeedItem | null {
+    return this.getItemHistory(feedName).find(item => item.guid === itemId || item.link === itemId) || null;
+  }
+
+  /**
+   * Get the main content of the page an item links to, fetching and extracting it the first
+   * time (or again with refresh) and keeping it with the item. Throws an ArticleError when the
+   * item has no link or its page can't be fetched or has no content.
+   */
+  public async getArticle(feedName: string, itemId: string, refresh = false): Promise<FeedArticle> {
+    const item = this.getFeedItem(feedName, itemId);
+    if (!item) {
+      throw new Error(`No item '${itemId}' found in feed '${feedName}'.`);
+    }
+    if (item.article && !refresh) {
+      return item.article;
+    }
+    if (!item.link) {
+      throw new ArticleError('no_link', `Item '${itemId}' has no link to fetch`);
+    }
+
+    const article = await this.articles.extract(item.link);
+    if (this.feedConfigs.has(feedName)) {
+      this.storeArticle(feedName, item, article);
+    }
+    return article;
+  }
+
+  // Get items published at or after a date, grouped by feed; undated items are skipped
+  public getRecentItems(since: Date, feedNames?: string[]): Record<string, FeedItem[]> {
+    const names = feedNames && feedNames.length > 0 ? feedNames : Array.from(this.history.keys());
+    const results: Record<string, FeedItem[]> = {};
+    
+    names.forEach(name => {
+      const items = this.getItemHistory(name).filter(item => {
+        const published = Date.parse(item.isoDate || item.pubDate || '');
+        return !isNaN(published) && published >= since.getTime();
+      });
+      
+      if (items.length > 0) {
+        results[name] = items;
+      }
+    });
+    
+    return results;
+  }
+
+  // Get up to `limit` retained items first seen after a time (all of them without one), oldest
+  // first, along with the position to pass back next time: `seenThrough` as `seenAfter`, and
+  // when the limit cut the read short, `lastItem` as `afterItem` to resume right after it
+  public getNewItems(
+    seenAfter?: Date,
+    feedNames?: string[],
+    { limit = DEFAULT_NEW_ITEMS_LIMIT, afterItem }: { limit?: number; afterItem?: FeedItemRef } = {}
+  ): NewItemsPage {
+    const names = feedNames && feedNames.length > 0 ? feedNames : Array.from(this.history.keys());
+    const after = seenAfter ? seenAfter.getTime() : -Infinity;
+    const items: NewFeedItem[] = [];
+    
+    names.forEach(feedName => {
+      const history = this.getItemHistory(feedName);
+      // Items seen at the watermark were returned up to afterItem, or all of them if it is gone
+      const resumeAt = afterItem?.feedName === feedName
+        ? history.findIndex(item => getItemId(item) === afterItem.itemId) + 1
+        : 0;
+      history.forEach((item, index) => {
+        const seenAt = Date.parse(item.firstSeenAt || '');
+        const pastLastItem = afterItem !== undefined && seenAt === after &&
+          (feedName > afterItem.feedName || (feedName === afterItem.feedName && index >= resumeAt));
+        if (seenAt > after || pastLastItem) {
+          items.push({ feedName, item });
+        }
+      });
+    });
+    
+    // Stable sort keeps each feed's own order among items found in the same fetch
+    items.sort((a, b) =>
+      Date.parse(a.item.firstSeenAt!) - Date.parse(b.item.firstSeenAt!) || (a.feedName < b.feedName ? -1 : a.feedName > b.feedName ? 1 : 0)
+    );
+    if (items.length <= limit) {
+      return { items, seenThrough: new Date(this.lastSeenAt), hasMore: false };
+    }
+    
+    const page = items.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      items: page,
+      seenThrough: new Date(Date.parse(last.item.firstSeenAt!)),
+      lastItem: { feedName: last.feedName, itemId: getItemId(last.item) || '' },
+      hasMore: true
+    };
+  }
+
+  // Search the retained history of all feeds; see SearchIndex.search for the query syntax.
+  // Throws a SearchQueryError for a query with an invalid filter.
+  public search(query: string, options: SearchOptions = {}): SearchResults {
+    return this.searchIndex.search(query, options);
+  }
+
+  // The best `limit` items matching a query across the retained history of all feeds, best match first
+  public searchFeeds(query: string, limit = DEFAULT_SEARCH_LIMIT): FeedItem[] {
+    return this.search(query, { limit }).results.map(result => result.item);
+  }
+
+  // Schedule the next refresh of a feed: one refresh interval after a success, doubling with
+  // each consecutive failure up to the backoff cap, and none at all once the feed is paused.
+  // Adaptive feeds are also kept out of the hours and days they ask to be skipped.
+  private startFeedRefresh(feedName: string): void {
+    const config = this.feedConfigs.get(feedName);
+    if (!config) {
+      return;
+    }
+    
+    const { consecutiveFailures, pausedAt } = this.getFetchStats(feedName);
+    if (pausedAt) {
+      this.stopFeedRefresh(feedName);
+      return;
+    }
+    
+    const interval = this.getRefreshInterval(feedName);
+    let delay = consecutiveFailures === 0
+      ? interval
+      : Math.min(interval * 2 ** consecutiveFailures, Math.max(this.backoff.maxInterval, interval));
+    if (config.refreshMode !== 'fixed') {
+      const now = Date.now();
+      delay = deferToAllowedTime(now + delay, this.getRefreshHints(feedName)) - now;
+    }
+    this.scheduler.schedule(feedName, hostOf(config.url), delay);
+  }
+
+  // Cancel the pending refresh of a feed
+  private stopFeedRefresh(feedName: string): void {
+    this.scheduler.cancel(feedName);
+  }
+
+  // Fetch and parse a feed
+  public async fetchFeed(feedName: string): Promise<void> {
+    return this.readFeed(feedName);
+  }
+
+  // Fetch and parse a feed, or parse the response given as prefetched
+  private async readFeed(feedName: string, prefetched?: FeedFetchResult): Promise<void> {
+    if (!this.feedConfigs.has(feedName)) {
+      throw new Error(`No feed with name '${feedName}' found.`);
+    }
+    
+    const config = this.feedConfigs.get(feedName)!;
+    const { url, type, maxItems = DEFAULT_MAX_ITEMS } = config;
+    const stats = this.getFetchStats(feedName);
+    const fetchedAt = new Date();
+    let result: FeedFetchResult | undefined;
+    
+    try {
+      // Only ask for a 304 when there is a previous copy to fall back on
+      const validators = this.feeds[feedName] ? { etag: stats.etag, lastModified: stats.lastModified } : {};
+      result = prefetched ?? await this.fetcher.fetch(url, validators);
+      
+      // The feed may have been removed while the request was in flight
+      if (!this.feedConfigs.has(feedName)) {
+        return;
+      }
+      
+      // Unchanged since the last fetch: keep the items and skip parsing
+      if (result.notModified) {
+        this.feeds[feedName].lastUpdated = fetchedAt;
+        this.recordSuccess(feedName, fetchedAt, result);
+        return;
+      }
+      
+      const document = await this.sources.get(type).parse({ body: result.body || '', contentType: result.contentType, url: result.url || url }, config);
+      const items = document.items;
+      
+      const previousItems = this.getItemHistory(feedName);
+      const latestItems = this.keepArticles(previousItems, this.markFirstSeen(previousItems, this.withContentMarkdown(items.slice(0, maxItems), result.url || url)));
+      this.refreshHints.set(feedName, document.refreshHints || {});
+      
+      this.feeds[feedName] = {
+        title: document.title || feedName,
+        description: document.description,
+        link: document.link,
+        items: latestItems,
+        lastUpdated: fetchedAt,
+        feedUrl: url
+      };
+      this.history.set(
+        feedName,
+        applyRetention(mergeHistory(previousItems, latestItems), latestItems.length, this.retention, fetchedAt.getTime())
+      );
+      this.searchIndex.indexFeed(feedName, this.getItemHistory(feedName));
+      this.recordSuccess(feedName, fetchedAt, result);
+      if (config.fetchFullText) {
+        this.queueArticles(feedName, latestItems);
+      }
+      
+      const { added, changed } = diffItems(previousItems, latestItems);
+      if (added.length > 0 || changed.length > 0) {
+        const update: FeedUpdate = { feedName, added, changed };
+        this.emit('feedUpdated', update);
+      }
+      
+      return;
+    } catch (error) {
+      console.error(`[RSSService] Error fetching feed ${feedName}:`, error);
+      if (this.feedConfigs.has(feedName)) {
+        // A document that fails to parse still reports the status it was served with
+        const status = error instanceof FeedHttpError ? error.status : result?.status;
+        this.recordFailure(feedName, fetchedAt, error as Error, status);
+      }
+      throw error;
+    }
+  }
+
+  // Parse a JSON Feed or an RSS, Atom or RDF document, telling them apart by the body and Content-Type
+  private async parseFeedDocument(body: string, contentType?: string): Promise<ParsedFeed> {
+    return isJsonDocument(body, contentType) ? parseJsonFeed(body) : this.parser.parseString(body);
+  }
+
+  // Sanitize each item's HTML, strip trackers and keep the result as contentMarkdown; relative
+  // URLs resolve against the item's link, or the feed's URL when it has none
+  private withContentMarkdown(items: FeedItem[], feedUrl: string): FeedItem[] {
+    return items.map(item => {
+      if (!item.content) {
+        return item;
+      }
+      let baseUrl = feedUrl;
+      try {
+        baseUrl = new URL(item.link || '', feedUrl).href;
+      } catch {
+        // Keep the feed's URL as the base
+      }
+      const contentMarkdown = htmlToMarkdown(item.content, baseUrl);
+      return contentMarkdown ? { ...item, contentMarkdown } : item;
+    });
+  }
+
+  // Carry articles over from items already in the history, as long as their link is the same
+  private keepArticles(previous: FeedItem[], latest: FeedItem[]): FeedItem[] {
+    const articles = new Map(previous.filter(item => item.article).map(item => [getItemId(item), item]));
+    return latest.map(item => {
+      const existing = articles.get(getItemId(item));
+      return existing && existing.link === item.link ? { ...item, article: existing.article } : item;
+    });
+  }
+
+  // Queue the article fetches of items that don't have one yet, newest first and at most
+  // articlesPerRefresh per fetch of the feed. They share the scheduler's slots and per-host
+  // limits with feed fetches; items whose article can't be fetched are tried again next time.
+  private queueArticles(feedName: string, items: FeedItem[]): void {
+    items
+      .filter(item => item.link && !item.article && !this.pendingArticles.has(`${feedName}\n${item.link}`))
+      .slice(0, this.articlesPerRefresh)
+      .forEach(item => {
+        const link = item.link!;
+        const key = `${feedName}\n${link}`;
+        this.pendingArticles.add(key);
+        this.scheduler
+          .runTask(feedName, link, async () => {
+            // The feed may have been removed while the fetch waited for a slot
+            if (!this.feedConfigs.has(feedName)) {
+              return;
+            }
+            const article = await this.articles.extract(link);
+            if (this.feedConfigs.has(feedName)) {
+              this.storeArticle(feedName, item, article);
+            }
+          })
+          .catch(error => console.error(`[RSSService] Error fetching article ${link} of feed ${feedName}:`, (error as Error).message))
+          .finally(() => this.pendingArticles.delete(key));
+      });
+  }
+
+  // Carry firstSeenAt over from items already in the history and stamp the rest as seen now;
+  // items without a guid or link can't be matched, so they count as new in every fetch
+  private markFirstSeen(previous: FeedItem[], latest: FeedItem[]): FeedItem[] {
+    const previousById = new Map(previous.map(item => [getItemId(item), item]));
+    let seenAt: string | undefined;
+    
+    return latest.map(item => {
+      const itemId = getItemId(item);
+      const firstSeenAt = itemId === undefined ? undefined : previousById.get(itemId)?.firstSeenAt;
+      if (firstSeenAt) {
+        return { ...item, firstSeenAt };
+      }
+      if (!seenAt) {
+        this.lastSeenAt = Math.max(Date.now(), this.lastSeenAt + 1);
+        seenAt = new Date(this.lastSeenAt).toISOString();
+      }
+      return { ...item, firstSeenAt: seenAt };
+    });
+  }
+
+  // Update fetch stats after a successful fetch, clearing any failure streak, and schedule the next one
+  private recordSuccess(feedName: string, fetchedAt: Date, result: FeedFetchResult): void {
+    const stats = this.getFetchStats(feedName);
+    this.fetchMetadata.set(feedName, {
+      ...stats,
+      ...result.validators,
+      lastFetchedAt: fetchedAt.toISOString(),
+      lastSuccessAt: fetchedAt.toISOString(),
+      lastStatus: result.status,
+      lastDurationMs: result.durationMs,
+      consecutiveFailures: 0,
+      pausedAt: undefined,
+      fetchCount: stats.fetchCount + 1,
+      notModifiedCount: stats.notModifiedCount + (result.notModified ? 1 : 0),
+      bytesReceived: stats.bytesReceived + result.bytes
+    });
+    this.startFeedRefresh(feedName);
+    this.persistFeed(feedName);
+  }
+
+  // Update fetch stats after a failed fetch, pausing the feed once it has failed
+  // pauseAfterFailures times in a row, and back off its next refresh
+  private recordFailure(feedName: string, fetchedAt: Date, error: Error, status?: number): void {
+    const stats = this.getFetchStats(feedName);
+    const { pauseAfterFailures } = this.backoff;
+    const consecutiveFailures = stats.consecutiveFailures + 1;
+    const shouldPause = !stats.pausedAt && pauseAfterFailures > 0 && consecutiveFailures >= pauseAfterFailures;
+    
+    this.fetchMetadata.set(feedName, {
+      ...stats,
+      lastFetchedAt: fetchedAt.toISOString(),
+      lastError: error.message,
+      lastErrorAt: fetchedAt.toISOString(),
+      lastStatus: status,
+      consecutiveFailures,
+      pausedAt: shouldPause ? fetchedAt.toISOString() : stats.pausedAt,
+      fetchCount: stats.fetchCount + 1,
+      errorCount: stats.errorCount + 1
+    });
+    
+    if (shouldPause) {
+      console.error(`[RSSService] Pausing feed ${feedName} after ${consecutiveFailures} consecutive failures`);
+    }
+    this.startFeedRefresh(feedName);
+    this.persistFeed(feedName);
+  }
+
+  // Write a feed's config, channel details, history and fetch metadata to the store
+  private persistFeed(feedName: string): void {
+    const config = this.feedConfigs.get(feedName);
+    if (!config) {
+      return;
+    }
+    
+    const feed = this.feeds[feedName];
+    const record: StoredFeed = {
+      config,
+      channel: feed && {
+        title: feed.title,
+        description: feed.description,
+        link: feed.link,
+        feedUrl: feed.feedUrl,
+        lastUpdated: feed.lastUpdated.toISOString(),
+        refreshHints: this.refreshHints.get(feedName)
+      },
+      items: this.getItemHistory(feedName),
+      fetch: this.getFetchStats(feedName)
+    };
+    this.trackWrite(this.store.saveFeed(record), feedName);
+  }
+
+  // Keep an article with its item in the latest items and the history; the item is matched
+  // by guid or link and link, since a fetch may have replaced it while the article loaded
+  private storeArticle(feedName: string, item: FeedItem, article: FeedArticle): void {
+    const itemId = getItemId(item);
+    const withArticle = (items: FeedItem[]): FeedItem[] => items.map(existing =>
+      getItemId(existing) === itemId && existing.link === item.link ? { ...existing, article } : existing
+    );
+    if (this.feeds[feedName]) {
+      this.feeds[feedName].items = withArticle(this.feeds[feedName].items);
+    }
+    this.history.set(feedName, withArticle(this.getItemHistory(feedName)));
+    this.searchIndex.indexFeed(feedName, this.getItemHistory(feedName));
+    this.persistFeed(feedName);
+  }
+
+  // Storage failures are logged rather than failing the fetch or tool call that caused them
+  private trackWrite(write: Promise<void>, feedName: string): void {
+    const tracked = write
+      .catch(error => {
+        console.error(`[RSSService] Error saving feed ${feedName}:`, error);
+      })
+      .finally(() => {
+        this.pendingWrites.delete(tracked);
+      });
+    this.pendingWrites.add(tracked);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,342 @@
+/**
+ * search-index.ts - Inverted index over feed item history with BM25 ranking
+ */
+import { FeedItem, MediaFilter, SearchOptions, SearchResult, SearchResults } from '../types/rss';
+import { getItemId } from '../utils/feed-format';
+import { hasMedia, MEDIA_FILTERS } from '../utils/media';
+import { parseSearchQuery, SearchQueryError, SearchQueryNode, toPlainText, tokenize } from '../utils/search-query';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+// BM25 parameters; a word in the title counts as much as TITLE_WEIGHT words in the body
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 2;
+
+const SNIPPET_LENGTH = 200;
+const SNIPPET_LEAD = 60;
+
+interface IndexedDoc {
+  feedName: string;
+  item: FeedItem;
+  // Indexed fields of the item, to skip re-tokenizing items that haven't changed
+  signature: string;
+  title: string[];
+  body: string[];
+  length: number;
+  publishedAt: number;
+}
+
+interface ScoringTerm {
+  term: string;
+  idf: number;
+  postings: Map<number, number>;
+}
+
+function itemSignature(item: FeedItem): string {
+  return JSON.stringify([item.title, item.content, item.contentSnippet, item.author, item.categories, item.isoDate, item.pubDate]);
+}
+
+function itemBody(item: FeedItem): string {
+  return toPlainText(item.content || item.contentSnippet || '');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whether the words occur consecutively in the tokens
+function containsPhrase(tokens: string[], terms: string[]): boolean {
+  for (let start = 0; start + terms.length <= tokens.length; start++) {
+    if (terms.every((term, offset) => tokens[start + offset] === term)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function parseFilterDate(field: string, value: string): number {
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    throw new SearchQueryError(`Invalid date for ${field}: '${value}'. Use an ISO 8601 date such as 2025-04-01.`);
+  }
+  return date;
+}
+
+function parseMediaFilter(value: string): MediaFilter {
+  const filter = value.toLowerCase() as MediaFilter;
+  if (!MEDIA_FILTERS.includes(filter)) {
+    throw new SearchQueryError(`Invalid value for has: '${value}'. Use audio, video, image or media.`);
+  }
+  return filter;
+}
+
+/**
+ * Full-text index of feed items. Each feed is re-indexed from its item history after every
+ * fetch; items whose text hasn't changed keep their existing postings.
+ */
+export class SearchIndex {
+  private docs = new Map<number, IndexedDoc>();
+  private feedDocs = new Map<string, Map<string, number>>();
+  // term -> doc id -> weighted term frequency
+  private postings = new Map<string, Map<number, number>>();
+  private totalLength = 0;
+  private nextId = 0;
+
+  // Replace the indexed items of a feed
+  public indexFeed(feedName: string, items: FeedItem[]): void {
+    const previous = this.feedDocs.get(feedName) || new Map<string, number>();
+    const current = new Map<string, number>();
+
+    items.forEach((item, index) => {
+      // Items without a guid or link, or with a duplicate one, are keyed by position
+      let key = getItemId(item) ?? `#${index}`;
+      if (current.has(key)) {
+        key = `${key}#${index}`;
+      }
+
+      const docId = previous.get(key);
+      const doc = docId === undefined ? undefined : this.docs.get(docId);
+      if (docId !== undefined && doc && doc.signature === itemSignature(item)) {
+        doc.item = item;
+        previous.delete(key);
+        current.set(key, docId);
+        return;
+      }
+      current.set(key, this.addDoc(feedName, item));
+    });
+
+    previous.forEach(docId => this.removeDoc(docId));
+    if (current.size > 0) {
+      this.feedDocs.set(feedName, current);
+    } else {
+      this.feedDocs.delete(feedName);
+    }
+  }
+
+  // Drop every indexed item of a feed
+  public removeFeed(feedName: string): void {
+    this.indexFeed(feedName, []);
+  }
+
+  /**
+   * Search with a query such as `"rate cut" AND (fed OR ecb) -opinion feed:markets after:2025-04-01`.
+   * Results are ranked by BM25 over the text terms, newest first among equal scores.
+   * Throws a SearchQueryError for filters that can't be evaluated.
+   */
+  public search(query: string, options: SearchOptions = {}): SearchResults {
+    const node = this.withOptionFilters(parseSearchQuery(query), options);
+    const matches = Array.from(this.evaluate(node));
+    const scoringTerms = this.scoringTerms(node);
+    const averageLength = this.docs.size > 0 ? this.totalLength / this.docs.size : 1;
+
+    const scored = matches.map(docId => {
+      const doc = this.docs.get(docId)!;
+      const score = scoringTerms.reduce((total, { idf, postings }) => {
+        const frequency = postings.get(docId) || 0;
+        if (frequency === 0) {
+          return total;
+        }
+        return total + idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / averageLength));
+      }, 0);
+      return { doc, score };
+    });
+
+    scored.sort((a, b) =>
+      b.score - a.score || (isNaN(b.doc.publishedAt) ? -Infinity : b.doc.publishedAt) - (isNaN(a.doc.publishedAt) ? -Infinity : a.doc.publishedAt)
+    );
+
+    const highlight = this.highlightPattern(scoringTerms.map(({ term }) => term));
+    const results: SearchResult[] = scored.slice(0, options.limit ?? DEFAULT_SEARCH_LIMIT).map(({ doc, score }) => ({
+      feedName: doc.feedName,
+      item: doc.item,
+      score: Math.round(score * 1000) / 1000,
+      snippet: this.snippet(doc.item, highlight)
+    }));
+
+    return { total: scored.length, results };
+  }
+
+  private addDoc(feedName: string, item: FeedItem): number {
+    const docId = this.nextId++;
+    const title = tokenize(toPlainText(item.title || ''));
+    const body = tokenize(itemBody(item));
+    const length = TITLE_WEIGHT * title.length + body.length;
+
+    const frequencies = new Map<string, number>();
+    title.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + TITLE_WEIGHT));
+    body.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+    frequencies.forEach((frequency, term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(docId, frequency);
+    });
+
+    this.docs.set(docId, {
+      feedName,
+      item,
+      signature: itemSignature(item),
+      title,
+      body,
+      length,
+      publishedAt: Date.parse(item.isoDate || item.pubDate || '')
+    });
+    this.totalLength += length;
+    return docId;
+  }
+
+  private removeDoc(docId: number): void {
+    const doc = this.docs.get(docId);
+    if (!doc) {
+      return;
+    }
+
+    new Set([...doc.title, ...doc.body]).forEach(term => {
+      const postings = this.postings.get(term);
+      postings?.delete(docId);
+      if (postings?.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.docs.delete(docId);
+    this.totalLength -= doc.length;
+  }
+
+  // AND the query with the filters passed as options
+  private withOptionFilters(node: SearchQueryNode, options: SearchOptions): SearchQueryNode {
+    const filters: SearchQueryNode[] = [];
+    if (options.feedNames && options.feedNames.length > 0) {
+      const feeds = options.feedNames.map(value => ({ type: 'filter' as const, field: 'feed' as const, value }));
+      filters.push(feeds.length === 1 ? feeds[0] : { type: 'or', children: feeds });
+    }
+    (['author', 'category', 'after', 'before', 'has'] as const).forEach(field => {
+      const value = options[field];
+      if (value) {
+        filters.push({ type: 'filter', field, value });
+      }
+    });
+    return filters.length > 0 ? { type: 'and', children: [node, ...filters] } : node;
+  }
+
+  private evaluate(node: SearchQueryNode): Set<number> {
+    switch (node.type) {
+      case 'all':
+        return new Set(this.docs.keys());
+      case 'term':
+        return new Set(this.matchingTerms(node.value, node.prefix).flatMap(term => Array.from(this.postings.get(term)!.keys())));
+      case 'phrase': {
+        const candidates = this.evaluate({ type: 'and', children: node.terms.map(value => ({ type: 'term', value, prefix: false })) });
+        return new Set(Array.from(candidates).filter(docId => {
+          const doc = this.docs.get(docId)!;
+          return containsPhrase(doc.title, node.terms) || containsPhrase(doc.body, node.terms);
+        }));
+      }
+      case 'filter':
+        return this.evaluateFilter(node.field, node.value);
+      case 'and': {
+        const [first, ...rest] = node.children.map(child => this.evaluate(child)).sort((a, b) => a.size - b.size);
+        return new Set(Array.from(first).filter(docId => rest.every(set => set.has(docId))));
+      }
+      case 'or':
+        return new Set(node.children.flatMap(child => Array.from(this.evaluate(child))));
+      case 'not': {
+        const excluded = this.evaluate(node.child);
+        return new Set(Array.from(this.docs.keys()).filter(docId => !excluded.has(docId)));
+      }
+    }
+  }
+
+  private evaluateFilter(field: string, value: string): Set<number> {
+    const needle = value.toLowerCase();
+    let matches: (doc: IndexedDoc) => boolean;
+
+    switch (field) {
+      case 'feed':
+        matches = (doc): boolean => doc.feedName.toLowerCase() === needle;
+        break;
+      case 'author':
+        matches = (doc): boolean => !!doc.item.author?.toLowerCase().includes(needle);
+        break;
+      case 'category':
+        matches = (doc): boolean => !!doc.item.categories?.some(category => category.toLowerCase() === needle);
+        break;
+      case 'has': {
+        const filter = parseMediaFilter(value);
+        matches = (doc): boolean => hasMedia(doc.item, filter);
+        break;
+      }
+      default: {
+        // after: is inclusive and before: exclusive, so after:X before:Y covers [X, Y)
+        const date = parseFilterDate(field, value);
+        matches = (doc): boolean => !isNaN(doc.publishedAt) && (field === 'after' ? doc.publishedAt >= date : doc.publishedAt < date);
+      }
+    }
+
+    const result = new Set<number>();
+    this.docs.forEach((doc, docId) => {
+      if (matches(doc)) {
+        result.add(docId);
+      }
+    });
+    return result;
+  }
+
+  // The indexed terms a query term stands for: itself, or every term it is a prefix of
+  private matchingTerms(value: string, prefix: boolean): string[] {
+    if (!prefix) {
+      return this.postings.has(value) ? [value] : [];
+    }
+    return Array.from(this.postings.keys()).filter(term => term.startsWith(value));
+  }
+
+  // Terms that contribute to the score: those in the query outside of NOT
+  private scoringTerms(node: SearchQueryNode): ScoringTerm[] {
+    const terms = new Set<string>();
+    const collect = (current: SearchQueryNode): void => {
+      if (current.type === 'term') {
+        this.matchingTerms(current.value, current.prefix).forEach(term => terms.add(term));
+      } else if (current.type === 'phrase') {
+        current.terms.forEach(term => terms.add(term));
+      } else if (current.type === 'and' || current.type === 'or') {
+        current.children.forEach(collect);
+      }
+    };
+    collect(node);
+
+    return Array.from(terms)
+      .filter(term => this.postings.has(term))
+      .map(term => {
+        const postings = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.docs.size - postings.size + 0.5) / (postings.size + 0.5));
+        return { term, idf, postings };
+      });
+  }
+
+  private highlightPattern(terms: string[]): RegExp | null {
+    if (terms.length === 0) {
+      return null;
+    }
+    const alternatives = terms.map(escapeRegExp).sort((a, b) => b.length - a.length).join('|');
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+  }
+
+  // A window of the item's text around its first match, with matched words in **bold**
+  private snippet(item: FeedItem, highlight: RegExp | null): string {
+    const text = itemBody(item) || toPlainText(item.title || '');
+    const firstMatch = highlight ? text.search(highlight) : -1;
+
+    let start = firstMatch > SNIPPET_LEAD ? firstMatch - SNIPPET_LEAD : 0;
+    if (start > 0) {
+      start = text.indexOf(' ', start) + 1 || start;
+    }
+    let end = Math.min(text.length, start + SNIPPET_LENGTH);
+    if (end < text.length) {
+      end = text.lastIndexOf(' ', end) > start ? text.lastIndexOf(' ', end) : end;
+    }
+
+    const window = text.slice(start, end);
+    const marked = highlight ? window.replace(highlight, match => `**${match}**`) : window;
+    return `${start > 0 ? '…' : ''}${marked}${end < text.length ? '…' : ''}`;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * feed-source.ts - Source adapter for syndication feeds: RSS, Atom, RDF and JSON Feed
+ */
+import { FeedEnclosure, FeedItem, ItunesEpisode } from '../types/rss';
+import { SourceAdapter, SourceDocument, SourceResponse } from '../types/source';
+import { ParsedFeed } from '../utils/json-feed';
+import { mediaKind, parseDuration } from '../utils/media';
+import { extractRefreshHints } from '../utils/refresh-policy';
+
+// Parses a feed document of any supported format, throwing if it isn't one
+export type FeedDocumentLoader = (body: string, contentType?: string) => Promise<ParsedFeed>;
+
+type ParsedItem = ParsedFeed['items'][number];
+
+// An element read through an rss-parser custom field, as xml2js gives it: attributes under $
+interface XmlElement {
+  $?: Record<string, string>;
+  [child: string]: unknown;
+}
+
+function xmlElements(value: unknown): XmlElement[] {
+  return Array.isArray(value) ? value.filter((element): element is XmlElement => typeof element === 'object' && element !== null) : [];
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function positiveNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return number > 0 && isFinite(number) ? number : undefined;
+}
+
+// A copy without the undefined properties, so stored items only carry what the feed had
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+}
+
+// media:content elements of an item, including those grouped in media:group
+function mediaContents(item: ParsedItem): XmlElement[] {
+  return [
+    ...xmlElements(item.mediaContent),
+    ...xmlElements(item.mediaGroup).flatMap(group => xmlElements(group['media:content']))
+  ];
+}
+
+/**
+ * Media files attached to a parsed item: JSON Feed attachments as they are, otherwise the RSS
+ * <enclosure>, Atom rel="enclosure" links and Media RSS media:content, first one per URL wins.
+ */
+function toEnclosures(item: ParsedItem): FeedEnclosure[] | undefined {
+  if (Array.isArray(item.enclosures)) {
+    return item.enclosures as FeedEnclosure[];
+  }
+
+  const enclosures: FeedEnclosure[] = [];
+  const add = (enclosure: Partial<FeedEnclosure>): void => {
+    if (enclosure.url && !enclosures.some(existing => existing.url === enclosure.url)) {
+      enclosures.push(compact(enclosure as FeedEnclosure));
+    }
+  };
+
+  if (item.enclosure) {
+    add({ url: text(item.enclosure.url), type: text(item.enclosure.type), length: positiveNumber(item.enclosure.length) });
+  }
+  xmlElements(item.links)
+    .filter(link => link.$?.rel === 'enclosure')
+    .forEach(({ $: attributes = {} }) => add({
+      url: text(attributes.href),
+      type: text(attributes.type),
+      length: positiveNumber(attributes.length),
+      title: text(attributes.title)
+    }));
+  mediaContents(item).forEach(({ $: attributes = {} }) => add({
+    url: text(attributes.url),
+    type: text(attributes.type),
+    length: positiveNumber(attributes.fileSize),
+    duration: parseDuration(attributes.duration),
+    medium: text(attributes.medium)
+  }));
+
+  return enclosures.length > 0 ? enclosures : undefined;
+}
+
+// The item's image: a JSON Feed image, media:thumbnail (on the item, its group or its content),
+// itunes:image, or failing those an image enclosure
+function toThumbnail(item: ParsedItem, enclosures?: FeedEnclosure[]): string | undefined {
+  const thumbnails = [
+    ...xmlElements(item.mediaThumbnail),
+    ...xmlElements(item.mediaGroup).flatMap(group => xmlElements(group['media:thumbnail'])),
+    ...mediaContents(item).flatMap(content => xmlElements(content['media:thumbnail']))
+  ];
+  const itunes = item.itunes as Record<string, unknown> | undefined;
+  return text(item.thumbnail)
+    || thumbnails.map(thumbnail => text(thumbnail.$?.url)).find(Boolean)
+    || text(itunes?.image)
+    || enclosures?.find(enclosure => mediaKind(enclosure) === 'image')?.url;
+}
+
+// itunes:explicit values; older feeds use yes and clean, current ones true and false
+const EXPLICIT_VALUES: Record<string, boolean> = { yes: true, true: true, explicit: true, no: false, false: false, clean: false };
+
+// iTunes episode details; rss-parser only reads them when the feed declares the itunes namespace
+function toItunes(item: ParsedItem): ItunesEpisode | undefined {
+  const itunes = item.itunes as Record<string, unknown> | undefined;
+  if (!itunes || typeof itunes !== 'object') {
+    return undefined;
+  }
+  const episode = compact<ItunesEpisode>({
+    duration: parseDuration(itunes.duration),
+    episode: positiveNumber(itunes.episode),
+    season: positiveNumber(itunes.season),
+    episodeType: text(itunes.episodeType)?.toLowerCase(),
+    explicit: EXPLICIT_VALUES[text(itunes.explicit)?.toLowerCase() || ''],
+    subtitle: text(itunes.subtitle),
+    summary: text(itunes.summary),
+    keywords: text(itunes.keywords)?.split(',').map(keyword => keyword.trim()).filter(Boolean)
+  });
+  return Object.keys(episode).length > 0 ? episode : undefined;
+}
+
+export class FeedSource implements SourceAdapter {
+  public readonly type = 'feed';
+  public readonly description = 'RSS, Atom, RDF or JSON Feed document';
+  private load: FeedDocumentLoader;
+
+  constructor(load: FeedDocumentLoader) {
+    this.load = load;
+  }
+
+  public async parse({ body, contentType }: SourceResponse): Promise<SourceDocument> {
+    const parsedFeed = await this.load(body, contentType);
+
+    // Convert parser items to our custom format
+    const items: FeedItem[] = parsedFeed.items.map(item => {
+      const enclosures = toEnclosures(item);
+      return {
+        title: item.title || 'Untitled',
+        link: item.link,
+        content: item.content,
+        contentSnippet: item.contentSnippet,
+        author: item.creator || (item.author as string | undefined),
+        categories: item.categories,
+        pubDate: item.pubDate,
+        isoDate: item.isoDate,
+        guid: item.guid,
+        enclosures,
+        thumbnail: toThumbnail(item, enclosures),
+        itunes: toItunes(item),
+      };
+    });
+
+    return {
+      title: parsedFeed.title,
+      description: parsedFeed.description,
+      link: parsedFeed.link,
+      items,
+      refreshHints: extractRefreshHints(parsedFeed)
+    };
+  }
+}
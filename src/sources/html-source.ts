@@ -0,0 +1,108 @@
+/**
+ * html-source.ts - Source adapter that scrapes items out of a web page with CSS selectors
+ */
+import { FeedConfig, FeedItem } from '../types/rss';
+import { SourceAdapter, SourceDocument, SourceResponse } from '../types/source';
+import { HtmlElement, innerHtml, parseHtml, parseSelector, querySelector, querySelectorAll, textContent } from '../utils/html';
+
+// Selectors tried within each item when the feed doesn't set its own
+const DEFAULT_TITLE_SELECTOR = 'h1, h2, h3, h4, h5, h6, a[href]';
+const DEFAULT_LINK_SELECTOR = 'a[href]';
+const DEFAULT_DATE_SELECTOR = 'time';
+const SELECTOR_OPTIONS = ['item', 'title', 'link', 'date', 'content', 'author'];
+
+function cleanText(element: HtmlElement | undefined): string | undefined {
+  const text = element ? textContent(element).replace(/\s+/g, ' ').trim() : '';
+  return text || undefined;
+}
+
+function resolveUrl(href: string | undefined, base: string): string | undefined {
+  if (!href) {
+    return undefined;
+  }
+  try {
+    return new URL(href, base).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Every element matching the `item` selector becomes an item, in page order. Within it,
+ * `title`, `link`, `date`, `content` and `author` select the parts of the item; without them
+ * the first heading is the title, the first link the link and the first <time> the date, and
+ * the whole element is the content. Items are identified by their link, or their title when
+ * they have none; elements with neither are skipped.
+ */
+export class HtmlSelectorSource implements SourceAdapter {
+  public readonly type = 'html';
+  public readonly description = 'Items scraped from a web page with CSS selectors (options: item, title, link, date, content, author)';
+
+  public validateOptions(options: Record<string, string>): void {
+    if (!options.item) {
+      throw new Error("An 'html' source needs an 'item' selector option");
+    }
+    SELECTOR_OPTIONS.forEach(name => {
+      if (options[name] !== undefined) {
+        parseSelector(options[name]);
+      }
+    });
+  }
+
+  public async parse({ body, url }: SourceResponse, config: FeedConfig): Promise<SourceDocument> {
+    const options = config.options || {};
+    this.validateOptions(options);
+
+    const root = parseHtml(body);
+    const base = resolveUrl(querySelector(root, 'base[href]')?.attributes.href, url) || url;
+    const select = (element: HtmlElement, option: string | undefined, fallback?: string): HtmlElement | undefined => {
+      const selector = option || fallback;
+      return selector ? querySelector(element, selector) : undefined;
+    };
+
+    const items: FeedItem[] = this.selectItems(root, options.item).flatMap(element => {
+      const linkElement = element.tag === 'a' && !options.link ? element : select(element, options.link, DEFAULT_LINK_SELECTOR);
+      const link = resolveUrl(linkElement?.attributes.href, base);
+      const title = cleanText(select(element, options.title, DEFAULT_TITLE_SELECTOR)) || (element.tag === 'a' ? cleanText(element) : undefined);
+      if (!title && !link) {
+        return [];
+      }
+
+      const dateElement = select(element, options.date, DEFAULT_DATE_SELECTOR);
+      const date = dateElement?.attributes.datetime || cleanText(dateElement);
+      const timestamp = Date.parse(date || '');
+      const contentElement = options.content ? select(element, options.content) : element;
+
+      return [{
+        title: title || 'Untitled',
+        link,
+        guid: link || title,
+        content: contentElement ? innerHtml(contentElement).trim() || undefined : undefined,
+        contentSnippet: cleanText(contentElement),
+        author: cleanText(select(element, options.author)),
+        pubDate: date,
+        isoDate: isNaN(timestamp) ? undefined : new Date(timestamp).toISOString()
+      }];
+    });
+
+    return {
+      title: cleanText(querySelector(root, 'title')),
+      description: querySelector(root, 'meta[name="description"]')?.attributes.content || undefined,
+      link: url,
+      items
+    };
+  }
+
+  private selectItems(root: HtmlElement, selector: string): HtmlElement[] {
+    // Nested matches would repeat their contents in the outer item, so only the outermost count
+    const matches = new Set(querySelectorAll(root, selector));
+    return Array.from(matches).filter(element => {
+      for (let parent = element.parent; parent; parent = parent.parent) {
+        if (matches.has(parent)) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+}
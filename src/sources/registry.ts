@@ -0,0 +1,54 @@
+/**
+ * registry.ts - Source adapters by type, with the built-in ones and any added by plugins
+ */
+import { SourceAdapter } from '../types/source';
+
+export const DEFAULT_SOURCE_TYPE = 'feed';
+
+// Thrown for a feed whose type has no registered adapter
+export class UnknownSourceTypeError extends Error {
+  public type: string;
+
+  constructor(type: string, available: string[]) {
+    super(`Unknown source type '${type}'. Available types: ${available.join(', ')}`);
+    this.name = 'UnknownSourceTypeError';
+    this.type = type;
+  }
+}
+
+export class SourceRegistry {
+  private adapters = new Map<string, SourceAdapter>();
+
+  constructor(adapters: SourceAdapter[] = []) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  // Registering a type again replaces its adapter, so plugins can override the built-in ones
+  public register(adapter: SourceAdapter): void {
+    if (!adapter || typeof adapter.type !== 'string' || !adapter.type || typeof adapter.parse !== 'function') {
+      throw new Error('A source adapter needs a type and a parse function');
+    }
+    this.adapters.set(adapter.type, adapter);
+  }
+
+  // The adapter for a feed type, 'feed' when none is given
+  public get(type = DEFAULT_SOURCE_TYPE): SourceAdapter {
+    const adapter = this.adapters.get(type);
+    if (!adapter) {
+      throw new UnknownSourceTypeError(type, this.types());
+    }
+    return adapter;
+  }
+
+  public has(type: string): boolean {
+    return this.adapters.has(type);
+  }
+
+  public types(): string[] {
+    return Array.from(this.adapters.keys());
+  }
+
+  public list(): SourceAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
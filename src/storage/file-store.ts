@@ -0,0 +1,129 @@
+/**
+ * file-store.ts - FeedStore backed by files under a data directory
+ *
+ * Layout:
+ *   feeds.json            feed configs, channel details and fetch metadata, keyed by feed name
+ *   items/<name>.jsonl    retained items of one feed, one JSON object per line, newest first
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FeedItem } from '../types/rss';
+import { FeedStore, StoredFeed } from '../types/storage';
+
+const INDEX_FILE = 'feeds.json';
+const ITEMS_DIR = 'items';
+const INDEX_VERSION = 1;
+
+type IndexEntry = Omit<StoredFeed, 'items'>;
+
+interface IndexFile {
+  version: number;
+  feeds: Record<string, IndexEntry>;
+}
+
+// Replace a file in one step so a crash never leaves it half written
+async function writeFileAtomic(filePath: string, contents: string): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, contents, 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export class FileFeedStore implements FeedStore {
+  private dataDir: string;
+  private index: Record<string, IndexEntry> = {};
+  // Writes are chained so they reach disk in the order they were made
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  public async load(): Promise<StoredFeed[]> {
+    const raw = await readFileIfExists(path.join(this.dataDir, INDEX_FILE));
+    if (!raw) {
+      this.index = {};
+      return [];
+    }
+
+    const parsed = JSON.parse(raw) as IndexFile;
+    if (parsed.version !== INDEX_VERSION) {
+      throw new Error(`Unsupported feed store version ${parsed.version} in ${this.dataDir}`);
+    }
+    this.index = parsed.feeds || {};
+
+    return Promise.all(
+      Object.entries(this.index).map(async ([name, entry]) => ({
+        ...entry,
+        items: await this.readItems(name)
+      }))
+    );
+  }
+
+  public saveFeed(feed: StoredFeed): Promise<void> {
+    const { items, ...entry } = feed;
+    return this.enqueue(async () => {
+      this.index[feed.config.name] = entry;
+      await fs.mkdir(path.join(this.dataDir, ITEMS_DIR), { recursive: true });
+      const lines = items.map(item => JSON.stringify(item) + '\n').join('');
+      await writeFileAtomic(this.itemsPath(feed.config.name), lines);
+      await this.writeIndex();
+    });
+  }
+
+  public removeFeed(feedName: string): Promise<void> {
+    return this.enqueue(async () => {
+      delete this.index[feedName];
+      await fs.rm(this.itemsPath(feedName), { force: true });
+      await this.writeIndex();
+    });
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(write);
+    // Keep the chain alive after a failed write; the caller still sees the error
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private itemsPath(feedName: string): string {
+    return path.join(this.dataDir, ITEMS_DIR, `${encodeURIComponent(feedName)}.jsonl`);
+  }
+
+  private async writeIndex(): Promise<void> {
+    await fs.mkdir(this.dataDir, { recursive: true });
+    const index: IndexFile = { version: INDEX_VERSION, feeds: this.index };
+    await writeFileAtomic(path.join(this.dataDir, INDEX_FILE), JSON.stringify(index, null, 2));
+  }
+
+  private async readItems(feedName: string): Promise<FeedItem[]> {
+    const raw = await readFileIfExists(this.itemsPath(feedName));
+    if (!raw) {
+      return [];
+    }
+
+    const items: FeedItem[] = [];
+    raw.split('\n').forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+      try {
+        items.push(JSON.parse(line) as FeedItem);
+      } catch {
+        // A torn final line shouldn't cost the rest of the history
+        console.error(`[FileFeedStore] Skipping malformed line ${index + 1} in items for '${feedName}'`);
+      }
+    });
+    return items;
+  }
+}
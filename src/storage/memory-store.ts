@@ -0,0 +1,20 @@
+/**
+ * memory-store.ts - FeedStore that keeps everything in memory and loses it on exit
+ */
+import { FeedStore, StoredFeed } from '../types/storage';
+
+export class MemoryFeedStore implements FeedStore {
+  private feeds = new Map<string, StoredFeed>();
+
+  public async load(): Promise<StoredFeed[]> {
+    return Array.from(this.feeds.values()).map(feed => structuredClone(feed));
+  }
+
+  public async saveFeed(feed: StoredFeed): Promise<void> {
+    this.feeds.set(feed.config.name, structuredClone(feed));
+  }
+
+  public async removeFeed(feedName: string): Promise<void> {
+    this.feeds.delete(feedName);
+  }
+}
@@ -1,33 +1,47 @@
-/**
- * Type definitions for Model Context Protocol requests and responses
- */
-
-export interface McpRequest {
-  jsonrpc: string;
-  id: number;
-  method: string;
-  params: {
-    name: string;
-    params: Record<string, unknown>;
-  };
-}
-
-export interface McpResponseContent {
-  type: string;
-  text?: string;
-  [key: string]: unknown;
-}
-
-export interface McpResponse {
-  jsonrpc: string;
-  id: number;
-  result?: {
-    content: McpResponseContent[];
-    [key: string]: unknown;
-  };
-  error?: {
-    code: number;
-    message: string;
-    [key: string]: unknown;
-  };
+/**
+ * Type definitions for Model Context Protocol requests and responses
+ */
+
+export interface McpRequest {
+  jsonrpc: string;
+  id: number;
+  method: string;
+  params: {
+    name: string;
+    params: Record<string, unknown>;
+  };
+}
+
+export interface McpInitializeRequest {
+  jsonrpc: string;
+  id: number;
+  method: 'initialize';
+  params: {
+    protocolVersion: string;
+    capabilities: Record<string, unknown>;
+    clientInfo: {
+      name: string;
+      version: string;
+    };
+  };
+}
+
+export interface McpResponseContent {
+  type: string;
+  text?: string;
+  [key: string]: unknown;
+}
+
+export interface McpResponse {
+  jsonrpc: string;
+  id: number;
+  result?: {
+    content: McpResponseContent[];
+    [key: string]: unknown;
+  };
+  error?: {
+    code: number;
+    message: string;
+    [key: string]: unknown;
+  };
 }
\ No newline at end of file
@@ -1,96 +1,227 @@
-/**
- * Type definitions for MCP (Model Context Protocol)
- */
-
-// Server configuration
-export interface MCPServerConfig {
-  name: string;
-  version: string;
-}
-
-// MCP Server capabilities
-export interface MCPCapabilities {
-  tools: Record<string, MCPToolDefinition>;
-  resources: Record<string, MCPResourceDefinition>;
-}
-
-export interface MCPToolDefinition {
-  description: string;
-  params: Record<string, unknown>;
-}
-
-export interface MCPResourceDefinition {
-  description: string;
-}
-
-// MCP Request and Response types
-export interface MCPRequest {
-  type: string;
-  [key: string]: unknown;
-}
-
-export interface MCPResponse {
-  type: string;
-  [key: string]: unknown;
-}
-
-export interface MCPInitializeRequest extends MCPRequest {
-  type: 'initialize';
-}
-
-export interface MCPInitializeResponse extends MCPResponse {
-  type: 'initialize_result';
-  server: {
-    name: string;
-    version: string;
-  };
-}
-
-export interface MCPCapabilitiesRequest extends MCPRequest {
-  type: 'capabilities';
-}
-
-export interface MCPCapabilitiesResponse extends MCPResponse {
-  type: 'capabilities_result';
-  capabilities: MCPCapabilities;
-}
-
-export interface MCPToolRequest extends MCPRequest {
-  type: 'tool';
-  name: string;
-  params: Record<string, unknown>;
-}
-
-export interface MCPToolResponse extends MCPResponse {
-  type: 'tool_result';
-  result: unknown;
-}
-
-export interface MCPErrorResponse extends MCPResponse {
-  type: 'error';
-  error: {
-    message: string;
-  };
-}
-
-// JSON-RPC specific types
-export interface JSONRPCRequest {
-  jsonrpc: '2.0';
-  id?: number | string;
-  method: string;
-  params?: Record<string, unknown>;
-}
-
-export interface JSONRPCResponse {
-  jsonrpc: '2.0';
-  id?: number | string;
-  result?: unknown;
-  error?: {
-    code: number;
-    message: string;
-  };
-}
-
-// Handler types
-export type ToolHandler = (params: Record<string, unknown>) => Promise<unknown>;
-export type ResourceHandler = (params: Record<string, unknown>) => Promise<unknown>;
\ No newline at end of file
+/**
+ * Type definitions for MCP (Model Context Protocol)
+ */
+
+// Server configuration
+export interface MCPServerConfig {
+  name: string;
+  version: string;
+}
+
+// Transport configuration
+export interface MCPTransportConfig {
+  type: 'stdio' | 'http';
+  port: number;
+  host: string;
+  path: string;
+  allowedOrigins?: string[];
+}
+
+// Name and version of a client or server, exchanged during initialize
+export interface MCPImplementationInfo {
+  name: string;
+  version: string;
+}
+
+// Capability flags advertised in the initialize result
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+}
+
+// MCP Server capabilities
+export interface MCPCapabilities {
+  tools: Record<string, MCPToolDefinition>;
+  resources: Record<string, MCPResourceDefinition>;
+  prompts?: Record<string, MCPPromptDefinition>;
+}
+
+export interface MCPToolDefinition {
+  description: string;
+  params: Record<string, unknown>;
+}
+
+export type JSONSchema = Record<string, unknown>;
+
+// Tool entry as advertised in a tools/list response
+export interface MCPToolListEntry {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+}
+
+export interface MCPResourceDefinition {
+  description: string;
+}
+
+export interface MCPPromptDefinition {
+  description: string;
+}
+
+// Prompt argument and entry as advertised in a prompts/list response
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required: boolean;
+}
+
+export interface MCPPromptListEntry {
+  name: string;
+  description: string;
+  arguments: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPTextContent;
+}
+
+export interface MCPGetPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// Resource entry as advertised in a resources/list response
+export interface MCPResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+// Resource template entry as advertised in a resources/templates/list response
+export interface MCPResourceTemplateEntry {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text: string;
+}
+
+export interface MCPReadResourceResult {
+  contents: MCPResourceContents[];
+}
+
+// MCP Request and Response types
+export interface MCPRequest {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface MCPResponse {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface MCPInitializeRequest extends MCPRequest {
+  type: 'initialize';
+}
+
+export interface MCPInitializeResponse extends MCPResponse {
+  type: 'initialize_result';
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  server: MCPImplementationInfo;
+}
+
+export interface MCPCapabilitiesRequest extends MCPRequest {
+  type: 'capabilities';
+}
+
+export interface MCPCapabilitiesResponse extends MCPResponse {
+  type: 'capabilities_result';
+  capabilities: MCPCapabilities;
+}
+
+export interface MCPToolRequest extends MCPRequest {
+  type: 'tool';
+  name: string;
+  params: Record<string, unknown>;
+}
+
+export interface MCPToolResponse extends MCPResponse {
+  type: 'tool_result';
+  result: unknown;
+}
+
+export interface MCPToolCallRequest extends MCPRequest {
+  type: 'tools/call';
+  name: string;
+  params: Record<string, unknown>;
+}
+
+// Content blocks returned from a tools/call request
+export interface MCPTextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface MCPCallToolResult {
+  content: MCPTextContent[];
+  isError?: boolean;
+  structuredContent?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface MCPToolCallResponse extends MCPResponse {
+  type: 'tools/call_result';
+  result: MCPCallToolResult;
+}
+
+export interface MCPErrorResponse extends MCPResponse {
+  type: 'error';
+  error: {
+    message: string;
+    code?: number;
+    data?: unknown;
+  };
+}
+
+// Server-initiated notification, e.g. notifications/resources/updated
+export interface MCPNotification extends MCPResponse {
+  type: 'notification';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// JSON-RPC specific types
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export interface JSONRPCNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Handler types
+export type ToolHandler = (params: Record<string, unknown>) => Promise<unknown>;
+export type ResourceHandler = (params: Record<string, unknown>) => Promise<unknown>;
+export type ResourceListHandler = () => Promise<MCPResourceEntry[]>;
+export type ResourceReadHandler = (
+  uri: string,
+  variables: Record<string, string>
+) => Promise<MCPResourceContents[] | null>;
+export type PromptHandler = (args: Record<string, unknown>) => Promise<MCPGetPromptResult>;
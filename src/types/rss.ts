@@ -1,33 +1,298 @@
-/**
- * Type definitions for RSS service
- */
-
-export interface FeedConfig {
-  name: string;
-  url: string;
-  refreshInterval?: number;
-  maxItems?: number;
-}
-
-export interface FeedItem {
-  title: string;
-  link?: string;
-  content?: string;
-  contentSnippet?: string;
-  author?: string;
-  categories?: string[];
-  pubDate?: string;
-  isoDate?: string;
-  guid?: string;
-}
-
-export interface Feed {
-  title: string;
-  description?: string;
-  link?: string;
-  items: FeedItem[];
-  lastUpdated: Date;
-  feedUrl: string;
-}
-
-export type Feeds = Record<string, Feed>;
\ No newline at end of file
+/**
+ * Type definitions for RSS service
+ */
+
+export interface FeedConfig {
+  name: string;
+  url: string;
+  refreshInterval?: number;
+  // 'fixed' always refreshes every refreshInterval, ignoring feed hints and item frequency
+  refreshMode?: RefreshMode;
+  maxItems?: number;
+  // Folder path the feed is filed under, with nested folders separated by '/', e.g. "News/Tech"
+  group?: string;
+  // Source adapter that reads the URL: 'feed' (the default) for RSS, Atom and JSON Feed,
+  // 'sitemap', 'html' or the type of a plugin
+  type?: string;
+  // Adapter-specific settings, such as the selectors of an 'html' source
+  options?: Record<string, string>;
+  // Fetch the page each new item links to and keep its main content as the item's article
+  fetchFullText?: boolean;
+}
+
+export type RefreshMode = 'adaptive' | 'fixed';
+
+export interface FeedItem {
+  title: string;
+  link?: string;
+  content?: string;
+  contentSnippet?: string;
+  // content sanitized, with trackers removed, as markdown
+  contentMarkdown?: string;
+  author?: string;
+  categories?: string[];
+  pubDate?: string;
+  isoDate?: string;
+  guid?: string;
+  enclosures?: FeedEnclosure[];
+  // Image URL from media:thumbnail, itunes:image or a JSON Feed item's image
+  thumbnail?: string;
+  itunes?: ItunesEpisode;
+  // Main content of the page the item links to, once get-article or fetchFullText has fetched it
+  article?: FeedArticle;
+  // ISO 8601 time the item first appeared in a fetch of its feed
+  firstSeenAt?: string;
+}
+
+// The main content of an item's web page, extracted readability-style and kept as markdown
+export interface FeedArticle {
+  // Page the content was taken from, after redirects
+  url: string;
+  title?: string;
+  byline?: string;
+  markdown: string;
+  // Characters of plain text in the extracted content
+  textLength: number;
+  // ISO 8601 time the page was fetched
+  extractedAt: string;
+}
+
+// Limits for fetching article pages: timeout in milliseconds, maxBytes of HTML per page
+export interface ArticleOptions {
+  timeout: number;
+  maxBytes: number;
+  // Most articles queued by one fetch of a feed with fetchFullText
+  maxPerRefresh: number;
+}
+
+// A media file attached to an item, from an RSS <enclosure>, media:content, an Atom
+// rel="enclosure" link or a JSON Feed attachment; length is in bytes and duration in seconds
+export interface FeedEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+  title?: string;
+  duration?: number;
+  // media:content's medium: image, audio, video, document or executable
+  medium?: string;
+}
+
+// Podcast episode details from the itunes: elements of an item; duration is in seconds
+export interface ItunesEpisode {
+  duration?: number;
+  episode?: number;
+  season?: number;
+  // full, trailer or bonus
+  episodeType?: string;
+  explicit?: boolean;
+  subtitle?: string;
+  summary?: string;
+  keywords?: string[];
+}
+
+// How much of each item get-feed shows: the plain-text snippet, or the full content as markdown
+export type ItemDetail = 'summary' | 'full';
+
+export type MediaKind = 'audio' | 'video' | 'image';
+
+// Items with media of a kind; 'media' is audio or video
+export type MediaFilter = MediaKind | 'media';
+
+export interface Feed {
+  title: string;
+  description?: string;
+  link?: string;
+  items: FeedItem[];
+  lastUpdated: Date;
+  feedUrl: string;
+}
+
+export type Feeds = Record<string, Feed>;
+
+// HTTP cache validators from a feed's last full response
+export interface FeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// Outcome of a conditional fetch; body is only present when the document changed
+export interface FeedFetchResult {
+  status: number;
+  notModified: boolean;
+  body?: string;
+  // Content-Type header and the URL the document was served from after redirects
+  contentType?: string;
+  url?: string;
+  validators: FeedValidators;
+  bytes: number;
+  durationMs: number;
+}
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf' | 'json';
+
+// A feed found at or linked from a URL by feed discovery; valid when it was fetched and parsed
+export interface DiscoveredFeed {
+  url: string;
+  // 'direct' for the URL itself, 'link' for a <link rel="alternate"> on the page, 'path' for a common feed path
+  source: 'direct' | 'link' | 'path';
+  format?: FeedFormat;
+  title?: string;
+  valid: boolean;
+  itemCount?: number;
+  error?: string;
+}
+
+// A problem found by validating a feed; errors make it unusable, warnings don't. count and
+// examples (item titles) are set for problems with individual items.
+export interface FeedValidationIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  count?: number;
+  examples?: string[];
+}
+
+// Outcome of fetching and checking a feed without adding it; valid when there are no errors
+export interface FeedValidationReport {
+  url: string;
+  valid: boolean;
+  status?: number;
+  contentType?: string;
+  format?: FeedFormat;
+  title?: string;
+  itemCount: number;
+  bytes?: number;
+  durationMs?: number;
+  issues: FeedValidationIssue[];
+}
+
+// Update hints a feed declares about itself: intervals in milliseconds from <ttl> and
+// sy:updatePeriod/sy:updateFrequency, <skipHours> as GMT hours 0-23 and <skipDays>
+// as days 0-6 starting with Sunday
+export interface FeedRefreshHints {
+  ttl?: number;
+  updateInterval?: number;
+  skipHours?: number[];
+  skipDays?: number[];
+}
+
+// Bounds for refresh intervals learned from item frequency
+export interface RefreshPolicy {
+  minInterval: number;
+  maxInterval: number;
+}
+
+// How refreshes slow down and eventually stop while a feed keeps failing
+export interface BackoffPolicy {
+  maxInterval: number;
+  pauseAfterFailures: number;
+}
+
+export type FeedHealthStatus = 'pending' | 'healthy' | 'failing' | 'paused';
+
+// Summary of a feed's recent fetches; dates are ISO 8601 strings
+export interface FeedHealth {
+  status: FeedHealthStatus;
+  consecutiveFailures: number;
+  lastSuccessAt?: string;
+  lastErrorAt?: string;
+  lastError?: string;
+  lastStatus?: number;
+  pausedAt?: string;
+  nextFetchAt?: string;
+  // Interval between successful refreshes after feed hints and item frequency are applied
+  refreshInterval?: number;
+}
+
+// Limits for the shared fetch queue; jitter is the fraction by which each refresh
+// interval is randomly stretched
+export interface FetchSchedulerOptions {
+  maxConcurrent: number;
+  maxPerHost: number;
+  jitter: number;
+}
+
+// Manual refreshes run ahead of scheduled background fetches
+export type FetchPriority = 'high' | 'normal';
+
+// A fetch in the queue; dates are ISO 8601 strings and startedAt is only set while it runs
+export interface FetchQueueEntry {
+  feedName: string;
+  host: string;
+  priority: FetchPriority;
+  dueAt: string;
+  startedAt?: string;
+  // Page fetched on the feed's behalf, such as an item's article; feed fetches have none
+  url?: string;
+}
+
+// Fetches that are running, due but waiting for a free slot, and due later
+export interface FetchQueueState extends FetchSchedulerOptions {
+  running: FetchQueueEntry[];
+  queued: FetchQueueEntry[];
+  scheduled: FetchQueueEntry[];
+}
+
+// An item first seen after a given time, as returned by RSSService.getNewItems
+export interface NewFeedItem {
+  feedName: string;
+  item: FeedItem;
+}
+
+// A feed item by its feed and id (guid, else link)
+export interface FeedItemRef {
+  feedName: string;
+  itemId: string;
+}
+
+// Where a read of new items stopped: every item first seen through seenThrough, except
+// that a read cut short by its limit stopped at lastItem among the items seen at that time
+export interface NewItemsPosition {
+  seenThrough: Date;
+  lastItem?: FeedItemRef;
+}
+
+// Result of RSSService.getNewItems; hasMore is set when the limit left items for the next read
+export interface NewItemsPage extends NewItemsPosition {
+  items: NewFeedItem[];
+  hasMore: boolean;
+}
+
+// Outcome of RSSService.importFeeds, by feed name
+export interface FeedImportResult {
+  added: string[];
+  updated: string[];
+  skipped: { name: string; url: string; reason: string }[];
+}
+
+// Filters for RSSService.search, applied on top of any filters in the query itself
+export interface SearchOptions {
+  feedNames?: string[];
+  author?: string;
+  category?: string;
+  after?: string;
+  before?: string;
+  has?: MediaFilter;
+  limit?: number;
+}
+
+// A ranked search hit; the snippet marks the matched words in **bold**
+export interface SearchResult {
+  feedName: string;
+  item: FeedItem;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchResults {
+  // Number of matching items before the limit is applied
+  total: number;
+  results: SearchResult[];
+}
+
+// Emitted by RSSService when a fetch adds or changes items in a feed
+export interface FeedUpdate {
+  feedName: string;
+  added: FeedItem[];
+  changed: FeedItem[];
+}
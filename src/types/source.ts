@@ -0,0 +1,34 @@
+/**
+ * Type definitions for source adapters
+ */
+import { FeedConfig, FeedItem, FeedRefreshHints } from './rss';
+
+// A fetched document handed to a source adapter; url is where it was served from after redirects
+export interface SourceResponse {
+  body: string;
+  contentType?: string;
+  url: string;
+}
+
+// What a source adapter makes of a document: channel details and items, newest first
+export interface SourceDocument {
+  title?: string;
+  description?: string;
+  link?: string;
+  items: FeedItem[];
+  refreshHints?: FeedRefreshHints;
+}
+
+/**
+ * Turns the document at a feed's URL into items. The adapter is picked by FeedConfig.type;
+ * fetching, conditional GET, backoff and scheduling stay with RSSService, so every source
+ * type gets them for free.
+ */
+export interface SourceAdapter {
+  type: string;
+  description: string;
+  // Throws when a feed's options are missing or unusable; called before the feed is added
+  validateOptions?(options: Record<string, string>): void;
+  // Throws when the document can't be read, which counts as a failed fetch
+  parse(response: SourceResponse, config: FeedConfig): Promise<SourceDocument>;
+}
@@ -0,0 +1,57 @@
+/**
+ * Type definitions for feed persistence
+ */
+import { FeedConfig, FeedItem, FeedRefreshHints, FeedValidators } from './rss';
+
+// Per-feed fetch statistics and the validators for the next conditional request
+export interface FeedFetchMetadata extends FeedValidators {
+  lastFetchedAt?: string;
+  lastSuccessAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastStatus?: number;
+  lastDurationMs?: number;
+  // Failures since the last success; refreshes back off and eventually pause as it grows
+  consecutiveFailures: number;
+  pausedAt?: string;
+  fetchCount: number;
+  notModifiedCount: number;
+  errorCount: number;
+  bytesReceived: number;
+}
+
+// Everything persisted for one feed; dates are ISO 8601 strings
+export interface StoredFeed {
+  config: FeedConfig;
+  // Channel details from the last successful fetch, absent until one succeeds
+  channel?: {
+    title: string;
+    description?: string;
+    link?: string;
+    feedUrl: string;
+    lastUpdated: string;
+    refreshHints?: FeedRefreshHints;
+  };
+  // Retained item history, newest first
+  items: FeedItem[];
+  fetch: FeedFetchMetadata;
+}
+
+// Storage backend for feeds; implementations must apply writes in call order
+export interface FeedStore {
+  load(): Promise<StoredFeed[]>;
+  saveFeed(feed: StoredFeed): Promise<void>;
+  removeFeed(feedName: string): Promise<void>;
+}
+
+// How much item history to keep beyond the latest maxItems of each feed
+export interface RetentionPolicy {
+  maxAgeDays: number;
+  maxItemsPerFeed: number;
+}
+
+export interface StorageConfig {
+  type: 'file' | 'memory';
+  dataDir: string;
+  retention: RetentionPolicy;
+}
@@ -0,0 +1,104 @@
+/**
+ * feed-format.ts - Markdown formatting and resource URIs for feeds, items and feed health
+ */
+import { DiscoveredFeed, Feed, FeedArticle, FeedHealth, FeedItem, FeedValidationReport, ItemDetail } from '../types/rss';
+import { formatMediaMarkdown } from './media';
+
+export const FEED_URI_TEMPLATE = 'feed://{name}';
+export const FEED_ITEM_URI_TEMPLATE = 'feed://{name}/items/{guid}';
+
+// Stable identifier for an item, used in resource URIs
+export function getItemId(item: FeedItem): string | undefined {
+  return item.guid || item.link;
+}
+
+// Build the resource URI for a feed
+export function feedUri(feedName: string): string {
+  return `feed://${encodeURIComponent(feedName)}`;
+}
+
+// Build the resource URI for an item, or undefined when the item has no guid or link
+export function feedItemUri(feedName: string, item: FeedItem): string | undefined {
+  const itemId = getItemId(item);
+  return itemId ? `${feedUri(feedName)}/items/${encodeURIComponent(itemId)}` : undefined;
+}
+
+// Format a single item as a markdown section: its snippet, or for full detail its full article
+// or content as markdown, followed by its episode details and media files
+export function formatItemMarkdown(item: FeedItem, detail: ItemDetail = 'summary'): string {
+  const body = detail === 'full' ? item.article?.markdown || item.contentMarkdown || item.contentSnippet : item.contentSnippet;
+  return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${body || ''}\n${formatMediaMarkdown(item)}${item.link ? `[Read More](${item.link})` : ''}\n\n`;
+}
+
+// Format an article fetched from an item's link: its title, byline and content, then the source
+export function formatArticleMarkdown(article: FeedArticle): string {
+  const heading = article.title ? `# ${article.title}\n${article.byline ? `By ${article.byline}\n` : ''}\n` : '';
+  return `${heading}${article.markdown}\n\n[Source](${article.url})\n`;
+}
+
+// Format a discovered feed as a markdown list entry, e.g. "- https://example.com/feed: Example (rss, 20 items)"
+export function formatDiscoveredFeedMarkdown(feed: DiscoveredFeed): string {
+  if (!feed.valid) {
+    return `- ${feed.url}: not usable (${feed.error || 'unknown error'})`;
+  }
+  const details = [feed.format, feed.itemCount === undefined ? undefined : `${feed.itemCount} item${feed.itemCount === 1 ? '' : 's'}`]
+    .filter(Boolean)
+    .join(', ');
+  return `- ${feed.url}: ${feed.title || 'Untitled'}${details ? ` (${details})` : ''}`;
+}
+
+// Format a feed validation report as markdown lines: what was found, then one line per issue
+export function formatValidationMarkdown(report: FeedValidationReport): string {
+  const lines = [`Valid: ${report.valid ? 'yes' : 'no'}`];
+  if (report.format) {
+    lines.push(`Format: ${report.format}`);
+  }
+  if (report.title) {
+    lines.push(`Title: ${report.title}`);
+  }
+  if (report.format) {
+    lines.push(`Items: ${report.itemCount}`);
+  }
+  report.issues.forEach(issue => {
+    const count = issue.count ? ` (${issue.count}${issue.examples?.length ? `, e.g. ${issue.examples.join('; ')}` : ''})` : '';
+    lines.push(`- ${issue.severity === 'error' ? 'Error' : 'Warning'} [${issue.code}]: ${issue.message}${count}`);
+  });
+  return `${lines.join('\n')}\n`;
+}
+
+// Format a feed and its items as a markdown document
+export function formatFeedMarkdown(feed: Feed, detail: ItemDetail = 'summary'): string {
+  const items = feed.items.map(item => formatItemMarkdown(item, detail));
+  return `# ${feed.title}\n\n${feed.description || ''}\n\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n\n${items.join('')}`;
+}
+
+// Format a duration in milliseconds, rounded to the largest unit it holds at least two of,
+// e.g. "90 minutes" or "12 hours"
+export function formatDuration(ms: number): string {
+  const units: [string, number][] = [['day', 86400000], ['hour', 3600000], ['minute', 60000], ['second', 1000]];
+  const [unit, size] = units.find(([, size]) => ms >= 2 * size) || ['second', 1000];
+  const count = Math.round(ms / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+// Format a feed's health as markdown lines, e.g. "Status: failing (3 consecutive failures)"
+export function formatHealthMarkdown(health: FeedHealth): string {
+  const failures = health.consecutiveFailures > 0
+    ? ` (${health.consecutiveFailures} consecutive failure${health.consecutiveFailures === 1 ? '' : 's'})`
+    : '';
+  const lines = [`Status: ${health.status}${failures}`];
+  if (health.lastSuccessAt) {
+    lines.push(`Last Success: ${new Date(health.lastSuccessAt).toLocaleString()}`);
+  }
+  if (health.lastError && health.lastErrorAt) {
+    const status = health.lastStatus ? ` (HTTP ${health.lastStatus})` : '';
+    lines.push(`Last Error: ${health.lastError}${status} at ${new Date(health.lastErrorAt).toLocaleString()}`);
+  }
+  if (health.pausedAt) {
+    lines.push(`Paused: ${new Date(health.pausedAt).toLocaleString()}; add the feed again to resume`);
+  } else if (health.nextFetchAt) {
+    const interval = health.refreshInterval ? ` (refreshing every ${formatDuration(health.refreshInterval)})` : '';
+    lines.push(`Next Fetch: ${new Date(health.nextFetchAt).toLocaleString()}${interval}`);
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,229 @@
+/**
+ * feed-schemas.ts - Zod schemas for the structured output of the feed tools
+ */
+import { z } from 'zod';
+import { Feed, FeedHealth, FeedItem, ItemDetail, NewFeedItem, SearchResult } from '../types/rss';
+import { FeedFetchMetadata } from '../types/storage';
+
+// Mirrors FeedEnclosure from types/rss
+export const enclosureSchema = z.object({
+  url: z.string(),
+  type: z.string().optional().describe("MIME type, e.g. audio/mpeg"),
+  length: z.number().optional().describe("Size in bytes"),
+  title: z.string().optional(),
+  duration: z.number().optional().describe("Length in seconds"),
+  medium: z.string().optional().describe("Media RSS medium, e.g. audio, video or image"),
+});
+
+// Mirrors ItunesEpisode from types/rss
+export const itunesEpisodeSchema = z.object({
+  duration: z.number().optional().describe("Length in seconds"),
+  episode: z.number().optional(),
+  season: z.number().optional(),
+  episodeType: z.string().optional().describe("full, trailer or bonus"),
+  explicit: z.boolean().optional(),
+  subtitle: z.string().optional(),
+  summary: z.string().optional(),
+  keywords: z.array(z.string()).optional(),
+});
+
+// Mirrors FeedArticle from types/rss
+export const articleSchema = z.object({
+  url: z.string().describe("URL of the page, after redirects"),
+  title: z.string().optional(),
+  byline: z.string().optional(),
+  markdown: z.string().describe("Main content of the page as markdown"),
+  textLength: z.number().describe("Length of the content as plain text"),
+  extractedAt: z.string().describe("ISO 8601 time the page was fetched"),
+});
+
+// Mirrors FeedItem from types/rss, without the publisher HTML in content
+export const feedItemSchema = z.object({
+  title: z.string(),
+  link: z.string().optional(),
+  contentSnippet: z.string().optional(),
+  contentMarkdown: z.string().optional().describe("Sanitized content as markdown; only with full detail"),
+  author: z.string().optional(),
+  categories: z.array(z.string()).optional(),
+  pubDate: z.string().optional(),
+  isoDate: z.string().optional(),
+  guid: z.string().optional(),
+  enclosures: z.array(enclosureSchema).optional(),
+  thumbnail: z.string().optional().describe("Image URL for the item"),
+  itunes: itunesEpisodeSchema.optional(),
+  article: articleSchema.optional().describe("Full article from the item's link, for feeds with fetchFullText or after get-article; only with full detail"),
+  firstSeenAt: z.string().optional().describe("ISO 8601 time the item first appeared in its feed"),
+});
+
+// An item returned by get-new-items, tagged with the feed it came from
+export const newItemSchema = feedItemSchema.extend({
+  feedName: z.string(),
+});
+
+// A ranked hit returned by search-feeds
+export const searchResultSchema = newItemSchema.extend({
+  score: z.number().describe("Relevance score; higher is a better match, 0 for filter-only queries"),
+  snippet: z.string().describe("Text around the first match, with matched words in **bold**"),
+});
+
+// Mirrors DiscoveredFeed from types/rss
+export const discoveredFeedSchema = z.object({
+  url: z.string(),
+  source: z.enum(['direct', 'link', 'path']).describe("'direct' for the URL itself, 'link' for a feed the page links to, 'path' for a common feed path on the site"),
+  format: z.enum(['rss', 'atom', 'rdf', 'json']).optional(),
+  title: z.string().optional(),
+  valid: z.boolean().describe("Whether the feed was fetched and parsed successfully"),
+  itemCount: z.number().int().optional(),
+  error: z.string().optional(),
+});
+
+// Mirrors FeedValidationReport from types/rss
+export const feedValidationSchema = z.object({
+  url: z.string().describe("URL the feed was served from, after redirects"),
+  valid: z.boolean().describe("False when any issue is an error"),
+  status: z.number().int().optional(),
+  contentType: z.string().optional(),
+  format: z.enum(['rss', 'atom', 'rdf', 'json']).optional(),
+  title: z.string().optional(),
+  itemCount: z.number().int(),
+  bytes: z.number().int().optional(),
+  durationMs: z.number().optional(),
+  issues: z.array(z.object({
+    severity: z.enum(['error', 'warning']),
+    code: z.string(),
+    message: z.string(),
+    count: z.number().int().optional().describe("Number of items affected"),
+    examples: z.array(z.string()).optional().describe("Titles of some affected items"),
+  })),
+});
+
+// Fetch statistics for a feed; cache validators are left out
+export const fetchStatsSchema = z.object({
+  fetchCount: z.number().int(),
+  notModifiedCount: z.number().int().describe("Fetches answered with 304 Not Modified"),
+  errorCount: z.number().int(),
+  bytesReceived: z.number().int(),
+  lastDurationMs: z.number().optional(),
+  lastFetchedAt: z.string().optional(),
+});
+
+// Mirrors FeedHealth from types/rss
+export const feedHealthSchema = z.object({
+  status: z.enum(['pending', 'healthy', 'failing', 'paused']),
+  consecutiveFailures: z.number().int(),
+  lastSuccessAt: z.string().optional(),
+  lastErrorAt: z.string().optional(),
+  lastError: z.string().optional(),
+  lastStatus: z.number().int().optional().describe("HTTP status of the most recent fetch"),
+  pausedAt: z.string().optional(),
+  nextFetchAt: z.string().optional(),
+  refreshInterval: z.number().optional().describe("Milliseconds between successful refreshes after feed hints and item frequency are applied"),
+});
+
+// Health and fetch statistics of a feed, as reported by feed-status
+export const feedStatusSchema = z.object({
+  name: z.string(),
+  feedUrl: z.string(),
+  health: feedHealthSchema,
+  fetchStats: fetchStatsSchema,
+});
+
+// A feed without its items, as listed by list-feeds; feeds that were never fetched
+// have no lastUpdated and use their name as the title
+export const feedSummarySchema = feedStatusSchema.extend({
+  name: z.string().describe("Name the feed is registered under"),
+  title: z.string(),
+  description: z.string().optional(),
+  link: z.string().optional(),
+  group: z.string().optional().describe("Folder the feed is filed under, e.g. News/Tech"),
+  lastUpdated: z.string().optional().describe("ISO 8601 time of the last successful fetch"),
+  itemCount: z.number().int(),
+});
+
+// Mirrors Feed from types/rss, with lastUpdated as an ISO 8601 string
+export const feedSchema = feedSummarySchema.omit({ itemCount: true, health: true, fetchStats: true }).extend({
+  lastUpdated: z.string().describe("ISO 8601 time of the last successful fetch"),
+  items: z.array(feedItemSchema),
+});
+
+// Mirrors FetchQueueEntry from types/rss
+export const fetchQueueEntrySchema = z.object({
+  feedName: z.string(),
+  host: z.string(),
+  priority: z.enum(['high', 'normal']).describe("Manual refreshes are high priority"),
+  dueAt: z.string(),
+  startedAt: z.string().optional(),
+  url: z.string().optional().describe("Page fetched for the feed, such as an item's article; feed fetches have none"),
+});
+
+// Mirrors FetchQueueState from types/rss
+export const fetchQueueSchema = z.object({
+  maxConcurrent: z.number().int(),
+  maxPerHost: z.number().int(),
+  jitter: z.number(),
+  running: z.array(fetchQueueEntrySchema),
+  queued: z.array(fetchQueueEntrySchema).describe("Fetches that are due and waiting for a free slot"),
+  scheduled: z.array(fetchQueueEntrySchema).describe("Fetches that are not due yet, soonest first"),
+});
+
+export type StructuredFetchStats = z.infer<typeof fetchStatsSchema>;
+export type StructuredFeedStatus = z.infer<typeof feedStatusSchema>;
+export type StructuredFeedItem = z.infer<typeof feedItemSchema>;
+export type StructuredNewItem = z.infer<typeof newItemSchema>;
+export type StructuredSearchResult = z.infer<typeof searchResultSchema>;
+export type StructuredFeedSummary = z.infer<typeof feedSummarySchema>;
+export type StructuredFeed = z.infer<typeof feedSchema>;
+
+// Copy only the FeedItem fields the schema describes. The publisher HTML never goes out, and
+// the sanitized content and article only with full detail, as in the text output.
+export function toStructuredItem(item: FeedItem, detail: ItemDetail = 'summary'): StructuredFeedItem {
+  const { title, link, contentSnippet, author, categories, pubDate, isoDate, guid, enclosures, thumbnail, itunes, firstSeenAt } = item;
+  const body = detail === 'full' ? { contentMarkdown: item.contentMarkdown, article: item.article } : {};
+  return { title, link, contentSnippet, ...body, author, categories, pubDate, isoDate, guid, enclosures, thumbnail, itunes, firstSeenAt };
+}
+
+export function toStructuredNewItem({ feedName, item }: NewFeedItem): StructuredNewItem {
+  return { feedName, ...toStructuredItem(item) };
+}
+
+export function toStructuredSearchResult({ feedName, item, score, snippet }: SearchResult): StructuredSearchResult {
+  return { ...toStructuredNewItem({ feedName, item }), score, snippet };
+}
+
+export function toStructuredFetchStats(stats: FeedFetchMetadata): StructuredFetchStats {
+  const { fetchCount, notModifiedCount, errorCount, bytesReceived, lastDurationMs, lastFetchedAt } = stats;
+  return { fetchCount, notModifiedCount, errorCount, bytesReceived, lastDurationMs, lastFetchedAt };
+}
+
+export function toStructuredFeedStatus(
+  name: string,
+  feedUrl: string,
+  health: FeedHealth,
+  stats: FeedFetchMetadata
+): StructuredFeedStatus {
+  return { name, feedUrl, health, fetchStats: toStructuredFetchStats(stats) };
+}
+
+export function toStructuredFeedSummary(feed: Feed | null, status: StructuredFeedStatus, group?: string): StructuredFeedSummary {
+  return {
+    ...status,
+    title: feed?.title || status.name,
+    description: feed?.description,
+    link: feed?.link,
+    group,
+    lastUpdated: feed?.lastUpdated.toISOString(),
+    itemCount: feed?.items.length || 0,
+  };
+}
+
+export function toStructuredFeed(name: string, feed: Feed, detail: ItemDetail = 'summary'): StructuredFeed {
+  return {
+    name,
+    title: feed.title,
+    description: feed.description,
+    link: feed.link,
+    feedUrl: feed.feedUrl,
+    lastUpdated: feed.lastUpdated.toISOString(),
+    items: feed.items.map(item => toStructuredItem(item, detail)),
+  };
+}
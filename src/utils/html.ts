@@ -0,0 +1,388 @@
+/**
+ * html.ts - Lenient HTML parsing into a small element tree, with CSS selector matching
+ */
+
+export interface HtmlElement {
+  type: 'element';
+  // Lowercase tag name; the root returned by parseHtml is '#root'
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+  parent?: HtmlElement;
+}
+
+export interface HtmlText {
+  type: 'text';
+  // Entities are already decoded
+  text: string;
+  parent?: HtmlElement;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+// Thrown for selectors that can't be parsed or use unsupported syntax
+export class HtmlSelectorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HtmlSelectorError';
+  }
+}
+
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+// Elements whose content is text up to the closing tag, never markup
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title']);
+// Open elements that end when one of these starts, along with anything still open inside
+// them, as in <li>One<li>Two
+const IMPLIED_END: Record<string, string[]> = {
+  li: ['li'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+  option: ['option'],
+  thead: ['thead', 'tbody', 'tfoot'],
+  tbody: ['thead', 'tbody', 'tfoot'],
+  tfoot: ['thead', 'tbody', 'tfoot']
+};
+// Containers an implied end never reaches past, e.g. a <li> in a nested list leaves the outer <li> open
+const IMPLIED_END_BOUNDARIES = new Set(['ul', 'ol', 'dl', 'table', 'select', 'body', 'html']);
+// Elements that end an open <p>
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'fieldset', 'figcaption', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  bull: '•', middot: '·', laquo: '«', raquo: '»', times: '×', euro: '€', deg: '°'
+};
+
+// Decode named, decimal and hexadecimal character references; unknown names are left as they are
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+}
+
+/**
+ * Parse an HTML document or fragment the forgiving way browsers do: unclosed elements are
+ * closed by their parent's end tag, <p>, <li>, table cells and the like end implicitly, and
+ * stray end tags are ignored. Comments, doctypes and processing instructions are dropped.
+ */
+export function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { type: 'element', tag: '#root', attributes: {}, children: [] };
+  const pattern = /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w:-]*)[^>]*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+  let current = root;
+  let index = 0;
+  let match: RegExpExecArray | null;
+
+  const appendText = (text: string): void => {
+    if (text) {
+      current.children.push({ type: 'text', text: decodeEntities(text), parent: current });
+    }
+  };
+
+  while ((match = pattern.exec(html)) !== null) {
+    appendText(html.slice(index, match.index));
+    index = pattern.lastIndex;
+    const [, endTag, startTag, attributeText] = match;
+
+    if (endTag) {
+      const tag = endTag.toLowerCase();
+      for (let node: HtmlElement = current; node !== root; node = node.parent!) {
+        if (node.tag === tag) {
+          current = node.parent!;
+          break;
+        }
+      }
+    } else if (startTag) {
+      const tag = startTag.toLowerCase();
+      const ends = [...(IMPLIED_END[tag] || []), ...(BLOCK_ELEMENTS.has(tag) ? ['p'] : [])];
+      for (let node: HtmlElement = current; ends.length > 0 && node !== root && !IMPLIED_END_BOUNDARIES.has(node.tag); node = node.parent!) {
+        if (ends.includes(node.tag)) {
+          current = node.parent!;
+          break;
+        }
+      }
+      const element: HtmlElement = { type: 'element', tag, attributes: parseAttributes(attributeText), children: [], parent: current };
+      current.children.push(element);
+
+      if (RAW_TEXT_ELEMENTS.has(tag)) {
+        const end = new RegExp(`</${tag}\\s*>`, 'gi');
+        end.lastIndex = index;
+        const close = end.exec(html);
+        const text = html.slice(index, close ? close.index : html.length);
+        if (text) {
+          element.children.push({ type: 'text', text: tag === 'script' || tag === 'style' ? text : decodeEntities(text), parent: element });
+        }
+        index = close ? end.lastIndex : html.length;
+        pattern.lastIndex = index;
+      } else if (!VOID_ELEMENTS.has(tag) && !attributeText.trimEnd().endsWith('/')) {
+        current = element;
+      }
+    }
+  }
+  appendText(html.slice(index));
+  return root;
+}
+
+// The text of a node and its descendants, leaving out scripts and styles
+export function textContent(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return node.text;
+  }
+  if (node.tag === 'script' || node.tag === 'style') {
+    return '';
+  }
+  return node.children.map(textContent).join('');
+}
+
+// Serialize a node back to HTML
+export function toHtml(node: HtmlNode): string {
+  if (node.type === 'text') {
+    const parent = node.parent?.tag;
+    return parent === 'script' || parent === 'style' ? node.text : escapeHtml(node.text).replace(/&quot;/g, '"');
+  }
+  const children = node.children.map(toHtml).join('');
+  if (node.tag === '#root') {
+    return children;
+  }
+  const attributes = Object.entries(node.attributes).map(([name, value]) => ` ${name}="${escapeHtml(value)}"`).join('');
+  return VOID_ELEMENTS.has(node.tag) ? `<${node.tag}${attributes}>` : `<${node.tag}${attributes}>${children}</${node.tag}>`;
+}
+
+// The HTML inside an element, without its own tags
+export function innerHtml(element: HtmlElement): string {
+  return element.children.map(toHtml).join('');
+}
+
+// All elements below a node in document order
+export function descendants(element: HtmlElement): HtmlElement[] {
+  const found: HtmlElement[] = [];
+  const visit = (node: HtmlElement): void => {
+    node.children.forEach(child => {
+      if (child.type === 'element') {
+        found.push(child);
+        visit(child);
+      }
+    });
+  };
+  visit(element);
+  return found;
+}
+
+interface AttributeTest {
+  name: string;
+  operator?: string;
+  value?: string;
+}
+
+// One compound selector such as a.title[href], with the combinator joining it to the one before
+interface CompoundSelector {
+  combinator: ' ' | '>';
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeTest[];
+  pseudo: { name: 'first-child' | 'last-child' | 'nth-child'; index?: number }[];
+}
+
+// A parsed selector list: any of its complex selectors may match
+export type ParsedSelector = CompoundSelector[][];
+
+function parseCompound(text: string, combinator: ' ' | '>', selector: string): CompoundSelector {
+  const compound: CompoundSelector = { combinator, classes: [], attributes: [], pseudo: [] };
+  const tag = /^(\*|[a-zA-Z][\w-]*)/.exec(text);
+  if (tag && tag[1] !== '*') {
+    compound.tag = tag[1].toLowerCase();
+  }
+  const rest = text.slice(tag ? tag[0].length : 0);
+  const pattern = /#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~^$*|]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]|:([\w-]+)(?:\(\s*(\d+)\s*\))?/gy;
+  let match: RegExpExecArray | null;
+  let consumed = 0;
+  while (consumed < rest.length && (match = pattern.exec(rest)) !== null) {
+    consumed = pattern.lastIndex;
+    const [, id, className, attribute, operator, double, single, bare, pseudo, index] = match;
+    if (id) {
+      compound.id = id;
+    } else if (className) {
+      compound.classes.push(className);
+    } else if (attribute) {
+      compound.attributes.push({ name: attribute.toLowerCase(), operator, value: double ?? single ?? bare });
+    } else if (pseudo === 'first-child' || pseudo === 'last-child') {
+      compound.pseudo.push({ name: pseudo });
+    } else if (pseudo === 'nth-child' && index) {
+      compound.pseudo.push({ name: 'nth-child', index: parseInt(index, 10) });
+    } else {
+      throw new HtmlSelectorError(`Unsupported pseudo-class :${pseudo} in selector '${selector}'`);
+    }
+  }
+  if (consumed < rest.length || (!tag && rest.length === 0)) {
+    throw new HtmlSelectorError(`Invalid selector '${selector}'`);
+  }
+  return compound;
+}
+
+/**
+ * Parse a selector list. Supported: type, universal, #id, .class and [attr], [attr=value],
+ * ~=, ^=, $=, *=, |= attribute selectors, :first-child, :last-child and :nth-child(n), joined
+ * by descendant and child (>) combinators.
+ */
+export function parseSelector(selector: string): ParsedSelector {
+  const list: ParsedSelector = [];
+  let compounds: CompoundSelector[] = [];
+  let token = '';
+  let combinator: ' ' | '>' = ' ';
+  let quote = '';
+  let depth = 0;
+
+  const endCompound = (): void => {
+    if (token) {
+      compounds.push(parseCompound(token, compounds.length === 0 ? ' ' : combinator, selector));
+      token = '';
+      combinator = ' ';
+    }
+  };
+  const endComplex = (): void => {
+    endCompound();
+    if (compounds.length === 0 || (combinator === '>' && token === '')) {
+      throw new HtmlSelectorError(`Invalid selector '${selector}'`);
+    }
+    list.push(compounds);
+    compounds = [];
+  };
+
+  for (const char of selector) {
+    if (quote) {
+      quote = char === quote ? '' : quote;
+      token += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      token += char;
+    } else if (char === '[' || char === '(' || char === ']' || char === ')') {
+      depth += char === '[' || char === '(' ? 1 : -1;
+      token += char;
+    } else if (depth > 0) {
+      token += char;
+    } else if (/\s/.test(char)) {
+      endCompound();
+    } else if (char === '>') {
+      endCompound();
+      if (compounds.length === 0) {
+        throw new HtmlSelectorError(`Invalid selector '${selector}'`);
+      }
+      combinator = '>';
+    } else if (char === ',') {
+      endComplex();
+    } else if (char === '+' || char === '~') {
+      throw new HtmlSelectorError(`Unsupported combinator '${char}' in selector '${selector}'`);
+    } else {
+      token += char;
+    }
+  }
+  endComplex();
+  return list;
+}
+
+function elementSiblings(element: HtmlElement): HtmlElement[] {
+  return (element.parent?.children || []).filter((child): child is HtmlElement => child.type === 'element');
+}
+
+function matchesAttribute(element: HtmlElement, { name, operator, value = '' }: AttributeTest): boolean {
+  const actual = element.attributes[name];
+  if (actual === undefined) {
+    return false;
+  }
+  switch (operator) {
+    case undefined:
+      return true;
+    case '=':
+      return actual === value;
+    case '~=':
+      return actual.split(/\s+/).includes(value);
+    case '^=':
+      return value !== '' && actual.startsWith(value);
+    case '$=':
+      return value !== '' && actual.endsWith(value);
+    case '*=':
+      return value !== '' && actual.includes(value);
+    default:
+      return actual === value || actual.startsWith(`${value}-`);
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: CompoundSelector): boolean {
+  if (compound.tag && element.tag !== compound.tag) {
+    return false;
+  }
+  if (compound.id !== undefined && element.attributes.id !== compound.id) {
+    return false;
+  }
+  const classes = (element.attributes.class || '').split(/\s+/);
+  if (!compound.classes.every(className => classes.includes(className))) {
+    return false;
+  }
+  if (!compound.attributes.every(test => matchesAttribute(element, test))) {
+    return false;
+  }
+  return compound.pseudo.every(({ name, index }) => {
+    const siblings = elementSiblings(element);
+    const position = siblings.indexOf(element);
+    if (name === 'first-child') {
+      return position === 0;
+    }
+    return name === 'last-child' ? position === siblings.length - 1 : position === (index ?? 0) - 1;
+  });
+}
+
+// Match right to left, walking up the tree for each combinator
+function matchesComplex(element: HtmlElement, compounds: CompoundSelector[], index = compounds.length - 1): boolean {
+  if (!matchesCompound(element, compounds[index])) {
+    return false;
+  }
+  if (index === 0) {
+    return true;
+  }
+  if (compounds[index].combinator === '>') {
+    return !!element.parent && element.parent.tag !== '#root' && matchesComplex(element.parent, compounds, index - 1);
+  }
+  for (let ancestor = element.parent; ancestor && ancestor.tag !== '#root'; ancestor = ancestor.parent) {
+    if (matchesComplex(ancestor, compounds, index - 1)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Elements below root matching a selector, in document order; throws HtmlSelectorError for bad selectors
+export function querySelectorAll(root: HtmlElement, selector: string | ParsedSelector): HtmlElement[] {
+  const list = typeof selector === 'string' ? parseSelector(selector) : selector;
+  return descendants(root).filter(element => list.some(compounds => matchesComplex(element, compounds)));
+}
+
+export function querySelector(root: HtmlElement, selector: string | ParsedSelector): HtmlElement | undefined {
+  return querySelectorAll(root, selector)[0];
+}
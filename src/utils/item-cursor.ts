@@ -0,0 +1,30 @@
+/**
+ * item-cursor.ts - Opaque cursors for reading new feed items incrementally
+ */
+
+import { NewItemsPosition } from '../types/rss';
+
+const CURSOR_VERSION = 1;
+
+// Encode where a read stopped as a cursor: its first-seen watermark, plus the last item
+// returned when the read was cut short; clients pass it back unchanged
+export function encodeItemCursor({ seenThrough, lastItem }: NewItemsPosition): string {
+  const cursor = { v: CURSOR_VERSION, t: seenThrough.getTime(), ...(lastItem && { f: lastItem.feedName, i: lastItem.itemId }) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Decode a cursor back into its position, or null when it isn't one of ours
+export function decodeItemCursor(cursor: string): NewItemsPosition | null {
+  try {
+    const { v, t, f, i } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (v !== CURSOR_VERSION || !Number.isFinite(t)) {
+      return null;
+    }
+    if (f === undefined && i === undefined) {
+      return { seenThrough: new Date(t) };
+    }
+    return typeof f === 'string' && typeof i === 'string' ? { seenThrough: new Date(t), lastItem: { feedName: f, itemId: i } } : null;
+  } catch {
+    return null;
+  }
+}
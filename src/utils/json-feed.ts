@@ -0,0 +1,140 @@
+/**
+ * json-feed.ts - JSON Feed (https://jsonfeed.org/version/1.1) parsing into rss-parser's output shape
+ */
+import Parser from 'rss-parser';
+import { FeedEnclosure } from '../types/rss';
+import { toPlainText } from './search-query';
+
+// What rss-parser produces; JSON feeds are parsed into the same shape so they go through the
+// same item mapping as RSS and Atom
+export type ParsedFeed = Parser.Output<Record<string, unknown>> & Record<string, unknown>;
+
+// Thrown for documents that aren't valid JSON Feeds
+export class JsonFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JsonFeedError';
+  }
+}
+
+const VERSION_PREFIX = 'https://jsonfeed.org/version/';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Author names from a 1.1 authors array, or the single author object of version 1.0
+function authorNames(source: JsonObject): string | undefined {
+  const authors = Array.isArray(source.authors) ? source.authors : isObject(source.author) ? [source.author] : [];
+  const names = authors.filter(isObject).map(author => text(author.name)).filter((name): name is string => !!name);
+  return names.length > 0 ? names.join(', ') : undefined;
+}
+
+function toEnclosures(attachments: unknown): FeedEnclosure[] | undefined {
+  if (!Array.isArray(attachments)) {
+    return undefined;
+  }
+  const enclosures = attachments.filter(isObject).flatMap(attachment => {
+    const url = text(attachment.url);
+    if (!url) {
+      return [];
+    }
+    const enclosure: FeedEnclosure = { url };
+    const type = text(attachment.mime_type);
+    if (type) {
+      enclosure.type = type;
+    }
+    if (typeof attachment.size_in_bytes === 'number') {
+      enclosure.length = attachment.size_in_bytes;
+    }
+    const title = text(attachment.title);
+    if (title) {
+      enclosure.title = title;
+    }
+    if (typeof attachment.duration_in_seconds === 'number') {
+      enclosure.duration = attachment.duration_in_seconds;
+    }
+    return [enclosure];
+  });
+  return enclosures.length > 0 ? enclosures : undefined;
+}
+
+// Whether a document should be read as JSON rather than XML: by its first character, or by its
+// Content-Type when that doesn't tell
+export function isJsonDocument(body: string, contentType?: string): boolean {
+  const start = body.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('{')) {
+    return true;
+  }
+  if (start.startsWith('<')) {
+    return false;
+  }
+  return !!contentType && /[/+]json\b/i.test(contentType);
+}
+
+/**
+ * Parse a JSON Feed 1.0 or 1.1 document. Items get rss-parser's field names: `content` is the
+ * HTML (content_text escaped when there is no HTML), `contentSnippet` plain text, `pubDate` and
+ * `isoDate` come from date_published or, failing that, date_modified, attachments become
+ * `enclosures` and the item's image or banner_image its `thumbnail`. Item authors fall back to
+ * the feed's authors.
+ */
+export function parseJsonFeed(body: string): ParsedFeed {
+  let document: unknown;
+  try {
+    document = JSON.parse(body.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new JsonFeedError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (!isObject(document) || !text(document.version)?.startsWith(VERSION_PREFIX)) {
+    throw new JsonFeedError(`Not a JSON Feed: the version must start with ${VERSION_PREFIX}`);
+  }
+  if (!Array.isArray(document.items)) {
+    throw new JsonFeedError('Not a JSON Feed: items must be an array');
+  }
+
+  const feedAuthor = authorNames(document);
+  const items = document.items.filter(isObject).map(item => {
+    const html = text(item.content_html);
+    const plain = text(item.content_text);
+    const date = text(item.date_published) || text(item.date_modified);
+    const timestamp = Date.parse(date || '');
+    const tags = Array.isArray(item.tags) ? item.tags.map(text).filter((tag): tag is string => !!tag) : [];
+
+    return {
+      title: text(item.title),
+      link: text(item.url) || text(item.external_url),
+      guid: text(item.id),
+      content: html || (plain ? escapeHtml(plain) : undefined),
+      contentSnippet: plain || text(item.summary) || (html ? toPlainText(html) : undefined),
+      author: authorNames(item) || feedAuthor,
+      categories: tags.length > 0 ? tags : undefined,
+      pubDate: date,
+      isoDate: isNaN(timestamp) ? undefined : new Date(timestamp).toISOString(),
+      enclosures: toEnclosures(item.attachments),
+      thumbnail: text(item.image) || text(item.banner_image)
+    };
+  });
+
+  return {
+    title: text(document.title),
+    description: text(document.description),
+    link: text(document.home_page_url),
+    feedUrl: text(document.feed_url),
+    items
+  };
+}
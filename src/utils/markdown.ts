@@ -0,0 +1,250 @@
+/**
+ * markdown.ts - Converting sanitized HTML into markdown
+ */
+import { HtmlElement, HtmlNode, parseHtml, textContent } from './html';
+import { sanitizeElement } from './sanitize';
+
+// Elements rendered as blocks of their own; everything else is inline
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'figcaption', 'details',
+  'summary', 'address', 'blockquote', 'pre', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'caption', 'hr',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6'
+]);
+
+const EMPHASIS: Record<string, string> = { strong: '**', b: '**', em: '*', i: '*', cite: '*', del: '~~', s: '~~', strike: '~~' };
+
+const CODE_ELEMENTS = new Set(['code', 'kbd', 'samp', 'tt']);
+
+function isBlock(node: HtmlNode): boolean {
+  return node.type === 'element' && BLOCK_ELEMENTS.has(node.tag);
+}
+
+// Escape characters that would otherwise start emphasis, code or links; underscores inside
+// words are left alone, since they can't start emphasis there
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, (character, offset: number) => {
+    const inWord = character === '_' && /\w/.test(text[offset - 1] || '') && /\w/.test(text[offset + 1] || '');
+    return inWord ? character : `\\${character}`;
+  });
+}
+
+// Escape what would make the start of a line a heading, quote or list item
+function escapeLineStart(line: string): string {
+  return line.replace(/^(#{1,6}|>|[-+]|\d+[.)])(?=\s|$)/, match => match.replace(/[#>+\-.)]/, '\\$&'));
+}
+
+// The longest run of backticks in a text, to pick a code delimiter that can't end early
+function longestBacktickRun(text: string): number {
+  return Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+}
+
+// Put emphasis markers around the content but keep its surrounding spaces outside them
+function wrap(content: string, marker: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    return content;
+  }
+  const [, leading, trailing] = content.match(/^(\s*)[\s\S]*?(\s*)$/)!;
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function formatUrl(url: string): string {
+  return url.replace(/[()\s<>]/g, character => encodeURIComponent(character));
+}
+
+function formatTitle(title: string | undefined): string {
+  return title ? ` "${title.replace(/"/g, '\\"')}"` : '';
+}
+
+// Inline markdown for a node; line breaks from <br> come out as plain newlines
+function inline(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return escapeText(node.text.replace(/\s+/g, ' '));
+  }
+  const { tag, attributes } = node;
+  if (tag === 'br') {
+    return '\n';
+  }
+  if (tag === 'img') {
+    const alt = (attributes.alt || '').replace(/\s+/g, ' ').replace(/[[\]\\]/g, '\\$&');
+    return attributes.src ? `![${alt}](${formatUrl(attributes.src)}${formatTitle(attributes.title)})` : '';
+  }
+  if (CODE_ELEMENTS.has(tag)) {
+    const code = textContent(node).replace(/\s+/g, ' ');
+    if (!code.trim()) {
+      return code;
+    }
+    const delimiter = '`'.repeat(longestBacktickRun(code) + 1);
+    const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+    return `${delimiter}${padding}${code}${padding}${delimiter}`;
+  }
+
+  const content = node.children.map(inline).join('');
+  if (EMPHASIS[tag]) {
+    return wrap(content, EMPHASIS[tag]);
+  }
+  if (tag === 'q') {
+    return `"${content}"`;
+  }
+  if (tag === 'a') {
+    const text = content.replace(/\s+/g, ' ').trim();
+    const href = attributes.href;
+    if (!href || !text) {
+      return text;
+    }
+    return text === escapeText(href) && !attributes.title ? `<${href}>` : `[${text}](${formatUrl(href)}${formatTitle(attributes.title)})`;
+  }
+  // Blocks inside inline content, as in <a><div>...</div></a>, run on with spaces around them
+  return isBlock(node) ? ` ${content} ` : content;
+}
+
+// A run of inline content as a paragraph: spaces collapsed, lines trimmed, single <br> as
+// hard line breaks and repeated ones as paragraph breaks
+function paragraph(content: string): string {
+  return content
+    .replace(/ {2,}/g, ' ')
+    .split('\n')
+    .map(line => escapeLineStart(line.trim()))
+    .join('\n')
+    .replace(/\n{2,}/g, '\n\n')
+    .replace(/([^\n])\n(?!\n)/g, '$1  \n')
+    .trim();
+}
+
+// The content of an element on one line, for headings and table cells
+function singleLine(element: HtmlElement): string {
+  return element.children.map(inline).join('').replace(/\s+/g, ' ').trim();
+}
+
+function indent(text: string, prefix: string, firstPrefix = prefix): string {
+  return text.split('\n').map((line, index) => line ? `${index === 0 ? firstPrefix : prefix}${line}` : line.trimEnd()).join('\n');
+}
+
+function list(element: HtmlElement): string {
+  const ordered = element.tag === 'ol';
+  let number = ordered ? parseInt(element.attributes.start ?? '1', 10) || 1 : 1;
+  return element.children
+    .filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li')
+    .map(item => {
+      // Nested lists follow the item's text directly, keeping the list tight
+      const content = blocks(item).reduce((text, next) => text ? `${text}${/^(?:- |\d+\. )/.test(next) ? '\n' : '\n\n'}${next}` : next, '');
+      const marker = ordered ? `${number++}. ` : '- ';
+      return content ? indent(content, ' '.repeat(marker.length), marker) : marker.trim();
+    })
+    .join('\n');
+}
+
+// The rows of a table, leaving out those of tables nested inside it
+function tableRows(table: HtmlElement): HtmlElement[] {
+  const rows: HtmlElement[] = [];
+  const visit = (element: HtmlElement): void => {
+    element.children.forEach(child => {
+      if (child.type !== 'element' || child.tag === 'table') {
+        return;
+      }
+      if (child.tag === 'tr') {
+        rows.push(child);
+      } else {
+        visit(child);
+      }
+    });
+  };
+  visit(table);
+  return rows;
+}
+
+// A GitHub-flavored markdown table; the first row is the header, as markdown tables need one
+function table(element: HtmlElement): string {
+  const rows = tableRows(element).map(row => row.children
+    .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+    .map(cell => singleLine(cell).replace(/\|/g, '\\|')));
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  if (columns === 0) {
+    return '';
+  }
+  const line = (cells: string[]): string => `| ${Array.from({ length: columns }, (_, index) => cells[index] || '').join(' | ')} |`;
+  const caption = element.children.find((child): child is HtmlElement => child.type === 'element' && child.tag === 'caption');
+  const markdown = [line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+  return caption ? `${singleLine(caption)}\n\n${markdown}` : markdown;
+}
+
+// The text of preformatted content, where some feeds put <br> for line breaks
+function preformattedText(node: HtmlNode): string {
+  if (node.type === 'text') {
+    return node.text;
+  }
+  return node.tag === 'br' ? '\n' : node.children.map(preformattedText).join('');
+}
+
+function codeBlock(element: HtmlElement): string {
+  const code = preformattedText(element).replace(/^\n/, '').replace(/\s+$/, '');
+  const codeChild = element.children.find((child): child is HtmlElement => child.type === 'element' && child.tag === 'code');
+  const language = (element.attributes.class || codeChild?.attributes.class || '').replace(/^(?:language|lang)-/, '');
+  const fence = '`'.repeat(Math.max(3, longestBacktickRun(code) + 1));
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function block(element: HtmlElement): string {
+  switch (element.tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': {
+      const text = singleLine(element);
+      return text ? `${'#'.repeat(Number(element.tag[1]))} ${text}` : '';
+    }
+    case 'hr':
+      return '---';
+    case 'pre':
+      return codeBlock(element);
+    case 'ul':
+    case 'ol':
+      return list(element);
+    case 'li':
+      return indent(blocks(element).join('\n\n'), '  ', '- ');
+    case 'table':
+      return table(element);
+    case 'blockquote':
+      return blocks(element).join('\n\n').split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+    default:
+      return blocks(element).join('\n\n');
+  }
+}
+
+// The markdown blocks inside an element: block children, and paragraphs for the inline runs between them
+function blocks(element: HtmlElement): string[] {
+  const result: string[] = [];
+  let run = '';
+  const flush = (): void => {
+    const text = paragraph(run);
+    if (text) {
+      result.push(text);
+    }
+    run = '';
+  };
+
+  element.children.forEach(child => {
+    if (child.type === 'element' && isBlock(child)) {
+      flush();
+      const text = block(child);
+      if (text.trim()) {
+        result.push(text);
+      }
+    } else {
+      run += inline(child);
+    }
+  });
+  flush();
+  return result;
+}
+
+// Markdown for an element that has already been sanitized
+export function elementToMarkdown(element: HtmlElement): string {
+  return blocks(element).join('\n\n');
+}
+
+/**
+ * Convert publisher HTML to markdown: it is sanitized first (see sanitizeElement), with
+ * relative URLs resolved against baseUrl. Headings, paragraphs, emphasis, links, images,
+ * lists, quotes, code and tables carry over; everything else becomes plain text.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  return elementToMarkdown(sanitizeElement(parseHtml(html), baseUrl));
+}
@@ -0,0 +1,110 @@
+/**
+ * media.ts - Classifying and describing the media files attached to feed items
+ */
+import { FeedEnclosure, FeedItem, MediaFilter, MediaKind } from '../types/rss';
+
+export const MEDIA_FILTERS: MediaFilter[] = ['audio', 'video', 'image', 'media'];
+
+// File extensions for enclosures served without a usable MIME type
+const EXTENSIONS: Record<string, MediaKind> = {
+  mp3: 'audio', m4a: 'audio', aac: 'audio', ogg: 'audio', oga: 'audio', opus: 'audio', wav: 'audio', flac: 'audio',
+  mp4: 'video', m4v: 'video', mov: 'video', webm: 'video', mkv: 'video', avi: 'video',
+  jpg: 'image', jpeg: 'image', png: 'image', gif: 'image', webp: 'image', avif: 'image'
+};
+
+// Seconds from an itunes:duration or media:content duration: plain seconds, MM:SS or HH:MM:SS
+export function parseDuration(value: unknown): number | undefined {
+  const text = String(value ?? '').trim();
+  if (!/^\d+(\.\d+)?$|^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    return undefined;
+  }
+  const seconds = text.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  return seconds > 0 ? Math.round(seconds) : undefined;
+}
+
+// A duration in seconds as H:MM:SS, or M:SS under an hour
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+// Whether an enclosure is audio, video or an image, from its MIME type, media:content medium
+// or file extension
+export function mediaKind(enclosure: FeedEnclosure): MediaKind | undefined {
+  const type = enclosure.type?.toLowerCase().split('/')[0];
+  if (type === 'audio' || type === 'video' || type === 'image') {
+    return type;
+  }
+  const medium = enclosure.medium?.toLowerCase();
+  if (medium === 'audio' || medium === 'video' || medium === 'image') {
+    return medium;
+  }
+  const path = enclosure.url.split(/[?#]/)[0];
+  return EXTENSIONS[path.slice(path.lastIndexOf('.') + 1).toLowerCase()];
+}
+
+// Whether an item has media of a kind; 'media' means audio or video
+export function hasMedia(item: FeedItem, filter: MediaFilter): boolean {
+  return !!item.enclosures?.some(enclosure => {
+    const kind = mediaKind(enclosure);
+    return filter === 'media' ? kind === 'audio' || kind === 'video' : kind === filter;
+  });
+}
+
+// The file name at the end of a URL
+function fileName(url: string): string {
+  const name = url.split(/[?#]/)[0].split('/').pop() || '';
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+function formatSize(bytes: number): string {
+  const units = ['bytes', 'KB', 'MB', 'GB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+// Markdown lines for an item's episode details and media files, e.g.
+// "Episode 12, season 2 (full), 42:10" and "- Audio: [episode.mp3](https://...) (audio/mpeg, 38.6 MB)"
+export function formatMediaMarkdown(item: FeedItem): string {
+  const lines: string[] = [];
+  const itunes = item.itunes;
+  if (itunes) {
+    const episode = [
+      itunes.episode !== undefined ? `Episode ${itunes.episode}` : undefined,
+      itunes.season !== undefined ? `season ${itunes.season}` : undefined
+    ].filter(Boolean).join(', ');
+    const details = [
+      episode ? `${episode}${itunes.episodeType ? ` (${itunes.episodeType})` : ''}` : undefined,
+      itunes.duration ? formatDuration(itunes.duration) : undefined,
+      itunes.explicit ? 'explicit' : undefined
+    ].filter(Boolean);
+    if (details.length > 0) {
+      lines.push(details.join(', '));
+    }
+  }
+
+  item.enclosures?.forEach(enclosure => {
+    const kind = mediaKind(enclosure);
+    const label = kind ? `${kind[0].toUpperCase()}${kind.slice(1)}` : 'File';
+    const name = enclosure.title || fileName(enclosure.url) || enclosure.url;
+    const details = [
+      enclosure.type,
+      enclosure.length ? formatSize(enclosure.length) : undefined,
+      enclosure.duration ? formatDuration(enclosure.duration) : undefined
+    ].filter(Boolean);
+    lines.push(`- ${label}: [${name}](${enclosure.url})${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+  });
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
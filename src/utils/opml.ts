@@ -0,0 +1,216 @@
+/**
+ * opml.ts - Reading and writing feed subscriptions as OPML
+ */
+import { FeedConfig } from '../types/rss';
+import { decodeEntities } from './html';
+
+// Per-feed settings are written as attributes in this namespace so they survive a round trip;
+// other readers ignore them
+export const OPML_NAMESPACE = 'https://github.com/risadams/OpenGathyr/opml';
+const PREFIX = 'opengathyr';
+
+// Folders nest in a feed's group with this separator, e.g. "News/Tech"
+export const GROUP_SEPARATOR = '/';
+
+// Thrown for documents that aren't OPML
+export class OpmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpmlError';
+  }
+}
+
+// An optional title for the document, plus the title and site link of each feed where known
+export interface OpmlExportOptions {
+  title?: string;
+  feedDetails?: Record<string, { title?: string; link?: string }>;
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+// Attribute lookup ignoring case, since readers disagree on xmlUrl vs xmlURL
+function attribute(attributes: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(attributes).find(candidate => candidate.toLowerCase() === name.toLowerCase());
+  const value = key === undefined ? undefined : attributes[key].trim();
+  return value || undefined;
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const number = parseInt(value || '', 10);
+  return number > 0 ? number : undefined;
+}
+
+// Source adapter options, written as a JSON object of strings; anything else is ignored
+function sourceOptionsFrom(value: string | undefined): Record<string, string> | undefined {
+  try {
+    const options: unknown = JSON.parse(value || '');
+    if (typeof options === 'object' && options !== null && !Array.isArray(options)) {
+      return Object.fromEntries(Object.entries(options).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+    }
+  } catch {
+    // Not JSON
+  }
+  return undefined;
+}
+
+// A name for a feed outline without text or title
+function nameFromUrl(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Read the feeds of an OPML document. Outlines with an xmlUrl are feeds; outlines without one
+ * are folders, and a feed's group is the path of folders it sits in. Feed names come from the
+ * outline text (or title, or the URL's host name) and are made unique with a numeric suffix.
+ */
+export function parseOpml(xml: string): FeedConfig[] {
+  const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const bodyStart = source.search(/<body[\s>/]/i);
+  if (!/<opml[\s>]/i.test(source) || bodyStart === -1) {
+    throw new OpmlError('The document is not OPML: it has no <opml> element with a <body>.');
+  }
+
+  const feeds: FeedConfig[] = [];
+  const names = new Set<string>();
+  // Names of the folders enclosing the current position; null for feed outlines with children
+  const folders: (string | null)[] = [];
+  const tags = /<(\/?)outline\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/gi;
+  tags.lastIndex = bodyStart;
+  let match: RegExpExecArray | null;
+
+  while ((match = tags.exec(source)) !== null) {
+    const [, closing, attributeSource, selfClosing] = match;
+    if (closing) {
+      folders.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(attributeSource);
+    const url = attribute(attributes, 'xmlUrl');
+    const text = attribute(attributes, 'text') || attribute(attributes, 'title');
+
+    if (url) {
+      const baseName = text || nameFromUrl(url);
+      let name = baseName;
+      for (let suffix = 2; names.has(name); suffix++) {
+        name = `${baseName}-${suffix}`;
+      }
+      names.add(name);
+
+      const path = folders.filter((folder): folder is string => folder !== null);
+      const refreshMode = attribute(attributes, `${PREFIX}:refreshMode`);
+      const feed: FeedConfig = { name, url };
+      if (path.length > 0) {
+        feed.group = path.join(GROUP_SEPARATOR);
+      }
+      const refreshInterval = positiveInt(attribute(attributes, `${PREFIX}:refreshInterval`));
+      if (refreshInterval) {
+        feed.refreshInterval = refreshInterval;
+      }
+      if (refreshMode === 'adaptive' || refreshMode === 'fixed') {
+        feed.refreshMode = refreshMode;
+      }
+      const maxItems = positiveInt(attribute(attributes, `${PREFIX}:maxItems`));
+      if (maxItems) {
+        feed.maxItems = maxItems;
+      }
+      const sourceType = attribute(attributes, `${PREFIX}:sourceType`);
+      if (sourceType) {
+        feed.type = sourceType;
+      }
+      const sourceOptions = sourceOptionsFrom(attribute(attributes, `${PREFIX}:sourceOptions`));
+      if (sourceOptions) {
+        feed.options = sourceOptions;
+      }
+      if (attribute(attributes, `${PREFIX}:fetchFullText`) === 'true') {
+        feed.fetchFullText = true;
+      }
+      feeds.push(feed);
+    }
+
+    if (!selfClosing) {
+      folders.push(url ? null : (text || '').split(GROUP_SEPARATOR).join(' '));
+    }
+  }
+
+  return feeds;
+}
+
+/**
+ * Write feeds as an OPML 2.0 document, nesting each feed in folders for the parts of its group.
+ * The outline text is the feed name; settings go in the opengathyr: attributes.
+ */
+export function buildOpml(feeds: FeedConfig[], options: OpmlExportOptions = {}): string {
+  interface Folder { folders: Map<string, Folder>; feeds: FeedConfig[] }
+  const root: Folder = { folders: new Map(), feeds: [] };
+
+  feeds.forEach(feed => {
+    let folder = root;
+    (feed.group || '').split(GROUP_SEPARATOR).map(part => part.trim()).filter(Boolean).forEach(part => {
+      if (!folder.folders.has(part)) {
+        folder.folders.set(part, { folders: new Map(), feeds: [] });
+      }
+      folder = folder.folders.get(part)!;
+    });
+    folder.feeds.push(feed);
+  });
+
+  const feedOutline = (feed: FeedConfig, indent: string): string => {
+    const details = options.feedDetails?.[feed.name] || {};
+    const attributes: [string, string | number | undefined][] = [
+      ['type', 'rss'],
+      ['text', feed.name],
+      ['title', details.title || feed.name],
+      ['xmlUrl', feed.url],
+      ['htmlUrl', details.link],
+      [`${PREFIX}:refreshInterval`, feed.refreshInterval],
+      [`${PREFIX}:refreshMode`, feed.refreshMode],
+      [`${PREFIX}:maxItems`, feed.maxItems],
+      [`${PREFIX}:sourceType`, feed.type],
+      [`${PREFIX}:sourceOptions`, feed.options && JSON.stringify(feed.options)],
+      [`${PREFIX}:fetchFullText`, feed.fetchFullText ? 'true' : undefined]
+    ];
+    const written = attributes
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `${name}="${escapeAttribute(String(value))}"`);
+    return `${indent}<outline ${written.join(' ')}/>\n`;
+  };
+
+  const folderOutlines = (folder: Folder, indent: string): string =>
+    folder.feeds.map(feed => feedOutline(feed, indent)).join('') +
+    Array.from(folder.folders.entries()).map(([name, child]) =>
+      `${indent}<outline text="${escapeAttribute(name)}" title="${escapeAttribute(name)}">\n${folderOutlines(child, `${indent}  `)}${indent}</outline>\n`
+    ).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<opml version="2.0" xmlns:${PREFIX}="${OPML_NAMESPACE}">\n` +
+    '  <head>\n' +
+    `    <title>${escapeAttribute(options.title || 'OpenGathyr feeds')}</title>\n` +
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>\n` +
+    '  </head>\n' +
+    '  <body>\n' +
+    folderOutlines(root, '    ') +
+    '  </body>\n' +
+    '</opml>\n';
+}
@@ -0,0 +1,223 @@
+/**
+ * readability.ts - Finding the main content of an article page, readability-style
+ */
+import { FeedArticle } from '../types/rss';
+import { descendants, HtmlElement, parseHtml, querySelector, textContent } from './html';
+import { elementToMarkdown } from './markdown';
+import { sanitizeElement } from './sanitize';
+
+export type ExtractedArticle = Omit<FeedArticle, 'url' | 'extractedAt'>;
+
+// Page furniture that is never part of the article
+const NOISE_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'iframe', 'button', 'svg']);
+
+// Class names and ids of elements that are unlikely to hold the article, unless they also look
+// like they might
+const UNLIKELY = /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|newsletter|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|ad-break|agegate|pagination|pager|popup|yom-remote/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+
+// Class names and ids that raise or lower an element's score
+const POSITIVE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE = /-ad-|hidden|banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+
+// Elements whose own text is scored, as paragraphs of the article
+const SCORED_ELEMENTS = new Set(['p', 'pre', 'td', 'blockquote']);
+// Block elements that stop a <div> from counting as a paragraph
+const DIV_BLOCK_CHILDREN = new Set(['a', 'blockquote', 'dl', 'div', 'img', 'ol', 'p', 'pre', 'table', 'ul', 'section', 'article', 'figure']);
+
+// Paragraphs shorter than this many characters don't count
+const MIN_PARAGRAPH_LENGTH = 25;
+
+function normalizedText(element: HtmlElement): string {
+  return textContent(element).replace(/\s+/g, ' ').trim();
+}
+
+function classAndId(element: HtmlElement): string {
+  return `${element.attributes.class || ''} ${element.attributes.id || ''}`;
+}
+
+// Share of an element's text that sits inside links
+function linkDensity(element: HtmlElement): number {
+  const length = normalizedText(element).length;
+  if (length === 0) {
+    return 0;
+  }
+  const linkLength = descendants(element)
+    .filter(child => child.tag === 'a')
+    .reduce((total, link) => total + normalizedText(link).length, 0);
+  return linkLength / length;
+}
+
+function classWeight(element: HtmlElement): number {
+  const names = classAndId(element);
+  return (POSITIVE.test(names) ? 25 : 0) - (NEGATIVE.test(names) ? 25 : 0);
+}
+
+// Starting score of an element that contains paragraphs, by what kind of element it is
+function initialScore(element: HtmlElement): number {
+  switch (element.tag) {
+    case 'article':
+      return 10 + classWeight(element);
+    case 'div':
+    case 'main':
+    case 'section':
+      return 5 + classWeight(element);
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3 + classWeight(element);
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      return -3 + classWeight(element);
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+    case 'th':
+      return -5 + classWeight(element);
+    default:
+      return classWeight(element);
+  }
+}
+
+// Remove page furniture, hidden elements and those whose class or id marks them as unlikely content
+function removeNoise(element: HtmlElement): void {
+  element.children = element.children.filter(child => {
+    if (child.type === 'text') {
+      return true;
+    }
+    const names = classAndId(child);
+    const unlikely = UNLIKELY.test(names) && !MAYBE_CANDIDATE.test(names) && !['body', 'article', 'main', 'a'].includes(child.tag);
+    const hidden = 'hidden' in child.attributes || /display\s*:\s*none/i.test(child.attributes.style || '');
+    if (NOISE_ELEMENTS.has(child.tag) || unlikely || hidden) {
+      return false;
+    }
+    removeNoise(child);
+    return true;
+  });
+}
+
+function isParagraph(element: HtmlElement): boolean {
+  if (SCORED_ELEMENTS.has(element.tag)) {
+    return true;
+  }
+  // A <div> with only text and inline markup is a paragraph in all but name
+  return element.tag === 'div' && !element.children.some(child => child.type === 'element' && DIV_BLOCK_CHILDREN.has(child.tag));
+}
+
+// Score the ancestors of every paragraph by its length and commas, the parent getting the full
+// score, the grandparent half and the level above a sixth; returns the scored elements
+function scoreCandidates(body: HtmlElement): Map<HtmlElement, number> {
+  const scores = new Map<HtmlElement, number>();
+  descendants(body).filter(isParagraph).forEach(paragraph => {
+    const text = normalizedText(paragraph);
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return;
+    }
+    const score = 1 + (text.match(/[,，、]/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor.tag !== '#root' && level < 3; level++, ancestor = ancestor.parent) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, initialScore(ancestor));
+      }
+      scores.set(ancestor, scores.get(ancestor)! + score / (level === 0 ? 1 : level === 1 ? 2 : level * 3));
+    }
+  });
+  scores.forEach((score, element) => scores.set(element, score * (1 - linkDensity(element))));
+  return scores;
+}
+
+// The best candidate and the siblings that look like they continue it, e.g. paragraphs that
+// sit next to the article's main container
+function articleElements(body: HtmlElement): HtmlElement[] {
+  const scores = scoreCandidates(body);
+  let top: HtmlElement | undefined;
+  scores.forEach((score, element) => {
+    if (!top || score > scores.get(top)!) {
+      top = element;
+    }
+  });
+  if (!top) {
+    return [body];
+  }
+
+  const threshold = Math.max(10, scores.get(top)! * 0.2);
+  const siblings = top.parent ? top.parent.children.filter((child): child is HtmlElement => child.type === 'element') : [top];
+  return siblings.filter(sibling => {
+    if (sibling === top || (scores.get(sibling) ?? -Infinity) >= threshold) {
+      return true;
+    }
+    if (sibling.tag !== 'p') {
+      return false;
+    }
+    const text = normalizedText(sibling);
+    const density = linkDensity(sibling);
+    return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+  });
+}
+
+function metaContent(root: HtmlElement, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const content = querySelector(root, `meta[property="${name}"], meta[name="${name}"]`)?.attributes.content?.trim();
+    if (content) {
+      return content;
+    }
+  }
+  return undefined;
+}
+
+function findTitle(root: HtmlElement): string | undefined {
+  const headings = descendants(root).filter(element => element.tag === 'h1');
+  const title = querySelector(root, 'title');
+  const text = metaContent(root, 'og:title', 'twitter:title')
+    || (headings.length === 1 ? normalizedText(headings[0]) : '')
+    || (title ? normalizedText(title) : '');
+  return text || undefined;
+}
+
+function findByline(root: HtmlElement): string | undefined {
+  const byline = metaContent(root, 'author', 'article:author')
+    || [querySelector(root, '[rel="author"]'), querySelector(root, '[itemprop="author"]'), querySelector(root, '.byline, .author')]
+      .map(element => element && normalizedText(element))
+      .find(text => !!text && text.length < 100);
+  return byline && !/^https?:/.test(byline) ? byline : undefined;
+}
+
+// The page's URL, or its <base href> resolved against it
+function baseUrlOf(root: HtmlElement, url: string): string {
+  try {
+    return new URL(querySelector(root, 'base[href]')?.attributes.href || '', url).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Extract the main content of an article page: page furniture is removed, paragraphs are
+ * scored by length and commas, their containers collect the scores (less for link-heavy
+ * ones), and the best container, with any siblings that continue it, is sanitized and
+ * converted to markdown. The title and byline come from the page's metadata where it has it.
+ */
+export function extractArticle(html: string, url: string): ExtractedArticle {
+  const root = parseHtml(html);
+  const title = findTitle(root);
+  const byline = findByline(root);
+  const baseUrl = baseUrlOf(root, url);
+
+  const body = querySelector(root, 'body') || root;
+  removeNoise(body);
+  const content: HtmlElement = { type: 'element', tag: '#root', attributes: {}, children: articleElements(body) };
+  content.children.forEach(child => {
+    child.parent = content;
+  });
+  sanitizeElement(content, baseUrl);
+
+  return {
+    title,
+    byline,
+    markdown: elementToMarkdown(content),
+    textLength: normalizedText(content).length
+  };
+}
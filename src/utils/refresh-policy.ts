@@ -0,0 +1,118 @@
+/**
+ * refresh-policy.ts - Refresh intervals from feed-declared update hints and observed item frequency
+ */
+import { FeedItem, FeedRefreshHints, RefreshPolicy } from '../types/rss';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const UPDATE_PERIODS: Record<string, number> = {
+  hourly: HOUR_MS,
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+  monthly: 30 * DAY_MS,
+  yearly: 365 * DAY_MS
+};
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Publication dates of this many recent items are used to learn a feed's pace
+const OBSERVED_ITEMS = 20;
+const MIN_OBSERVED_ITEMS = 3;
+
+// Values of a repeated child element, e.g. the <hour> elements of <skipHours>
+function childValues(element: unknown, child: string): string[] {
+  const values = (element as Record<string, unknown> | undefined)?.[child];
+  return Array.isArray(values) ? values.map(value => String(value).trim()) : [];
+}
+
+// Read the update hints from a channel parsed by rss-parser, which leaves <ttl> and the sy:
+// fields as strings and <skipHours>/<skipDays> as { hour: [...] } / { day: [...] } objects;
+// values that don't parse are dropped
+export function extractRefreshHints(channel: Record<string, unknown>): FeedRefreshHints {
+  const hints: FeedRefreshHints = {};
+
+  const ttl = parseInt(String(channel.ttl ?? ''), 10);
+  if (ttl > 0) {
+    hints.ttl = ttl * MINUTE_MS;
+  }
+
+  const period = UPDATE_PERIODS[String(channel['sy:updatePeriod'] ?? '').trim().toLowerCase()];
+  if (period) {
+    const frequency = parseInt(String(channel['sy:updateFrequency'] ?? ''), 10);
+    hints.updateInterval = period / (frequency > 0 ? frequency : 1);
+  }
+
+  // Some feeds number hours 1-24 instead of 0-23
+  const skipHours = childValues(channel.skipHours, 'hour')
+    .map(hour => parseInt(hour, 10) % 24)
+    .filter(hour => !isNaN(hour) && hour >= 0);
+  if (skipHours.length > 0) {
+    hints.skipHours = Array.from(new Set(skipHours)).sort((a, b) => a - b);
+  }
+
+  const skipDays = childValues(channel.skipDays, 'day')
+    .map(day => DAY_NAMES.indexOf(day.toLowerCase()))
+    .filter(day => day >= 0);
+  if (skipDays.length > 0) {
+    hints.skipDays = Array.from(new Set(skipDays)).sort((a, b) => a - b);
+  }
+
+  return hints;
+}
+
+// Half the median gap between recent item publication dates, so a feed is polled about twice
+// for every new item. A feed that has been silent for longer than that gap is treated as having
+// slowed down to the length of the silence. Undefined until enough dated items have been seen.
+export function observedItemInterval(items: FeedItem[], now = Date.now()): number | undefined {
+  const dates = items
+    .map(item => Date.parse(item.isoDate || item.pubDate || ''))
+    .filter(date => !isNaN(date))
+    .sort((a, b) => b - a)
+    .slice(0, OBSERVED_ITEMS);
+  if (dates.length < MIN_OBSERVED_ITEMS) {
+    return undefined;
+  }
+
+  const gaps = dates.slice(1).map((date, index) => dates[index] - date).sort((a, b) => a - b);
+  const middle = Math.floor(gaps.length / 2);
+  const median = gaps.length % 2 === 1 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2;
+  return Math.max(median, now - dates[0]) / 2;
+}
+
+// Interval until the next refresh of an adaptive feed: the pace learned from its items, kept
+// within the policy bounds, or refreshInterval until there is enough history, never below the
+// policy minimum. Feeds are never fetched more often than their ttl or declared update period
+// allow, nor than an interval configured for the feed itself.
+export function computeRefreshInterval(
+  refreshInterval: number,
+  hints: FeedRefreshHints,
+  items: FeedItem[],
+  policy: RefreshPolicy,
+  now = Date.now(),
+  configuredInterval = 0
+): number {
+  const observed = observedItemInterval(items, now);
+  const interval = observed === undefined
+    ? Math.max(refreshInterval, policy.minInterval)
+    : Math.min(Math.max(observed, policy.minInterval), policy.maxInterval);
+  return Math.max(interval, configuredInterval, hints.ttl || 0, hints.updateInterval || 0);
+}
+
+// Move a time forward to the start of the first hour the feed doesn't ask to be skipped;
+// a feed that skips every hour of the week is not deferred at all
+export function deferToAllowedTime(time: number, hints: FeedRefreshHints): number {
+  const skipHours = new Set(hints.skipHours || []);
+  const skipDays = new Set(hints.skipDays || []);
+  let deferred = time;
+
+  for (let step = 0; step < 7 * 24; step++) {
+    const date = new Date(deferred);
+    if (!skipHours.has(date.getUTCHours()) && !skipDays.has(date.getUTCDay())) {
+      return deferred;
+    }
+    deferred = Math.floor(deferred / HOUR_MS) * HOUR_MS + HOUR_MS;
+  }
+  return time;
+}
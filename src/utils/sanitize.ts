@@ -0,0 +1,180 @@
+/**
+ * sanitize.ts - Cleaning publisher HTML: active content, hidden elements, tracking pixels and
+ * tracking parameters are removed, and what's left is reduced to a small set of elements
+ */
+import { HtmlElement, HtmlNode, parseHtml, toHtml } from './html';
+
+// Elements dropped along with everything inside them
+const REMOVED_ELEMENTS = new Set([
+  'script', 'style', 'noscript', 'template', 'head', 'title', 'meta', 'link', 'base', 'iframe', 'frame', 'frameset',
+  'object', 'embed', 'applet', 'canvas', 'svg', 'math', 'form', 'input', 'button', 'select', 'textarea', 'dialog',
+  'audio', 'video', 'source', 'track', 'map'
+]);
+
+// Elements kept as they are; any other element is replaced by its children
+const ALLOWED_ELEMENTS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'a', 'img', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'blockquote',
+  'pre', 'code', 'kbd', 'samp', 'em', 'i', 'strong', 'b', 'del', 's', 'strike', 'sub', 'sup', 'mark', 'small', 'abbr',
+  'cite', 'q', 'u', 'span', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'figure', 'figcaption',
+  'details', 'summary', 'address', 'table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td'
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  pre: ['class'],
+  code: ['class']
+};
+
+// Share buttons and feed flare that publishers append to every item
+const NOISE_CLASSES = /(?:^|\s)(?:feedflare|sharedaddy|share-buttons?|social-share)(?:\s|$)/i;
+
+// Query parameters that only identify the campaign or click a link came from
+const TRACKING_PARAMS = /^(?:utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_hsenc|_hsmi|mkt_tok)$/i;
+
+// Analytics and ad hosts, matched with their subdomains
+const TRACKER_HOSTS = [
+  'doubleclick.net', 'google-analytics.com', 'googletagmanager.com', 'scorecardresearch.com', 'quantserve.com',
+  'pixel.wp.com', 'stats.wordpress.com', 'feedsportal.com', 'bat.bing.com', 'ct.pinterest.com', 'analytics.twitter.com'
+];
+
+// Feed service pixels, flare and ads, as host and path
+const TRACKER_PATHS = [/^feeds\.feedburner\.com\/~(?:r|ff|a|i)\//i, /^feeds\.feedblitz\.com\/~\/(?:i|a)\//i];
+
+const SAFE_PROTOCOLS: Record<'a' | 'img', string[]> = {
+  a: ['http:', 'https:', 'mailto:'],
+  img: ['http:', 'https:']
+};
+
+function isTracker(url: URL): boolean {
+  const host = url.hostname.toLowerCase();
+  return TRACKER_HOSTS.some(tracker => host === tracker || host.endsWith(`.${tracker}`))
+    || TRACKER_PATHS.some(pattern => pattern.test(`${host}${url.pathname}`));
+}
+
+// A URL without its tracking parameters; URLs that don't parse are returned as they are
+export function stripTrackingParams(url: string): string {
+  try {
+    const parsed = new URL(url);
+    Array.from(parsed.searchParams.keys())
+      .filter(name => TRACKING_PARAMS.test(name))
+      .forEach(name => parsed.searchParams.delete(name));
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+// Resolve a URL against the base; undefined when it is missing or doesn't parse
+function resolveUrl(value: string | undefined, baseUrl?: string): URL | undefined {
+  try {
+    return value?.trim() ? new URL(value.trim(), baseUrl) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isHidden(element: HtmlElement): boolean {
+  const style = (element.attributes.style || '').replace(/\s+/g, '').toLowerCase();
+  return 'hidden' in element.attributes
+    || element.attributes['aria-hidden'] === 'true'
+    || style.includes('display:none')
+    || style.includes('visibility:hidden');
+}
+
+// Images no reader would see: 0 or 1 pixel wide or high
+function isPixel(element: HtmlElement): boolean {
+  return ['width', 'height'].some(name => {
+    const size = parseInt(element.attributes[name] ?? '', 10);
+    return !isNaN(size) && size <= 1;
+  });
+}
+
+// The attributes an element keeps, with URLs cleaned; undefined when the element should go
+function cleanAttributes(element: HtmlElement, baseUrl?: string): Record<string, string> | undefined {
+  const attributes: Record<string, string> = {};
+  (ALLOWED_ATTRIBUTES[element.tag] || []).forEach(name => {
+    const value = element.attributes[name];
+    if (value !== undefined) {
+      attributes[name] = value;
+    }
+  });
+
+  if (element.tag === 'img') {
+    // Lazy-loading pages leave the real image in data-src
+    const src = resolveUrl(element.attributes.src || element.attributes['data-src'], baseUrl);
+    if (!src || !SAFE_PROTOCOLS.img.includes(src.protocol) || isTracker(src) || isPixel(element)) {
+      return undefined;
+    }
+    attributes.src = stripTrackingParams(src.href);
+  } else if (element.tag === 'a' && attributes.href !== undefined) {
+    // Links to trackers are flare or ads and go; other unusable links keep their text
+    const href = resolveUrl(attributes.href, baseUrl);
+    if (href && isTracker(href)) {
+      return undefined;
+    }
+    if (href && SAFE_PROTOCOLS.a.includes(href.protocol)) {
+      attributes.href = stripTrackingParams(href.href);
+    } else {
+      delete attributes.href;
+    }
+  }
+
+  // Only language-* classes, which mark the language of code blocks
+  if (attributes.class !== undefined) {
+    const language = attributes.class.split(/\s+/).find(name => /^(?:language|lang)-/.test(name));
+    if (language) {
+      attributes.class = language;
+    } else {
+      delete attributes.class;
+    }
+  }
+  return attributes;
+}
+
+function sanitizeChildren(element: HtmlElement, baseUrl?: string): void {
+  const children: HtmlNode[] = [];
+  element.children.forEach(child => {
+    if (child.type === 'text') {
+      children.push(child);
+      return;
+    }
+    if (REMOVED_ELEMENTS.has(child.tag) || isHidden(child) || NOISE_CLASSES.test(child.attributes.class || '')) {
+      return;
+    }
+    sanitizeChildren(child, baseUrl);
+    if (!ALLOWED_ELEMENTS.has(child.tag)) {
+      child.children.forEach(grandchild => {
+        grandchild.parent = element;
+        children.push(grandchild);
+      });
+      return;
+    }
+    const attributes = cleanAttributes(child, baseUrl);
+    if (attributes) {
+      child.attributes = attributes;
+      children.push(child);
+    }
+  });
+  element.children = children;
+}
+
+/**
+ * Sanitize a parsed element in place and return it: scripts, styles, embeds, forms, hidden
+ * elements, share buttons and tracking pixels are removed, unknown elements are unwrapped,
+ * attributes are cut down to links, image sources, alt text and code languages, and URLs are
+ * resolved against baseUrl with their tracking parameters stripped. A link whose URL can't be
+ * resolved or isn't http(s) or mailto keeps only its text; such an image is dropped.
+ */
+export function sanitizeElement(root: HtmlElement, baseUrl?: string): HtmlElement {
+  sanitizeChildren(root, baseUrl);
+  return root;
+}
+
+// Sanitize an HTML document or fragment; see sanitizeElement
+export function sanitizeHtml(html: string, baseUrl?: string): string {
+  return toHtml(sanitizeElement(parseHtml(html), baseUrl));
+}
@@ -0,0 +1,197 @@
+/**
+ * search-query.ts - Tokenizer and query parser for full-text feed search
+ */
+import { decodeEntities } from './html';
+
+export type SearchFilterField = 'feed' | 'author' | 'category' | 'after' | 'before' | 'has';
+
+// Parsed query: terms match whole words (or word prefixes with a trailing *), phrases match
+// consecutive words, filters match item metadata. Adjacent nodes are combined with AND.
+export type SearchQueryNode =
+  | { type: 'term'; value: string; prefix: boolean }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'filter'; field: SearchFilterField; value: string }
+  | { type: 'and' | 'or'; children: SearchQueryNode[] }
+  | { type: 'not'; child: SearchQueryNode }
+  | { type: 'all' };
+
+// Thrown for queries that can't be evaluated, such as an after: filter that isn't a date
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const FILTER_FIELDS: SearchFilterField[] = ['feed', 'author', 'category', 'after', 'before', 'has'];
+
+// Strip tags and decode the common entities so markup never ends up in the index or a snippet
+export function toPlainText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Split text into lowercase words of letters and digits
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+type Token =
+  | { type: 'word'; value: string; negated: boolean }
+  | { type: 'phrase'; value: string; negated: boolean }
+  | { type: 'filter'; field: SearchFilterField; value: string; negated: boolean }
+  | { type: 'and' | 'or' | 'not' | 'open' | 'close' };
+
+// Split a query into words, quoted phrases, field:value filters, operators and parentheses;
+// a leading - negates a word, phrase or filter. An unclosed quote runs to the end of the query.
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readQuoted = (): string => {
+    const end = query.indexOf('"', index + 1);
+    const value = query.slice(index + 1, end === -1 ? query.length : end);
+    index = end === -1 ? query.length : end + 1;
+    return value;
+  };
+
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close' });
+      index++;
+    } else {
+      const negated = char === '-' && index + 1 < query.length && !/\s/.test(query[index + 1]);
+      if (negated) {
+        index++;
+      }
+
+      if (query[index] === '"') {
+        tokens.push({ type: 'phrase', value: readQuoted(), negated });
+        continue;
+      }
+
+      const start = index;
+      while (index < query.length && !/[\s()"]/.test(query[index])) {
+        index++;
+      }
+      const word = query.slice(start, index);
+      const separator = word.indexOf(':');
+      const field = word.slice(0, separator).toLowerCase() as SearchFilterField;
+      const isFilter = separator > 0 && FILTER_FIELDS.includes(field);
+
+      // Filter values may be quoted, as in feed:"tech news"
+      const value = isFilter && word.length === separator + 1 && query[index] === '"' ? readQuoted() : word.slice(separator + 1);
+      if (isFilter && value.trim()) {
+        tokens.push({ type: 'filter', field, value: value.trim(), negated });
+      } else if (!negated && (word === 'AND' || word === 'OR' || word === 'NOT')) {
+        tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not' });
+      } else {
+        tokens.push({ type: 'word', value: word, negated });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+// Words that split into several tokens, like "e-mail", are matched as phrases
+function textNode(text: string, allowPrefix: boolean): SearchQueryNode | null {
+  const prefix = allowPrefix && text.endsWith('*');
+  const terms = tokenize(text);
+  if (terms.length === 0) {
+    return null;
+  }
+  if (terms.length === 1) {
+    return { type: 'term', value: terms[0], prefix };
+  }
+  return { type: 'phrase', terms };
+}
+
+/**
+ * Parse a search query. Precedence from loosest to tightest is OR, AND (also implied between
+ * adjacent terms), then NOT and -; parentheses group. Returns { type: 'all' } for a query with
+ * nothing to match on, so filters passed separately still apply.
+ */
+export function parseSearchQuery(query: string): SearchQueryNode {
+  const tokens = lex(query);
+  let position = 0;
+
+  const parseOr = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = [];
+    for (;;) {
+      const child = parseAnd();
+      if (child) {
+        children.push(child);
+      }
+      if (tokens[position]?.type !== 'or') {
+        break;
+      }
+      position++;
+    }
+    return children.length > 1 ? { type: 'or', children } : children[0] || null;
+  };
+
+  const parseAnd = (): SearchQueryNode | null => {
+    const children: SearchQueryNode[] = [];
+    while (position < tokens.length && tokens[position].type !== 'or' && tokens[position].type !== 'close') {
+      if (tokens[position].type === 'and') {
+        position++;
+        continue;
+      }
+      const child = parseUnary();
+      if (child) {
+        children.push(child);
+      }
+    }
+    return children.length > 1 ? { type: 'and', children } : children[0] || null;
+  };
+
+  const parseUnary = (): SearchQueryNode | null => {
+    const token = tokens[position++];
+    switch (token.type) {
+      case 'not': {
+        const next = tokens[position]?.type;
+        const child = next && next !== 'close' && next !== 'or' ? parseUnary() : null;
+        return child && { type: 'not', child };
+      }
+      case 'open': {
+        const child = parseOr();
+        if (tokens[position]?.type === 'close') {
+          position++;
+        }
+        return child;
+      }
+      case 'word':
+      case 'phrase':
+      case 'filter': {
+        const node = token.type === 'filter'
+          ? { type: 'filter' as const, field: token.field, value: token.value }
+          : textNode(token.value, token.type === 'word');
+        return node && token.negated ? { type: 'not', child: node } : node;
+      }
+      default:
+        // A stray closing parenthesis or operator; skip it
+        return null;
+    }
+  };
+
+  const nodes: SearchQueryNode[] = [];
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) {
+      nodes.push(node);
+    }
+    if (tokens[position]?.type === 'close') {
+      position++;
+    }
+  }
+
+  if (nodes.length === 0) {
+    return { type: 'all' };
+  }
+  return nodes.length === 1 ? nodes[0] : { type: 'and', children: nodes };
+}
@@ -1,845 +1,1374 @@
-/**
- * Integration tests for the MCP server and its tools
- */
-const mcpSdk = require('../../src/adapters/mcpSdkAdapter');
-const { RSSService } = require('../../src/services/rss-service');
-const { mockParserResponse } = require('../mocks/rss-feed-mock');
-
-// Mock the rss-parser module
-jest.mock('rss-parser', () => {
-  return function() {
-    return {
-      parseURL: jest.fn().mockImplementation((url) => {
-        if (url === 'https://example.com/error') {
-          return Promise.reject(new Error('Failed to fetch RSS feed'));
-        }
-        return Promise.resolve(mockParserResponse);
-      })
-    };
-  };
-});
-
-describe('MCP Server Integration', () => {
-  let server;
-  let transport;
-  let rssService;
-  
-  beforeEach(() => {
-    // Spy on console.error to avoid polluting test output
-    jest.spyOn(console, 'error').mockImplementation(() => {});
-    
-    // Create a mock transport
-    transport = {
-      on: jest.fn(),
-      send: jest.fn(),
-      ready: jest.fn().mockResolvedValue(true),
-      emit: jest.fn()
-    };
-    
-    // Initialize RSS service with a test feed
-    rssService = new RSSService([
-      { name: 'test-feed', url: 'https://example.com/rss' }
-    ]);
-    
-    // Wait for the feed to be loaded
-    return new Promise(resolve => setTimeout(resolve, 100));
-  });
-  
-  /**
-   * Helper function to simulate handling an MCP request
-   */
-  async function simulateRequest(request) {
-    // Find the request handler registered with the transport
-    const requestHandlerCalls = transport.on.mock.calls;
-    const requestHandler = requestHandlerCalls.find(call => call[0] === 'request');
-    
-    if (!requestHandler || !requestHandler[1]) {
-      throw new Error('Request handler not properly registered with transport');
-    }
-    
-    // Call the handler with the request
-    await requestHandler[1](request);
-  }
-  
-  /**
-   * Helper function to find tool result responses
-   */
-  function findToolResults() {
-    return transport.send.mock.calls
-      .map(call => call[0])
-      .filter(response => response.type === 'tool_result');
-  }
-  
-  describe('Tool: get-feed', () => {
-    it('should return feed content when given a valid feed name', async () => {
-      // Create a server with the get-feed tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the get-feed tool with our test RSS service
-      server.tool(
-        "get-feed",
-        "Get content from a specific RSS feed",
-        { feedName: { description: "Name of the feed to retrieve" } },
-        async (params) => {
-          const feed = rssService.getFeed(params.feedName);
-          
-          if (!feed) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Feed '${params.feedName}' not found.`,
-                },
-              ],
-            };
-          }
-          
-          const items = feed.items.map(item => {
-            return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
-          });
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# ${feed.title}\n\n${feed.description || ''}\n\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n\n${items.join('')}`,
-              },
-            ],
-          };
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'get-feed',
-        params: { feedName: 'test-feed' }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      expect(transport.send).toHaveBeenCalled();
-      const response = transport.send.mock.calls[0][0];
-      expect(response.type).toBe('tool_result');
-      expect(response.result.content[0].type).toBe('text');
-      expect(response.result.content[0].text).toContain('# Test Feed');
-      expect(response.result.content[0].text).toContain('Test Article 1');
-    });
-    
-    it('should return an error message when given an invalid feed name', async () => {
-      // Create a server with the get-feed tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the get-feed tool with our test RSS service
-      server.tool(
-        "get-feed",
-        "Get content from a specific RSS feed",
-        { feedName: { description: "Name of the feed to retrieve" } },
-        async (params) => {
-          const feed = rssService.getFeed(params.feedName);
-          
-          if (!feed) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Feed '${params.feedName}' not found.`,
-                },
-              ],
-            };
-          }
-          
-          // Rest of handler implementation...
-          return { content: [{ type: "text", text: "Feed content" }] };
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request with an invalid feed name
-      const toolRequest = {
-        type: 'tool',
-        name: 'get-feed',
-        params: { feedName: 'nonexistent-feed' }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response contains an error message
-      expect(transport.send).toHaveBeenCalled();
-      
-      // Find the tool_result response
-      const toolResultResponses = findToolResults();
-      
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      expect(response.result.content[0].text).toContain(`Feed 'nonexistent-feed' not found`);
-    });
-  });
-  
-  describe('Tool: search-feeds', () => {
-    it('should return matching items when searching with a valid query', async () => {
-      // Create a server with the search-feeds tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the search-feeds tool with our test RSS service
-      server.tool(
-        "search-feeds",
-        "Search for content across all RSS feeds",
-        { query: { description: "Search term to look for in feed titles and content" } },
-        async (params) => {
-          const results = rssService.searchFeeds(params.query);
-          
-          if (results.length === 0) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `No results found for search term: "${params.query}"`,
-                },
-              ],
-            };
-          }
-          
-          const formattedResults = results.map(item => {
-            return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
-          });
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# Search Results for: "${params.query}"\n\nFound ${results.length} matching items\n\n${formattedResults.join('')}`,
-              },
-            ],
-          };
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'search-feeds',
-        params: { query: 'special keywords' }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      expect(transport.send).toHaveBeenCalled();
-      
-      // Find the tool_result response
-      const toolResultResponses = findToolResults();
-      
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      expect(response.result.content[0].text).toContain('# Search Results for: "special keywords"');
-      expect(response.result.content[0].text).toContain('Special Keywords Article');
-    });
-    
-    it('should return a message when no results are found', async () => {
-      // Create a server with the search-feeds tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the search-feeds tool with our test RSS service
-      server.tool(
-        "search-feeds",
-        "Search for content across all RSS feeds",
-        { query: { description: "Search term to look for in feed titles and content" } },
-        async (params) => {
-          const results = rssService.searchFeeds(params.query);
-          
-          if (results.length === 0) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `No results found for search term: "${params.query}"`,
-                },
-              ],
-            };
-          }
-          
-          const formattedResults = results.map(item => {
-            return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
-          });
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# Search Results for: "${params.query}"\n\nFound ${results.length} matching items\n\n${formattedResults.join('')}`,
-              },
-            ],
-          };
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request with a query that won't match anything
-      const toolRequest = {
-        type: 'tool',
-        name: 'search-feeds',
-        params: { query: 'nonexistent content' }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      expect(response.result.content[0].text).toContain('No results found for search term: "nonexistent content"');
-    });
-  });
-  
-  describe('Tool: list-feeds', () => {
-    it('should list all available feeds', async () => {
-      // Create a server with the list-feeds tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the list-feeds tool with our test RSS service
-      server.tool(
-        "list-feeds",
-        "List all available RSS feeds",
-        {},
-        async () => {
-          const feeds = rssService.getAllFeeds();
-          const feedEntries = Object.entries(feeds);
-          
-          if (feedEntries.length === 0) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "No RSS feeds are currently configured.",
-                },
-              ],
-            };
-          }
-          
-          const feedList = feedEntries.map(([name, feed]) => {
-            return `## ${feed.title}\nName: ${name}\nItems: ${feed.items.length}\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n${feed.description ? `Description: ${feed.description}\n` : ''}URL: ${feed.feedUrl}\n\n`;
-          });
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# Available RSS Feeds\n\n${feedList.join('')}`,
-              },
-            ],
-          };
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'list-feeds'
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      
-      expect(response.result.content[0].text).toContain('# Available RSS Feeds');
-      expect(response.result.content[0].text).toContain('Name: test-feed');
-      expect(response.result.content[0].text).toContain('Test Feed');
-    });
-    
-    it('should return a message when no feeds are configured', async () => {
-      // Create a new empty RSS service without feeds
-      const emptyRssService = new RSSService([]);
-      
-      // Create a server with the list-feeds tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the list-feeds tool with our empty RSS service
-      server.tool(
-        "list-feeds",
-        "List all available RSS feeds",
-        {},
-        async () => {
-          const feeds = emptyRssService.getAllFeeds();
-          const feedEntries = Object.entries(feeds);
-          
-          if (feedEntries.length === 0) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: "No RSS feeds are currently configured.",
-                },
-              ],
-            };
-          }
-          
-          const feedList = feedEntries.map(([name, feed]) => {
-            return `## ${feed.title}\nName: ${name}\nItems: ${feed.items.length}\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n${feed.description ? `Description: ${feed.description}\n` : ''}URL: ${feed.feedUrl}\n\n`;
-          });
-          
-          return {
-            content: [
-              {
-                type: "text",
-                text: `# Available RSS Feeds\n\n${feedList.join('')}`,
-              },
-            ],
-          };
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'list-feeds'
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      
-      expect(response.result.content[0].text).toBe("No RSS feeds are currently configured.");
-    });
-  });
-  
-  describe('Tool: add-feed', () => {
-    it('should add a new feed successfully', async () => {
-      // Create a server with the add-feed tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the add-feed tool with our test RSS service
-      server.tool(
-        "add-feed",
-        "Add a new RSS feed to monitor",
-        {
-          name: { description: "Name to identify this feed" },
-          url: { description: "URL of the RSS feed" },
-          refreshInterval: { description: "Refresh interval in milliseconds (default: 300000)" },
-          maxItems: { description: "Maximum number of items to keep (default: 20)" }
-        },
-        async (params) => {
-          try {
-            const feedConfig = {
-              name: params.name,
-              url: params.url,
-              refreshInterval: params.refreshInterval,
-              maxItems: params.maxItems,
-            };
-            
-            rssService.addFeed(feedConfig);
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully added feed: ${params.name}\nURL: ${params.url}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error adding feed: ${error.message}`,
-                },
-              ],
-            };
-          }
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'add-feed',
-        params: {
-          name: 'new-feed',
-          url: 'https://example.com/new-rss',
-          refreshInterval: 60000,
-          maxItems: 10
-        }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      
-      expect(response.result.content[0].text).toContain('Successfully added feed: new-feed');
-      expect(response.result.content[0].text).toContain('URL: https://example.com/new-rss');
-      
-      // Verify the feed was actually added to the service
-      expect(rssService.feedConfigs.has('new-feed')).toBe(true);
-      const config = rssService.feedConfigs.get('new-feed');
-      expect(config.url).toBe('https://example.com/new-rss');
-      expect(config.refreshInterval).toBe(60000);
-      expect(config.maxItems).toBe(10);
-    });
-    
-    it('should handle errors when adding a feed', async () => {
-      // Create a mocked RSS service with an addFeed method that throws an error
-      const errorRssService = {
-        addFeed: jest.fn().mockImplementation(() => {
-          throw new Error('Failed to add feed');
-        })
-      };
-      
-      // Create a server with the add-feed tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the add-feed tool with our error RSS service
-      server.tool(
-        "add-feed",
-        "Add a new RSS feed to monitor",
-        {
-          name: { description: "Name to identify this feed" },
-          url: { description: "URL of the RSS feed" },
-          refreshInterval: { description: "Refresh interval in milliseconds (default: 300000)" },
-          maxItems: { description: "Maximum number of items to keep (default: 20)" }
-        },
-        async (params) => {
-          try {
-            const feedConfig = {
-              name: params.name,
-              url: params.url,
-              refreshInterval: params.refreshInterval,
-              maxItems: params.maxItems,
-            };
-            
-            errorRssService.addFeed(feedConfig);
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully added feed: ${params.name}\nURL: ${params.url}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error adding feed: ${error.message}`,
-                },
-              ],
-            };
-          }
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'add-feed',
-        params: {
-          name: 'error-feed',
-          url: 'https://example.com/error-rss'
-        }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      
-      expect(response.result.content[0].text).toBe('Error adding feed: Failed to add feed');
-      expect(errorRssService.addFeed).toHaveBeenCalled();
-    });
-  });
-  
-  describe('Tool: remove-feed', () => {
-    it('should remove an existing feed successfully', async () => {
-      // Make sure we have a feed to remove
-      expect(rssService.feedConfigs.has('test-feed')).toBe(true);
-      
-      // Create a server with the remove-feed tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Register the remove-feed tool with our test RSS service
-      server.tool(
-        "remove-feed",
-        "Remove an RSS feed from monitoring",
-        {
-          feedName: { description: "Name of the feed to remove" }
-        },
-        async (params) => {
-          try {
-            rssService.removeFeed(params.feedName);
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully removed feed: ${params.feedName}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error removing feed: ${error.message}`,
-                },
-              ],
-            };
-          }
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request
-      const toolRequest = {
-        type: 'tool',
-        name: 'remove-feed',
-        params: {
-          feedName: 'test-feed'
-        }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the response
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      
-      expect(response.result.content[0].text).toBe('Successfully removed feed: test-feed');
-      
-      // Verify the feed was actually removed from the service
-      expect(rssService.feedConfigs.has('test-feed')).toBe(false);
-    });
-    
-    it('should handle removing a non-existent feed', async () => {
-      // Create a server with the remove-feed tool
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-      
-      // Spy on the removeFeed method to check it's called
-      jest.spyOn(rssService, 'removeFeed');
-      
-      // Register the remove-feed tool with our test RSS service
-      server.tool(
-        "remove-feed",
-        "Remove an RSS feed from monitoring",
-        {
-          feedName: { description: "Name of the feed to remove" }
-        },
-        async (params) => {
-          try {
-            rssService.removeFeed(params.feedName);
-            
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Successfully removed feed: ${params.feedName}`,
-                },
-              ],
-            };
-          } catch (error) {
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Error removing feed: ${error.message}`,
-                },
-              ],
-            };
-          }
-        }
-      );
-      
-      // Connect the server to the transport
-      await server.connect(transport);
-      
-      // Mock a tool request for a non-existent feed
-      const toolRequest = {
-        type: 'tool',
-        name: 'remove-feed',
-        params: {
-          feedName: 'nonexistent-feed'
-        }
-      };
-      
-      // Simulate the request
-      await simulateRequest(toolRequest);
-      
-      // Verify the service method was called
-      expect(rssService.removeFeed).toHaveBeenCalledWith('nonexistent-feed');
-      
-      // Verify the response (it will still return success since removeFeed doesn't throw errors)
-      const toolResultResponses = findToolResults();
-      expect(toolResultResponses.length).toBeGreaterThan(0);
-      const response = toolResultResponses[0];
-      expect(response.result.content[0].text).toBe('Successfully removed feed: nonexistent-feed');
-    });
-  });
-  
-  describe('MCP Protocol basics', () => {
-    beforeEach(() => {
-      // Create a basic server for protocol tests
-      server = new mcpSdk.server.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: { resources: {}, tools: {} }
-      });
-    });
-    
-    it('should respond to initialize requests', async () => {
-      await server.connect(transport);
-      
-      const initRequest = { type: 'initialize' };
-      await simulateRequest(initRequest);
-      
-      expect(transport.send).toHaveBeenCalled();
-      const response = transport.send.mock.calls[0][0];
-      expect(response.type).toBe('initialize_result');
-      expect(response.server.name).toBe('test-server');
-      expect(response.server.version).toBe('1.0.0');
-    });
-    
-    it('should respond to capabilities requests', async () => {
-      // Register a sample tool for the capabilities test
-      server.tool(
-        "test-tool",
-        "Test tool description",
-        { param: { description: "Test parameter" } },
-        async () => ({ content: [] })
-      );
-      
-      await server.connect(transport);
-      
-      const capabilitiesRequest = { type: 'capabilities' };
-      await simulateRequest(capabilitiesRequest);
-      
-      expect(transport.send).toHaveBeenCalled();
-      const responses = transport.send.mock.calls.map(call => call[0]);
-      const capabilitiesResponse = responses.find(r => r.type === 'capabilities_result');
-      
-      expect(capabilitiesResponse).toBeDefined();
-      expect(capabilitiesResponse.capabilities.tools).toHaveProperty('test-tool');
-      expect(capabilitiesResponse.capabilities.tools['test-tool'].description).toBe('Test tool description');
-    });
-    
-    it('should handle unknown request types with an error', async () => {
-      await server.connect(transport);
-      
-      const unknownRequest = { type: 'unknown-request-type' };
-      await simulateRequest(unknownRequest);
-      
-      expect(transport.send).toHaveBeenCalled();
-      const responses = transport.send.mock.calls.map(call => call[0]);
-      const errorResponse = responses.find(r => r.type === 'error');
-      
-      expect(errorResponse).toBeDefined();
-      expect(errorResponse.error.message).toContain('Unknown request type');
-    });
-    
-    it('should handle requests for non-existent tools with an error', async () => {
-      await server.connect(transport);
-      
-      const nonExistentToolRequest = { 
-        type: 'tool',
-        name: 'non-existent-tool',
-        params: {}
-      };
-      
-      await simulateRequest(nonExistentToolRequest);
-      
-      expect(transport.send).toHaveBeenCalled();
-      const responses = transport.send.mock.calls.map(call => call[0]);
-      const errorResponse = responses.find(r => r.type === 'error');
-      
-      expect(errorResponse).toBeDefined();
-      expect(errorResponse.error.message).toContain('Tool not found');
-    });
-  });
+/**
+ * Integration tests for the MCP server and its tools
+ */
+const mcpSdk = require('../../src/adapters/mcpSdkAdapter');
+const { RSSService } = require('../../src/services/rss-service');
+const { mockParserResponse, mockFetchResult } = require('../mocks/rss-feed-mock');
+const { z } = require('zod');
+const { feedUri, formatFeedMarkdown } = require('../../src/utils/feed-format');
+const { feedSchema, toStructuredFeed } = require('../../src/utils/feed-schemas');
+
+// Mock the rss-parser module
+jest.mock('rss-parser', () => {
+  return function() {
+    return {
+      parseString: jest.fn().mockResolvedValue(mockParserResponse)
+    };
+  };
+});
+
+// Mock the HTTP layer so no feed is actually downloaded
+jest.mock('../../src/services/feed-fetcher', () => ({
+  ...jest.requireActual('../../src/services/feed-fetcher'),
+  FeedFetcher: function() {
+    return {
+      fetch: jest.fn().mockImplementation((url) => {
+        if (url === 'https://example.com/error') {
+          return Promise.reject(new Error('Failed to fetch RSS feed'));
+        }
+        return Promise.resolve(mockFetchResult);
+      })
+    };
+  }
+}));
+
+describe('MCP Server Integration', () => {
+  let server;
+  let transport;
+  let rssService;
+  
+  beforeEach(() => {
+    // Spy on console.error to avoid polluting test output
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    
+    // Create a mock transport
+    transport = {
+      on: jest.fn(),
+      send: jest.fn(),
+      ready: jest.fn().mockResolvedValue(true),
+      emit: jest.fn()
+    };
+    
+    // Initialize RSS service with a test feed
+    rssService = new RSSService([
+      { name: 'test-feed', url: 'https://example.com/rss' }
+    ]);
+    
+    // Wait for the feed to be loaded
+    return new Promise(resolve => setTimeout(resolve, 100));
+  });
+  
+  /**
+   * Helper function to simulate handling an MCP request
+   */
+  async function simulateRequest(request) {
+    // Find the request handler registered with the transport
+    const requestHandlerCalls = transport.on.mock.calls;
+    const requestHandler = requestHandlerCalls.find(call => call[0] === 'request');
+    
+    if (!requestHandler || !requestHandler[1]) {
+      throw new Error('Request handler not properly registered with transport');
+    }
+    
+    // Call the handler with the request
+    await requestHandler[1](request);
+  }
+  
+  /**
+   * Helper function to complete the JSON-RPC initialize handshake
+   */
+  async function completeHandshake() {
+    await simulateRequest({ type: 'initialize', jsonrpc: '2.0', id: 0, params: { protocolVersion: '2025-06-18' } });
+    
+    const notificationHandler = transport.on.mock.calls.find(call => call[0] === 'notification');
+    notificationHandler[1]({ type: 'notifications/initialized', jsonrpc: '2.0' });
+    
+    transport.send.mockClear();
+  }
+  
+  /**
+   * Helper function to find tool result responses
+   */
+  function findToolResults() {
+    return transport.send.mock.calls
+      .map(call => call[0])
+      .filter(response => response.type === 'tool_result');
+  }
+  
+  describe('Tool: get-feed', () => {
+    it('should return feed content when given a valid feed name', async () => {
+      // Create a server with the get-feed tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the get-feed tool with our test RSS service
+      server.tool(
+        "get-feed",
+        "Get content from a specific RSS feed",
+        { feedName: { description: "Name of the feed to retrieve" } },
+        async (params) => {
+          const feed = rssService.getFeed(params.feedName);
+          
+          if (!feed) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Feed '${params.feedName}' not found.`,
+                },
+              ],
+            };
+          }
+          
+          const items = feed.items.map(item => {
+            return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
+          });
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# ${feed.title}\n\n${feed.description || ''}\n\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n\n${items.join('')}`,
+              },
+            ],
+          };
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'get-feed',
+        params: { feedName: 'test-feed' }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      expect(transport.send).toHaveBeenCalled();
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('tool_result');
+      expect(response.result.content[0].type).toBe('text');
+      expect(response.result.content[0].text).toContain('# Test Feed');
+      expect(response.result.content[0].text).toContain('Test Article 1');
+    });
+    
+    it('should return an error message when given an invalid feed name', async () => {
+      // Create a server with the get-feed tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the get-feed tool with our test RSS service
+      server.tool(
+        "get-feed",
+        "Get content from a specific RSS feed",
+        { feedName: { description: "Name of the feed to retrieve" } },
+        async (params) => {
+          const feed = rssService.getFeed(params.feedName);
+          
+          if (!feed) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Feed '${params.feedName}' not found.`,
+                },
+              ],
+            };
+          }
+          
+          // Rest of handler implementation...
+          return { content: [{ type: "text", text: "Feed content" }] };
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request with an invalid feed name
+      const toolRequest = {
+        type: 'tool',
+        name: 'get-feed',
+        params: { feedName: 'nonexistent-feed' }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response contains an error message
+      expect(transport.send).toHaveBeenCalled();
+      
+      // Find the tool_result response
+      const toolResultResponses = findToolResults();
+      
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      expect(response.result.content[0].text).toContain(`Feed 'nonexistent-feed' not found`);
+    });
+  });
+  
+  describe('Tool: search-feeds', () => {
+    it('should return matching items when searching with a valid query', async () => {
+      // Create a server with the search-feeds tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the search-feeds tool with our test RSS service
+      server.tool(
+        "search-feeds",
+        "Search for content across all RSS feeds",
+        { query: { description: "Search term to look for in feed titles and content" } },
+        async (params) => {
+          const results = rssService.searchFeeds(params.query);
+          
+          if (results.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No results found for search term: "${params.query}"`,
+                },
+              ],
+            };
+          }
+          
+          const formattedResults = results.map(item => {
+            return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
+          });
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Search Results for: "${params.query}"\n\nFound ${results.length} matching items\n\n${formattedResults.join('')}`,
+              },
+            ],
+          };
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'search-feeds',
+        params: { query: 'special keywords' }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      expect(transport.send).toHaveBeenCalled();
+      
+      // Find the tool_result response
+      const toolResultResponses = findToolResults();
+      
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      expect(response.result.content[0].text).toContain('# Search Results for: "special keywords"');
+      expect(response.result.content[0].text).toContain('Special Keywords Article');
+    });
+    
+    it('should return a message when no results are found', async () => {
+      // Create a server with the search-feeds tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the search-feeds tool with our test RSS service
+      server.tool(
+        "search-feeds",
+        "Search for content across all RSS feeds",
+        { query: { description: "Search term to look for in feed titles and content" } },
+        async (params) => {
+          const results = rssService.searchFeeds(params.query);
+          
+          if (results.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `No results found for search term: "${params.query}"`,
+                },
+              ],
+            };
+          }
+          
+          const formattedResults = results.map(item => {
+            return `## ${item.title}\n${item.pubDate ? `Published: ${item.pubDate}\n` : ''}${item.contentSnippet || ''}\n${item.link ? `[Read More](${item.link})` : ''}\n\n`;
+          });
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Search Results for: "${params.query}"\n\nFound ${results.length} matching items\n\n${formattedResults.join('')}`,
+              },
+            ],
+          };
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request with a query that won't match anything
+      const toolRequest = {
+        type: 'tool',
+        name: 'search-feeds',
+        params: { query: 'nonexistent content' }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      expect(response.result.content[0].text).toContain('No results found for search term: "nonexistent content"');
+    });
+  });
+  
+  describe('Tool: list-feeds', () => {
+    it('should list all available feeds', async () => {
+      // Create a server with the list-feeds tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the list-feeds tool with our test RSS service
+      server.tool(
+        "list-feeds",
+        "List all available RSS feeds",
+        {},
+        async () => {
+          const feeds = rssService.getAllFeeds();
+          const feedEntries = Object.entries(feeds);
+          
+          if (feedEntries.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "No RSS feeds are currently configured.",
+                },
+              ],
+            };
+          }
+          
+          const feedList = feedEntries.map(([name, feed]) => {
+            return `## ${feed.title}\nName: ${name}\nItems: ${feed.items.length}\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n${feed.description ? `Description: ${feed.description}\n` : ''}URL: ${feed.feedUrl}\n\n`;
+          });
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Available RSS Feeds\n\n${feedList.join('')}`,
+              },
+            ],
+          };
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'list-feeds'
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      
+      expect(response.result.content[0].text).toContain('# Available RSS Feeds');
+      expect(response.result.content[0].text).toContain('Name: test-feed');
+      expect(response.result.content[0].text).toContain('Test Feed');
+    });
+    
+    it('should return a message when no feeds are configured', async () => {
+      // Create a new empty RSS service without feeds
+      const emptyRssService = new RSSService([]);
+      
+      // Create a server with the list-feeds tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the list-feeds tool with our empty RSS service
+      server.tool(
+        "list-feeds",
+        "List all available RSS feeds",
+        {},
+        async () => {
+          const feeds = emptyRssService.getAllFeeds();
+          const feedEntries = Object.entries(feeds);
+          
+          if (feedEntries.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: "No RSS feeds are currently configured.",
+                },
+              ],
+            };
+          }
+          
+          const feedList = feedEntries.map(([name, feed]) => {
+            return `## ${feed.title}\nName: ${name}\nItems: ${feed.items.length}\nLast Updated: ${feed.lastUpdated.toLocaleString()}\n${feed.description ? `Description: ${feed.description}\n` : ''}URL: ${feed.feedUrl}\n\n`;
+          });
+          
+          return {
+            content: [
+              {
+                type: "text",
+                text: `# Available RSS Feeds\n\n${feedList.join('')}`,
+              },
+            ],
+          };
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'list-feeds'
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      
+      expect(response.result.content[0].text).toBe("No RSS feeds are currently configured.");
+    });
+  });
+  
+  describe('Tool: add-feed', () => {
+    it('should add a new feed successfully', async () => {
+      // Create a server with the add-feed tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the add-feed tool with our test RSS service
+      server.tool(
+        "add-feed",
+        "Add a new RSS feed to monitor",
+        {
+          name: { description: "Name to identify this feed" },
+          url: { description: "URL of the RSS feed" },
+          refreshInterval: { description: "Refresh interval in milliseconds (default: 300000)" },
+          maxItems: { description: "Maximum number of items to keep (default: 20)" }
+        },
+        async (params) => {
+          try {
+            const feedConfig = {
+              name: params.name,
+              url: params.url,
+              refreshInterval: params.refreshInterval,
+              maxItems: params.maxItems,
+            };
+            
+            rssService.addFeed(feedConfig);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Successfully added feed: ${params.name}\nURL: ${params.url}`,
+                },
+              ],
+            };
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error adding feed: ${error.message}`,
+                },
+              ],
+            };
+          }
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'add-feed',
+        params: {
+          name: 'new-feed',
+          url: 'https://example.com/new-rss',
+          refreshInterval: 60000,
+          maxItems: 10
+        }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      
+      expect(response.result.content[0].text).toContain('Successfully added feed: new-feed');
+      expect(response.result.content[0].text).toContain('URL: https://example.com/new-rss');
+      
+      // Verify the feed was actually added to the service
+      expect(rssService.feedConfigs.has('new-feed')).toBe(true);
+      const config = rssService.feedConfigs.get('new-feed');
+      expect(config.url).toBe('https://example.com/new-rss');
+      expect(config.refreshInterval).toBe(60000);
+      expect(config.maxItems).toBe(10);
+    });
+    
+    it('should handle errors when adding a feed', async () => {
+      // Create a mocked RSS service with an addFeed method that throws an error
+      const errorRssService = {
+        addFeed: jest.fn().mockImplementation(() => {
+          throw new Error('Failed to add feed');
+        })
+      };
+      
+      // Create a server with the add-feed tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the add-feed tool with our error RSS service
+      server.tool(
+        "add-feed",
+        "Add a new RSS feed to monitor",
+        {
+          name: { description: "Name to identify this feed" },
+          url: { description: "URL of the RSS feed" },
+          refreshInterval: { description: "Refresh interval in milliseconds (default: 300000)" },
+          maxItems: { description: "Maximum number of items to keep (default: 20)" }
+        },
+        async (params) => {
+          try {
+            const feedConfig = {
+              name: params.name,
+              url: params.url,
+              refreshInterval: params.refreshInterval,
+              maxItems: params.maxItems,
+            };
+            
+            errorRssService.addFeed(feedConfig);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Successfully added feed: ${params.name}\nURL: ${params.url}`,
+                },
+              ],
+            };
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error adding feed: ${error.message}`,
+                },
+              ],
+            };
+          }
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'add-feed',
+        params: {
+          name: 'error-feed',
+          url: 'https://example.com/error-rss'
+        }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      
+      expect(response.result.content[0].text).toBe('Error adding feed: Failed to add feed');
+      expect(errorRssService.addFeed).toHaveBeenCalled();
+    });
+  });
+  
+  describe('Tool: remove-feed', () => {
+    it('should remove an existing feed successfully', async () => {
+      // Make sure we have a feed to remove
+      expect(rssService.feedConfigs.has('test-feed')).toBe(true);
+      
+      // Create a server with the remove-feed tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Register the remove-feed tool with our test RSS service
+      server.tool(
+        "remove-feed",
+        "Remove an RSS feed from monitoring",
+        {
+          feedName: { description: "Name of the feed to remove" }
+        },
+        async (params) => {
+          try {
+            rssService.removeFeed(params.feedName);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Successfully removed feed: ${params.feedName}`,
+                },
+              ],
+            };
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error removing feed: ${error.message}`,
+                },
+              ],
+            };
+          }
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request
+      const toolRequest = {
+        type: 'tool',
+        name: 'remove-feed',
+        params: {
+          feedName: 'test-feed'
+        }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the response
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      
+      expect(response.result.content[0].text).toBe('Successfully removed feed: test-feed');
+      
+      // Verify the feed was actually removed from the service
+      expect(rssService.feedConfigs.has('test-feed')).toBe(false);
+    });
+    
+    it('should handle removing a non-existent feed', async () => {
+      // Create a server with the remove-feed tool
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      // Spy on the removeFeed method to check it's called
+      jest.spyOn(rssService, 'removeFeed');
+      
+      // Register the remove-feed tool with our test RSS service
+      server.tool(
+        "remove-feed",
+        "Remove an RSS feed from monitoring",
+        {
+          feedName: { description: "Name of the feed to remove" }
+        },
+        async (params) => {
+          try {
+            rssService.removeFeed(params.feedName);
+            
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Successfully removed feed: ${params.feedName}`,
+                },
+              ],
+            };
+          } catch (error) {
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: `Error removing feed: ${error.message}`,
+                },
+              ],
+            };
+          }
+        }
+      );
+      
+      // Connect the server to the transport
+      await server.connect(transport);
+      
+      // Mock a tool request for a non-existent feed
+      const toolRequest = {
+        type: 'tool',
+        name: 'remove-feed',
+        params: {
+          feedName: 'nonexistent-feed'
+        }
+      };
+      
+      // Simulate the request
+      await simulateRequest(toolRequest);
+      
+      // Verify the service method was called
+      expect(rssService.removeFeed).toHaveBeenCalledWith('nonexistent-feed');
+      
+      // Verify the response (it will still return success since removeFeed doesn't throw errors)
+      const toolResultResponses = findToolResults();
+      expect(toolResultResponses.length).toBeGreaterThan(0);
+      const response = toolResultResponses[0];
+      expect(response.result.content[0].text).toBe('Successfully removed feed: nonexistent-feed');
+    });
+  });
+  
+  describe('Resources: feeds', () => {
+    beforeEach(() => {
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      server.resourceTemplate('feed', 'feed://{name}', 'Feed resource', {
+        list: async () => Object.entries(rssService.getAllFeeds()).map(([name, feed]) => ({
+          uri: feedUri(name),
+          name: feed.title,
+          mimeType: 'text/markdown'
+        })),
+        read: async (uri, { name }) => {
+          const feed = rssService.getFeed(name);
+          return feed ? [{ uri, mimeType: 'text/markdown', text: formatFeedMarkdown(feed) }] : null;
+        }
+      });
+      
+      server.resourceTemplate('feed-item', 'feed://{name}/items/{guid}', 'Feed item resource', {
+        read: async (uri, { name, guid }) => {
+          const item = rssService.getFeedItem(name, guid);
+          return item ? [{ uri, mimeType: 'application/json', text: JSON.stringify(item) }] : null;
+        }
+      });
+    });
+    
+    it('should list feeds as resources', async () => {
+      await server.connect(transport);
+      await completeHandshake();
+      
+      await simulateRequest({ type: 'resources/list', jsonrpc: '2.0', id: 1 });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('resources/list_result');
+      expect(response.result.resources).toEqual([
+        { uri: 'feed://test-feed', name: 'Test Feed', mimeType: 'text/markdown' }
+      ]);
+    });
+    
+    it('should list resource templates', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/templates/list' });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.result.resourceTemplates.map(template => template.uriTemplate)).toEqual([
+        'feed://{name}',
+        'feed://{name}/items/{guid}'
+      ]);
+    });
+    
+    it('should read a feed resource as markdown', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/read', params: { uri: 'feed://test-feed' } });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('resources/read_result');
+      expect(response.result.contents[0].uri).toBe('feed://test-feed');
+      expect(response.result.contents[0].text).toContain('# Test Feed');
+      expect(response.result.contents[0].text).toContain('Test Article 1');
+    });
+    
+    it('should read a single item resource by guid', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/read', params: { uri: 'feed://test-feed/items/2' } });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(JSON.parse(response.result.contents[0].text).title).toBe('Test Article 2');
+    });
+    
+    it('should return a resource not found error for unknown URIs', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/read', params: { uri: 'feed://missing-feed' } });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('error');
+      expect(response.error.code).toBe(-32002);
+      expect(response.error.message).toContain('Resource not found');
+    });
+    
+    it('should return an invalid params error for malformed percent-encoding', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/read', params: { uri: 'feed://test%E0%A4%A-feed' } });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('error');
+      expect(response.error.code).toBe(-32602);
+      expect(response.error.message).toContain('Malformed percent-encoding');
+    });
+  });
+  
+  describe('Resource subscriptions', () => {
+    beforeEach(() => {
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+    });
+    
+    it('should send resource updated notifications to subscribers', async () => {
+      await server.connect(transport);
+      await completeHandshake();
+      
+      await simulateRequest({ type: 'resources/subscribe', jsonrpc: '2.0', id: 1, params: { uri: 'feed://test-feed' } });
+      
+      expect(transport.send.mock.calls[0][0]).toEqual({
+        type: 'resources/subscribe_result',
+        jsonrpc: '2.0',
+        id: 1,
+        result: {}
+      });
+      
+      server.notifyResourceUpdated('feed://test-feed');
+      server.notifyResourceUpdated('feed://other-feed');
+      
+      const notifications = transport.send.mock.calls
+        .map(call => call[0])
+        .filter(message => message.type === 'notification');
+      expect(notifications).toEqual([
+        { type: 'notification', method: 'notifications/resources/updated', params: { uri: 'feed://test-feed' }, sessionId: 'default' }
+      ]);
+    });
+    
+    it('should notify only the sessions subscribed to a URI, until they close', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/subscribe', params: { uri: 'feed://a' }, sessionId: 'one' });
+      await simulateRequest({ type: 'resources/subscribe', params: { uri: 'feed://b' }, sessionId: 'two' });
+      transport.send.mockClear();
+      
+      server.notifyResourceUpdated('feed://a');
+      expect(transport.send.mock.calls.map(call => call[0].sessionId)).toEqual(['one']);
+      
+      transport.on.mock.calls.find(call => call[0] === 'sessionClosed')[1]('one');
+      transport.send.mockClear();
+      server.notifyResourceUpdated('feed://a');
+      server.notifyResourceUpdated('feed://b');
+      expect(transport.send.mock.calls.map(call => call[0].sessionId)).toEqual(['two']);
+    });
+    
+    it('should stop notifying after unsubscribe', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'resources/subscribe', params: { uri: 'feed://test-feed' } });
+      await simulateRequest({ type: 'resources/unsubscribe', params: { uri: 'feed://test-feed' } });
+      server.notifyResourceUpdated('feed://test-feed');
+      
+      const types = transport.send.mock.calls.map(call => call[0].type);
+      expect(types).toEqual(['resources/subscribe_result', 'resources/unsubscribe_result']);
+    });
+  });
+  
+  describe('Prompts', () => {
+    beforeEach(() => {
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+      
+      server.prompt(
+        'topic-watch',
+        'Report on a topic',
+        {
+          query: z.string().describe('Topic to watch'),
+          limit: z.coerce.number().default(5),
+        },
+        async ({ query, limit }) => ({
+          messages: rssService.searchFeeds(query).slice(0, limit).map(item => ({
+            role: 'user',
+            content: { type: 'text', text: item.title }
+          }))
+        })
+      );
+    });
+    
+    it('should list prompts with their arguments', async () => {
+      await server.connect(transport);
+      await completeHandshake();
+      
+      await simulateRequest({ type: 'prompts/list', jsonrpc: '2.0', id: 1 });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('prompts/list_result');
+      expect(response.result.prompts).toEqual([
+        {
+          name: 'topic-watch',
+          description: 'Report on a topic',
+          arguments: [
+            { name: 'query', description: 'Topic to watch', required: true },
+            { name: 'limit', description: undefined, required: false }
+          ]
+        }
+      ]);
+      expect(server.capabilities.prompts['topic-watch']).toBeDefined();
+    });
+    
+    it('should render a prompt with feed items', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({
+        type: 'prompts/get',
+        params: { name: 'topic-watch', arguments: { query: 'Test Article', limit: '1' } }
+      });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('prompts/get_result');
+      expect(response.result.description).toBe('Report on a topic');
+      // Both test articles match equally well, so the newer one ranks first
+      expect(response.result.messages).toEqual([
+        { role: 'user', content: { type: 'text', text: 'Test Article 2' } }
+      ]);
+    });
+    
+    it('should reject prompts with missing arguments', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'prompts/get', params: { name: 'topic-watch', arguments: {} } });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('error');
+      expect(response.error.code).toBe(-32602);
+      expect(response.error.message).toContain('query: Required');
+    });
+  });
+  
+  describe('MCP Protocol basics', () => {
+    beforeEach(() => {
+      // Create a basic server for protocol tests
+      server = new mcpSdk.server.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: { resources: {}, tools: {} }
+      });
+    });
+    
+    it('should respond to initialize requests', async () => {
+      await server.connect(transport);
+      
+      const initRequest = { type: 'initialize' };
+      await simulateRequest(initRequest);
+      
+      expect(transport.send).toHaveBeenCalled();
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('initialize_result');
+      expect(response.server.name).toBe('test-server');
+      expect(response.server.version).toBe('1.0.0');
+    });
+    
+    it('should negotiate the protocol version and advertise capability flags', async () => {
+      server.tool("test-tool", "Test tool", {}, async () => ({ content: [] }));
+      await server.connect(transport);
+      
+      await simulateRequest({
+        type: 'initialize',
+        jsonrpc: '2.0',
+        id: 1,
+        params: {
+          protocolVersion: '2024-11-05',
+          capabilities: { roots: {} },
+          clientInfo: { name: 'test-client', version: '2.0.0' }
+        }
+      });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.protocolVersion).toBe('2024-11-05');
+      expect(response.capabilities).toEqual({ tools: { listChanged: false } });
+      expect(server.getClientSession().clientInfo).toEqual({ name: 'test-client', version: '2.0.0' });
+      expect(server.getClientSession().clientCapabilities).toEqual({ roots: {} });
+    });
+    
+    it('should answer unsupported protocol versions with the latest supported one', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'initialize', jsonrpc: '2.0', id: 1, params: { protocolVersion: '1999-01-01' } });
+      
+      expect(transport.send.mock.calls[0][0].protocolVersion).toBe('2025-06-18');
+    });
+    
+    it('should reject JSON-RPC requests before notifications/initialized', async () => {
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'initialize', jsonrpc: '2.0', id: 1, params: {} });
+      await simulateRequest({ type: 'tools/list', jsonrpc: '2.0', id: 2 });
+      await simulateRequest({ type: 'ping', jsonrpc: '2.0', id: 3 });
+      
+      const [, rejected, ping] = transport.send.mock.calls.map(call => call[0]);
+      expect(rejected.type).toBe('error');
+      expect(rejected.error.code).toBe(-32600);
+      expect(rejected.error.message).toContain('Server not initialized');
+      expect(ping.type).toBe('ping_result');
+    });
+    
+    it('should respond to capabilities requests', async () => {
+      // Register a sample tool for the capabilities test
+      server.tool(
+        "test-tool",
+        "Test tool description",
+        { param: { description: "Test parameter" } },
+        async () => ({ content: [] })
+      );
+      
+      await server.connect(transport);
+      
+      const capabilitiesRequest = { type: 'capabilities' };
+      await simulateRequest(capabilitiesRequest);
+      
+      expect(transport.send).toHaveBeenCalled();
+      const responses = transport.send.mock.calls.map(call => call[0]);
+      const capabilitiesResponse = responses.find(r => r.type === 'capabilities_result');
+      
+      expect(capabilitiesResponse).toBeDefined();
+      expect(capabilitiesResponse.capabilities.tools).toHaveProperty('test-tool');
+      expect(capabilitiesResponse.capabilities.tools['test-tool'].description).toBe('Test tool description');
+    });
+    
+    it('should list tools with a JSON Schema inputSchema', async () => {
+      server.tool(
+        "add-feed",
+        "Add a feed",
+        {
+          name: z.string().describe("Name to identify this feed"),
+          url: z.string().url().describe("URL of the RSS feed"),
+          maxItems: z.number().optional(),
+        },
+        async () => ({ content: [] })
+      );
+      
+      await server.connect(transport);
+      await completeHandshake();
+      
+      await simulateRequest({ type: 'tools/list', jsonrpc: '2.0', id: 2 });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('tools/list_result');
+      expect(response.result.tools).toEqual([
+        {
+          name: 'add-feed',
+          description: 'Add a feed',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Name to identify this feed' },
+              url: { type: 'string', format: 'uri', description: 'URL of the RSS feed' },
+              maxItems: { type: 'number' }
+            },
+            required: ['name', 'url'],
+            additionalProperties: false
+          }
+        }
+      ]);
+    });
+    
+    it('should advertise an outputSchema and return structuredContent alongside text', async () => {
+      server.tool(
+        "get-feed",
+        "Get a feed",
+        { feedName: z.string() },
+        { feed: feedSchema },
+        async ({ feedName }) => {
+          const feed = rssService.getFeed(feedName);
+          return {
+            content: [{ type: 'text', text: formatFeedMarkdown(feed) }],
+            structuredContent: { feed: toStructuredFeed(feedName, feed) }
+          };
+        }
+      );
+      
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'tools/list' });
+      await simulateRequest({ type: 'tools/call', name: 'get-feed', params: { feedName: 'test-feed' } });
+      
+      const [listResponse, callResponse] = transport.send.mock.calls.map(call => call[0]);
+      const { outputSchema } = listResponse.result.tools[0];
+      expect(outputSchema.required).toEqual(['feed']);
+      expect(outputSchema.properties.feed.properties.items.type).toBe('array');
+      expect(outputSchema.properties.feed.required.sort()).toEqual(['feedUrl', 'items', 'lastUpdated', 'name', 'title']);
+      
+      expect(callResponse.result.content[0].text).toContain('# Test Feed');
+      const { feed } = callResponse.result.structuredContent;
+      expect(feed.name).toBe('test-feed');
+      expect(feed.title).toBe(mockParserResponse.title);
+      expect(typeof feed.lastUpdated).toBe('string');
+      expect(feed.items.map(item => item.guid)).toEqual(mockParserResponse.items.map(item => item.guid));
+    });
+    
+    it('should reject structuredContent that does not match the outputSchema', async () => {
+      server.tool(
+        "list-feeds",
+        "List feeds",
+        {},
+        { feeds: z.array(z.object({ name: z.string() })) },
+        async () => ({ content: [{ type: 'text', text: 'Feeds' }], structuredContent: { feeds: [{ title: 'No name' }] } })
+      );
+      
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'tools/call', name: 'list-feeds', params: {} });
+      
+      const errorResponse = transport.send.mock.calls[0][0];
+      expect(errorResponse.type).toBe('error');
+      expect(errorResponse.error.code).toBe(-32603);
+      expect(errorResponse.error.data.issues[0].field).toBe('feeds.0.name');
+    });
+    
+    it('should handle unknown request types with an error', async () => {
+      await server.connect(transport);
+      
+      const unknownRequest = { type: 'unknown-request-type' };
+      await simulateRequest(unknownRequest);
+      
+      expect(transport.send).toHaveBeenCalled();
+      const responses = transport.send.mock.calls.map(call => call[0]);
+      const errorResponse = responses.find(r => r.type === 'error');
+      
+      expect(errorResponse).toBeDefined();
+      expect(errorResponse.error.code).toBe(-32601);
+      expect(errorResponse.error.message).toContain('Unknown request type');
+      expect(errorResponse.error.data).toEqual({ method: 'unknown-request-type' });
+    });
+    
+    it('should wrap tools/call results in a CallToolResult', async () => {
+      server.tool(
+        "echo",
+        "Echo tool",
+        { message: { description: "Message to echo" } },
+        async (params) => ({ echoed: params.message })
+      );
+      
+      await server.connect(transport);
+      await completeHandshake();
+      
+      await simulateRequest({
+        type: 'tools/call',
+        jsonrpc: '2.0',
+        id: 7,
+        name: 'echo',
+        params: { message: 'hello' }
+      });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('tools/call_result');
+      expect(response.id).toBe(7);
+      expect(response.result.isError).toBeUndefined();
+      expect(response.result.content[0].type).toBe('text');
+      expect(JSON.parse(response.result.content[0].text)).toEqual({ echoed: 'hello' });
+    });
+    
+    it('should report tools/call handler failures with isError', async () => {
+      server.tool(
+        "broken",
+        "Always fails",
+        {},
+        async () => {
+          throw new Error('Feed backend unavailable');
+        }
+      );
+      
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'tools/call', name: 'broken', params: {} });
+      
+      const response = transport.send.mock.calls[0][0];
+      expect(response.type).toBe('tools/call_result');
+      expect(response.result.isError).toBe(true);
+      expect(response.result.content[0].text).toContain('Feed backend unavailable');
+      expect(response.result.structuredContent.error.code).toBe('internal_error');
+    });
+    
+    it('should report ToolError failures with a machine-readable code and data', async () => {
+      server.tool(
+        "get-feed",
+        "Get a feed",
+        { feedName: z.string() },
+        async ({ feedName }) => {
+          throw new mcpSdk.server.ToolError('feed_not_found', `Feed '${feedName}' not found`, { feedName });
+        }
+      );
+      
+      await server.connect(transport);
+      
+      await simulateRequest({ type: 'tools/call', name: 'get-feed', params: { feedName: 'missing' } });
+      await simulateRequest({ type: 'tool', name: 'get-feed', params: { feedName: 'missing' } });
+      
+      const [callResponse, legacyResponse] = transport.send.mock.calls.map(call => call[0]);
+      expect(callResponse.result).toEqual({
+        content: [{ type: 'text', text: "Feed 'missing' not found" }],
+        isError: true,
+        structuredContent: {
+          error: { code: 'feed_not_found', message: "Feed 'missing' not found", data: { feedName: 'missing' } }
+        }
+      });
+      expect(legacyResponse.type).toBe('tool_result');
+      expect(legacyResponse.result).toEqual(callResponse.result);
+    });
+    
+    it('should validate tool arguments against the registered zod schema', async () => {
+      const handler = jest.fn().mockResolvedValue({ content: [] });
+      server.tool(
+        "add-feed",
+        "Add a feed",
+        {
+          name: z.string(),
+          url: z.string().url(),
+          maxItems: z.number().default(20),
+        },
+        handler
+      );
+      
+      await server.connect(transport);
+      await completeHandshake();
+      
+      await simulateRequest({
+        type: 'tools/call',
+        jsonrpc: '2.0',
+        id: 9,
+        name: 'add-feed',
+        params: { url: 'not-a-url' }
+      });
+      
+      expect(handler).not.toHaveBeenCalled();
+      const errorResponse = transport.send.mock.calls[0][0];
+      expect(errorResponse.type).toBe('error');
+      expect(errorResponse.id).toBe(9);
+      expect(errorResponse.error.code).toBe(-32602);
+      expect(errorResponse.error.message).toContain('name: Required');
+      expect(errorResponse.error.message).toContain('url: Invalid url');
+      expect(errorResponse.error.data.issues.map(issue => issue.field)).toEqual(['name', 'url']);
+    });
+    
+    it('should pass parsed and defaulted arguments to the handler', async () => {
+      const handler = jest.fn().mockResolvedValue({ content: [] });
+      server.tool(
+        "add-feed",
+        "Add a feed",
+        {
+          name: z.string(),
+          url: z.string().url(),
+          maxItems: z.number().default(20),
+        },
+        handler
+      );
+      
+      await server.connect(transport);
+      
+      await simulateRequest({
+        type: 'tool',
+        name: 'add-feed',
+        params: { name: 'news', url: 'https://example.com/rss' }
+      });
+      
+      expect(handler).toHaveBeenCalledWith({ name: 'news', url: 'https://example.com/rss', maxItems: 20 });
+    });
+    
+    it('should handle requests for non-existent tools with an error', async () => {
+      await server.connect(transport);
+      
+      const nonExistentToolRequest = { 
+        type: 'tool',
+        name: 'non-existent-tool',
+        params: {}
+      };
+      
+      await simulateRequest(nonExistentToolRequest);
+      
+      expect(transport.send).toHaveBeenCalled();
+      const responses = transport.send.mock.calls.map(call => call[0]);
+      const errorResponse = responses.find(r => r.type === 'error');
+      
+      expect(errorResponse).toBeDefined();
+      expect(errorResponse.error.code).toBe(-32602);
+      expect(errorResponse.error.message).toContain('Tool not found');
+      expect(errorResponse.error.data).toEqual({ availableTools: [] });
+    });
+  });
 });
\ No newline at end of file
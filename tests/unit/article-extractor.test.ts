@@ -0,0 +1,165 @@
+/**
+ * Unit tests for full-article fetching, with RSSService against a local HTTP server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ArticleError } from '../../src/services/article-extractor';
+import { RSSService } from '../../src/services/rss-service';
+
+const POST_PAGE = `<html><head><title>First post</title><meta name="author" content="Ada"></head><body>
+  <nav><a href="/">Home</a> <a href="/archive">Archive</a></nav>
+  <article>
+    <h1>First post</h1>
+    <p>This is the whole story, of which the feed only carries the first sentence, and it goes on for a while.</p>
+    <p>It has a second paragraph too, with a <a href="/more">link to more</a>, so there is something to read.</p>
+  </article>
+  <aside class="comments"><p>First comment, which is not part of the article at all, however long it gets.</p></aside>
+</body></html>`;
+
+const FEED = (baseUrl: string): string => `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Summaries</title>
+  <item><title>First post</title><guid>1</guid><link>${baseUrl}/post/1</link><description>This is the whole story.</description></item>
+  <item><title>A download</title><guid>2</guid><link>${baseUrl}/report.pdf</link></item>
+  <item><title>Huge</title><guid>3</guid><link>${baseUrl}/large</link></item>
+  <item><title>Slow</title><guid>4</guid><link>${baseUrl}/slow</link></item>
+  <item><title>Empty</title><guid>5</guid><link>${baseUrl}/empty</link></item>
+  <item><title>Gone</title><guid>6</guid><link>${baseUrl}/gone</link></item>
+  <item><title>No link</title><guid>7</guid></item>
+</channel></rss>`;
+
+// Article fetches for feeds with fetchFullText run in the fetch queue after the feed fetch
+const queueDrained = async (rssService: RSSService): Promise<void> => {
+  while (rssService.getFetchQueue().running.length || rssService.getFetchQueue().queued.length) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('Full articles', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let pageRequests: string[];
+  let rssService: RSSService;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url !== '/feed') {
+        pageRequests.push(req.url!);
+      }
+      if (req.url === '/feed') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' }).end(FEED(baseUrl));
+      } else if (req.url === '/post/1') {
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(POST_PAGE);
+      } else if (req.url === '/report.pdf') {
+        res.writeHead(200, { 'Content-Type': 'application/pdf' }).end('%PDF-1.4');
+      } else if (req.url === '/large') {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end(`<html><body><p>${'word '.repeat(2000)}</p></body></html>`);
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.writeHead(200, { 'Content-Type': 'text/html' }).end(POST_PAGE), 500);
+      } else if (req.url === '/empty') {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><body><nav><a href="/">Home</a></nav></body></html>');
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    pageRequests = [];
+    rssService = new RSSService([], { article: { timeout: 200, maxBytes: 5000 } });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should extract an item article once and keep it with the item', async () => {
+    rssService['feedConfigs'].set('blog', { name: 'blog', url: `${baseUrl}/feed` });
+    await rssService.fetchFeed('blog');
+
+    const article = await rssService.getArticle('blog', '1');
+    expect(article).toEqual(expect.objectContaining({ url: `${baseUrl}/post/1`, title: 'First post', byline: 'Ada' }));
+    expect(article.markdown).toContain(`It has a second paragraph too, with a [link to more](${baseUrl}/more)`);
+    expect(article.markdown).not.toContain('Archive');
+    expect(article.markdown).not.toContain('First comment');
+
+    expect(await rssService.getArticle('blog', '1')).toBe(article);
+    expect(pageRequests).toEqual(['/post/1']);
+    expect(rssService.getFeedItem('blog', '1')!.article).toBe(article);
+    expect(rssService.getFeed('blog')!.items[0].article).toBe(article);
+
+    await rssService.getArticle('blog', '1', true);
+    expect(pageRequests).toEqual(['/post/1', '/post/1']);
+  });
+
+  it('should keep articles across fetches of the feed', async () => {
+    rssService['feedConfigs'].set('blog', { name: 'blog', url: `${baseUrl}/feed` });
+    await rssService.fetchFeed('blog');
+    const article = await rssService.getArticle('blog', '1');
+
+    await rssService.fetchFeed('blog');
+
+    expect(rssService.getFeedItem('blog', '1')!.article).toEqual(article);
+  });
+
+  it.each([
+    ['2', 'not_html'],
+    ['3', 'too_large'],
+    ['4', 'timeout'],
+    ['5', 'no_content'],
+    ['6', 'http_error'],
+    ['7', 'no_link']
+  ])('should fail item %s with %s', async (itemId, code) => {
+    rssService['feedConfigs'].set('blog', { name: 'blog', url: `${baseUrl}/feed` });
+    await rssService.fetchFeed('blog');
+
+    const error = await rssService.getArticle('blog', itemId).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ArticleError);
+    expect(error.code).toBe(code);
+    expect(rssService.getFeedItem('blog', itemId)!.article).toBeUndefined();
+  });
+
+  it('should fetch the articles of feeds with fetchFullText, skipping those that fail', async () => {
+    rssService['feedConfigs'].set('full', { name: 'full', url: `${baseUrl}/feed`, fetchFullText: true });
+    await rssService.fetchFeed('full');
+    await queueDrained(rssService);
+
+    const items = rssService.getFeedItems('full');
+    expect(items.filter(item => item.article).map(item => item.guid)).toEqual(['1']);
+    expect(rssService.getFeed('full')!.items[0].article!.title).toBe('First post');
+    expect(pageRequests.sort()).toEqual(['/empty', '/gone', '/large', '/post/1', '/report.pdf', '/slow']);
+
+    // Only the pages that failed are tried again
+    pageRequests = [];
+    await rssService.fetchFeed('full');
+    await queueDrained(rssService);
+    expect(pageRequests.sort()).toEqual(['/empty', '/gone', '/large', '/report.pdf', '/slow']);
+    expect(rssService.getFeedItem('full', '1')!.article!.title).toBe('First post');
+  });
+
+  it('should fetch at most maxPerRefresh articles per fetch of the feed, through the fetch queue', async () => {
+    rssService = new RSSService([], { article: { timeout: 200, maxBytes: 5000, maxPerRefresh: 2 } });
+    rssService['feedConfigs'].set('full', { name: 'full', url: `${baseUrl}/feed`, fetchFullText: true });
+    await rssService.fetchFeed('full');
+
+    const queue = rssService.getFetchQueue();
+    expect([...queue.running, ...queue.queued].map(entry => entry.url)).toEqual([`${baseUrl}/post/1`, `${baseUrl}/report.pdf`]);
+
+    await queueDrained(rssService);
+    expect(pageRequests.sort()).toEqual(['/post/1', '/report.pdf']);
+
+    // The next fetch moves on to the items that still have no article
+    pageRequests = [];
+    await rssService.fetchFeed('full');
+    await queueDrained(rssService);
+    expect(pageRequests.sort()).toEqual(['/large', '/report.pdf']);
+  });
+});
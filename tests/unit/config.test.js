@@ -1,104 +1,355 @@
-/**
- * Unit tests for Configuration module
- */
-import {
-  DEFAULT_REFRESH_INTERVAL,
-  DEFAULT_MAX_ITEMS,
-  DEFAULT_FEEDS,
-  MCP_SERVER_CONFIG,
-  loadRSSFeedsFromEnv
-} from '../../src/config/config';
-
-describe('Configuration Module', () => {
-  // Save original process.env
-  const originalEnv = process.env;
-  
-  beforeEach(() => {
-    // Reset process.env before each test
-    jest.resetModules();
-    process.env = { ...originalEnv };
-  });
-  
-  afterAll(() => {
-    // Restore original process.env
-    process.env = originalEnv;
-  });
-  
-  describe('Constants', () => {
-    it('should export default refresh interval', () => {
-      expect(DEFAULT_REFRESH_INTERVAL).toBe(300000);
-    });
-    
-    it('should export default max items', () => {
-      expect(DEFAULT_MAX_ITEMS).toBe(20);
-    });
-    
-    it('should export default feeds array', () => {
-      expect(DEFAULT_FEEDS).toBeInstanceOf(Array);
-      expect(DEFAULT_FEEDS.length).toBeGreaterThan(0);
-      expect(DEFAULT_FEEDS[0]).toHaveProperty('name');
-      expect(DEFAULT_FEEDS[0]).toHaveProperty('url');
-    });
-    
-    it('should export MCP server configuration', () => {
-      expect(MCP_SERVER_CONFIG).toHaveProperty('name');
-      expect(MCP_SERVER_CONFIG).toHaveProperty('version');
-    });
-  });
-  
-  describe('loadRSSFeedsFromEnv', () => {
-    it('should return default feeds when no environment variables exist', () => {
-      // Clear any RSS feed environment variables
-      Object.keys(process.env).forEach(key => {
-        if (key.startsWith('RSS_FEED_URL_')) {
-          delete process.env[key];
-        }
-      });
-      
-      const feeds = loadRSSFeedsFromEnv();
-      expect(feeds).toEqual(DEFAULT_FEEDS);
-    });
-    
-    it('should load feeds from environment variables', () => {
-      // Set feed environment variables
-      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
-      process.env.RSS_FEED_URL_2 = 'https://example.com/feed2';
-      
-      const feeds = loadRSSFeedsFromEnv();
-      
-      expect(feeds.length).toBe(2);
-      expect(feeds[0].name).toBe('feed-1');
-      expect(feeds[0].url).toBe('https://example.com/feed1');
-      expect(feeds[1].name).toBe('feed-2');
-      expect(feeds[1].url).toBe('https://example.com/feed2');
-    });
-    
-    it('should use custom refresh interval from environment variables', () => {
-      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
-      process.env.RSS_REFRESH_INTERVAL = '60000'; // 1 minute
-      
-      const feeds = loadRSSFeedsFromEnv();
-      
-      expect(feeds[0].refreshInterval).toBe(60000);
-    });
-    
-    it('should use custom max items from environment variables', () => {
-      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
-      process.env.RSS_MAX_ITEMS = '10';
-      
-      const feeds = loadRSSFeedsFromEnv();
-      
-      expect(feeds[0].maxItems).toBe(10);
-    });
-    
-    it('should ignore non-numeric environment variables', () => {
-      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
-      process.env.RSS_FEED_URL_ABC = 'https://example.com/invalid';
-      
-      const feeds = loadRSSFeedsFromEnv();
-      
-      expect(feeds.length).toBe(1);
-      expect(feeds[0].name).toBe('feed-1');
-    });
-  });
-});
\ No newline at end of file
+/**
+ * Unit tests for Configuration module
+ */
+import {
+  DEFAULT_REFRESH_INTERVAL,
+  DEFAULT_MAX_ITEMS,
+  DEFAULT_FEEDS,
+  MCP_SERVER_CONFIG,
+  loadRSSFeedsFromEnv,
+  loadTransportConfigFromEnv,
+  loadStorageConfigFromEnv,
+  loadBackoffConfigFromEnv,
+  loadSchedulerConfigFromEnv,
+  loadRefreshPolicyFromEnv,
+  loadArticleConfigFromEnv,
+  loadOpmlFeedsFromEnv,
+  loadSourcePluginsFromEnv
+} from '../../src/config/config';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('Configuration Module', () => {
+  // Save original process.env
+  const originalEnv = process.env;
+  
+  beforeEach(() => {
+    // Reset process.env before each test
+    jest.resetModules();
+    process.env = { ...originalEnv };
+  });
+  
+  afterAll(() => {
+    // Restore original process.env
+    process.env = originalEnv;
+  });
+  
+  describe('Constants', () => {
+    it('should export default refresh interval', () => {
+      expect(DEFAULT_REFRESH_INTERVAL).toBe(300000);
+    });
+    
+    it('should export default max items', () => {
+      expect(DEFAULT_MAX_ITEMS).toBe(20);
+    });
+    
+    it('should export default feeds array', () => {
+      expect(DEFAULT_FEEDS).toBeInstanceOf(Array);
+      expect(DEFAULT_FEEDS.length).toBeGreaterThan(0);
+      expect(DEFAULT_FEEDS[0]).toHaveProperty('name');
+      expect(DEFAULT_FEEDS[0]).toHaveProperty('url');
+    });
+    
+    it('should export MCP server configuration', () => {
+      expect(MCP_SERVER_CONFIG).toHaveProperty('name');
+      expect(MCP_SERVER_CONFIG).toHaveProperty('version');
+    });
+  });
+  
+  describe('loadRSSFeedsFromEnv', () => {
+    it('should return no feeds when no environment variables exist', () => {
+      // Clear any RSS feed environment variables
+      Object.keys(process.env).forEach(key => {
+        if (key.startsWith('RSS_FEED_URL_')) {
+          delete process.env[key];
+        }
+      });
+      
+      const feeds = loadRSSFeedsFromEnv();
+      expect(feeds).toEqual([]);
+    });
+    
+    it('should load feeds from environment variables', () => {
+      // Set feed environment variables
+      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
+      process.env.RSS_FEED_URL_2 = 'https://example.com/feed2';
+      
+      const feeds = loadRSSFeedsFromEnv();
+      
+      expect(feeds.length).toBe(2);
+      expect(feeds[0].name).toBe('feed-1');
+      expect(feeds[0].url).toBe('https://example.com/feed1');
+      expect(feeds[1].name).toBe('feed-2');
+      expect(feeds[1].url).toBe('https://example.com/feed2');
+    });
+    
+    it('should use custom refresh interval from environment variables', () => {
+      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
+      process.env.RSS_REFRESH_INTERVAL = '60000'; // 1 minute
+      
+      const feeds = loadRSSFeedsFromEnv();
+      
+      expect(feeds[0].refreshInterval).toBe(60000);
+    });
+    
+    it('should fix refresh intervals when RSS_REFRESH_MODE is fixed', () => {
+      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
+      process.env.RSS_REFRESH_MODE = 'fixed';
+      
+      expect(loadRSSFeedsFromEnv()[0].refreshMode).toBe('fixed');
+      
+      delete process.env.RSS_REFRESH_MODE;
+      expect(loadRSSFeedsFromEnv()[0].refreshMode).toBeUndefined();
+    });
+    
+    it('should use custom max items from environment variables', () => {
+      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
+      process.env.RSS_MAX_ITEMS = '10';
+      
+      const feeds = loadRSSFeedsFromEnv();
+      
+      expect(feeds[0].maxItems).toBe(10);
+    });
+    
+    it('should ignore non-numeric environment variables', () => {
+      process.env.RSS_FEED_URL_1 = 'https://example.com/feed1';
+      process.env.RSS_FEED_URL_ABC = 'https://example.com/invalid';
+      
+      const feeds = loadRSSFeedsFromEnv();
+      
+      expect(feeds.length).toBe(1);
+      expect(feeds[0].name).toBe('feed-1');
+    });
+  });
+  
+  describe('loadOpmlFeedsFromEnv', () => {
+    let tempDir;
+    
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opengathyr-opml-'));
+    });
+    
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+    
+    it('should return no feeds without RSS_OPML_FILE', () => {
+      delete process.env.RSS_OPML_FILE;
+      expect(loadOpmlFeedsFromEnv()).toEqual([]);
+    });
+    
+    it('should load feeds from the OPML file and skip the default feeds', () => {
+      const file = path.join(tempDir, 'feeds.opml');
+      fs.writeFileSync(file, '<opml version="2.0"><body><outline text="News"><outline text="hn" xmlUrl="https://news.ycombinator.com/rss"/></outline></body></opml>');
+      process.env.RSS_OPML_FILE = file;
+      Object.keys(process.env).forEach(key => {
+        if (key.startsWith('RSS_FEED_URL_')) {
+          delete process.env[key];
+        }
+      });
+      
+      expect(loadOpmlFeedsFromEnv()).toEqual([{ name: 'hn', url: 'https://news.ycombinator.com/rss', group: 'News' }]);
+      expect(loadRSSFeedsFromEnv()).toEqual([]);
+    });
+    
+    it('should throw for a missing file', () => {
+      process.env.RSS_OPML_FILE = path.join(tempDir, 'missing.opml');
+      expect(() => loadOpmlFeedsFromEnv()).toThrow();
+    });
+  });
+  
+  describe('loadSourcePluginsFromEnv', () => {
+    let tempDir;
+    
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'opengathyr-plugins-'));
+    });
+    
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+    
+    it('should return no adapters without RSS_SOURCE_PLUGINS', () => {
+      delete process.env.RSS_SOURCE_PLUGINS;
+      expect(loadSourcePluginsFromEnv()).toEqual([]);
+    });
+    
+    it('should load single adapters and arrays of them', () => {
+      const single = path.join(tempDir, 'single.js');
+      const several = path.join(tempDir, 'several.js');
+      fs.writeFileSync(single, "module.exports = { type: 'one', description: 'One', parse: async () => ({ items: [] }) };");
+      fs.writeFileSync(several, "exports.sources = [{ type: 'two', description: 'Two', parse: async () => ({ items: [] }) }, { type: 'three', description: 'Three', parse: async () => ({ items: [] }) }];");
+      process.env.RSS_SOURCE_PLUGINS = `${single}, ${several}`;
+      
+      expect(loadSourcePluginsFromEnv().map(adapter => adapter.type)).toEqual(['one', 'two', 'three']);
+    });
+    
+    it('should throw for a missing module', () => {
+      process.env.RSS_SOURCE_PLUGINS = path.join(tempDir, 'missing.js');
+      expect(() => loadSourcePluginsFromEnv()).toThrow();
+    });
+    
+    it('should name a plugin that does not export a source adapter', () => {
+      const plugin = path.join(tempDir, 'not-an-adapter.js');
+      fs.writeFileSync(plugin, "module.exports = { type: 'broken' };");
+      process.env.RSS_SOURCE_PLUGINS = plugin;
+      
+      expect(() => loadSourcePluginsFromEnv()).toThrow(`Source plugin ${plugin} must export a source adapter`);
+    });
+  });
+  
+  describe('loadTransportConfigFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.MCP_TRANSPORT;
+      delete process.env.MCP_HTTP_PORT;
+      delete process.env.MCP_HTTP_HOST;
+      delete process.env.MCP_HTTP_PATH;
+      delete process.env.MCP_HTTP_ALLOWED_ORIGINS;
+      delete process.env.PORT;
+    });
+    
+    it('should default to the stdio transport', () => {
+      const config = loadTransportConfigFromEnv();
+      
+      expect(config.type).toBe('stdio');
+      expect(config.port).toBe(3000);
+      expect(config.host).toBe('127.0.0.1');
+      expect(config.path).toBe('/mcp');
+      expect(config.allowedOrigins).toBeUndefined();
+    });
+    
+    it('should select the HTTP transport and its settings from environment variables', () => {
+      process.env.MCP_TRANSPORT = 'HTTP';
+      process.env.MCP_HTTP_PORT = '8080';
+      process.env.MCP_HTTP_HOST = '0.0.0.0';
+      process.env.MCP_HTTP_ALLOWED_ORIGINS = 'https://a.example.com, https://b.example.com';
+      
+      const config = loadTransportConfigFromEnv();
+      
+      expect(config.type).toBe('http');
+      expect(config.port).toBe(8080);
+      expect(config.host).toBe('0.0.0.0');
+      expect(config.allowedOrigins).toEqual(['https://a.example.com', 'https://b.example.com']);
+    });
+    
+    it('should fall back to PORT for the HTTP port', () => {
+      process.env.PORT = '4000';
+      
+      expect(loadTransportConfigFromEnv().port).toBe(4000);
+    });
+  });
+  
+  describe('loadStorageConfigFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.RSS_STORAGE;
+      delete process.env.RSS_DATA_DIR;
+      delete process.env.RSS_RETENTION_DAYS;
+      delete process.env.RSS_RETENTION_MAX_ITEMS;
+    });
+    
+    it('should default to file storage under ./data', () => {
+      expect(loadStorageConfigFromEnv()).toEqual({
+        type: 'file',
+        dataDir: './data',
+        retention: { maxAgeDays: 30, maxItemsPerFeed: 1000 }
+      });
+    });
+    
+    it('should read the storage type, data dir and retention from environment variables', () => {
+      process.env.RSS_STORAGE = 'memory';
+      process.env.RSS_DATA_DIR = '/var/lib/opengathyr';
+      process.env.RSS_RETENTION_DAYS = '7';
+      process.env.RSS_RETENTION_MAX_ITEMS = 'lots';
+      
+      expect(loadStorageConfigFromEnv()).toEqual({
+        type: 'memory',
+        dataDir: '/var/lib/opengathyr',
+        retention: { maxAgeDays: 7, maxItemsPerFeed: 1000 }
+      });
+    });
+  });
+  
+  describe('loadBackoffConfigFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.RSS_BACKOFF_MAX_INTERVAL;
+      delete process.env.RSS_PAUSE_AFTER_FAILURES;
+    });
+    
+    it('should default to a 6 hour cap and pausing after 10 failures', () => {
+      expect(loadBackoffConfigFromEnv()).toEqual({ maxInterval: 21600000, pauseAfterFailures: 10 });
+    });
+    
+    it('should read the backoff policy from environment variables', () => {
+      process.env.RSS_BACKOFF_MAX_INTERVAL = '3600000';
+      process.env.RSS_PAUSE_AFTER_FAILURES = '0';
+      
+      expect(loadBackoffConfigFromEnv()).toEqual({ maxInterval: 3600000, pauseAfterFailures: 0 });
+    });
+  });
+  
+  describe('loadSchedulerConfigFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.RSS_MAX_CONCURRENT_FETCHES;
+      delete process.env.RSS_MAX_FETCHES_PER_HOST;
+      delete process.env.RSS_FETCH_JITTER;
+    });
+    
+    it('should default to 6 concurrent fetches, 2 per host and 10% jitter', () => {
+      expect(loadSchedulerConfigFromEnv()).toEqual({ maxConcurrent: 6, maxPerHost: 2, jitter: 0.1 });
+    });
+    
+    it('should read the limits from environment variables', () => {
+      process.env.RSS_MAX_CONCURRENT_FETCHES = '20';
+      process.env.RSS_MAX_FETCHES_PER_HOST = '1';
+      process.env.RSS_FETCH_JITTER = '0';
+      
+      expect(loadSchedulerConfigFromEnv()).toEqual({ maxConcurrent: 20, maxPerHost: 1, jitter: 0 });
+    });
+    
+    it('should ignore limits below 1 and jitter outside 0 to 1', () => {
+      process.env.RSS_MAX_CONCURRENT_FETCHES = '0';
+      process.env.RSS_FETCH_JITTER = '1.5';
+      
+      expect(loadSchedulerConfigFromEnv()).toEqual({ maxConcurrent: 6, maxPerHost: 2, jitter: 0.1 });
+    });
+  });
+  
+  describe('loadRefreshPolicyFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.RSS_MIN_REFRESH_INTERVAL;
+      delete process.env.RSS_MAX_REFRESH_INTERVAL;
+    });
+    
+    it('should default to between 1 minute and 1 day', () => {
+      expect(loadRefreshPolicyFromEnv()).toEqual({ minInterval: 60000, maxInterval: 86400000 });
+    });
+    
+    it('should read the bounds from environment variables', () => {
+      process.env.RSS_MIN_REFRESH_INTERVAL = '300000';
+      process.env.RSS_MAX_REFRESH_INTERVAL = '3600000';
+      
+      expect(loadRefreshPolicyFromEnv()).toEqual({ minInterval: 300000, maxInterval: 3600000 });
+    });
+  });
+  
+  describe('loadArticleConfigFromEnv', () => {
+    beforeEach(() => {
+      delete process.env.RSS_ARTICLE_TIMEOUT;
+      delete process.env.RSS_ARTICLE_MAX_BYTES;
+      delete process.env.RSS_ARTICLES_PER_REFRESH;
+    });
+    
+    it('should default to 15 seconds, 2 MB and 10 articles per refresh', () => {
+      expect(loadArticleConfigFromEnv()).toEqual({ timeout: 15000, maxBytes: 2097152, maxPerRefresh: 10 });
+    });
+    
+    it('should read the limits from environment variables, ignoring unusable values', () => {
+      process.env.RSS_ARTICLE_TIMEOUT = '5000';
+      process.env.RSS_ARTICLE_MAX_BYTES = 'lots';
+      process.env.RSS_ARTICLES_PER_REFRESH = '3';
+      
+      expect(loadArticleConfigFromEnv()).toEqual({ timeout: 5000, maxBytes: 2097152, maxPerRefresh: 3 });
+    });
+  });
+});
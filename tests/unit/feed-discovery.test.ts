@@ -0,0 +1,165 @@
+/**
+ * Unit tests for feed discovery, against a local HTTP server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { COMMON_FEED_PATHS, detectFeedFormat, extractFeedLinks } from '../../src/services/feed-discovery';
+import { RSSService } from '../../src/services/rss-service';
+
+const RSS_DOCUMENT = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Site News</title><item><title>Hello</title><guid>1</guid></item></channel></rss>`;
+// RSS 0.91 feeds declare the Netscape DTD between the XML declaration and the root
+const RSS_091_DOCUMENT = `<?xml version="1.0" encoding="ISO-8859-1"?>
+<!DOCTYPE rss PUBLIC "-//Netscape Communications//DTD RSS 0.91//EN" "http://my.netscape.com/publish/formats/rss-0.91.dtd">
+<rss version="0.91"><channel><title>Old News</title><item><title>Hello</title><link>https://example.com/1</link></item></channel></rss>`;
+const ATOM_DOCUMENT = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom"><title>Site Atom</title><entry><title>Hello</title><id>1</id></entry><entry><title>Again</title><id>2</id></entry></feed>`;
+
+// A home page linking to its feeds, one of them broken, and one that links to none
+const PAGES: Record<string, [string, string]> = {
+  '/': ['text/html', `<!doctype html><html><head>
+    <link rel="stylesheet" href="/style.css">
+    <link rel="alternate" type="application/rss+xml" title="Site News" href="/news.xml">
+    <link rel="alternate" type="application/rss+xml" title="Broken" href="/missing.xml">
+    <link rel="alternate" type="application/atom+xml" href="https://unreachable.invalid/atom">
+    </head><body></body></html>`],
+  '/news.xml': ['application/rss+xml', RSS_DOCUMENT],
+  '/blog/': ['text/html; charset=utf-8', '<html><head><title>No links</title></head></html>'],
+  '/atom.xml': ['application/atom+xml', ATOM_DOCUMENT],
+  '/plain': ['text/plain', 'just text']
+};
+
+describe('Feed discovery', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let rssService: RSSService;
+  // Paths requested so far, and the most requests the server had open at once
+  let requested: string[];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requested.push(req.url || '');
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      setTimeout(() => {
+        inFlight--;
+        const page = PAGES[req.url || ''];
+        if (page) {
+          res.writeHead(200, { 'Content-Type': page[0] }).end(page[1]);
+        } else {
+          res.writeHead(404).end();
+        }
+      }, 10);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    rssService = new RSSService();
+    requested = [];
+    maxInFlight = 0;
+  });
+
+  describe('detectFeedFormat', () => {
+    it('should recognize RSS, Atom, RDF and JSON Feed documents', () => {
+      expect(detectFeedFormat(RSS_DOCUMENT)).toBe('rss');
+      expect(detectFeedFormat(`\uFEFF<!-- generated -->\n${ATOM_DOCUMENT}`)).toBe('atom');
+      expect(detectFeedFormat('<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"></rdf:RDF>')).toBe('rdf');
+      expect(detectFeedFormat('{ "version": "https://jsonfeed.org/version/1.1", "items": [] }')).toBe('json');
+      expect(detectFeedFormat(RSS_091_DOCUMENT)).toBe('rss');
+      expect(detectFeedFormat('<html></html>')).toBeUndefined();
+      expect(detectFeedFormat('{ "items": [] }')).toBeUndefined();
+    });
+  });
+
+  describe('extractFeedLinks', () => {
+    it('should resolve alternate links against the base URL and skip other links', () => {
+      const html = `<base href="https://example.com/blog/">
+        <LINK REL="alternate" TYPE="application/atom+xml" HREF="atom.xml">
+        <link rel='alternate home' type='application/feed+json' href='/feed.json' title='JSON &amp; more'>
+        <link rel="alternate" type="text/html" href="/fr/">
+        <!-- <link rel="alternate" type="application/rss+xml" href="/old.xml"> -->
+        <link rel="alternate" type="application/rss+xml" href="https://example.com/blog/atom.xml">`;
+
+      expect(extractFeedLinks(html, 'https://example.com/')).toEqual([
+        { url: 'https://example.com/blog/atom.xml', source: 'link', format: 'atom', title: undefined, valid: false },
+        { url: 'https://example.com/feed.json', source: 'link', format: 'json', title: 'JSON & more', valid: false }
+      ]);
+    });
+
+    it('should keep character references outside the Unicode range as they are', () => {
+      const html = '<link rel="alternate" type="application/rss+xml" href="/feed" title="News &#9999999999;">';
+
+      expect(extractFeedLinks(html, 'https://example.com/')).toEqual([
+        { url: 'https://example.com/feed', source: 'link', format: 'rss', title: 'News &#9999999999;', valid: false }
+      ]);
+    });
+  });
+
+  describe('discoverFeeds', () => {
+    it('should return a feed URL as is', async () => {
+      expect(await rssService.discoverFeeds(`${baseUrl}/news.xml`)).toEqual([
+        { url: `${baseUrl}/news.xml`, source: 'direct', format: 'rss', title: 'Site News', valid: true, itemCount: 1 }
+      ]);
+    });
+
+    it('should validate the feeds a page links to, valid ones first', async () => {
+      const feeds = await rssService.discoverFeeds(`${baseUrl}/`);
+
+      expect(feeds.map(({ url, valid }) => [url, valid])).toEqual([
+        [`${baseUrl}/news.xml`, true],
+        [`${baseUrl}/missing.xml`, false],
+        ['https://unreachable.invalid/atom', false]
+      ]);
+      expect(feeds[1].error).toBe('Status code 404');
+    });
+
+    it('should try common feed paths when a page links to no feeds', async () => {
+      expect(await rssService.discoverFeeds(`${baseUrl}/blog/`)).toEqual([
+        { url: `${baseUrl}/atom.xml`, source: 'path', format: 'atom', title: 'Site Atom', valid: true, itemCount: 2 }
+      ]);
+    });
+
+    it('should fetch the candidates at the same time', async () => {
+      await rssService.discoverFeeds(`${baseUrl}/blog/`);
+
+      expect(requested).toHaveLength(1 + COMMON_FEED_PATHS.length);
+      expect(maxInFlight).toBeGreaterThan(1);
+    });
+
+    it('should let a discovered feed be checked and added without fetching it again', async () => {
+      const fetched = new Map();
+      const [feed] = await rssService.discoverFeeds(`${baseUrl}/`, fetched);
+      expect([...fetched.keys()]).toEqual([`${baseUrl}/news.xml`]);
+      requested = [];
+
+      const validation = await rssService.validateFeed(feed.url, fetched.get(feed.url));
+      rssService.addFeed({ name: 'site', url: feed.url }, fetched.get(feed.url));
+      while (!rssService.getFeed('site')) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      expect(validation).toEqual(expect.objectContaining({ valid: true, title: 'Site News', itemCount: 1 }));
+      expect(rssService.getFeedItems('site').map(item => item.title)).toEqual(['Hello']);
+      expect(rssService.getFetchStats('site').fetchCount).toBe(1);
+      expect(requested).toEqual([]);
+      rssService.removeFeed('site');
+    });
+
+    it('should report documents that are neither feeds nor pages', async () => {
+      expect(await rssService.discoverFeeds(`${baseUrl}/plain`)).toEqual([
+        { url: `${baseUrl}/plain`, source: 'direct', valid: false, error: 'Not a feed document' }
+      ]);
+    });
+
+    it('should throw when the URL cannot be fetched', async () => {
+      await expect(rssService.discoverFeeds(`${baseUrl}/nowhere`)).rejects.toThrow('Status code 404');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for FeedFetcher and conditional feed refreshes, against a local HTTP server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { FeedFetcher, FeedHttpError, ResponseTooLargeError } from '../../src/services/feed-fetcher';
+import { RSSService } from '../../src/services/rss-service';
+
+const ETAG = '"v1"';
+const LAST_MODIFIED = 'Wed, 02 Apr 2025 10:00:00 GMT';
+const RSS_DOCUMENT = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:sy="http://purl.org/rss/1.0/modules/syndication/">
+  <channel>
+    <title>Local Feed</title>
+    <link>https://example.com</link>
+    <ttl>30</ttl>
+    <sy:updatePeriod>hourly</sy:updatePeriod>
+    <sy:updateFrequency>2</sy:updateFrequency>
+    <skipDays><day>Sunday</day></skipDays>
+    <item><title>First</title><guid>1</guid></item>
+    <item><title>Second</title><guid>2</guid></item>
+  </channel>
+</rss>`;
+
+describe('FeedFetcher', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: http.IncomingHttpHeaders[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req.headers);
+      if (req.url === '/missing') {
+        res.writeHead(404).end();
+      } else if (req.url === '/chunked') {
+        // No Content-Length, so the size is only known while reading
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' });
+        res.write(RSS_DOCUMENT);
+        res.end(RSS_DOCUMENT);
+      } else if (req.headers['if-none-match'] === ETAG || req.headers['if-modified-since'] === LAST_MODIFIED) {
+        res.writeHead(304, { ETag: ETAG }).end();
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml', ETag: ETAG, 'Last-Modified': LAST_MODIFIED });
+        res.end(RSS_DOCUMENT);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the body and validators of a full response', async () => {
+    const result = await new FeedFetcher().fetch(`${baseUrl}/feed`);
+
+    expect(result.status).toBe(200);
+    expect(result.notModified).toBe(false);
+    expect(result.body).toBe(RSS_DOCUMENT);
+    expect(result.bytes).toBe(Buffer.byteLength(RSS_DOCUMENT));
+    expect(result.validators).toEqual({ etag: ETAG, lastModified: LAST_MODIFIED });
+    expect(requests[0]['if-none-match']).toBeUndefined();
+  });
+
+  it('should send validators and report a 304 as not modified', async () => {
+    const result = await new FeedFetcher().fetch(`${baseUrl}/feed`, { etag: ETAG, lastModified: LAST_MODIFIED });
+
+    expect(requests[0]['if-none-match']).toBe(ETAG);
+    expect(requests[0]['if-modified-since']).toBe(LAST_MODIFIED);
+    expect(result).toEqual(expect.objectContaining({ status: 304, notModified: true, bytes: 0 }));
+    expect(result.body).toBeUndefined();
+    expect(result.validators).toEqual({ etag: ETAG, lastModified: LAST_MODIFIED });
+  });
+
+  it('should throw a FeedHttpError carrying the status for error responses', async () => {
+    const error = await new FeedFetcher().fetch(`${baseUrl}/missing`).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(FeedHttpError);
+    expect(error.status).toBe(404);
+    expect(error.message).toBe('Status code 404');
+  });
+
+  it('should refuse bodies larger than maxBytes, with or without a Content-Length', async () => {
+    const fetcher = new FeedFetcher();
+    const limit = RSS_DOCUMENT.length + 10;
+
+    await expect(fetcher.fetch(`${baseUrl}/feed`, {}, undefined, 100)).rejects.toBeInstanceOf(ResponseTooLargeError);
+    await expect(fetcher.fetch(`${baseUrl}/chunked`, {}, undefined, limit)).rejects.toThrow(`Response larger than ${limit} bytes`);
+    expect((await fetcher.fetch(`${baseUrl}/feed`, {}, undefined, limit)).body).toBe(RSS_DOCUMENT);
+  });
+
+  describe('with RSSService', () => {
+    let rssService: RSSService;
+
+    afterEach(() => {
+      rssService.removeFeed('local');
+    });
+
+    it('should skip parsing when the feed has not changed and count the fetches', async () => {
+      rssService = new RSSService();
+      rssService.addFeed({ name: 'local', url: `${baseUrl}/feed` });
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      const listener = jest.fn();
+      rssService.on('feedUpdated', listener);
+      const parseString = jest.spyOn(rssService['parser'], 'parseString');
+
+      await rssService.fetchFeed('local');
+
+      expect(requests[1]['if-none-match']).toBe(ETAG);
+      expect(parseString).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+      expect(rssService.getFeedItems('local').map(item => item.guid)).toEqual(['1', '2']);
+      expect(rssService.getFetchStats('local')).toEqual(expect.objectContaining({
+        fetchCount: 2,
+        notModifiedCount: 1,
+        errorCount: 0,
+        bytesReceived: Buffer.byteLength(RSS_DOCUMENT),
+        lastStatus: 304,
+        etag: ETAG,
+        lastModified: LAST_MODIFIED
+      }));
+    });
+
+    it('should fetch the feed in full again when new settings read it differently', async () => {
+      rssService = new RSSService();
+      rssService.addFeed({ name: 'local', url: `${baseUrl}/feed` });
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      rssService.addFeed({ name: 'local', url: `${baseUrl}/feed`, group: 'News' });
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(requests[1]['if-none-match']).toBe(ETAG);
+
+      rssService.addFeed({ name: 'local', url: `${baseUrl}/feed`, group: 'News', maxItems: 1 });
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(requests[2]['if-none-match']).toBeUndefined();
+      expect(rssService.getFeedItems('local').map(item => item.guid)).toEqual(['1']);
+    });
+
+    it('should read update hints from the feed document', async () => {
+      rssService = new RSSService();
+      rssService['feedConfigs'].set('local', { name: 'local', url: `${baseUrl}/feed` });
+
+      await rssService.fetchFeed('local');
+
+      expect(rssService.getRefreshHints('local')).toEqual({ ttl: 1800000, updateInterval: 1800000, skipDays: [0] });
+    });
+
+    it('should record failed fetches in the stats', async () => {
+      rssService = new RSSService();
+      rssService['feedConfigs'].set('local', { name: 'local', url: `${baseUrl}/missing` });
+
+      await expect(rssService.fetchFeed('local')).rejects.toThrow('Status code 404');
+
+      expect(rssService.getFetchStats('local')).toEqual(expect.objectContaining({
+        fetchCount: 1,
+        errorCount: 1,
+        lastStatus: 404,
+        lastError: 'Status code 404'
+      }));
+    });
+  });
+});
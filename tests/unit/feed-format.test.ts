@@ -0,0 +1,147 @@
+/**
+ * Unit tests for feed formatting helpers
+ */
+import {
+  feedUri,
+  feedItemUri,
+  formatArticleMarkdown,
+  formatDiscoveredFeedMarkdown,
+  formatFeedMarkdown,
+  formatDuration,
+  formatHealthMarkdown,
+  formatItemMarkdown,
+  formatValidationMarkdown
+} from '../../src/utils/feed-format';
+import { mockRssFeed } from '../mocks/rss-feed-mock';
+
+describe('Feed formatting', () => {
+  describe('resource URIs', () => {
+    it('should build a feed URI from its name', () => {
+      expect(feedUri('tech news')).toBe('feed://tech%20news');
+    });
+
+    it('should build an item URI from its guid', () => {
+      expect(feedItemUri('news', { title: 'Item', guid: 'abc' })).toBe('feed://news/items/abc');
+    });
+
+    it('should fall back to the encoded link when an item has no guid', () => {
+      expect(feedItemUri('news', { title: 'Item', link: 'https://example.com/a' }))
+        .toBe('feed://news/items/https%3A%2F%2Fexample.com%2Fa');
+    });
+
+    it('should return undefined when an item has neither guid nor link', () => {
+      expect(feedItemUri('news', { title: 'Item' })).toBeUndefined();
+    });
+  });
+
+  describe('markdown', () => {
+    it('should format a validation report with its issues', () => {
+      expect(formatValidationMarkdown({
+        url: 'https://example.com/feed',
+        valid: true,
+        format: 'rss',
+        title: 'Example',
+        itemCount: 2,
+        issues: [{ severity: 'warning', code: 'bad_date', message: 'Items have a publication date that cannot be parsed', count: 1, examples: ['A: soon'] }]
+      })).toBe('Valid: yes\nFormat: rss\nTitle: Example\nItems: 2\n- Warning [bad_date]: Items have a publication date that cannot be parsed (1, e.g. A: soon)\n');
+    });
+
+    it('should format discovered feeds with their format and item count, or why they are unusable', () => {
+      expect(formatDiscoveredFeedMarkdown({ url: 'https://example.com/feed', source: 'link', format: 'atom', title: 'Example', valid: true, itemCount: 1 }))
+        .toBe('- https://example.com/feed: Example (atom, 1 item)');
+      expect(formatDiscoveredFeedMarkdown({ url: 'https://example.com/rss', source: 'link', valid: false, error: 'Status code 404' }))
+        .toBe('- https://example.com/rss: not usable (Status code 404)');
+    });
+
+    it('should format an item with its date, snippet and link', () => {
+      const markdown = formatItemMarkdown(mockRssFeed.items[0]);
+
+      expect(markdown).toContain('## Test Article 1');
+      expect(markdown).toContain('Published: Mon, 01 Apr 2025 10:00:00 GMT');
+      expect(markdown).toContain('[Read More](https://example.com/article1)');
+    });
+
+    it('should show the markdown content of an item for full detail', () => {
+      const item = { ...mockRssFeed.items[0], contentMarkdown: 'Full **content**' };
+
+      expect(formatItemMarkdown(item)).toContain('This is the full content of test article 1');
+      expect(formatItemMarkdown(item, 'full')).toContain('\nFull **content**\n');
+      expect(formatItemMarkdown(mockRssFeed.items[1], 'full')).toContain('This is the full content of test article 2');
+      expect(formatFeedMarkdown({ ...mockRssFeed, lastUpdated: new Date(), items: [item] }, 'full')).toContain('Full **content**');
+    });
+
+    it('should prefer a fetched article over the feed content for full detail', () => {
+      const article = { url: 'https://example.com/article1', title: 'Test Article 1', byline: 'Ada', markdown: 'The **whole** story', textLength: 15, extractedAt: '2025-04-01T10:00:00.000Z' };
+      const item = { ...mockRssFeed.items[0], contentMarkdown: 'Full **content**', article };
+
+      expect(formatItemMarkdown(item, 'full')).toContain('\nThe **whole** story\n');
+      expect(formatItemMarkdown(item)).not.toContain('whole');
+      expect(formatArticleMarkdown(article)).toBe('# Test Article 1\nBy Ada\n\nThe **whole** story\n\n[Source](https://example.com/article1)\n');
+    });
+
+    it('should list the media files of an item between its snippet and link', () => {
+      const markdown = formatItemMarkdown({ ...mockRssFeed.items[0], enclosures: [{ url: 'https://example.com/a.mp3', type: 'audio/mpeg' }] });
+
+      expect(markdown).toContain('\n- Audio: [a.mp3](https://example.com/a.mp3) (audio/mpeg)\n[Read More](https://example.com/article1)');
+    });
+
+    it('should format a feed with a heading per item', () => {
+      const markdown = formatFeedMarkdown({
+        title: mockRssFeed.title,
+        description: mockRssFeed.description,
+        items: mockRssFeed.items,
+        lastUpdated: new Date('2025-04-03T12:00:00Z'),
+        feedUrl: 'https://example.com/rss'
+      });
+
+      expect(markdown.startsWith('# Test Feed')).toBe(true);
+      expect(markdown.match(/^## /gm)).toHaveLength(3);
+    });
+  });
+
+  describe('health', () => {
+    it('should show the failure streak and last error of a failing feed', () => {
+      const markdown = formatHealthMarkdown({
+        status: 'failing',
+        consecutiveFailures: 3,
+        lastError: 'Status code 503',
+        lastErrorAt: '2025-04-03T12:00:00.000Z',
+        lastStatus: 503,
+        nextFetchAt: '2025-04-03T12:40:00.000Z'
+      });
+
+      expect(markdown).toContain('Status: failing (3 consecutive failures)');
+      expect(markdown).toContain('Last Error: Status code 503 (HTTP 503)');
+      expect(markdown).toContain('Next Fetch:');
+    });
+
+    it('should explain how to resume a paused feed', () => {
+      const markdown = formatHealthMarkdown({
+        status: 'paused',
+        consecutiveFailures: 10,
+        pausedAt: '2025-04-03T12:00:00.000Z'
+      });
+
+      expect(markdown).toContain('add the feed again to resume');
+      expect(markdown).not.toContain('Next Fetch');
+    });
+
+    it('should show the refresh interval with the next fetch', () => {
+      const markdown = formatHealthMarkdown({
+        status: 'healthy',
+        consecutiveFailures: 0,
+        nextFetchAt: '2025-04-03T12:40:00.000Z',
+        refreshInterval: 7200000
+      });
+
+      expect(markdown).toContain('(refreshing every 2 hours)');
+    });
+
+    it('should round durations to the largest unit that fits twice', () => {
+      expect(formatDuration(60000)).toBe('60 seconds');
+      expect(formatDuration(5400000)).toBe('90 minutes');
+      expect(formatDuration(43567123)).toBe('12 hours');
+      expect(formatDuration(172800000)).toBe('2 days');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for the structured output schemas
+ */
+import {
+  feedItemSchema,
+  feedSchema,
+  feedSummarySchema,
+  toStructuredFeed,
+  toStructuredFeedStatus,
+  toStructuredFeedSummary,
+  toStructuredItem
+} from '../../src/utils/feed-schemas';
+import { mockRssFeed } from '../mocks/rss-feed-mock';
+
+describe('Feed schemas', () => {
+  const feed = {
+    ...mockRssFeed,
+    lastUpdated: new Date('2025-04-03T12:00:00.000Z'),
+    feedUrl: 'https://example.com/rss'
+  };
+
+  it('should convert a feed into a value matching feedSchema', () => {
+    const structured = toStructuredFeed('test', feed);
+
+    expect(feedSchema.safeParse(structured).success).toBe(true);
+    expect(structured.name).toBe('test');
+    expect(structured.lastUpdated).toBe('2025-04-03T12:00:00.000Z');
+    expect(structured.items.length).toBe(mockRssFeed.items.length);
+  });
+
+  describe('feed summaries', () => {
+    const stats = {
+      consecutiveFailures: 0,
+      fetchCount: 3,
+      notModifiedCount: 2,
+      errorCount: 0,
+      bytesReceived: 2048,
+      etag: '"v1"'
+    };
+    const status = toStructuredFeedStatus(
+      'test',
+      'https://example.com/rss',
+      { status: 'healthy', consecutiveFailures: 0, lastStatus: 304 },
+      stats
+    );
+
+    it('should summarize a feed with its item count, health and fetch stats', () => {
+      const summary = toStructuredFeedSummary(feed, status);
+
+      expect(feedSummarySchema.safeParse(summary).success).toBe(true);
+      expect(summary.itemCount).toBe(mockRssFeed.items.length);
+      expect(summary).not.toHaveProperty('items');
+      expect(summary.health.status).toBe('healthy');
+      expect(summary.fetchStats).toEqual(expect.objectContaining({ fetchCount: 3, notModifiedCount: 2 }));
+      expect(summary.fetchStats).not.toHaveProperty('etag');
+    });
+
+    it('should summarize a feed that was never fetched by its name', () => {
+      const summary = toStructuredFeedSummary(null, status);
+
+      expect(feedSummarySchema.safeParse(summary).success).toBe(true);
+      expect(summary.title).toBe('test');
+      expect(summary.itemCount).toBe(0);
+      expect(summary.lastUpdated).toBeUndefined();
+    });
+  });
+
+  it('should drop fields an item schema does not describe', () => {
+    const item = { ...mockRssFeed.items[0], enclosure: { url: 'https://example.com/a.mp3' } };
+
+    expect(toStructuredItem(item)).not.toHaveProperty('enclosure');
+  });
+
+  it('should leave out the publisher HTML, and the markdown content and article unless asked for full detail', () => {
+    const article = { url: 'https://example.com/article1', markdown: 'The whole story', textLength: 15, extractedAt: '2025-04-03T12:00:00.000Z' };
+    const item = { ...mockRssFeed.items[0], content: '<p>Hi<script>track()</script></p>', contentMarkdown: 'Hi', article };
+
+    const summary = toStructuredItem(item);
+    expect(summary).not.toHaveProperty('content');
+    expect(summary).not.toHaveProperty('contentMarkdown');
+    expect(summary).not.toHaveProperty('article');
+    expect(summary.contentSnippet).toBe(item.contentSnippet);
+
+    const full = toStructuredItem(item, 'full');
+    expect(full).not.toHaveProperty('content');
+    expect(full).toEqual(expect.objectContaining({ contentMarkdown: 'Hi', article }));
+    expect(feedItemSchema.safeParse(full).success).toBe(true);
+    expect(toStructuredFeed('test', { ...feed, items: [item] }, 'full').items[0].article).toEqual(article);
+  });
+
+  it('should keep enclosures, thumbnails and episode details', () => {
+    const item = {
+      ...mockRssFeed.items[0],
+      enclosures: [{ url: 'https://example.com/a.mp3', type: 'audio/mpeg', medium: 'audio' }],
+      thumbnail: 'https://example.com/a.jpg',
+      itunes: { episode: 3, explicit: false, keywords: ['news'] }
+    };
+    const structured = toStructuredItem(item);
+
+    expect(feedItemSchema.safeParse(structured).success).toBe(true);
+    expect(structured).toEqual(expect.objectContaining({ enclosures: item.enclosures, thumbnail: item.thumbnail, itunes: item.itunes }));
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for feed validation, against a local HTTP server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { checkEncoding, checkItems } from '../../src/services/feed-validator';
+import { RSSService } from '../../src/services/rss-service';
+
+// A feed that parses but has a few problems
+const PROBLEM_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"><channel><title>Problems</title>
+  <item><title>No guid</title><link>https://example.com/a</link><pubDate>Mon, 01 Apr 2025 10:00:00 GMT</pubDate></item>
+  <item><title>Bad date</title><guid>b</guid><pubDate>sometime last week</pubDate></item>
+  <item><title>Same guid</title><guid>c</guid><pubDate>Mon, 01 Apr 2025 10:00:00 GMT</pubDate></item>
+  <item><title>Same guid again</title><guid>c</guid></item>
+</channel></rss>`;
+
+// An RSS 0.91 feed, with the Netscape DOCTYPE before its root
+const RSS_091_FEED = `<?xml version="1.0"?>
+<!DOCTYPE rss PUBLIC "-//Netscape Communications//DTD RSS 0.91//EN" "http://my.netscape.com/publish/formats/rss-0.91.dtd">
+<rss version="0.91"><channel><title>Old News</title><item><title>Hello</title><link>https://example.com/1</link></item></channel></rss>`;
+
+describe('Feed validation', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/feed') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml; charset=utf-8' }).end(PROBLEM_FEED);
+      } else if (req.url === '/rss091') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' }).end(RSS_091_FEED);
+      } else if (req.url === '/page') {
+        res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html><body>Hello</body></html>');
+      } else if (req.url === '/broken') {
+        res.writeHead(200, { 'Content-Type': 'application/rss+xml' }).end('<rss><channel><title>Broken</title><item></channel>');
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.writeHead(200).end(PROBLEM_FEED), 500);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('checkEncoding', () => {
+    const result = { status: 200, notModified: false, validators: {}, bytes: 0, durationMs: 0 };
+
+    it('should accept UTF-8 however it is spelled', () => {
+      expect(checkEncoding({ ...result, contentType: 'text/xml; charset=UTF-8', body: '<?xml version="1.0" encoding="utf8"?><rss/>' })).toEqual([]);
+    });
+
+    it('should warn about other encodings, disagreeing declarations and invalid bytes', () => {
+      const issues = checkEncoding({
+        ...result,
+        contentType: 'text/xml; charset=utf-8',
+        body: '<?xml version="1.0" encoding="ISO-8859-1"?><rss><title>Caf\uFFFD</title></rss>'
+      });
+      expect(issues.map(issue => issue.code)).toEqual(['encoding_mismatch', 'unsupported_encoding', 'invalid_characters']);
+      expect(issues[1].message).toContain('iso-8859-1');
+    });
+  });
+
+  describe('checkItems', () => {
+    const now = Date.parse('2025-04-02T00:00:00.000Z');
+
+    it('should report missing titles, identifiers and dates', () => {
+      const issues = checkItems([
+        { title: ' ', guid: '1', isoDate: '2025-04-01T00:00:00.000Z' },
+        { title: 'Untrackable' },
+        { title: 'From the future', guid: '2', pubDate: 'Fri, 01 Apr 2033 10:00:00 GMT' }
+      ], now);
+
+      expect(issues.map(({ code, count }) => [code, count])).toEqual([
+        ['untitled_items', 1],
+        ['untrackable_items', 1],
+        ['missing_date', 1],
+        ['future_date', 1]
+      ]);
+      expect(issues[3].examples).toEqual(['From the future: Fri, 01 Apr 2033 10:00:00 GMT']);
+    });
+
+    it('should warn about a feed with no items', () => {
+      expect(checkItems([], now).map(issue => issue.code)).toEqual(['no_items']);
+    });
+  });
+
+  describe('validateFeed', () => {
+    let rssService: RSSService;
+
+    beforeEach(() => {
+      rssService = new RSSService([], { validationTimeout: 200 });
+    });
+
+    it('should report the format, title and item count with warnings for a usable feed', async () => {
+      const report = await rssService.validateFeed(`${baseUrl}/feed`);
+
+      expect(report).toEqual(expect.objectContaining({
+        url: `${baseUrl}/feed`,
+        valid: true,
+        status: 200,
+        format: 'rss',
+        title: 'Problems',
+        itemCount: 4
+      }));
+      expect(report.issues.map(issue => issue.code)).toEqual(['missing_guid', 'duplicate_guid', 'missing_date', 'bad_date']);
+      expect(report.issues[3].examples).toEqual(['Bad date: sometime last week']);
+    });
+
+    it('should accept feeds that declare a DOCTYPE', async () => {
+      const report = await rssService.validateFeed(`${baseUrl}/rss091`);
+
+      expect(report).toEqual(expect.objectContaining({ valid: true, format: 'rss', title: 'Old News', itemCount: 1 }));
+    });
+
+    it('should reject web pages, documents that do not parse and failed fetches', async () => {
+      const codes = async (path: string): Promise<string[]> => {
+        const report = await rssService.validateFeed(`${baseUrl}${path}`);
+        expect(report.valid).toBe(false);
+        return report.issues.filter(issue => issue.severity === 'error').map(issue => issue.code);
+      };
+
+      expect(await codes('/page')).toEqual(['not_a_feed']);
+      expect(await codes('/broken')).toEqual(['parse_error']);
+      expect(await codes('/missing')).toEqual(['http_error']);
+      expect(await codes('/slow')).toEqual(['timeout']);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for FetchScheduler
+ */
+import { FetchScheduler, hostOf } from '../../src/services/fetch-scheduler';
+
+describe('FetchScheduler', () => {
+  // Fetches started by the scheduler, finished by resolving or rejecting them from the test
+  let started: string[];
+  let finish: Map<string, { resolve: () => void; reject: (error: Error) => void }>;
+
+  const run = (feedName: string): Promise<void> => new Promise((resolve, reject) => {
+    started.push(feedName);
+    finish.set(feedName, { resolve, reject });
+  });
+
+  // Let the scheduler's zero-delay timer fire
+  const tick = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 10));
+
+  beforeEach(() => {
+    started = [];
+    finish = new Map();
+  });
+
+  it('should cap the number of fetches running at once', async () => {
+    const scheduler = new FetchScheduler(run, { maxConcurrent: 2, maxPerHost: 2 });
+    ['a', 'b', 'c'].forEach(name => scheduler.schedule(name, `${name}.example.com`, 0));
+    await tick();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.getState().queued.map(entry => entry.feedName)).toEqual(['c']);
+
+    finish.get('a')!.resolve();
+    await tick();
+
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(scheduler.getState().running.map(entry => entry.feedName)).toEqual(['b', 'c']);
+  });
+
+  it('should cap the number of fetches running against one host', async () => {
+    const scheduler = new FetchScheduler(run, { maxConcurrent: 5, maxPerHost: 1 });
+    scheduler.schedule('a', 'example.com', 0);
+    scheduler.schedule('b', 'example.com', 0);
+    scheduler.schedule('c', 'other.example.com', 0);
+    await tick();
+
+    expect(started).toEqual(['a', 'c']);
+
+    finish.get('a')!.reject(new Error('Status code 500'));
+    await tick();
+
+    expect(started).toEqual(['a', 'c', 'b']);
+  });
+
+  it('should run page fetches within the same limits, after due feed fetches', async () => {
+    const scheduler = new FetchScheduler(run, { maxConcurrent: 2, maxPerHost: 1 });
+    scheduler.schedule('a', 'example.com', 0);
+    const pages = ['https://example.com/1', 'https://example.com/2', 'https://other.example.com/3'].map(url =>
+      scheduler.runTask('a', url, () => run(url).then(() => url))
+    );
+    scheduler.schedule('b', 'b.example.com', 0);
+    await tick();
+
+    expect(started).toEqual(['a', 'b']);
+    expect(scheduler.getState().queued.map(entry => entry.url)).toEqual([
+      'https://example.com/1',
+      'https://example.com/2',
+      'https://other.example.com/3'
+    ]);
+
+    finish.get('b')!.resolve();
+    await tick();
+    // The next page on a free host starts; example.com is still busy with the feed
+    expect(started).toEqual(['a', 'b', 'https://other.example.com/3']);
+
+    finish.get('a')!.resolve();
+    await tick();
+    expect(started).toEqual(['a', 'b', 'https://other.example.com/3', 'https://example.com/1']);
+    expect(scheduler.getState().running.map(entry => [entry.feedName, entry.url])).toEqual([
+      ['a', 'https://other.example.com/3'],
+      ['a', 'https://example.com/1']
+    ]);
+
+    finish.get('https://example.com/1')!.resolve();
+    await expect(pages[0]).resolves.toBe('https://example.com/1');
+    await tick();
+    finish.get('https://example.com/2')!.reject(new Error('Status code 404'));
+    finish.get('https://other.example.com/3')!.resolve();
+    await expect(pages[1]).rejects.toThrow('Status code 404');
+    expect(scheduler.getState().running).toEqual([]);
+  });
+
+  it('should run manual refreshes ahead of due background fetches', async () => {
+    const scheduler = new FetchScheduler(run, { maxConcurrent: 1 });
+    ['a', 'b', 'c'].forEach(name => scheduler.schedule(name, `${name}.example.com`, 0));
+    await tick();
+    const refreshed = jest.fn();
+    scheduler.refresh('c', 'c.example.com').then(refreshed);
+
+    expect(scheduler.getState().queued.map(entry => [entry.feedName, entry.priority])).toEqual([
+      ['c', 'high'],
+      ['b', 'normal']
+    ]);
+
+    finish.get('a')!.resolve();
+    await tick();
+    expect(started).toEqual(['a', 'c']);
+    expect(refreshed).not.toHaveBeenCalled();
+
+    finish.get('c')!.resolve();
+    await tick();
+    expect(refreshed).toHaveBeenCalled();
+  });
+
+  it('should keep a pending manual refresh when the feed is rescheduled', async () => {
+    const scheduler = new FetchScheduler(run, { maxConcurrent: 1 });
+    scheduler.schedule('a', 'a.example.com', 0);
+    await tick();
+
+    const refresh = scheduler.refresh('b', 'b.example.com');
+    scheduler.schedule('b', 'b.example.com', 60000);
+    finish.get('a')!.resolve();
+    await tick();
+    finish.get('b')!.resolve();
+
+    await expect(refresh).resolves.toBeUndefined();
+  });
+
+  it('should stretch refresh intervals by up to the jitter fraction', () => {
+    const scheduler = new FetchScheduler(run, { jitter: 0.5 });
+    const now = Date.now();
+    const names = Array.from({ length: 20 }, (_, index) => `feed-${index}`);
+    names.forEach(name => scheduler.schedule(name, 'example.com', 10000));
+
+    const delays = names.map(name => scheduler.getDueAt(name)!.getTime() - now);
+    delays.forEach(delay => {
+      expect(delay).toBeGreaterThanOrEqual(10000);
+      expect(delay).toBeLessThanOrEqual(15100);
+    });
+    expect(new Set(delays).size).toBeGreaterThan(1);
+    names.forEach(name => scheduler.cancel(name));
+  });
+
+  it('should reject waiting refreshes when a fetch is cancelled', async () => {
+    const scheduler = new FetchScheduler(run, { maxConcurrent: 1 });
+    scheduler.schedule('a', 'a.example.com', 0);
+    await tick();
+
+    const refresh = scheduler.refresh('b', 'b.example.com');
+    scheduler.cancel('b');
+
+    await expect(refresh).rejects.toThrow("Fetch of feed 'b' was cancelled");
+    expect(scheduler.getDueAt('b')).toBeUndefined();
+  });
+
+  it('should group fetches by the host of the feed URL', () => {
+    expect(hostOf('https://example.com:8443/feeds/rss')).toBe('example.com:8443');
+    expect(hostOf('not a url')).toBe('not a url');
+  });
+});
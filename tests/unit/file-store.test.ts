@@ -0,0 +1,89 @@
+/**
+ * Unit tests for FileFeedStore
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileFeedStore } from '../../src/storage/file-store';
+import { StoredFeed } from '../../src/types/storage';
+
+describe('FileFeedStore', () => {
+  let dataDir: string;
+
+  const storedFeed: StoredFeed = {
+    config: { name: 'tech news', url: 'https://example.com/rss', refreshInterval: 60000, maxItems: 2 },
+    channel: {
+      title: 'Tech News',
+      feedUrl: 'https://example.com/rss',
+      lastUpdated: '2025-04-03T12:00:00.000Z'
+    },
+    items: [
+      { title: 'Newest', guid: '2', isoDate: '2025-04-03T10:00:00.000Z' },
+      { title: 'Older', guid: '1', isoDate: '2025-04-01T10:00:00.000Z' }
+    ],
+    fetch: {
+      lastFetchedAt: '2025-04-03T12:00:00.000Z',
+      lastSuccessAt: '2025-04-03T12:00:00.000Z',
+      etag: '"abc"',
+      fetchCount: 1,
+      notModifiedCount: 0,
+      errorCount: 0,
+      bytesReceived: 512
+    }
+  };
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'opengathyr-store-'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should load nothing from an empty data dir', async () => {
+    await expect(new FileFeedStore(dataDir).load()).resolves.toEqual([]);
+  });
+
+  it('should reload saved feeds in a new store instance', async () => {
+    await new FileFeedStore(dataDir).saveFeed(storedFeed);
+
+    await expect(new FileFeedStore(dataDir).load()).resolves.toEqual([storedFeed]);
+  });
+
+  it('should write items as JSON lines in a file per feed', async () => {
+    await new FileFeedStore(dataDir).saveFeed(storedFeed);
+
+    const lines = (await fs.readFile(path.join(dataDir, 'items', 'tech%20news.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).guid)).toEqual(['2', '1']);
+  });
+
+  it('should apply writes in call order', async () => {
+    const store = new FileFeedStore(dataDir);
+    const updated = { ...storedFeed, items: storedFeed.items.slice(0, 1) };
+
+    await Promise.all([store.saveFeed(storedFeed), store.saveFeed(updated)]);
+
+    const [loaded] = await new FileFeedStore(dataDir).load();
+    expect(loaded.items).toEqual(updated.items);
+  });
+
+  it('should remove a feed and its items', async () => {
+    const store = new FileFeedStore(dataDir);
+    await store.saveFeed(storedFeed);
+    await store.removeFeed('tech news');
+
+    await expect(new FileFeedStore(dataDir).load()).resolves.toEqual([]);
+    await expect(fs.readdir(path.join(dataDir, 'items'))).resolves.toEqual([]);
+  });
+
+  it('should skip malformed item lines', async () => {
+    await new FileFeedStore(dataDir).saveFeed(storedFeed);
+    await fs.appendFile(path.join(dataDir, 'items', 'tech%20news.jsonl'), '{"title": "Torn');
+
+    const [loaded] = await new FileFeedStore(dataDir).load();
+    expect(loaded.items).toEqual(storedFeed.items);
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for HTML parsing and CSS selector matching
+ */
+import {
+  decodeEntities,
+  HtmlSelectorError,
+  innerHtml,
+  parseHtml,
+  parseSelector,
+  querySelector,
+  querySelectorAll,
+  textContent,
+  toHtml
+} from '../../src/utils/html';
+
+const PAGE = `<!DOCTYPE html>
+<html>
+<head><title>News &amp; views</title><script>if (a < b) { document.write("<p>no</p>"); }</script></head>
+<body>
+  <!-- <div class="post">Commented out</div> -->
+  <ul id="posts">
+    <li class="post featured"><a href="/one">First</a><time datetime="2025-04-02">2 April</time>
+    <li class="post"><a href='/two' data-id=2>Second</a><p>Intro<p>More
+    <li class="post"><span>No link</span>
+  </ul>
+  <table><tr><td>A<td>B<tr><td>C</table>
+  <p>Line<br/>break <img src="x.png"> done</p>
+</body>
+</html>`;
+
+describe('HTML', () => {
+  describe('parseHtml', () => {
+    const root = parseHtml(PAGE);
+
+    it('should close elements implicitly the way browsers do', () => {
+      const items = querySelectorAll(root, 'li');
+      expect(items).toHaveLength(3);
+      expect(items.map(item => item.parent?.attributes.id)).toEqual(['posts', 'posts', 'posts']);
+      expect(querySelectorAll(items[1], 'p').map(textContent)).toEqual(['Intro', 'More\n    ']);
+      expect(querySelectorAll(root, 'tr').map(row => querySelectorAll(row, 'td').map(textContent))).toEqual([['A', 'B'], ['C']]);
+    });
+
+    it('should keep script text as it is and leave it out of the text content', () => {
+      expect(querySelectorAll(root, 'script p')).toEqual([]);
+      expect(textContent(querySelector(root, 'script')!.children[0])).toContain('document.write("<p>no</p>")');
+      expect(textContent(querySelector(root, 'head')!)).toBe('News & views');
+    });
+
+    it('should drop comments and handle void and self-closing elements', () => {
+      expect(querySelectorAll(root, 'div')).toEqual([]);
+      expect(textContent(querySelectorAll(root, 'body > p')[0])).toBe('Linebreak  done');
+      expect(innerHtml(querySelectorAll(root, 'body > p')[0])).toBe('Line<br>break <img src="x.png"> done');
+    });
+
+    it('should decode entities in text and attributes and escape them again when serializing', () => {
+      const fragment = parseHtml('<a title="Q&amp;A &quot;1&quot;">&lt;b&gt; &#8212; &#x263A; &hellip; &unknown;</a>');
+      const link = querySelector(fragment, 'a')!;
+      expect(link.attributes.title).toBe('Q&A "1"');
+      expect(textContent(link)).toBe('<b> — ☺ … &unknown;');
+      expect(toHtml(fragment)).toBe('<a title="Q&amp;A &quot;1&quot;">&lt;b&gt; — ☺ … &amp;unknown;</a>');
+      expect(decodeEntities('&#0; &#xFFFFFFF;')).toBe('&#0; &#xFFFFFFF;');
+    });
+  });
+
+  describe('selectors', () => {
+    const root = parseHtml(PAGE);
+    const texts = (selector: string): string[] => querySelectorAll(root, selector).map(element => textContent(element).trim());
+
+    it('should match types, ids, classes and attributes', () => {
+      expect(texts('#posts .post.featured a')).toEqual(['First']);
+      expect(texts('a[href]')).toEqual(['First', 'Second']);
+      expect(texts('a[data-id="2"]')).toEqual(['Second']);
+      expect(texts("a[href^='/t']")).toEqual(['Second']);
+      expect(texts('a[href$=ne]')).toEqual(['First']);
+      expect(texts('li[class~=featured] time')).toEqual(['2 April']);
+      expect(texts('*[href*=w]')).toEqual(['Second']);
+    });
+
+    it('should match child combinators, position and selector lists in document order', () => {
+      expect(texts('ul > li > span')).toEqual(['No link']);
+      expect(texts('body > li')).toEqual([]);
+      expect(texts('li:first-child > a, li:last-child span')).toEqual(['First', 'No link']);
+      expect(texts('li:nth-child(2) > a')).toEqual(['Second']);
+    });
+
+    it('should reject selectors it cannot evaluate', () => {
+      expect(() => parseSelector('')).toThrow(HtmlSelectorError);
+      expect(() => parseSelector('a >')).toThrow('Invalid selector');
+      expect(() => parseSelector('a,,b')).toThrow('Invalid selector');
+      expect(() => parseSelector('h1 + p')).toThrow("Unsupported combinator '+'");
+      expect(() => parseSelector('a:hover')).toThrow('Unsupported pseudo-class :hover');
+      expect(() => parseSelector('a[href')).toThrow('Invalid selector');
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Unit tests for the Streamable HTTP transport
+ */
+import http from 'http';
+import { z } from 'zod';
+import { server as mcpSdk } from '../../src/adapters/mcpSdkAdapter';
+
+describe('HttpServerTransport', () => {
+  let server: any;
+  let transport: any;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    server = new mcpSdk.McpServer({
+      name: 'test-server',
+      version: '1.0.0',
+      capabilities: { resources: {}, tools: {} }
+    });
+    server.tool('echo', 'Echo tool', { message: z.string() }, async ({ message }: { message: string }) => ({
+      content: [{ type: 'text', text: message }]
+    }));
+
+    transport = new mcpSdk.HttpServerTransport({ port: 0 });
+    await server.connect(transport);
+    endpoint = `http://127.0.0.1:${transport.port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    jest.restoreAllMocks();
+  });
+
+  function post(body: unknown, sessionId?: string): Promise<Response> {
+    return fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {})
+      },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    });
+  }
+
+  async function initialize(): Promise<string> {
+    const response = await post({ jsonrpc: '2.0', id: 'init', method: 'initialize', params: {} });
+    const sessionId = response.headers.get('mcp-session-id') as string;
+    await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+    return sessionId;
+  }
+
+  it('should assign a session id on initialize', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toEqual(expect.any(String));
+    expect(body.id).toBe(1);
+    expect(body.result.serverInfo.name).toBe('test-server');
+  });
+
+  it('should answer requests with their original ids', async () => {
+    const sessionId = await initialize();
+
+    const response = await post({
+      jsonrpc: '2.0',
+      id: 'call-1',
+      method: 'tools/call',
+      params: { name: 'echo', arguments: { message: 'hello' } }
+    }, sessionId);
+
+    expect(await response.json()).toEqual({
+      jsonrpc: '2.0',
+      id: 'call-1',
+      result: { content: [{ type: 'text', text: 'hello' }] }
+    });
+  });
+
+  it('should answer batches with an array of responses', async () => {
+    const sessionId = await initialize();
+
+    const response = await post([
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo', arguments: { message: 'two' } } }
+    ], sessionId);
+    const body = await response.json();
+
+    expect(body.map((message: { id: number }) => message.id)).toEqual([1, 2]);
+    expect(body[0].result.tools[0].name).toBe('echo');
+  });
+
+  it('should accept notifications with 202', async () => {
+    const sessionId = await initialize();
+
+    const response = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+
+    expect(response.status).toBe(202);
+  });
+
+  it('should reject requests without a known session', async () => {
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' })).status).toBe(400);
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, 'unknown')).status).toBe(404);
+  });
+
+  it('should refuse browser origins other than localhost unless allowed', async () => {
+    const withOrigin = (origin: string): Promise<Response> => fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Origin: origin },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })
+    });
+
+    expect((await withOrigin('https://attacker.example.com')).status).toBe(403);
+    expect((await withOrigin('null')).status).toBe(403);
+    expect((await withOrigin('http://localhost:5173')).status).toBe(200);
+    expect((await withOrigin('http://127.0.0.1:8080')).status).toBe(200);
+
+    const allowing = new mcpSdk.HttpServerTransport({ port: 0, allowedOrigins: ['https://agent.example.com'] });
+    await server.connect(allowing);
+    endpoint = `http://127.0.0.1:${allowing.port}/mcp`;
+    try {
+      expect((await withOrigin('https://agent.example.com')).status).toBe(200);
+      expect((await withOrigin('https://attacker.example.com')).status).toBe(403);
+    } finally {
+      await allowing.close();
+    }
+  });
+
+  it('should return a parse error for malformed JSON', async () => {
+    const response = await post('not json');
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('should answer an oversized body with 413', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { padding: 'x'.repeat(5 * 1024 * 1024) } });
+
+    expect(response.status).toBe(413);
+    expect(transport.sessions.size).toBe(0);
+  });
+
+  it('should forget pending requests when the client disconnects', async () => {
+    let finishSlow: () => void = () => {};
+    server.tool('slow', 'Slow tool', {}, () => new Promise(resolve => {
+      finishSlow = () => resolve({ content: [{ type: 'text', text: 'done' }] });
+    }));
+    const sessionId = await initialize();
+
+    const controller = new AbortController();
+    const request = fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'slow', arguments: {} } }),
+      signal: controller.signal
+    }).catch(() => null);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(transport.pending.size).toBe(1);
+
+    controller.abort();
+    await request;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(transport.pending.size).toBe(0);
+
+    // A late response to the abandoned request is dropped
+    finishSlow();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect((await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId)).status).toBe(200);
+  });
+
+  it('should refuse new sessions beyond the limit', async () => {
+    const limited = new mcpSdk.HttpServerTransport({ port: 0, maxSessions: 1 });
+    await server.connect(limited);
+    endpoint = `http://127.0.0.1:${limited.port}/mcp`;
+    try {
+      await initialize();
+      const response = await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+      expect(response.status).toBe(503);
+      expect(response.headers.get('mcp-session-id')).toBeNull();
+    } finally {
+      await limited.close();
+    }
+  });
+
+  it('should close sessions that stay idle past the timeout', async () => {
+    const expiring = new mcpSdk.HttpServerTransport({ port: 0, maxSessions: 1, sessionIdleTimeout: 50 });
+    await server.connect(expiring);
+    endpoint = `http://127.0.0.1:${expiring.port}/mcp`;
+    const closed = jest.fn();
+    expiring.on('sessionClosed', closed);
+    try {
+      const idle = await initialize();
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      // The idle session no longer counts against the limit
+      expect((await post({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} })).status).toBe(200);
+      expect(closed).toHaveBeenCalledWith(idle);
+      expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, idle)).status).toBe(404);
+    } finally {
+      await expiring.close();
+    }
+  });
+
+  it('should end a session on DELETE', async () => {
+    const sessionId = await initialize();
+
+    const response = await fetch(endpoint, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId } });
+    expect(response.status).toBe(200);
+    expect((await post({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, sessionId)).status).toBe(404);
+  });
+
+  it('should stream notifications over server-sent events', async () => {
+    const sessionId = await initialize();
+
+    const received = new Promise<string>((resolve, reject) => {
+      const req = http.get(endpoint, {
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }
+      }, res => {
+        expect(res.headers['content-type']).toBe('text/event-stream');
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          resolve(chunk);
+          req.destroy();
+        });
+        transport.send({ type: 'notification', method: 'notifications/resources/updated', params: { uri: 'feed://news' } });
+      });
+      req.on('error', reject);
+    });
+
+    const event = await received;
+    expect(event).toContain('event: message');
+    expect(event).toContain('"method":"notifications/resources/updated"');
+  });
+
+  it('should stream resource updates only to the sessions that subscribed', async () => {
+    const subscriber = await initialize();
+    const other = await initialize();
+    await post({ jsonrpc: '2.0', id: 1, method: 'resources/subscribe', params: { uri: 'feed://news' } }, subscriber);
+
+    const events: Record<string, string[]> = { [subscriber]: [], [other]: [] };
+    const requests = await Promise.all([subscriber, other].map(sessionId => new Promise<http.ClientRequest>((resolve, reject) => {
+      const req = http.get(endpoint, {
+        headers: { Accept: 'text/event-stream', 'Mcp-Session-Id': sessionId }
+      }, res => {
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => events[sessionId].push(chunk));
+        resolve(req);
+      });
+      req.on('error', reject);
+    })));
+
+    server.notifyResourceUpdated('feed://news');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    requests.forEach(req => req.destroy());
+
+    expect(events[subscriber]).toHaveLength(1);
+    expect(events[subscriber][0]).toContain('"uri":"feed://news"');
+    expect(events[other]).toEqual([]);
+  });
+});
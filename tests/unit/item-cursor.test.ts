@@ -0,0 +1,27 @@
+/**
+ * Unit tests for new-item cursors
+ */
+import { decodeItemCursor, encodeItemCursor } from '../../src/utils/item-cursor';
+
+describe('Item cursors', () => {
+  it('should round-trip the watermark', () => {
+    const seenThrough = new Date('2025-04-03T12:00:00.123Z');
+    const cursor = encodeItemCursor({ seenThrough });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeItemCursor(cursor)).toEqual({ seenThrough });
+  });
+
+  it('should round-trip the last item of a read cut short', () => {
+    const position = { seenThrough: new Date('2025-04-03T12:00:00.123Z'), lastItem: { feedName: 'news', itemId: 'https://example.com/1' } };
+
+    expect(decodeItemCursor(encodeItemCursor(position))).toEqual(position);
+  });
+
+  it('should reject cursors it did not issue', () => {
+    expect(decodeItemCursor('not a cursor')).toBeNull();
+    expect(decodeItemCursor(Buffer.from('{"v":2,"t":0}').toString('base64url'))).toBeNull();
+    expect(decodeItemCursor(Buffer.from('{"v":1,"t":"soon"}').toString('base64url'))).toBeNull();
+    expect(decodeItemCursor(Buffer.from('{"v":1,"t":0,"f":"news"}').toString('base64url'))).toBeNull();
+  });
+});
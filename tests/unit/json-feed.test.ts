@@ -0,0 +1,153 @@
+/**
+ * Unit tests for JSON Feed parsing, and fetching JSON feeds from a local HTTP server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { isJsonDocument, JsonFeedError, parseJsonFeed } from '../../src/utils/json-feed';
+import { RSSService } from '../../src/services/rss-service';
+
+const JSON_FEED = JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'JSON Blog',
+  home_page_url: 'https://example.org/',
+  feed_url: 'https://example.org/feed.json',
+  description: 'A blog with a JSON feed',
+  authors: [{ name: 'Site Author' }],
+  items: [
+    {
+      id: 'post-2',
+      url: 'https://example.org/post-2',
+      title: 'Second post',
+      content_html: '<p>Hello <b>world</b></p>',
+      date_published: '2025-04-02T10:00:00Z',
+      date_modified: '2025-04-03T10:00:00Z',
+      authors: [{ name: 'Ada' }, { name: 'Grace' }],
+      tags: ['news', 'json'],
+      image: 'https://example.org/post-2.png',
+      attachments: [
+        { url: 'https://example.org/episode.mp3', mime_type: 'audio/mpeg', size_in_bytes: 1024, duration_in_seconds: 60, title: 'Episode' },
+        { mime_type: 'image/png' }
+      ]
+    },
+    {
+      id: 1,
+      external_url: 'https://elsewhere.example/story',
+      content_text: 'Plain <text> & more',
+      summary: 'A summary',
+      date_modified: '2025-04-01T08:00:00Z'
+    }
+  ]
+});
+
+describe('JSON Feed', () => {
+  describe('parseJsonFeed', () => {
+    it('should map the feed and its items to the rss-parser shape', () => {
+      const feed = parseJsonFeed(JSON_FEED);
+
+      expect(feed).toEqual(expect.objectContaining({
+        title: 'JSON Blog',
+        description: 'A blog with a JSON feed',
+        link: 'https://example.org/',
+        feedUrl: 'https://example.org/feed.json'
+      }));
+      expect(feed.items[0]).toEqual({
+        title: 'Second post',
+        link: 'https://example.org/post-2',
+        guid: 'post-2',
+        content: '<p>Hello <b>world</b></p>',
+        contentSnippet: 'Hello world',
+        author: 'Ada, Grace',
+        categories: ['news', 'json'],
+        pubDate: '2025-04-02T10:00:00Z',
+        isoDate: '2025-04-02T10:00:00.000Z',
+        enclosures: [{ url: 'https://example.org/episode.mp3', type: 'audio/mpeg', length: 1024, duration: 60, title: 'Episode' }],
+        thumbnail: 'https://example.org/post-2.png'
+      });
+    });
+
+    it('should fall back to external_url, content_text, date_modified and the feed authors', () => {
+      const item = parseJsonFeed(JSON_FEED).items[1];
+
+      expect(item).toEqual(expect.objectContaining({
+        link: 'https://elsewhere.example/story',
+        guid: '1',
+        content: 'Plain &lt;text&gt; &amp; more',
+        contentSnippet: 'Plain <text> & more',
+        author: 'Site Author',
+        isoDate: '2025-04-01T08:00:00.000Z'
+      }));
+    });
+
+    it('should read the single author of version 1.0', () => {
+      const feed = parseJsonFeed(JSON.stringify({
+        version: 'https://jsonfeed.org/version/1',
+        title: 'Old feed',
+        author: { name: 'Solo' },
+        items: [{ id: 'a', content_text: 'Hi' }]
+      }));
+
+      expect(feed.items[0].author).toBe('Solo');
+    });
+
+    it('should reject invalid JSON and documents that are not JSON feeds', () => {
+      expect(() => parseJsonFeed('{ "version": ')).toThrow(JsonFeedError);
+      expect(() => parseJsonFeed('{ "title": "No version", "items": [] }')).toThrow('the version must start with');
+      expect(() => parseJsonFeed('{ "version": "https://jsonfeed.org/version/1.1" }')).toThrow('items must be an array');
+    });
+  });
+
+  describe('isJsonDocument', () => {
+    it('should go by the body first and the Content-Type otherwise', () => {
+      expect(isJsonDocument('\uFEFF  {"version": ""}')).toBe(true);
+      expect(isJsonDocument('<rss version="2.0"></rss>', 'application/json')).toBe(false);
+      expect(isJsonDocument('', 'application/feed+json; charset=utf-8')).toBe(true);
+      expect(isJsonDocument('', 'application/rss+xml')).toBe(false);
+    });
+  });
+
+  describe('with RSSService', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let rssService: RSSService;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/feed.json') {
+          res.writeHead(200, { 'Content-Type': 'application/feed+json' }).end(JSON_FEED);
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      rssService = new RSSService([], { validationTimeout: 200 });
+    });
+
+    it('should fetch a JSON feed into the same feed and item shape', async () => {
+      rssService['feedConfigs'].set('json', { name: 'json', url: `${baseUrl}/feed.json` });
+
+      await rssService.fetchFeed('json');
+
+      const feed = rssService.getFeed('json')!;
+      expect(feed.title).toBe('JSON Blog');
+      expect(feed.items.map(item => item.guid)).toEqual(['post-2', '1']);
+      expect(feed.items[0].author).toBe('Ada, Grace');
+      expect(feed.items[0].enclosures).toHaveLength(1);
+      expect(rssService.search('world').results.map(result => result.item.guid)).toEqual(['post-2']);
+    });
+
+    it('should validate a JSON feed', async () => {
+      const report = await rssService.validateFeed(`${baseUrl}/feed.json`);
+
+      expect(report).toEqual(expect.objectContaining({ valid: true, format: 'json', title: 'JSON Blog', itemCount: 2 }));
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit tests for HTML sanitization and markdown conversion
+ */
+import { htmlToMarkdown } from '../../src/utils/markdown';
+import { sanitizeHtml, stripTrackingParams } from '../../src/utils/sanitize';
+
+describe('Content', () => {
+  describe('sanitizeHtml', () => {
+    it('should drop active content, hidden elements and share buttons', () => {
+      const html = sanitizeHtml(`<div onclick="x()"><script>alert(1)</script><style>p { color: red }</style>
+        <p style="color: red">Text <iframe src="https://ads.example/"></iframe><font color="red">kept</font></p>
+        <p hidden>Hidden</p><span style="display: none">Also hidden</span>
+        <div class="feedflare"><a href="http://feeds.feedburner.com/~ff/Blog?a=1">Share</a></div>
+        <form><input name="q"></form></div>`);
+
+      expect(html.replace(/\s+/g, ' ')).toBe('<div> <p>Text kept</p> </div>');
+    });
+
+    it('should remove tracking pixels and tracking parameters', () => {
+      const html = sanitizeHtml([
+        '<img src="https://example.com/photo.jpg?utm_source=rss&size=2" alt="Photo">',
+        '<img src="https://example.com/pixel.gif" width="1" height="1">',
+        '<img src="http://feeds.feedburner.com/~r/Blog/~4/abc">',
+        '<img src="https://pixel.wp.com/g.gif?blog=1">',
+        '<a href="https://www.doubleclick.net/click">Ad</a>',
+        '<a href="https://example.com/post?id=7&amp;fbclid=xyz&amp;utm_medium=feed">Post</a>'
+      ].join(''));
+
+      expect(html).toBe('<img src="https://example.com/photo.jpg?size=2" alt="Photo"><a href="https://example.com/post?id=7">Post</a>');
+      expect(stripTrackingParams('https://example.com/?utm_campaign=x')).toBe('https://example.com/');
+      expect(stripTrackingParams('not a url')).toBe('not a url');
+    });
+
+    it('should resolve relative URLs and drop unsafe ones', () => {
+      const html = sanitizeHtml(
+        '<a href="../about" title="About" class="x">About</a> <a href="javascript:alert(1)">Click</a> <img data-src="/lazy.png"> <img src="data:image/png;base64,AAAA">',
+        'https://example.com/blog/post'
+      );
+
+      expect(html).toBe('<a href="https://example.com/about" title="About">About</a> <a>Click</a> <img src="https://example.com/lazy.png"> ');
+    });
+  });
+
+  describe('htmlToMarkdown', () => {
+    it('should convert headings, paragraphs, emphasis and links', () => {
+      const markdown = htmlToMarkdown(
+        '<h2>Release <em>notes</em></h2><p>We <strong>shipped</strong> the <a href="/docs">new docs</a>.<br>See <a href="https://example.com/">https://example.com/</a></p><hr><p>Use my_var, not *this* or _that_</p>',
+        'https://example.com/'
+      );
+
+      expect(markdown).toBe([
+        '## Release *notes*',
+        '',
+        'We **shipped** the [new docs](https://example.com/docs).  ',
+        'See <https://example.com/>',
+        '',
+        '---',
+        '',
+        'Use my_var, not \\*this\\* or \\_that\\_'
+      ].join('\n'));
+    });
+
+    it('should convert nested lists, quotes and images', () => {
+      const markdown = htmlToMarkdown(
+        '<ul><li>One<ul><li>One A</li></ul></li><li><p>Two</p><p>More</p></li></ul><ol start="3"><li>Three</li></ol><blockquote><p>Quoted</p><p>- not a list</p></blockquote><p><img src="https://example.com/a.png" alt="A [b]"></p>'
+      );
+
+      expect(markdown).toBe([
+        '- One',
+        '  - One A',
+        '- Two',
+        '',
+        '  More',
+        '',
+        '3. Three',
+        '',
+        '> Quoted',
+        '>',
+        '> \\- not a list',
+        '',
+        '![A \\[b\\]](https://example.com/a.png)'
+      ].join('\n'));
+    });
+
+    it('should keep code as it is, in fences and backticks long enough for its content', () => {
+      const markdown = htmlToMarkdown('<p>Run <code>npm `test`</code></p><pre><code class="language-ts">const a = 1;\n\nif (a) {\n  log(a &lt; 2);\n}\n</code></pre><pre>line 1<br>line 2 ```</pre>');
+
+      expect(markdown).toBe([
+        'Run `` npm `test` ``',
+        '',
+        '```ts',
+        'const a = 1;',
+        '',
+        'if (a) {',
+        '  log(a < 2);',
+        '}',
+        '```',
+        '',
+        '````',
+        'line 1',
+        'line 2 ```',
+        '````'
+      ].join('\n'));
+    });
+
+    it('should turn tables into markdown tables', () => {
+      const markdown = htmlToMarkdown('<table><caption>Prices</caption><thead><tr><th>Plan</th><th>Price</th></tr></thead><tbody><tr><td>Pro | Team</td><td><b>$10</b></td></tr><tr><td>Free</td></tr></tbody></table>');
+
+      expect(markdown).toBe([
+        'Prices',
+        '',
+        '| Plan | Price |',
+        '| --- | --- |',
+        '| Pro \\| Team | **$10** |',
+        '| Free |  |'
+      ].join('\n'));
+    });
+
+    it('should leave out scripts, trackers and empty content', () => {
+      expect(htmlToMarkdown('<div><script>x()</script><img src="https://example.com/p.gif" height="0"><p>  </p>Plain text</div>')).toBe('Plain text');
+      expect(htmlToMarkdown('')).toBe('');
+    });
+  });
+});
@@ -1,143 +1,240 @@
-/**
- * Unit tests for MCP SDK adapter
- */
-import { EventEmitter } from 'events';
-import { server as mcpSdk } from '../../src/adapters/mcpSdkAdapter';
-
-describe('MCP SDK Adapter', () => {
-  describe('McpServer', () => {
-    let server: any;
-    
-    beforeEach(() => {
-      // Create a test server
-      server = new mcpSdk.McpServer({
-        name: 'test-server',
-        version: '1.0.0',
-        capabilities: {
-          resources: {},
-          tools: {}
-        }
-      });
-      
-      // Spy on console.error to avoid polluting test output
-      jest.spyOn(console, 'error').mockImplementation(() => {});
-    });
-    
-    it('should initialize with the correct name and version', () => {
-      expect(server.name).toBe('test-server');
-      expect(server.version).toBe('1.0.0');
-    });
-    
-    it('should register a tool correctly', () => {
-      const description = 'Test tool';
-      const params = { foo: { type: 'string' } };
-      const handler = jest.fn();
-      
-      server.tool('test-tool', description, params, handler);
-      
-      expect(server.tools['test-tool']).toBeDefined();
-      expect(server.tools['test-tool'].description).toBe(description);
-      expect(server.tools['test-tool'].params).toBe(params);
-      expect(server.tools['test-tool'].handler).toBe(handler);
-      expect(server.capabilities.tools['test-tool']).toBeDefined();
-    });
-    
-    it('should register a resource correctly', () => {
-      const description = 'Test resource';
-      const handler = jest.fn();
-      
-      server.resource('test-resource', description, handler);
-      
-      expect(server.resources['test-resource']).toBeDefined();
-      expect(server.resources['test-resource'].description).toBe(description);
-      expect(server.resources['test-resource'].handler).toBe(handler);
-      expect(server.capabilities.resources['test-resource']).toBeDefined();
-    });
-  });
-  
-  describe('StdioServerTransport', () => {
-    let transport: any;
-    let mockStdin: any;
-    let mockStdout: any;
-    
-    beforeEach(() => {
-      // Create mock stdin/stdout
-      mockStdin = new EventEmitter();
-      mockStdin.on = jest.fn().mockImplementation((event, callback) => {
-        EventEmitter.prototype.on.call(mockStdin, event, callback);
-        return mockStdin;
-      });
-      mockStdin.setEncoding = jest.fn();
-      mockStdin.resume = jest.fn();
-      
-      mockStdout = {
-        write: jest.fn()
-      };
-      
-      // Mock process.stdin and process.stdout
-      jest.spyOn(process, 'stdin', 'get').mockReturnValue(mockStdin);
-      jest.spyOn(process, 'stdout', 'get').mockReturnValue(mockStdout);
-      
-      // Spy on console.error but don't mock its implementation
-      jest.spyOn(console, 'error').mockImplementation(() => {});
-      
-      // Create transport
-      transport = new mcpSdk.StdioServerTransport();
-    });
-    
-    afterEach(() => {
-      // Restore all mocks
-      jest.restoreAllMocks();
-    });
-    
-    it('should initialize correctly and set up stdin handlers', () => {
-      expect(mockStdin.on).toHaveBeenCalledWith('data', expect.any(Function));
-      expect(mockStdin.setEncoding).toHaveBeenCalledWith('utf8');
-      expect(mockStdin.resume).toHaveBeenCalled();
-    });
-    
-    it('should emit request events when receiving JSON messages', () => {
-      const requestHandler = jest.fn();
-      transport.on('request', requestHandler);
-      
-      // Simulate receiving a message
-      const message = { type: 'test', data: 'value' };
-      mockStdin.emit('data', Buffer.from(JSON.stringify(message) + '\n'));
-      
-      expect(requestHandler).toHaveBeenCalledWith(message);
-    });
-    
-    it('should handle malformed JSON input and emit initialize request', () => {
-      const requestHandler = jest.fn();
-      transport.on('request', requestHandler);
-      
-      // Simulate receiving malformed JSON
-      mockStdin.emit('data', Buffer.from('malformed json\n'));
-      
-      // Should emit a default initialize request if this is the first message
-      expect(requestHandler).toHaveBeenCalledWith({ type: 'initialize' });
-    });
-    
-    it('should write JSON messages to stdout', () => {
-      const message = { type: 'response', data: 'value' };
-      transport.send(message);
-      
-      expect(mockStdout.write).toHaveBeenCalledWith(JSON.stringify(message) + '\n');
-    });
-    
-    it('should handle errors when sending messages', () => {
-      // Create a custom error we can detect
-      const writeError = new Error('Write error');
-      
-      // Mock the write method to throw our error
-      mockStdout.write.mockImplementation(() => {
-        throw writeError;
-      });
-      
-      // Expect this not to throw
-      expect(() => {
-        transport.send({ type: 'response', data: 'value' });
-      }).not.toThrow();
-    });
-  });
+/**
+ * Unit tests for MCP SDK adapter
+ */
+import { EventEmitter } from 'events';
+import { server as mcpSdk } from '../../src/adapters/mcpSdkAdapter';
+
+describe('MCP SDK Adapter', () => {
+  describe('McpServer', () => {
+    let server: any;
+    
+    beforeEach(() => {
+      // Create a test server
+      server = new mcpSdk.McpServer({
+        name: 'test-server',
+        version: '1.0.0',
+        capabilities: {
+          resources: {},
+          tools: {}
+        }
+      });
+      
+      // Spy on console.error to avoid polluting test output
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+    
+    it('should initialize with the correct name and version', () => {
+      expect(server.name).toBe('test-server');
+      expect(server.version).toBe('1.0.0');
+    });
+    
+    it('should register a tool correctly', () => {
+      const description = 'Test tool';
+      const params = { foo: { type: 'string' } };
+      const handler = jest.fn();
+      
+      server.tool('test-tool', description, params, handler);
+      
+      expect(server.tools['test-tool']).toBeDefined();
+      expect(server.tools['test-tool'].description).toBe(description);
+      expect(server.tools['test-tool'].params).toBe(params);
+      expect(server.tools['test-tool'].handler).toBe(handler);
+      expect(server.capabilities.tools['test-tool']).toBeDefined();
+    });
+    
+    it('should register a resource correctly', () => {
+      const description = 'Test resource';
+      const handler = jest.fn();
+      
+      server.resource('test-resource', description, handler);
+      
+      expect(server.resources['test-resource']).toBeDefined();
+      expect(server.resources['test-resource'].description).toBe(description);
+      expect(server.resources['test-resource'].handler).toBe(handler);
+      expect(server.capabilities.resources['test-resource']).toBeDefined();
+    });
+  });
+  
+  describe('StdioServerTransport', () => {
+    let transport: any;
+    let mockStdin: any;
+    let mockStdout: any;
+    
+    beforeEach(async () => {
+      // Create mock stdin/stdout
+      mockStdin = new EventEmitter();
+      mockStdin.on = jest.fn().mockImplementation((event, callback) => {
+        EventEmitter.prototype.on.call(mockStdin, event, callback);
+        return mockStdin;
+      });
+      mockStdin.setEncoding = jest.fn();
+      mockStdin.resume = jest.fn();
+      
+      mockStdout = {
+        write: jest.fn()
+      };
+      
+      // Mock process.stdin and process.stdout
+      jest.spyOn(process, 'stdin', 'get').mockReturnValue(mockStdin);
+      jest.spyOn(process, 'stdout', 'get').mockReturnValue(mockStdout);
+      
+      // Spy on console.error but don't mock its implementation
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      
+      // Create transport; it reads stdin once ready, as when a server connects
+      transport = new mcpSdk.StdioServerTransport();
+      await transport.ready();
+    });
+    
+    afterEach(() => {
+      // Restore all mocks
+      jest.restoreAllMocks();
+    });
+    
+    it('should initialize correctly and set up stdin handlers', () => {
+      expect(mockStdin.on).toHaveBeenCalledWith('data', expect.any(Function));
+      expect(mockStdin.setEncoding).toHaveBeenCalledWith('utf8');
+      expect(mockStdin.resume).toHaveBeenCalled();
+    });
+    
+    it('should not read stdin before it is ready', () => {
+      mockStdin.on.mockClear();
+      mockStdin.resume.mockClear();
+      
+      new mcpSdk.StdioServerTransport();
+      
+      expect(mockStdin.on).not.toHaveBeenCalled();
+      expect(mockStdin.resume).not.toHaveBeenCalled();
+    });
+    
+    it('should emit request events when receiving JSON messages', () => {
+      const requestHandler = jest.fn();
+      transport.on('request', requestHandler);
+      
+      // Simulate receiving a message
+      const message = { type: 'test', data: 'value' };
+      mockStdin.emit('data', Buffer.from(JSON.stringify(message) + '\n'));
+      
+      expect(requestHandler).toHaveBeenCalledWith(message);
+    });
+    
+    it('should map JSON-RPC tools/call requests to internal requests', () => {
+      const requestHandler = jest.fn();
+      transport.on('request', requestHandler);
+      
+      const message = {
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'get-feed', arguments: { feedName: 'news' } }
+      };
+      mockStdin.emit('data', Buffer.from(JSON.stringify(message) + '\n'));
+      
+      expect(requestHandler).toHaveBeenCalledWith({
+        type: 'tools/call',
+        jsonrpc: '2.0',
+        id: 3,
+        name: 'get-feed',
+        params: { feedName: 'news' }
+      });
+    });
+    
+    it('should send tools/call results as JSON-RPC results', () => {
+      mockStdin.emit('data', Buffer.from(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }) + '\n'));
+      
+      const result = { content: [{ type: 'text', text: 'ok' }], isError: false };
+      transport.send({ type: 'tools/call_result', jsonrpc: '2.0', id: 1, result });
+      
+      expect(mockStdout.write).toHaveBeenCalledWith(JSON.stringify({ jsonrpc: '2.0', id: 1, result }) + '\n');
+    });
+    
+    it('should preserve error codes and data when sending JSON-RPC errors', () => {
+      mockStdin.emit('data', Buffer.from(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }) + '\n'));
+      
+      const data = { issues: [{ field: 'url', message: 'Invalid url' }] };
+      transport.send({ type: 'error', jsonrpc: '2.0', id: 1, error: { message: 'Invalid params', code: -32602, data } });
+      
+      expect(mockStdout.write).toHaveBeenCalledWith(
+        JSON.stringify({ jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'Invalid params', data } }) + '\n'
+      );
+    });
+    
+    it('should send notifications as JSON-RPC notifications without an id', () => {
+      mockStdin.emit('data', Buffer.from(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }) + '\n'));
+      
+      transport.send({ type: 'notification', method: 'notifications/resources/updated', params: { uri: 'feed://news' } });
+      
+      expect(mockStdout.write).toHaveBeenCalledWith(
+        JSON.stringify({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'feed://news' } }) + '\n'
+      );
+    });
+    
+    it('should not fabricate an initialize request for malformed JSON input', () => {
+      const requestHandler = jest.fn();
+      transport.on('request', requestHandler);
+      
+      // Simulate receiving malformed JSON
+      mockStdin.emit('data', Buffer.from('malformed json\n'));
+      
+      expect(requestHandler).not.toHaveBeenCalled();
+    });
+    
+    it('should answer malformed JSON with a parse error and a null id', () => {
+      mockStdin.emit('data', Buffer.from('malformed json\n'));
+      
+      const response = JSON.parse(mockStdout.write.mock.calls[0][0]);
+      expect(response.jsonrpc).toBe('2.0');
+      expect(response.id).toBeNull();
+      expect(response.error.code).toBe(-32700);
+    });
+    
+    it('should answer non-object messages and non-string methods with invalid request errors', () => {
+      const requestHandler = jest.fn();
+      transport.on('request', requestHandler);
+      
+      mockStdin.emit('data', Buffer.from('42\n' + JSON.stringify({ jsonrpc: '2.0', id: 5, method: 7 }) + '\n'));
+      
+      expect(requestHandler).not.toHaveBeenCalled();
+      const [first, second] = mockStdout.write.mock.calls.map(call => JSON.parse(call[0]));
+      expect(first).toEqual(expect.objectContaining({ id: null, error: expect.objectContaining({ code: -32600 }) }));
+      expect(second).toEqual(expect.objectContaining({ id: 5, error: expect.objectContaining({ code: -32600 }) }));
+    });
+    
+    it('should emit notifications separately from requests', () => {
+      const requestHandler = jest.fn();
+      const notificationHandler = jest.fn();
+      transport.on('request', requestHandler);
+      transport.on('notification', notificationHandler);
+      
+      mockStdin.emit('data', Buffer.from(
+        JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }) + '\n' +
+        JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }) + '\n'
+      ));
+      
+      expect(notificationHandler).toHaveBeenCalledWith(expect.objectContaining({ type: 'notifications/initialized' }));
+      expect(requestHandler).toHaveBeenCalledWith(expect.objectContaining({ type: 'ping', id: 1 }));
+    });
+    
+    it('should write JSON messages to stdout', () => {
+      const message = { type: 'response', data: 'value' };
+      transport.send(message);
+      
+      expect(mockStdout.write).toHaveBeenCalledWith(JSON.stringify(message) + '\n');
+    });
+    
+    it('should handle errors when sending messages', () => {
+      // Create a custom error we can detect
+      const writeError = new Error('Write error');
+      
+      // Mock the write method to throw our error
+      mockStdout.write.mockImplementation(() => {
+        throw writeError;
+      });
+      
+      // Expect this not to throw
+      expect(() => {
+        transport.send({ type: 'response', data: 'value' });
+      }).not.toThrow();
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,50 @@
+/**
+ * Unit tests for classifying and describing item media
+ */
+import { FeedItem } from '../../src/types/rss';
+import { formatDuration, formatMediaMarkdown, hasMedia, mediaKind, parseDuration } from '../../src/utils/media';
+
+describe('Media', () => {
+  it('should parse durations in seconds, MM:SS and HH:MM:SS', () => {
+    expect(parseDuration('2530')).toBe(2530);
+    expect(parseDuration('42:10')).toBe(2530);
+    expect(parseDuration('1:02:03')).toBe(3723);
+    expect(parseDuration(95.6)).toBe(96);
+    expect(parseDuration('0')).toBeUndefined();
+    expect(parseDuration('about an hour')).toBeUndefined();
+    expect(formatDuration(3723)).toBe('1:02:03');
+    expect(formatDuration(65)).toBe('1:05');
+  });
+
+  it('should tell the kind of an enclosure by MIME type, medium or extension', () => {
+    expect(mediaKind({ url: 'https://example.com/a', type: 'audio/mpeg' })).toBe('audio');
+    expect(mediaKind({ url: 'https://example.com/a', medium: 'video' })).toBe('video');
+    expect(mediaKind({ url: 'https://example.com/a.JPG?size=large' })).toBe('image');
+    expect(mediaKind({ url: 'https://example.com/a.pdf', type: 'application/pdf' })).toBeUndefined();
+
+    const item: FeedItem = { title: 'Clip', enclosures: [{ url: 'https://example.com/clip.webm' }] };
+    expect(hasMedia(item, 'video')).toBe(true);
+    expect(hasMedia(item, 'media')).toBe(true);
+    expect(hasMedia(item, 'audio')).toBe(false);
+    expect(hasMedia({ title: 'Text' }, 'media')).toBe(false);
+  });
+
+  it('should describe episode details and files as markdown', () => {
+    const markdown = formatMediaMarkdown({
+      title: 'Episode 12',
+      itunes: { episode: 12, season: 2, episodeType: 'full', duration: 2530, explicit: true },
+      enclosures: [
+        { url: 'https://example.com/ep%2012.mp3', type: 'audio/mpeg', length: 40478720 },
+        { url: 'https://example.com/notes', title: 'Show notes' }
+      ]
+    });
+
+    expect(markdown).toBe([
+      'Episode 12, season 2 (full), 42:10, explicit',
+      '- Audio: [ep 12.mp3](https://example.com/ep%2012.mp3) (audio/mpeg, 38.6 MB)',
+      '- File: [Show notes](https://example.com/notes)',
+      ''
+    ].join('\n'));
+    expect(formatMediaMarkdown({ title: 'Text only' })).toBe('');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for OPML import and export
+ */
+import { buildOpml, OpmlError, parseOpml } from '../../src/utils/opml';
+import { FeedConfig } from '../../src/types/rss';
+
+// A subscription list as exported by a typical reader
+const readerExport = `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="1.0">
+  <head><title>My subscriptions</title></head>
+  <body>
+    <outline text="Tech" title="Tech">
+      <outline type="rss" text="Hacker News" title="Hacker News" xmlURL="https://news.ycombinator.com/rss" htmlUrl="https://news.ycombinator.com/"/>
+      <outline text="Languages">
+        <!-- <outline type="rss" text="Commented out" xmlUrl="https://example.com/old.xml"/> -->
+        <outline type="rss" text="Rust &amp; Go" xmlUrl='https://example.com/lang.xml?a=1&amp;b=2'/>
+      </outline>
+    </outline>
+    <outline type="rss" title="Untitled" xmlUrl="https://example.com/untitled.xml"></outline>
+    <outline type="rss" xmlUrl="https://blog.example.org/feed"/>
+    <outline type="rss" text="Hacker News" xmlUrl="https://hnrss.org/frontpage"/>
+  </body>
+</opml>`;
+
+describe('OPML', () => {
+  describe('parseOpml', () => {
+    it('should read feeds with their folders as groups', () => {
+      expect(parseOpml(readerExport)).toEqual([
+        { name: 'Hacker News', url: 'https://news.ycombinator.com/rss', group: 'Tech' },
+        { name: 'Rust & Go', url: 'https://example.com/lang.xml?a=1&b=2', group: 'Tech/Languages' },
+        { name: 'Untitled', url: 'https://example.com/untitled.xml' },
+        { name: 'blog.example.org', url: 'https://blog.example.org/feed' },
+        { name: 'Hacker News-2', url: 'https://hnrss.org/frontpage' }
+      ]);
+    });
+
+    it('should keep character references outside the Unicode range as they are', () => {
+      const opml = '<opml version="2.0"><body><outline type="rss" text="News &#9999999999; &#x41;" xmlUrl="https://example.com/feed"/></body></opml>';
+
+      expect(parseOpml(opml)).toEqual([{ name: 'News &#9999999999; A', url: 'https://example.com/feed' }]);
+    });
+
+    it('should reject documents that are not OPML', () => {
+      expect(() => parseOpml('<rss version="2.0"><channel></channel></rss>')).toThrow(OpmlError);
+    });
+  });
+
+  describe('buildOpml', () => {
+    const feeds: FeedConfig[] = [
+      { name: 'hn', url: 'https://news.ycombinator.com/rss', refreshInterval: 600000, refreshMode: 'fixed', maxItems: 50, group: 'Tech' },
+      { name: 'lang', url: 'https://example.com/lang.xml?a=1&b=2', refreshInterval: 300000, maxItems: 20, group: 'Tech/Languages' },
+      { name: 'news "daily"', url: 'https://example.com/news.xml', refreshInterval: 300000, maxItems: 20, fetchFullText: true },
+      { name: 'releases', url: 'https://example.com/releases', refreshInterval: 300000, maxItems: 20, type: 'html', options: { item: 'article[data-kind="release"]' } }
+    ];
+
+    it('should nest feeds in folders and escape attributes', () => {
+      const opml = buildOpml(feeds, { feedDetails: { hn: { title: 'Hacker News', link: 'https://news.ycombinator.com/' } } });
+      expect(opml).toContain('xmlns:opengathyr="https://github.com/risadams/OpenGathyr/opml"');
+      expect(opml).toContain('<outline type="rss" text="hn" title="Hacker News" xmlUrl="https://news.ycombinator.com/rss" htmlUrl="https://news.ycombinator.com/"');
+      expect(opml).toContain('xmlUrl="https://example.com/lang.xml?a=1&amp;b=2"');
+      expect(opml).toContain('text="news &quot;daily&quot;"');
+      expect(opml.indexOf('<outline text="Tech"')).toBeLessThan(opml.indexOf('<outline text="Languages"'));
+    });
+
+    it('should round-trip names, URLs, groups and settings', () => {
+      // Feeds outside any folder come first
+      expect(parseOpml(buildOpml(feeds))).toEqual([feeds[2], feeds[3], feeds[0], feeds[1]]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for readability-style article extraction
+ */
+import { extractArticle } from '../../src/utils/readability';
+
+// A blog post with the furniture most pages wrap around their articles
+const ARTICLE_PAGE = `<!DOCTYPE html>
+<html>
+<head>
+  <title>Why we rewrote the parser | Example Blog</title>
+  <meta property="og:title" content="Why we rewrote the parser">
+  <meta name="author" content="Ada Lovelace">
+  <script>track('pageview');</script>
+</head>
+<body>
+  <header><a href="/">Example Blog</a><nav><a href="/archive">Archive</a> <a href="/about">About</a></nav></header>
+  <div id="page">
+    <div class="sidebar">
+      <h3>Popular posts</h3>
+      <ul><li><a href="/one">One post everyone reads, again and again</a></li><li><a href="/two">Another post</a></li></ul>
+    </div>
+    <div class="post-body">
+      <h1>Why we rewrote the parser</h1>
+      <p>The old parser grew one special case at a time, and after five years nobody could say which of them still mattered.</p>
+      <p>We started by collecting every feed that had ever broken it, which gave us a corpus of a few thousand documents, most of them small.</p>
+      <p>The new parser reads the same corpus, <a href="/benchmarks">twice as fast</a>, and every special case now has a test next to it.</p>
+      <pre><code class="language-ts">parse(document);</code></pre>
+      <img src="/img/chart.png" alt="Parse times">
+      <div class="share-buttons"><a href="https://twitter.com/share">Share</a></div>
+    </div>
+    <div id="comments">
+      <p>Great post, thanks for writing it up, I learned a lot from it and will share it with my team.</p>
+    </div>
+  </div>
+  <footer><p>Copyright Example Blog, all rights reserved, since the year two thousand and one.</p></footer>
+</body>
+</html>`;
+
+describe('extractArticle', () => {
+  it('should keep the main content and drop navigation, sidebars, comments and footers', () => {
+    const article = extractArticle(ARTICLE_PAGE, 'https://blog.example.com/2025/parser');
+
+    expect(article.markdown).toContain('The old parser grew one special case at a time');
+    expect(article.markdown).toContain('[twice as fast](https://blog.example.com/benchmarks)');
+    expect(article.markdown).toContain('```ts\nparse(document);\n```');
+    expect(article.markdown).toContain('![Parse times](https://blog.example.com/img/chart.png)');
+    ['Archive', 'Popular posts', 'Great post', 'Copyright', 'Share', 'pageview'].forEach(noise => {
+      expect(article.markdown).not.toContain(noise);
+    });
+    expect(article.textLength).toBeGreaterThan(300);
+  });
+
+  it('should take the title and byline from the page metadata', () => {
+    const article = extractArticle(ARTICLE_PAGE, 'https://blog.example.com/2025/parser');
+
+    expect(article.title).toBe('Why we rewrote the parser');
+    expect(article.byline).toBe('Ada Lovelace');
+  });
+
+  it('should fall back to the heading and author markup, and resolve links against <base href>', () => {
+    const page = `<html><head><title>Site name</title><base href="https://cdn.example.com/posts/"></head><body>
+      <article>
+        <h1>A short note</h1>
+        <p class="byline">By <span>Grace Hopper</span></p>
+        <p>Compilers, it turns out, are mostly about <a href="errors">error messages</a>, and only a little about code.</p>
+      </article>
+    </body></html>`;
+    const article = extractArticle(page, 'https://example.com/notes/1');
+
+    expect(article.title).toBe('A short note');
+    expect(article.byline).toBe('By Grace Hopper');
+    expect(article.markdown).toContain('[error messages](https://cdn.example.com/posts/errors)');
+  });
+
+  it('should keep paragraphs that sit next to the main container', () => {
+    const page = `<html><body><div class="wrapper">
+      <div class="entry-content">
+        <p>The first part of the story, long enough to count, with a comma or two, and then some more.</p>
+        <p>The second part of the story, which continues the first one, with yet another comma.</p>
+      </div>
+      <p>A closing paragraph the template put outside the content block, ending with a full stop.</p>
+      <div class="related"><a href="/a">Related post one</a> <a href="/b">Related post two</a></div>
+    </div></body></html>`;
+    const article = extractArticle(page, 'https://example.com/story');
+
+    expect(article.markdown).toContain('The first part of the story');
+    expect(article.markdown).toContain('A closing paragraph the template put outside');
+    expect(article.markdown).not.toContain('Related post');
+  });
+
+  it('should return empty markdown for a page without text', () => {
+    const article = extractArticle('<html><head><title>Empty</title></head><body><nav><a href="/">Home</a></nav></body></html>', 'https://example.com/');
+
+    expect(article.markdown).toBe('');
+    expect(article.title).toBe('Empty');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for refresh intervals from feed hints and item frequency
+ */
+import {
+  computeRefreshInterval,
+  deferToAllowedTime,
+  extractRefreshHints,
+  observedItemInterval
+} from '../../src/utils/refresh-policy';
+
+const HOUR_MS = 60 * 60 * 1000;
+const policy = { minInterval: 60000, maxInterval: 24 * HOUR_MS };
+
+// Items published every `gap` milliseconds, the newest at `newest`
+function itemsEvery(gap: number, count: number, newest: number): { title: string; isoDate: string }[] {
+  return Array.from({ length: count }, (_, index) => ({
+    title: `Item ${index}`,
+    isoDate: new Date(newest - index * gap).toISOString()
+  }));
+}
+
+describe('Refresh policy', () => {
+  describe('extractRefreshHints', () => {
+    it('should read ttl, the syndication update period and skip hours and days', () => {
+      expect(extractRefreshHints({
+        ttl: '60',
+        'sy:updatePeriod': 'daily',
+        'sy:updateFrequency': '4',
+        skipHours: { hour: ['24', '1', '2'] },
+        skipDays: { day: ['Saturday', 'Sunday'] }
+      })).toEqual({
+        ttl: HOUR_MS,
+        updateInterval: 6 * HOUR_MS,
+        skipHours: [0, 1, 2],
+        skipDays: [0, 6]
+      });
+    });
+
+    it('should drop hints that do not parse', () => {
+      expect(extractRefreshHints({
+        ttl: 'soon',
+        'sy:updatePeriod': 'fortnightly',
+        skipHours: 'none',
+        skipDays: { day: ['Caturday'] }
+      })).toEqual({});
+    });
+  });
+
+  describe('observedItemInterval', () => {
+    it('should need at least three dated items', () => {
+      expect(observedItemInterval(itemsEvery(HOUR_MS, 2, Date.now()))).toBeUndefined();
+    });
+
+    it('should poll twice for every typical gap between items', () => {
+      const now = Date.now();
+      expect(observedItemInterval(itemsEvery(2 * HOUR_MS, 5, now), now)).toBe(HOUR_MS);
+    });
+
+    it('should slow down for feeds that have gone quiet', () => {
+      const now = Date.now();
+      expect(observedItemInterval(itemsEvery(HOUR_MS, 5, now - 10 * HOUR_MS), now)).toBe(5 * HOUR_MS);
+    });
+  });
+
+  describe('computeRefreshInterval', () => {
+    const now = Date.now();
+
+    it('should use refreshInterval until there is enough history', () => {
+      expect(computeRefreshInterval(300000, {}, [], policy, now)).toBe(300000);
+    });
+
+    it('should keep refreshInterval above the policy minimum until there is enough history', () => {
+      expect(computeRefreshInterval(1000, {}, [], policy, now)).toBe(policy.minInterval);
+      expect(computeRefreshInterval(1000, {}, itemsEvery(HOUR_MS, 2, now), policy, now)).toBe(policy.minInterval);
+    });
+
+    it('should not go below a configured interval once the pace is learned', () => {
+      expect(computeRefreshInterval(30 * 60000, {}, itemsEvery(1000, 5, now), policy, now, 30 * 60000)).toBe(30 * 60000);
+      expect(computeRefreshInterval(30 * 60000, {}, itemsEvery(4 * HOUR_MS, 5, now), policy, now, 30 * 60000)).toBe(2 * HOUR_MS);
+    });
+
+    it('should keep learned intervals within the policy bounds', () => {
+      expect(computeRefreshInterval(300000, {}, itemsEvery(1000, 5, now), policy, now)).toBe(60000);
+      expect(computeRefreshInterval(300000, {}, itemsEvery(7 * 24 * HOUR_MS, 5, now), policy, now)).toBe(24 * HOUR_MS);
+    });
+
+    it('should not refresh more often than the feed ttl or update period', () => {
+      expect(computeRefreshInterval(300000, { ttl: HOUR_MS }, [], policy, now)).toBe(HOUR_MS);
+      expect(computeRefreshInterval(300000, { updateInterval: 2 * HOUR_MS }, [], policy, now)).toBe(2 * HOUR_MS);
+      expect(computeRefreshInterval(300000, { ttl: 60000 }, [], policy, now)).toBe(300000);
+    });
+  });
+
+  describe('deferToAllowedTime', () => {
+    it('should leave times outside skipped hours and days alone', () => {
+      const time = Date.parse('2025-04-02T10:30:00.000Z'); // a Wednesday
+      expect(deferToAllowedTime(time, { skipHours: [0, 1], skipDays: [0] })).toBe(time);
+    });
+
+    it('should move a time to the start of the next allowed hour', () => {
+      const time = Date.parse('2025-04-02T01:30:00.000Z');
+      expect(new Date(deferToAllowedTime(time, { skipHours: [0, 1, 2] })).toISOString()).toBe('2025-04-02T03:00:00.000Z');
+    });
+
+    it('should skip whole days', () => {
+      const time = Date.parse('2025-04-05T12:00:00.000Z'); // a Saturday
+      expect(new Date(deferToAllowedTime(time, { skipDays: [0, 6] })).toISOString()).toBe('2025-04-07T00:00:00.000Z');
+    });
+
+    it('should ignore hints that skip every hour', () => {
+      const time = Date.parse('2025-04-02T10:30:00.000Z');
+      const allHours = Array.from({ length: 24 }, (_, hour) => hour);
+      expect(deferToAllowedTime(time, { skipHours: allHours })).toBe(time);
+    });
+  });
+});
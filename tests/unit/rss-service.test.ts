@@ -1,249 +1,877 @@
-/**
- * Unit tests for RSSService
- */
-import { RSSService, DEFAULT_REFRESH_INTERVAL, DEFAULT_MAX_ITEMS } from '../../src/services/rss-service';
-import { mockParserResponse } from '../mocks/rss-feed-mock';
-
-// Mock the rss-parser module
-jest.mock('rss-parser', () => {
-  return function() {
-    return {
-      parseURL: jest.fn().mockImplementation((url) => {
-        if (url === 'https://example.com/error') {
-          return Promise.reject(new Error('Failed to fetch RSS feed'));
-        }
-        return Promise.resolve(mockParserResponse);
-      })
-    };
-  };
-});
-
-describe('RSSService', () => {
-  let rssService: RSSService;
-  
-  beforeEach(() => {
-    // Clear all mocks before each test
-    jest.clearAllMocks();
-    
-    // Create a new instance with no initial feeds
-    rssService = new RSSService();
-    
-    // Spy on console.error to avoid polluting test output
-    jest.spyOn(console, 'error').mockImplementation(() => {});
-  });
-  
-  afterEach(() => {
-    // Cleanup intervals that might have been created
-    if (rssService) {
-      const feedNames = Array.from(rssService['feedConfigs'].keys());
-      feedNames.forEach(name => {
-        rssService['stopFeedRefresh'](name);
-      });
-    }
-  });
-
-  describe('constructor', () => {
-    it('should initialize with empty feeds when no feeds are provided', () => {
-      expect(rssService['feeds']).toEqual({});
-      expect(rssService['feedConfigs'].size).toBe(0);
-      expect(rssService['refreshIntervals'].size).toBe(0);
-    });
-
-    it('should initialize with provided feeds', async () => {
-      const testFeeds = [
-        { name: 'test1', url: 'https://example.com/rss1' },
-        { name: 'test2', url: 'https://example.com/rss2' }
-      ];
-      
-      rssService = new RSSService(testFeeds);
-      
-      // Wait for async operations to complete
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      expect(rssService['feedConfigs'].size).toBe(2);
-      expect(rssService['feedConfigs'].has('test1')).toBe(true);
-      expect(rssService['feedConfigs'].has('test2')).toBe(true);
-    });
-  });
-
-  describe('addFeed', () => {
-    it('should add a new feed with default settings', async () => {
-      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
-      rssService.addFeed(feedConfig);
-      
-      // Wait for async operations to complete
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      expect(rssService['feedConfigs'].has('test')).toBe(true);
-      const config = rssService['feedConfigs'].get('test');
-      expect(config.refreshInterval).toBe(DEFAULT_REFRESH_INTERVAL);
-      expect(config.maxItems).toBe(DEFAULT_MAX_ITEMS);
-      expect(rssService['refreshIntervals'].has('test')).toBe(true);
-      expect(rssService['feeds']['test']).toBeDefined();
-    });
-
-    it('should add a feed with custom settings', async () => {
-      const feedConfig = { 
-        name: 'custom', 
-        url: 'https://example.com/rss',
-        refreshInterval: 60000,
-        maxItems: 10
-      };
-      
-      rssService.addFeed(feedConfig);
-      
-      // Wait for async operations to complete
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      const config = rssService['feedConfigs'].get('custom');
-      expect(config.refreshInterval).toBe(60000);
-      expect(config.maxItems).toBe(10);
-    });
-
-    it('should update an existing feed', async () => {
-      const feedConfig1 = { name: 'test', url: 'https://example.com/rss1' };
-      const feedConfig2 = { name: 'test', url: 'https://example.com/rss2' };
-      
-      rssService.addFeed(feedConfig1);
-      
-      // Wait for the first feed to be loaded
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      // Update with the second feed
-      rssService.addFeed(feedConfig2);
-      
-      // Wait for the second feed to be loaded
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      expect(rssService['feedConfigs'].get('test').url).toBe('https://example.com/rss2');
-    });
-  });
-
-  describe('removeFeed', () => {
-    it('should remove an existing feed', async () => {
-      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
-      rssService.addFeed(feedConfig);
-      
-      // Wait for async operations to complete
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      expect(rssService['feedConfigs'].has('test')).toBe(true);
-      
-      rssService.removeFeed('test');
-      
-      expect(rssService['feedConfigs'].has('test')).toBe(false);
-      expect(rssService['refreshIntervals'].has('test')).toBe(false);
-      expect(rssService['feeds']['test']).toBeUndefined();
-    });
-
-    it('should handle removing a non-existent feed', () => {
-      rssService.removeFeed('nonexistent');
-      expect(console.error).toHaveBeenCalled();
-    });
-  });
-
-  describe('getFeed methods', () => {
-    beforeEach(async () => {
-      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
-      rssService.addFeed(feedConfig);
-      
-      // Wait for feed to be loaded
-      await new Promise(resolve => setTimeout(resolve, 100));
-    });
-
-    it('should get all feeds', () => {
-      const feeds = rssService.getAllFeeds();
-      expect(feeds.test).toBeDefined();
-      expect(feeds.test.title).toBe(mockParserResponse.title);
-    });
-
-    it('should get a specific feed by name', () => {
-      const feed = rssService.getFeed('test');
-      expect(feed).toBeDefined();
-      expect(feed.title).toBe(mockParserResponse.title);
-    });
-
-    it('should return null when getting a non-existent feed', () => {
-      const feed = rssService.getFeed('nonexistent');
-      expect(feed).toBeNull();
-    });
-
-    it('should get items from a specific feed', () => {
-      const items = rssService.getFeedItems('test');
-      expect(items.length).toBe(mockParserResponse.items.length);
-    });
-
-    it('should return empty array when getting items from a non-existent feed', () => {
-      const items = rssService.getFeedItems('nonexistent');
-      expect(items).toEqual([]);
-    });
-  });
-
-  describe('searchFeeds', () => {
-    beforeEach(async () => {
-      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
-      rssService.addFeed(feedConfig);
-      
-      // Wait for feed to be loaded
-      await new Promise(resolve => setTimeout(resolve, 100));
-    });
-
-    it('should find items by title', () => {
-      const results = rssService.searchFeeds('Test Article 1');
-      expect(results.length).toBe(1);
-      expect(results[0].title).toBe('Test Article 1');
-    });
-
-    it('should find items by content', () => {
-      const results = rssService.searchFeeds('special keywords');
-      expect(results.length).toBe(1);
-      expect(results[0].title).toBe('Special Keywords Article');
-    });
-
-    it('should return empty array when no matches are found', () => {
-      const results = rssService.searchFeeds('nonexistent content');
-      expect(results).toEqual([]);
-    });
-  });
-
-  describe('fetchFeed', () => {
-    it('should fetch and parse a feed', async () => {
-      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
-      rssService.addFeed(feedConfig);
-      
-      // The addFeed method already calls fetchFeed, so we'll call it again manually
-      await rssService.fetchFeed('test');
-      
-      expect(rssService['feeds']['test']).toBeDefined();
-      expect(rssService['feeds']['test'].title).toBe(mockParserResponse.title);
-      expect(rssService['feeds']['test'].items.length).toBe(mockParserResponse.items.length);
-    });
-
-    it('should limit the number of items based on maxItems', async () => {
-      const feedConfig = { 
-        name: 'limited', 
-        url: 'https://example.com/rss',
-        maxItems: 1 
-      };
-      
-      rssService.addFeed(feedConfig);
-      
-      // Wait for async operations to complete
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      expect(rssService['feeds']['limited'].items.length).toBe(1);
-    });
-
-    it('should handle errors when fetching a feed', async () => {
-      const feedConfig = { name: 'error', url: 'https://example.com/error' };
-      rssService.addFeed(feedConfig);
-      
-      // The initial fetch will fail but we need to test the explicit call
-      await expect(rssService.fetchFeed('error')).rejects.toThrow('Failed to fetch RSS feed');
-    });
-
-    it('should throw an error when fetching a non-existent feed', async () => {
-      await expect(rssService.fetchFeed('nonexistent')).rejects.toThrow("No feed with name 'nonexistent' found");
-    });
-  });
-});
\ No newline at end of file
+/**
+ * Unit tests for RSSService
+ */
+import { RSSService, DEFAULT_REFRESH_INTERVAL, DEFAULT_MAX_ITEMS, DEFAULT_NEW_ITEMS_LIMIT } from '../../src/services/rss-service';
+import { MemoryFeedStore } from '../../src/storage/memory-store';
+import { parseOpml } from '../../src/utils/opml';
+import { mockParserResponse, mockFetchResult } from '../mocks/rss-feed-mock';
+
+// Mock the rss-parser module
+jest.mock('rss-parser', () => {
+  return function() {
+    return {
+      parseString: jest.fn().mockResolvedValue(mockParserResponse)
+    };
+  };
+});
+
+// Mock the HTTP layer so no feed is actually downloaded
+jest.mock('../../src/services/feed-fetcher', () => ({
+  ...jest.requireActual('../../src/services/feed-fetcher'),
+  FeedFetcher: function() {
+    return {
+      fetch: jest.fn().mockImplementation((url) => {
+        if (url === 'https://example.com/error') {
+          return Promise.reject(new Error('Failed to fetch RSS feed'));
+        }
+        return Promise.resolve(mockFetchResult);
+      })
+    };
+  }
+}));
+
+describe('RSSService', () => {
+  let rssService: RSSService;
+  
+  beforeEach(() => {
+    // Clear all mocks before each test
+    jest.clearAllMocks();
+    
+    // Create a new instance with no initial feeds
+    rssService = new RSSService();
+    
+    // Spy on console.error to avoid polluting test output
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  
+  afterEach(() => {
+    // Cleanup intervals that might have been created
+    if (rssService) {
+      const feedNames = Array.from(rssService['feedConfigs'].keys());
+      feedNames.forEach(name => {
+        rssService['stopFeedRefresh'](name);
+      });
+    }
+  });
+
+  describe('constructor', () => {
+    it('should initialize with empty feeds when no feeds are provided', () => {
+      expect(rssService['feeds']).toEqual({});
+      expect(rssService['feedConfigs'].size).toBe(0);
+      expect(rssService.getFetchQueue().scheduled).toEqual([]);
+    });
+
+    it('should initialize with provided feeds', async () => {
+      const testFeeds = [
+        { name: 'test1', url: 'https://example.com/rss1' },
+        { name: 'test2', url: 'https://example.com/rss2' }
+      ];
+      
+      rssService = new RSSService(testFeeds);
+      
+      // Wait for async operations to complete
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService['feedConfigs'].size).toBe(2);
+      expect(rssService['feedConfigs'].has('test1')).toBe(true);
+      expect(rssService['feedConfigs'].has('test2')).toBe(true);
+    });
+  });
+
+  describe('addFeed', () => {
+    it('should add a new feed with default settings', async () => {
+      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
+      rssService.addFeed(feedConfig);
+      
+      // Wait for async operations to complete
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService['feedConfigs'].has('test')).toBe(true);
+      const config = rssService['feedConfigs'].get('test');
+      expect(config.refreshInterval).toBe(DEFAULT_REFRESH_INTERVAL);
+      expect(config.maxItems).toBe(DEFAULT_MAX_ITEMS);
+      expect(rssService.getFeedHealth('test').nextFetchAt).toBeDefined();
+      expect(rssService['feeds']['test']).toBeDefined();
+    });
+
+    it('should add a feed with custom settings', async () => {
+      const feedConfig = { 
+        name: 'custom', 
+        url: 'https://example.com/rss',
+        refreshInterval: 60000,
+        maxItems: 10
+      };
+      
+      rssService.addFeed(feedConfig);
+      
+      // Wait for async operations to complete
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      const config = rssService['feedConfigs'].get('custom');
+      expect(config.refreshInterval).toBe(60000);
+      expect(config.maxItems).toBe(10);
+    });
+
+    it('should update an existing feed', async () => {
+      const feedConfig1 = { name: 'test', url: 'https://example.com/rss1' };
+      const feedConfig2 = { name: 'test', url: 'https://example.com/rss2' };
+      
+      rssService.addFeed(feedConfig1);
+      
+      // Wait for the first feed to be loaded
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      // Update with the second feed
+      rssService.addFeed(feedConfig2);
+      
+      // Wait for the second feed to be loaded
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService['feedConfigs'].get('test').url).toBe('https://example.com/rss2');
+    });
+  });
+
+  describe('importFeeds', () => {
+    it('should add new feeds, update known ones and skip duplicate subscriptions', () => {
+      rssService.addFeed({ name: 'news', url: 'https://example.com/news', maxItems: 5 });
+      rssService.addFeed({ name: 'tech', url: 'https://example.com/tech' });
+      
+      const result = rssService.importFeeds([
+        { name: 'news', url: 'https://example.com/news', group: 'Daily' },
+        { name: 'tech-copy', url: 'https://example.com/tech' },
+        { name: 'tech', url: 'https://example.com/other-tech' },
+        { name: 'blog', url: 'https://example.com/blog', refreshMode: 'fixed' }
+      ]);
+      
+      expect(result).toEqual({
+        added: ['tech-2', 'blog'],
+        updated: ['news'],
+        skipped: [{ name: 'tech-copy', url: 'https://example.com/tech', reason: "Already subscribed as 'tech'" }]
+      });
+      expect(rssService.getFeedConfig('news')).toMatchObject({ maxItems: 5, group: 'Daily' });
+      expect(rssService.getFeedConfig('tech')!.url).toBe('https://example.com/tech');
+      expect(rssService.getFeedConfig('tech-2')!.url).toBe('https://example.com/other-tech');
+      expect(rssService.getFeedConfig('blog')!.refreshMode).toBe('fixed');
+    });
+
+    it('should skip outlines whose source type has no adapter and import the rest', () => {
+      const feeds = parseOpml(`<?xml version="1.0"?>
+<opml version="2.0" xmlns:opengathyr="https://github.com/risadams/OpenGathyr/opml"><body>
+  <outline type="rss" text="first" xmlUrl="https://example.com/first"/>
+  <outline type="rss" text="plugin" xmlUrl="https://example.com/plugin" opengathyr:sourceType="mastodon"/>
+  <outline type="rss" text="last" xmlUrl="https://example.com/last"/>
+</body></opml>`);
+      
+      const result = rssService.importFeeds(feeds);
+      
+      expect(result.added).toEqual(['first', 'last']);
+      expect(result.skipped).toEqual([
+        { name: 'plugin', url: 'https://example.com/plugin', reason: expect.stringContaining("Unknown source type 'mastodon'") }
+      ]);
+      expect(rssService.hasFeed('plugin')).toBe(false);
+    });
+  });
+
+  describe('removeFeed', () => {
+    it('should remove an existing feed', async () => {
+      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
+      rssService.addFeed(feedConfig);
+      
+      // Wait for async operations to complete
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService['feedConfigs'].has('test')).toBe(true);
+      
+      rssService.removeFeed('test');
+      
+      expect(rssService['feedConfigs'].has('test')).toBe(false);
+      expect(rssService.getFeedHealth('test').nextFetchAt).toBeUndefined();
+      expect(rssService['feeds']['test']).toBeUndefined();
+    });
+
+    it('should handle removing a non-existent feed', () => {
+      rssService.removeFeed('nonexistent');
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('getFeed methods', () => {
+    beforeEach(async () => {
+      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
+      rssService.addFeed(feedConfig);
+      
+      // Wait for feed to be loaded
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+
+    it('should get all feeds', () => {
+      const feeds = rssService.getAllFeeds();
+      expect(feeds.test).toBeDefined();
+      expect(feeds.test.title).toBe(mockParserResponse.title);
+    });
+
+    it('should get a specific feed by name', () => {
+      const feed = rssService.getFeed('test');
+      expect(feed).toBeDefined();
+      expect(feed.title).toBe(mockParserResponse.title);
+    });
+
+    it('should report whether a feed is configured', () => {
+      expect(rssService.hasFeed('test')).toBe(true);
+      expect(rssService.hasFeed('nonexistent')).toBe(false);
+      expect(rssService.getFeedNames()).toEqual(['test']);
+    });
+
+    it('should return null when getting a non-existent feed', () => {
+      const feed = rssService.getFeed('nonexistent');
+      expect(feed).toBeNull();
+    });
+
+    it('should get items from a specific feed', () => {
+      const items = rssService.getFeedItems('test');
+      expect(items.length).toBe(mockParserResponse.items.length);
+    });
+
+    it('should get a single item by guid or link', () => {
+      expect(rssService.getFeedItem('test', '2').title).toBe('Test Article 2');
+      expect(rssService.getFeedItem('test', 'https://example.com/special').title).toBe('Special Keywords Article');
+      expect(rssService.getFeedItem('test', 'missing')).toBeNull();
+    });
+
+    it('should get recent items grouped by feed', () => {
+      const recent = rssService.getRecentItems(new Date('2025-04-02T00:00:00.000Z'));
+      expect(recent.test.map(item => item.guid)).toEqual(['2', '3']);
+      expect(rssService.getRecentItems(new Date('2025-04-02T00:00:00.000Z'), ['other'])).toEqual({});
+    });
+
+    it('should return empty array when getting items from a non-existent feed', () => {
+      const items = rssService.getFeedItems('nonexistent');
+      expect(items).toEqual([]);
+    });
+  });
+
+  describe('searchFeeds', () => {
+    beforeEach(async () => {
+      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
+      rssService.addFeed(feedConfig);
+      
+      // Wait for feed to be loaded
+      await new Promise(resolve => setTimeout(resolve, 100));
+    });
+
+    it('should find items by title', () => {
+      const results = rssService.searchFeeds('Test Article 1');
+      expect(results.length).toBe(1);
+      expect(results[0].title).toBe('Test Article 1');
+    });
+
+    it('should find items by content', () => {
+      const results = rssService.searchFeeds('special keywords');
+      expect(results.length).toBe(1);
+      expect(results[0].title).toBe('Special Keywords Article');
+    });
+
+    it('should return empty array when no matches are found', () => {
+      const results = rssService.searchFeeds('nonexistent content');
+      expect(results).toEqual([]);
+    });
+
+    it('should rank results and tag them with their feed', () => {
+      const { total, results } = rssService.search('article -special', { limit: 1 });
+      expect(total).toBe(2);
+      expect(results[0].feedName).toBe('test');
+      expect(results[0].item.title).toBe('Test Article 2');
+      expect(results[0].snippet).toContain('**article**');
+    });
+
+    it('should stop finding items of removed feeds', () => {
+      rssService.removeFeed('test');
+      expect(rssService.searchFeeds('article')).toEqual([]);
+    });
+  });
+
+  describe('fetchFeed', () => {
+    it('should fetch and parse a feed', async () => {
+      const feedConfig = { name: 'test', url: 'https://example.com/rss' };
+      rssService.addFeed(feedConfig);
+      
+      // The addFeed method already calls fetchFeed, so we'll call it again manually
+      await rssService.fetchFeed('test');
+      
+      expect(rssService['feeds']['test']).toBeDefined();
+      expect(rssService['feeds']['test'].title).toBe(mockParserResponse.title);
+      expect(rssService['feeds']['test'].items.length).toBe(mockParserResponse.items.length);
+    });
+
+    it('should limit the number of items based on maxItems', async () => {
+      const feedConfig = { 
+        name: 'limited', 
+        url: 'https://example.com/rss',
+        maxItems: 1 
+      };
+      
+      rssService.addFeed(feedConfig);
+      
+      // Wait for async operations to complete
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService['feeds']['limited'].items.length).toBe(1);
+    });
+
+    it('should handle errors when fetching a feed', async () => {
+      const feedConfig = { name: 'error', url: 'https://example.com/error' };
+      rssService.addFeed(feedConfig);
+      
+      // The initial fetch will fail but we need to test the explicit call
+      await expect(rssService.fetchFeed('error')).rejects.toThrow('Failed to fetch RSS feed');
+    });
+
+    it('should emit feedUpdated with all items on the first fetch', async () => {
+      const listener = jest.fn();
+      rssService.on('feedUpdated', listener);
+      
+      rssService.addFeed({ name: 'test', url: 'https://example.com/rss' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].feedName).toBe('test');
+      expect(listener.mock.calls[0][0].added.length).toBe(mockParserResponse.items.length);
+      expect(listener.mock.calls[0][0].changed).toEqual([]);
+    });
+
+    it('should only emit feedUpdated when a refresh adds or changes items', async () => {
+      rssService.addFeed({ name: 'test', url: 'https://example.com/rss' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      const listener = jest.fn();
+      rssService.on('feedUpdated', listener);
+      
+      await rssService.fetchFeed('test');
+      expect(listener).not.toHaveBeenCalled();
+      
+      const [first, ...rest] = mockParserResponse.items;
+      rssService['parser'].parseString.mockResolvedValueOnce({
+        ...mockParserResponse,
+        items: [
+          { title: 'Breaking Item', link: 'https://example.com/breaking', guid: '4' },
+          { ...first, title: 'Test Article 1 (updated)' },
+          ...rest
+        ]
+      });
+      await rssService.fetchFeed('test');
+      
+      expect(listener).toHaveBeenCalledTimes(1);
+      const update = listener.mock.calls[0][0];
+      expect(update.added.map(item => item.guid)).toEqual(['4']);
+      expect(update.changed.map(item => item.guid)).toEqual(['1']);
+    });
+
+    it('should keep the content of each item as sanitized markdown', async () => {
+      rssService['feedConfigs'].set('test', { name: 'test', url: 'https://example.com/rss' });
+      rssService['parser'].parseString.mockResolvedValueOnce({
+        ...mockParserResponse,
+        items: [
+          {
+            title: 'Post',
+            link: 'https://example.com/blog/post',
+            guid: 'post',
+            content: '<p>Read <a href="../docs?utm_source=rss">the docs</a></p><script>track()</script><img src="https://example.com/t.gif" width="1" height="1">'
+          },
+          { title: 'Snippet only', guid: 'snippet', contentSnippet: 'Plain' }
+        ]
+      });
+
+      await rssService.fetchFeed('test');
+
+      const [post, snippet] = rssService.getFeedItems('test');
+      expect(post.contentMarkdown).toBe('Read [the docs](https://example.com/docs)');
+      expect(post.content).toContain('<script>');
+      expect(snippet.contentMarkdown).toBeUndefined();
+    });
+
+    it('should throw an error when fetching a non-existent feed', async () => {
+      await expect(rssService.fetchFeed('nonexistent')).rejects.toThrow("No feed with name 'nonexistent' found");
+    });
+  });
+
+  describe('persistence', () => {
+    const storedFeed = {
+      config: { name: 'stored', url: 'https://example.com/rss', maxItems: 2 },
+      channel: {
+        title: 'Stored Feed',
+        feedUrl: 'https://example.com/rss',
+        lastUpdated: '2025-04-03T12:00:00.000Z'
+      },
+      items: [
+        { title: 'Old Article', guid: 'old', isoDate: new Date().toISOString() }
+      ],
+      fetch: { lastSuccessAt: '2025-04-03T12:00:00.000Z', fetchCount: 1, notModifiedCount: 0, errorCount: 0, bytesReceived: 512 }
+    };
+
+    it('should save feeds, items and fetch metadata to the store', async () => {
+      const store = new MemoryFeedStore();
+      rssService = new RSSService([], { store });
+      
+      rssService.addFeed({ name: 'test', url: 'https://example.com/rss' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await rssService.flush();
+      
+      const [saved] = await store.load();
+      expect(saved.config.name).toBe('test');
+      expect(saved.channel.title).toBe(mockParserResponse.title);
+      expect(saved.items.length).toBe(mockParserResponse.items.length);
+      expect(saved.fetch.lastSuccessAt).toBeDefined();
+    });
+
+    it('should restore stored feeds before their first fetch completes', async () => {
+      const store = new MemoryFeedStore();
+      await store.saveFeed(storedFeed);
+      rssService = new RSSService([], { store });
+      rssService['fetcher'].fetch.mockReturnValueOnce(new Promise(() => {}));
+      
+      await rssService.restore();
+      
+      expect(rssService.hasFeed('stored')).toBe(true);
+      expect(rssService.getFeed('stored').title).toBe('Stored Feed');
+      expect(rssService.getFeed('stored').lastUpdated).toEqual(new Date('2025-04-03T12:00:00.000Z'));
+      expect(rssService.getFeedItem('stored', 'old').title).toBe('Old Article');
+    });
+
+    it('should let given feeds override stored configs', async () => {
+      const store = new MemoryFeedStore();
+      await store.saveFeed(storedFeed);
+      rssService = new RSSService([], { store });
+      
+      await rssService.restore([{ name: 'stored', url: 'https://example.com/other', maxItems: 5 }]);
+      
+      expect(rssService['feedConfigs'].get('stored').url).toBe('https://example.com/other');
+      expect(rssService['feedConfigs'].get('stored').maxItems).toBe(5);
+    });
+
+    it('should only add the default feeds when there are no stored or given feeds', async () => {
+      const defaults = [{ name: 'news', url: 'https://example.com/news' }];
+      
+      await rssService.restore([], defaults);
+      expect(rssService.getFeedNames()).toEqual(['news']);
+      
+      const store = new MemoryFeedStore();
+      await store.saveFeed(storedFeed);
+      rssService = new RSSService([], { store });
+      await rssService.restore([], defaults);
+      expect(rssService.getFeedNames()).toEqual(['stored']);
+      
+      rssService = new RSSService([], { store: new MemoryFeedStore() });
+      await rssService.restore([{ name: 'given', url: 'https://example.com/given' }], defaults);
+      expect(rssService.getFeedNames()).toEqual(['given']);
+    });
+
+    it('should not bring back a removed default feed on restart', async () => {
+      const store = new MemoryFeedStore();
+      const defaults = [{ name: 'news', url: 'https://example.com/news' }];
+      rssService = new RSSService([], { store });
+      await rssService.restore([], defaults);
+      rssService.addFeed({ name: 'mine', url: 'https://example.com/mine' });
+      rssService.removeFeed('news');
+      await rssService.flush();
+      
+      rssService = new RSSService([], { store });
+      await rssService.restore([], defaults);
+      
+      expect(rssService.getFeedNames()).toEqual(['mine']);
+      expect(rssService.hasFeed('news')).toBe(false);
+    });
+
+    it('should keep items that scroll out of maxItems in the history', async () => {
+      const store = new MemoryFeedStore();
+      await store.saveFeed(storedFeed);
+      rssService = new RSSService([], { store });
+      
+      await rssService.restore();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService.getFeedItems('stored').map(item => item.guid)).toEqual(['1', '2']);
+      expect(rssService.getItemHistory('stored').map(item => item.guid)).toEqual(['1', '2', 'old']);
+      expect(rssService.searchFeeds('Old Article').length).toBe(1);
+    });
+
+    it('should prune history by age and count under the retention policy', async () => {
+      const store = new MemoryFeedStore();
+      const today = new Date().toISOString();
+      await store.saveFeed({
+        ...storedFeed,
+        items: [
+          { title: 'Recent A', guid: 'a', isoDate: today },
+          { title: 'Recent B', guid: 'b', isoDate: today },
+          { title: 'Undated', guid: 'c' },
+          { title: 'Ancient', guid: 'd', isoDate: '2000-01-01T00:00:00.000Z' }
+        ]
+      });
+      rssService = new RSSService([], { store, retention: { maxAgeDays: 7, maxItemsPerFeed: 2 } });
+      rssService['fetcher'].fetch.mockReturnValueOnce(new Promise(() => {}));
+      
+      await rssService.restore();
+      
+      expect(rssService.getItemHistory('stored').map(item => item.guid)).toEqual(['a', 'b']);
+    });
+
+    it('should remove a feed from the store', async () => {
+      const store = new MemoryFeedStore();
+      rssService = new RSSService([{ name: 'test', url: 'https://example.com/rss' }], { store });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      rssService.removeFeed('test');
+      await rssService.flush();
+      
+      await expect(store.load()).resolves.toEqual([]);
+    });
+  });
+
+  describe('new items', () => {
+    beforeEach(() => {
+      rssService['feedConfigs'].set('test', { name: 'test', url: 'https://example.com/rss' });
+      rssService['feedConfigs'].set('other', { name: 'other', url: 'https://example.com/other' });
+    });
+
+    it('should stamp items with the time they were first seen', async () => {
+      await rssService.fetchFeed('test');
+      
+      const [first] = rssService.getFeedItems('test');
+      expect(first.firstSeenAt).toBeDefined();
+      
+      const { items, seenThrough } = rssService.getNewItems();
+      expect(items.map(({ item }) => item.guid)).toEqual(['1', '2', '3']);
+      expect(seenThrough.toISOString()).toBe(first.firstSeenAt);
+    });
+
+    it('should only return items found after the watermark', async () => {
+      await rssService.fetchFeed('test');
+      const { seenThrough } = rssService.getNewItems();
+      const firstSeenAt = rssService.getFeedItems('test')[0].firstSeenAt;
+      
+      rssService['parser'].parseString.mockResolvedValueOnce({
+        ...mockParserResponse,
+        items: [{ title: 'Breaking Item', guid: '4' }, ...mockParserResponse.items]
+      });
+      await rssService.fetchFeed('test');
+      
+      const next = rssService.getNewItems(seenThrough);
+      expect(next.items).toEqual([{ feedName: 'test', item: expect.objectContaining({ guid: '4' }) }]);
+      expect(next.seenThrough.getTime()).toBeGreaterThan(seenThrough.getTime());
+      expect(rssService.getFeedItem('test', '1').firstSeenAt).toBe(firstSeenAt);
+      expect(rssService.getNewItems(next.seenThrough).items).toEqual([]);
+    });
+
+    it('should give items found by later fetches later times', async () => {
+      await rssService.fetchFeed('test');
+      await rssService.fetchFeed('other');
+      
+      const seen = ['test', 'other'].map(name => Date.parse(rssService.getFeedItems(name)[0].firstSeenAt));
+      expect(seen[1]).toBeGreaterThan(seen[0]);
+      expect(rssService.getNewItems(new Date(seen[0]), ['other', 'test']).items.map(({ feedName }) => feedName))
+        .toEqual(['other', 'other', 'other']);
+    });
+
+    it('should return at most limit items and resume right after the last one', async () => {
+      await rssService.fetchFeed('test');
+      await rssService.fetchFeed('other');
+      
+      const first = rssService.getNewItems(undefined, undefined, { limit: 2 });
+      expect(first.items.map(({ item }) => item.guid)).toEqual(['1', '2']);
+      expect(first.hasMore).toBe(true);
+      expect(first.lastItem).toEqual({ feedName: 'test', itemId: '2' });
+      expect(first.seenThrough.toISOString()).toBe(rssService.getFeedItem('test', '2').firstSeenAt);
+      
+      const second = rssService.getNewItems(first.seenThrough, undefined, { limit: 2, afterItem: first.lastItem });
+      expect(second.items.map(({ feedName, item }) => `${feedName}/${item.guid}`)).toEqual(['test/3', 'other/1']);
+      
+      const rest = rssService.getNewItems(second.seenThrough, undefined, { limit: 2, afterItem: second.lastItem });
+      expect(rest.items.map(({ feedName, item }) => `${feedName}/${item.guid}`)).toEqual(['other/2', 'other/3']);
+      expect(rest.hasMore).toBe(false);
+      expect(rest.lastItem).toBeUndefined();
+      expect(rssService.getNewItems(rest.seenThrough).items).toEqual([]);
+    });
+
+    it('should default to a bounded number of items', async () => {
+      const items = Array.from({ length: 60 }, (_, index) => ({ title: `Item ${index}`, guid: `${index}` }));
+      rssService['parser'].parseString.mockResolvedValueOnce({ ...mockParserResponse, items });
+      rssService['feedConfigs'].set('big', { name: 'big', url: 'https://example.com/big', maxItems: 100 });
+      await rssService.fetchFeed('big');
+      
+      const { items: page, hasMore } = rssService.getNewItems(undefined, ['big']);
+      expect(page).toHaveLength(DEFAULT_NEW_ITEMS_LIMIT);
+      expect(hasMore).toBe(true);
+    });
+
+    it('should only include the given feeds', async () => {
+      await rssService.fetchFeed('test');
+      await rssService.fetchFeed('other');
+      
+      const { items } = rssService.getNewItems(undefined, ['other']);
+      expect(items.map(({ feedName }) => feedName)).toEqual(['other', 'other', 'other']);
+    });
+
+    it('should treat stored items without a first-seen time as seen at the last successful fetch', async () => {
+      const store = new MemoryFeedStore();
+      await store.saveFeed({
+        config: { name: 'stored', url: 'https://example.com/rss' },
+        items: [{ title: 'Old Article', guid: 'old', isoDate: new Date().toISOString() }],
+        fetch: {
+          lastSuccessAt: '2025-04-03T12:00:00.000Z',
+          consecutiveFailures: 0,
+          fetchCount: 1,
+          notModifiedCount: 0,
+          errorCount: 0,
+          bytesReceived: 512
+        }
+      });
+      rssService = new RSSService([], { store });
+      rssService['fetcher'].fetch.mockReturnValueOnce(new Promise(() => {}));
+      
+      await rssService.restore();
+      
+      const { items, seenThrough } = rssService.getNewItems();
+      expect(items[0].item.firstSeenAt).toBe('2025-04-03T12:00:00.000Z');
+      expect(seenThrough.toISOString()).toBe('2025-04-03T12:00:00.000Z');
+    });
+  });
+
+  describe('fetch scheduling', () => {
+    it('should not start more fetches at once than the scheduler allows', async () => {
+      rssService = new RSSService([], { scheduler: { maxConcurrent: 3, maxPerHost: 2 } });
+      rssService['fetcher'].fetch.mockReturnValue(new Promise(() => {}));
+      
+      for (let index = 0; index < 10; index++) {
+        rssService.addFeed({ name: `feed-${index}`, url: `https://host-${index % 2}.example.com/rss` });
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      const queue = rssService.getFetchQueue();
+      expect(rssService['fetcher'].fetch).toHaveBeenCalledTimes(3);
+      expect(queue.running).toHaveLength(3);
+      expect(queue.queued).toHaveLength(7);
+    });
+
+    it('should refresh a feed on demand and resolve once it has been fetched', async () => {
+      rssService.addFeed({ name: 'test', url: 'https://example.com/rss' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      await rssService.refreshFeed('test');
+      
+      expect(rssService['fetcher'].fetch).toHaveBeenCalledTimes(2);
+      expect(rssService.getFetchStats('test').fetchCount).toBe(2);
+    });
+
+    it('should reject refreshes of unknown feeds', async () => {
+      await expect(rssService.refreshFeed('nonexistent')).rejects.toThrow("No feed with name 'nonexistent' found");
+    });
+  });
+
+  describe('refresh intervals', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+    const undatedItems = mockParserResponse.items.map(({ title, guid }) => ({ title, guid }));
+
+    // Milliseconds from now until the scheduled refresh
+    function nextFetchDelay(feedName: string): number {
+      return Date.parse(rssService.getFeedHealth(feedName).nextFetchAt) - Date.now();
+    }
+
+    beforeEach(() => {
+      rssService = new RSSService([], { scheduler: { jitter: 0 } });
+    });
+
+    it('should not refresh more often than the feed ttl allows', async () => {
+      rssService['feedConfigs'].set('test', { name: 'test', url: 'https://example.com/rss', refreshInterval: 60000 });
+      rssService['parser'].parseString.mockResolvedValueOnce({ ...mockParserResponse, ttl: '120', items: undatedItems });
+      
+      await rssService.fetchFeed('test');
+      
+      expect(rssService.getRefreshHints('test')).toEqual({ ttl: 2 * HOUR_MS });
+      expect(rssService.getFeedHealth('test').refreshInterval).toBe(2 * HOUR_MS);
+      expect(nextFetchDelay('test')).toBeGreaterThan(2 * HOUR_MS - 1000);
+    });
+
+    it('should ignore feed hints for feeds with a fixed refresh interval', async () => {
+      rssService['feedConfigs'].set('test', {
+        name: 'test',
+        url: 'https://example.com/rss',
+        refreshInterval: 60000,
+        refreshMode: 'fixed'
+      });
+      rssService['parser'].parseString.mockResolvedValueOnce({ ...mockParserResponse, ttl: '120' });
+      
+      await rssService.fetchFeed('test');
+      
+      expect(rssService.getRefreshInterval('test')).toBe(60000);
+      expect(nextFetchDelay('test')).toBeLessThanOrEqual(60000);
+    });
+
+    it('should adapt the interval to how often the feed publishes', async () => {
+      const now = Date.now();
+      const items = [0, 1, 2, 3].map(index => ({
+        title: `Item ${index}`,
+        guid: `${index}`,
+        isoDate: new Date(now - index * 4 * HOUR_MS).toISOString()
+      }));
+      rssService['feedConfigs'].set('test', { name: 'test', url: 'https://example.com/rss', refreshInterval: 60000 });
+      rssService['parser'].parseString.mockResolvedValueOnce({ ...mockParserResponse, items });
+      
+      await rssService.fetchFeed('test');
+      
+      expect(rssService.getRefreshInterval('test')).toBe(2 * HOUR_MS);
+    });
+
+    it('should not poll a busy feed more often than its configured interval', async () => {
+      const now = Date.now();
+      const items = [0, 1, 2, 3].map(index => ({
+        title: `Item ${index}`,
+        guid: `${index}`,
+        isoDate: new Date(now - index * 1000).toISOString()
+      }));
+      rssService['feedConfigs'].set('test', { name: 'test', url: 'https://example.com/rss', refreshInterval: HOUR_MS });
+      rssService['feedConfigs'].set('default', { name: 'default', url: 'https://example.com/default', refreshInterval: DEFAULT_REFRESH_INTERVAL });
+      rssService['parser'].parseString.mockResolvedValue({ ...mockParserResponse, items });
+      
+      await rssService.fetchFeed('test');
+      await rssService.fetchFeed('default');
+      
+      expect(rssService.getRefreshInterval('test')).toBe(HOUR_MS);
+      expect(rssService.getRefreshInterval('default')).toBe(60000);
+    });
+
+    it('should defer refreshes past the hours the feed asks to skip', async () => {
+      const skippedHour = new Date(Date.now() + 60000).getUTCHours();
+      rssService['feedConfigs'].set('test', { name: 'test', url: 'https://example.com/rss', refreshInterval: 60000 });
+      rssService['parser'].parseString.mockResolvedValueOnce({
+        ...mockParserResponse,
+        items: undatedItems,
+        skipHours: { hour: [`${skippedHour}`] }
+      });
+      
+      await rssService.fetchFeed('test');
+      
+      const nextFetchAt = new Date(rssService.getFeedHealth('test').nextFetchAt);
+      expect(nextFetchAt.getUTCHours()).toBe((skippedHour + 1) % 24);
+      expect(nextFetchAt.getUTCMinutes()).toBe(0);
+    });
+
+    it('should restore feed hints from the store', async () => {
+      const store = new MemoryFeedStore();
+      await store.saveFeed({
+        config: { name: 'stored', url: 'https://example.com/rss' },
+        channel: {
+          title: 'Stored Feed',
+          feedUrl: 'https://example.com/rss',
+          lastUpdated: '2025-04-03T12:00:00.000Z',
+          refreshHints: { ttl: HOUR_MS }
+        },
+        items: [],
+        fetch: { consecutiveFailures: 0, fetchCount: 1, notModifiedCount: 0, errorCount: 0, bytesReceived: 512 }
+      });
+      rssService = new RSSService([], { store });
+      rssService['fetcher'].fetch.mockReturnValueOnce(new Promise(() => {}));
+      
+      await rssService.restore();
+      
+      expect(rssService.getRefreshHints('stored')).toEqual({ ttl: HOUR_MS });
+      expect(rssService.getFeed('stored')).not.toHaveProperty('refreshHints');
+    });
+  });
+
+  describe('health and backoff', () => {
+    const errorFeed = { name: 'error', url: 'https://example.com/error', refreshInterval: 1000 };
+
+    // Milliseconds between the last failure and the scheduled retry
+    function retryDelay(): number {
+      const health = rssService.getFeedHealth('error');
+      return Date.parse(health.nextFetchAt) - Date.parse(health.lastErrorAt);
+    }
+
+    it('should report a feed as pending until its first fetch completes', () => {
+      rssService['feedConfigs'].set('new', { name: 'new', url: 'https://example.com/rss' });
+      expect(rssService.getFeedHealth('new').status).toBe('pending');
+    });
+
+    it('should report healthy feeds with their last success and HTTP status', async () => {
+      rssService.addFeed({ name: 'test', url: 'https://example.com/rss' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      const health = rssService.getFeedHealth('test');
+      expect(health.status).toBe('healthy');
+      expect(health.consecutiveFailures).toBe(0);
+      expect(health.lastSuccessAt).toBeDefined();
+      expect(health.lastStatus).toBe(200);
+      expect(health.nextFetchAt).toBeDefined();
+    });
+
+    it('should back off exponentially up to the cap while a feed keeps failing', async () => {
+      rssService = new RSSService([], { backoff: { maxInterval: 3000 }, scheduler: { jitter: 0 }, refresh: { minInterval: 1000 } });
+      rssService.addFeed(errorFeed);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      expect(rssService.getFeedHealth('error')).toEqual(expect.objectContaining({
+        status: 'failing',
+        consecutiveFailures: 1,
+        lastError: 'Failed to fetch RSS feed'
+      }));
+      expect(retryDelay()).toBeGreaterThanOrEqual(1900);
+      expect(retryDelay()).toBeLessThanOrEqual(2100);
+      
+      await expect(rssService.fetchFeed('error')).rejects.toThrow();
+      expect(retryDelay()).toBeGreaterThanOrEqual(2900);
+      expect(retryDelay()).toBeLessThanOrEqual(3100);
+    });
+
+    it('should clear the failure streak after a successful fetch', async () => {
+      rssService.addFeed(errorFeed);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      rssService['fetcher'].fetch.mockResolvedValueOnce(mockFetchResult);
+      await rssService.fetchFeed('error');
+      
+      const health = rssService.getFeedHealth('error');
+      expect(health.status).toBe('healthy');
+      expect(health.consecutiveFailures).toBe(0);
+      expect(health.lastError).toBe('Failed to fetch RSS feed');
+    });
+
+    it('should pause a feed after too many consecutive failures until it is added again', async () => {
+      rssService = new RSSService([], { backoff: { pauseAfterFailures: 2 } });
+      rssService.addFeed(errorFeed);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await expect(rssService.fetchFeed('error')).rejects.toThrow();
+      
+      const health = rssService.getFeedHealth('error');
+      expect(health.status).toBe('paused');
+      expect(health.pausedAt).toBeDefined();
+      expect(health.nextFetchAt).toBeUndefined();
+      expect(rssService.getFetchQueue().scheduled).toEqual([]);
+      
+      rssService.addFeed(errorFeed);
+      expect(rssService.getFeedHealth('error').status).not.toBe('paused');
+      expect(rssService.getFeedHealth('error').nextFetchAt).toBeDefined();
+    });
+
+    it('should keep paused feeds paused across restarts', async () => {
+      const store = new MemoryFeedStore();
+      await store.saveFeed({
+        config: { name: 'paused', url: 'https://example.com/rss', refreshInterval: 1000, maxItems: 20 },
+        items: [],
+        fetch: {
+          pausedAt: '2025-04-03T12:00:00.000Z',
+          consecutiveFailures: 10,
+          fetchCount: 10,
+          notModifiedCount: 0,
+          errorCount: 10,
+          bytesReceived: 0
+        }
+      });
+      rssService = new RSSService([], { store });
+      
+      await rssService.restore();
+      
+      expect(rssService.hasFeed('paused')).toBe(true);
+      expect(rssService.getFeedHealth('paused').status).toBe('paused');
+      expect(rssService['fetcher'].fetch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for the full-text search index
+ */
+import { SearchIndex } from '../../src/services/search-index';
+import { FeedItem } from '../../src/types/rss';
+import { SearchQueryError } from '../../src/utils/search-query';
+
+const markets: FeedItem[] = [
+  {
+    title: 'Central bank signals rate cut',
+    guid: 'm1',
+    author: 'Jane Doe',
+    categories: ['Economy'],
+    isoDate: '2025-04-03T10:00:00.000Z',
+    content: '<p>The <b>Fed</b> hinted at a rate cut as inflation cooled.</p>'
+  },
+  {
+    title: 'Opinion: cut the noise',
+    guid: 'm2',
+    author: 'John Roe',
+    categories: ['Opinion'],
+    isoDate: '2025-04-02T10:00:00.000Z',
+    content: 'Markets overreact to every rate decision. Cut through it.'
+  },
+  {
+    title: 'ECB holds steady',
+    guid: 'm3',
+    author: 'Jane Doe',
+    categories: ['Economy'],
+    isoDate: '2025-03-20T10:00:00.000Z',
+    content: 'The ECB kept its rate unchanged while inflationary pressure eased.'
+  }
+];
+
+const tech: FeedItem[] = [
+  {
+    title: 'New laptop review',
+    guid: 't1',
+    isoDate: '2025-04-04T10:00:00.000Z',
+    contentSnippet: 'A fast machine with a poor keyboard.'
+  }
+];
+
+function titles(index: SearchIndex, query: string, options = {}): string[] {
+  return index.search(query, options).results.map(result => result.item.title);
+}
+
+describe('SearchIndex', () => {
+  let index: SearchIndex;
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    index.indexFeed('markets', markets);
+    index.indexFeed('tech', tech);
+  });
+
+  it('should rank title matches above body matches', () => {
+    expect(titles(index, 'cut')).toEqual(['Opinion: cut the noise', 'Central bank signals rate cut']);
+  });
+
+  it('should match phrases only where the words are adjacent', () => {
+    expect(titles(index, '"rate cut"')).toEqual(['Central bank signals rate cut']);
+  });
+
+  it('should combine boolean operators, prefixes and negation', () => {
+    expect(titles(index, 'rate AND (fed OR ecb) -opinion').sort()).toEqual(['Central bank signals rate cut', 'ECB holds steady']);
+    expect(titles(index, 'inflation*').sort()).toEqual(['Central bank signals rate cut', 'ECB holds steady']);
+    expect(titles(index, 'NOT rate')).toEqual(['New laptop review']);
+  });
+
+  it('should apply filters from the query and from options', () => {
+    expect(titles(index, 'rate author:jane category:economy after:2025-04-01')).toEqual(['Central bank signals rate cut']);
+    expect(titles(index, 'feed:TECH')).toEqual(['New laptop review']);
+    expect(titles(index, '', { feedNames: ['markets'], before: '2025-04-01' })).toEqual(['ECB holds steady']);
+  });
+
+  it('should sort filter-only queries newest first and report the total before the limit', () => {
+    const search = index.search('', { limit: 2 });
+    expect(search.total).toBe(4);
+    expect(search.results.map(result => result.item.guid)).toEqual(['t1', 'm1']);
+  });
+
+  it('should return plain-text snippets with the matches in bold', () => {
+    const [result] = index.search('"rate cut" fed').results;
+    expect(result.feedName).toBe('markets');
+    expect(result.score).toBeGreaterThan(0);
+    expect(result.snippet).toBe('The **Fed** hinted at a **rate** **cut** as inflation cooled.');
+  });
+
+  it('should reject dates it cannot parse', () => {
+    expect(() => index.search('after:yesterday')).toThrow(SearchQueryError);
+  });
+
+  it('should filter on attached media', () => {
+    index.indexFeed('podcast', [
+      { title: 'Episode 1', guid: 'p1', enclosures: [{ url: 'https://example.com/1.mp3', type: 'audio/mpeg' }] },
+      { title: 'Episode 1 video', guid: 'p2', enclosures: [{ url: 'https://example.com/1.mp4' }] },
+      { title: 'Cover art', guid: 'p3', enclosures: [{ url: 'https://example.com/cover', medium: 'image' }] }
+    ]);
+
+    expect(titles(index, 'has:audio')).toEqual(['Episode 1']);
+    expect(titles(index, 'episode has:media -has:video')).toEqual(['Episode 1']);
+    expect(titles(index, '', { has: 'image' })).toEqual(['Cover art']);
+    expect(() => index.search('has:pdf')).toThrow("Invalid value for has: 'pdf'");
+  });
+
+  it('should index items with character references it cannot decode', () => {
+    index.indexFeed('broken', [{ title: 'Odd &#99999999; entity', guid: 'b1', content: '<p>Still &#x110000; searchable</p>' }]);
+
+    expect(titles(index, 'searchable')).toEqual(['Odd &#99999999; entity']);
+  });
+
+  it('should follow changes to a feed', () => {
+    index.indexFeed('markets', [{ ...markets[0], title: 'Central bank holds' }, markets[2]]);
+    expect(titles(index, 'signals')).toEqual([]);
+    expect(titles(index, 'holds')).toEqual(['Central bank holds', 'ECB holds steady']);
+
+    index.removeFeed('markets');
+    expect(titles(index, 'rate')).toEqual([]);
+    expect(index['postings'].has('ecb')).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the search query parser
+ */
+import { parseSearchQuery, toPlainText, tokenize } from '../../src/utils/search-query';
+
+describe('Search query', () => {
+  describe('toPlainText and tokenize', () => {
+    it('should strip markup and decode entities', () => {
+      expect(toPlainText('<p>Fish &amp; chips&nbsp;&#8364;5</p>')).toBe('Fish & chips €5');
+    });
+
+    it('should leave character references outside the Unicode range as they are', () => {
+      expect(toPlainText('Broken &#99999999; and &#x110000; references')).toBe('Broken &#99999999; and &#x110000; references');
+    });
+
+    it('should split text into lowercase words', () => {
+      expect(tokenize('Rate-cut hopes: ECB, Fed & BoE (2025)')).toEqual(['rate', 'cut', 'hopes', 'ecb', 'fed', 'boe', '2025']);
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should AND adjacent words', () => {
+      expect(parseSearchQuery('Rate cut')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', value: 'rate', prefix: false },
+          { type: 'term', value: 'cut', prefix: false }
+        ]
+      });
+    });
+
+    it('should parse phrases, prefixes and negation', () => {
+      expect(parseSearchQuery('"rate cut" infla* -opinion')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'phrase', terms: ['rate', 'cut'] },
+          { type: 'term', value: 'infla', prefix: true },
+          { type: 'not', child: { type: 'term', value: 'opinion', prefix: false } }
+        ]
+      });
+    });
+
+    it('should bind AND tighter than OR and respect parentheses', () => {
+      expect(parseSearchQuery('a b OR c')).toEqual({
+        type: 'or',
+        children: [
+          { type: 'and', children: [{ type: 'term', value: 'a', prefix: false }, { type: 'term', value: 'b', prefix: false }] },
+          { type: 'term', value: 'c', prefix: false }
+        ]
+      });
+      expect(parseSearchQuery('a AND (b OR NOT c)')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', value: 'a', prefix: false },
+          {
+            type: 'or',
+            children: [
+              { type: 'term', value: 'b', prefix: false },
+              { type: 'not', child: { type: 'term', value: 'c', prefix: false } }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should parse field filters, including quoted values', () => {
+      expect(parseSearchQuery('feed:"tech news" -category:Sports after:2025-04-01')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'filter', field: 'feed', value: 'tech news' },
+          { type: 'not', child: { type: 'filter', field: 'category', value: 'Sports' } },
+          { type: 'filter', field: 'after', value: '2025-04-01' }
+        ]
+      });
+    });
+
+    it('should treat lowercase operators and unknown fields as words', () => {
+      expect(parseSearchQuery('cats or dogs')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'term', value: 'cats', prefix: false },
+          { type: 'term', value: 'or', prefix: false },
+          { type: 'term', value: 'dogs', prefix: false }
+        ]
+      });
+      expect(parseSearchQuery('http:example')).toEqual({ type: 'phrase', terms: ['http', 'example'] });
+    });
+
+    it('should match everything for an empty query and tolerate stray operators', () => {
+      expect(parseSearchQuery('   ')).toEqual({ type: 'all' });
+      expect(parseSearchQuery('OR ) fed (')).toEqual({ type: 'term', value: 'fed', prefix: false });
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Unit tests for source adapters and their registry, with RSSService against a local HTTP server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HtmlSelectorSource } from '../../src/sources/html-source';
+import { SourceRegistry, UnknownSourceTypeError } from '../../src/sources/registry';
+import { SitemapSource } from '../../src/sources/sitemap-source';
+import { RSSService } from '../../src/services/rss-service';
+import { SourceAdapter } from '../../src/types/source';
+
+const SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:news="http://www.google.com/schemas/sitemap-news/0.9">
+  <url><loc>https://example.com/</loc></url>
+  <url><loc>https://example.com/blog/old-post</loc><lastmod>2025-03-01</lastmod></url>
+  <url>
+    <loc>https://example.com/blog/new-post?a=1&amp;b=2</loc>
+    <lastmod>2025-04-01T12:00:00+02:00</lastmod>
+    <news:news><news:title><![CDATA[A <new> post]]></news:title></news:news>
+  </url>
+  <url><loc>https://example.com/about</loc><lastmod>2025-02-01</lastmod></url>
+</urlset>`;
+
+const PAGE = `<html><head><title>Releases</title><meta name="description" content="Product releases"><base href="/releases/"></head>
+<body>
+  <article class="release"><h2>Version 2.0</h2><a href="v2">Notes</a><time datetime="2025-04-02T09:00:00Z">April 2</time><p class="summary">Big <b>changes</b></p><span class="by">Ada</span></article>
+  <article class="release"><h2>Version 1.0</h2><a href="https://example.org/v1">Notes</a><p class="summary">First</p></article>
+  <article class="release"><p>Nothing to identify</p></article>
+</body></html>`;
+
+const PODCAST = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>The Show</title>
+    <item>
+      <title>Episode 12</title>
+      <guid>ep12</guid>
+      <enclosure url="https://cdn.example.com/ep12.mp3" length="40478720" type="audio/mpeg"/>
+      <itunes:duration>42:10</itunes:duration>
+      <itunes:episode>12</itunes:episode>
+      <itunes:season>2</itunes:season>
+      <itunes:episodeType>full</itunes:episodeType>
+      <itunes:explicit>clean</itunes:explicit>
+      <itunes:keywords>news, tech</itunes:keywords>
+      <itunes:image href="https://cdn.example.com/ep12.jpg"/>
+      <media:content url="https://cdn.example.com/ep12.mp3" type="audio/mpeg"/>
+    </item>
+    <item>
+      <title>Trailer</title>
+      <guid>trailer</guid>
+      <media:group>
+        <media:content url="https://cdn.example.com/trailer.mp4" type="video/mp4" fileSize="1048576" duration="95" medium="video"/>
+        <media:thumbnail url="https://cdn.example.com/trailer.jpg"/>
+      </media:group>
+    </item>
+  </channel>
+</rss>`;
+
+describe('Source adapters', () => {
+  describe('SitemapSource', () => {
+    const source = new SitemapSource();
+
+    it('should turn pages into items, newest first, titled by news:title or path', async () => {
+      const document = await source.parse({ body: SITEMAP, url: 'https://example.com/sitemap.xml' }, { name: 'site', url: 'https://example.com/sitemap.xml' });
+
+      expect(document.title).toBe('Sitemap of example.com');
+      expect(document.items.map(item => [item.title, item.link, item.isoDate])).toEqual([
+        ['A <new> post', 'https://example.com/blog/new-post?a=1&b=2', '2025-04-01T10:00:00.000Z'],
+        ['/blog/old-post', 'https://example.com/blog/old-post', '2025-03-01T00:00:00.000Z'],
+        ['/about', 'https://example.com/about', '2025-02-01T00:00:00.000Z'],
+        ['https://example.com/', 'https://example.com/', undefined]
+      ]);
+      expect(document.items[0].guid).toBe(document.items[0].link);
+    });
+
+    it('should keep only pages under pathPrefix and list the sitemaps of an index', async () => {
+      const filtered = await source.parse(
+        { body: SITEMAP, url: 'https://example.com/sitemap.xml' },
+        { name: 'blog', url: 'https://example.com/sitemap.xml', options: { pathPrefix: '/blog/' } }
+      );
+      expect(filtered.items.map(item => item.title)).toEqual(['A <new> post', '/blog/old-post']);
+
+      const index = await source.parse(
+        { body: '<sitemapindex><sitemap><loc>https://example.com/posts.xml</loc><lastmod>2025-04-01</lastmod></sitemap></sitemapindex>', url: 'https://example.com/sitemap.xml' },
+        { name: 'index', url: 'https://example.com/sitemap.xml' }
+      );
+      expect(index.items.map(item => item.link)).toEqual(['https://example.com/posts.xml']);
+    });
+
+    it('should reject documents that are not sitemaps', async () => {
+      await expect(source.parse({ body: '<rss></rss>', url: 'https://example.com/' }, { name: 'x', url: 'https://example.com/' })).rejects.toThrow('Not a sitemap');
+    });
+  });
+
+  describe('HtmlSelectorSource', () => {
+    const source = new HtmlSelectorSource();
+
+    it('should scrape items with the configured selectors', async () => {
+      const document = await source.parse(
+        { body: PAGE, url: 'https://example.com/products/' },
+        { name: 'releases', url: 'https://example.com/products/', options: { item: 'article.release', content: '.summary', author: '.by' } }
+      );
+
+      expect(document).toEqual(expect.objectContaining({ title: 'Releases', description: 'Product releases', link: 'https://example.com/products/' }));
+      expect(document.items).toEqual([
+        {
+          title: 'Version 2.0',
+          link: 'https://example.com/releases/v2',
+          guid: 'https://example.com/releases/v2',
+          content: 'Big <b>changes</b>',
+          contentSnippet: 'Big changes',
+          author: 'Ada',
+          pubDate: '2025-04-02T09:00:00Z',
+          isoDate: '2025-04-02T09:00:00.000Z'
+        },
+        expect.objectContaining({ title: 'Version 1.0', link: 'https://example.org/v1', contentSnippet: 'First', pubDate: undefined })
+      ]);
+    });
+
+    it('should use links as items and count only the outermost matches', async () => {
+      const document = await source.parse(
+        { body: '<body><div class="x"><a href="/a">A</a><div class="x"><a href="/b">B</a></div></div><a href="/c">C</a></body>', url: 'https://example.com/' },
+        { name: 'links', url: 'https://example.com/', options: { item: 'body > a, .x' } }
+      );
+
+      expect(document.items.map(item => [item.title, item.link])).toEqual([['A', 'https://example.com/a'], ['C', 'https://example.com/c']]);
+    });
+
+    it('should require an item selector and reject unsupported selectors', () => {
+      expect(() => source.validateOptions({})).toThrow("needs an 'item' selector");
+      expect(() => source.validateOptions({ item: 'li', title: 'h2 ~ p' })).toThrow('Unsupported combinator');
+    });
+  });
+
+  describe('SourceRegistry', () => {
+    it('should look adapters up by type, defaulting to feed, and let later ones replace earlier ones', () => {
+      const first: SourceAdapter = { type: 'feed', description: 'First', parse: async () => ({ items: [] }) };
+      const second: SourceAdapter = { ...first, description: 'Second' };
+      const registry = new SourceRegistry([first, new SitemapSource(), second]);
+
+      expect(registry.get().description).toBe('Second');
+      expect(registry.types()).toEqual(['feed', 'sitemap']);
+      expect(() => registry.get('mastodon')).toThrow(UnknownSourceTypeError);
+      expect(() => registry.get('mastodon')).toThrow("Unknown source type 'mastodon'. Available types: feed, sitemap");
+      expect(() => registry.register({ type: '' } as SourceAdapter)).toThrow('needs a type and a parse function');
+    });
+  });
+
+  describe('with RSSService', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let rssService: RSSService;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/sitemap.xml') {
+          res.writeHead(200, { 'Content-Type': 'application/xml' }).end(SITEMAP);
+        } else if (req.url === '/podcast.xml') {
+          res.writeHead(200, { 'Content-Type': 'application/rss+xml' }).end(PODCAST);
+        } else if (req.url === '/atom.xml') {
+          res.writeHead(200, { 'Content-Type': 'application/atom+xml' }).end(`<feed xmlns="http://www.w3.org/2005/Atom"><title>Talks</title>
+            <entry><title>Keynote</title><id>keynote</id><link href="https://example.com/keynote"/>
+            <link rel="enclosure" href="https://example.com/keynote.webm" type="video/webm" length="2048" title="Recording"/></entry></feed>`);
+        } else if (req.url === '/page') {
+          res.writeHead(200, { 'Content-Type': 'text/html' }).end(PAGE);
+        } else if (req.url === '/outbox') {
+          res.writeHead(200, { 'Content-Type': 'application/activity+json' }).end(JSON.stringify({
+            orderedItems: [{ id: 'https://social.example/1', object: { content: '<p>Toot</p>', published: '2025-04-01T00:00:00Z' } }]
+          }));
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      rssService = new RSSService([], { validationTimeout: 200 });
+    });
+
+    it('should fetch feeds through the adapter their type selects', async () => {
+      rssService['feedConfigs'].set('site', { name: 'site', url: `${baseUrl}/sitemap.xml`, type: 'sitemap', maxItems: 2 });
+      rssService['feedConfigs'].set('releases', { name: 'releases', url: `${baseUrl}/page`, type: 'html', options: { item: 'article' } });
+
+      await rssService.fetchFeed('site');
+      await rssService.fetchFeed('releases');
+
+      expect(rssService.getFeedItems('site').map(item => item.title)).toEqual(['A <new> post', '/blog/old-post']);
+      expect(rssService.getFeed('releases')!.title).toBe('Releases');
+      expect(rssService.getFeedItems('releases').map(item => item.link)).toEqual([`${baseUrl}/releases/v2`, 'https://example.org/v1']);
+    });
+
+    it('should use adapters registered by plugins', async () => {
+      const outbox: SourceAdapter = {
+        type: 'outbox',
+        description: 'ActivityPub outbox',
+        parse: async ({ body }) => ({
+          title: 'Outbox',
+          items: JSON.parse(body).orderedItems.map((activity: { id: string; object: { content: string; published: string } }) => ({
+            title: 'Post',
+            guid: activity.id,
+            content: activity.object.content,
+            isoDate: activity.object.published
+          }))
+        })
+      };
+      rssService.registerSource(outbox);
+      rssService['feedConfigs'].set('social', { name: 'social', url: `${baseUrl}/outbox`, type: 'outbox' });
+
+      await rssService.fetchFeed('social');
+
+      expect(rssService.getSourceAdapters().map(adapter => adapter.type)).toEqual(['feed', 'sitemap', 'html', 'outbox']);
+      expect(rssService.getFeedItems('social')).toEqual([expect.objectContaining({ guid: 'https://social.example/1', content: '<p>Toot</p>' })]);
+    });
+
+    it('should keep enclosures, thumbnails and iTunes episode details of feed items', async () => {
+      rssService['feedConfigs'].set('show', { name: 'show', url: `${baseUrl}/podcast.xml` });
+      rssService['feedConfigs'].set('talks', { name: 'talks', url: `${baseUrl}/atom.xml` });
+
+      await rssService.fetchFeed('show');
+      await rssService.fetchFeed('talks');
+
+      const [episode, trailer] = rssService.getFeedItems('show');
+      expect(episode.enclosures).toEqual([{ url: 'https://cdn.example.com/ep12.mp3', type: 'audio/mpeg', length: 40478720 }]);
+      expect(episode.thumbnail).toBe('https://cdn.example.com/ep12.jpg');
+      expect(episode.itunes).toEqual({ duration: 2530, episode: 12, season: 2, episodeType: 'full', explicit: false, keywords: ['news', 'tech'] });
+      expect(trailer).toEqual(expect.objectContaining({
+        enclosures: [{ url: 'https://cdn.example.com/trailer.mp4', type: 'video/mp4', length: 1048576, duration: 95, medium: 'video' }],
+        thumbnail: 'https://cdn.example.com/trailer.jpg'
+      }));
+      expect(trailer.itunes).toBeUndefined();
+      expect(rssService.getFeedItems('talks')[0].enclosures).toEqual([
+        { url: 'https://example.com/keynote.webm', type: 'video/webm', length: 2048, title: 'Recording' }
+      ]);
+      expect(rssService.search('has:audio').results.map(result => result.item.title)).toEqual(['Episode 12']);
+    });
+
+    it('should reject feeds with an unknown type or unusable options', () => {
+      expect(() => rssService.addFeed({ name: 'x', url: `${baseUrl}/page`, type: 'nope' })).toThrow("Unknown source type 'nope'");
+      expect(() => rssService.addFeed({ name: 'x', url: `${baseUrl}/page`, type: 'html' })).toThrow("needs an 'item' selector");
+      expect(rssService.hasFeed('x')).toBe(false);
+    });
+
+    it('should preview a source without adding it', async () => {
+      const document = await rssService.previewSource({ name: 'preview', url: `${baseUrl}/page`, type: 'html', options: { item: 'article' } });
+
+      expect(document.items).toHaveLength(2);
+      expect(rssService.hasFeed('preview')).toBe(false);
+    });
+  });
+});
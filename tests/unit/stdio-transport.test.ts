@@ -0,0 +1,56 @@
+/**
+ * Unit tests for the stdio transport
+ */
+import { PassThrough } from 'stream';
+import { server as mcpSdk } from '../../src/adapters/mcpSdkAdapter';
+import { RSSService } from '../../src/services/rss-service';
+import { StoredFeed } from '../../src/types/storage';
+
+describe('StdioServerTransport', () => {
+  let stdin: PassThrough;
+  let stdout: PassThrough;
+  let output: string[];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    stdin = new PassThrough();
+    stdout = new PassThrough();
+    output = [];
+    stdout.setEncoding('utf8');
+    stdout.on('data', (chunk: string) => output.push(...chunk.trim().split('\n')));
+  });
+
+  afterEach(() => {
+    stdin.destroy();
+    jest.restoreAllMocks();
+  });
+
+  it('should answer an initialize sent while stored feeds are still being restored', async () => {
+    // Restore waits on the store until the test lets it finish, as on a slow disk
+    let finishLoad: (feeds: StoredFeed[]) => void = () => {};
+    const rssService = new RSSService([], {
+      store: {
+        load: () => new Promise(resolve => { finishLoad = resolve; }),
+        saveFeed: async () => {},
+        removeFeed: async () => {}
+      }
+    });
+    const server = new mcpSdk.McpServer({ name: 'test-server', version: '1.0.0' });
+
+    // Same order as main(): the transport exists before restore, and connects after it
+    const transport = new mcpSdk.StdioServerTransport(stdin, stdout);
+    const restored = rssService.restore();
+    stdin.write(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }) + '\n');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(output).toEqual([]);
+
+    finishLoad([]);
+    await restored;
+    await server.connect(transport);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(output.map(line => JSON.parse(line))).toEqual([
+      expect.objectContaining({ jsonrpc: '2.0', id: 1, result: expect.objectContaining({ serverInfo: { name: 'test-server', version: '1.0.0' } }) })
+    ]);
+  });
+});